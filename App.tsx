@@ -7,6 +7,10 @@ import Layout from './components/Layout';
 import Home from './pages/Home';
 import Search from './pages/Search';
 import Library from './pages/Library';
+import Artist from './pages/Artist';
+import Album from './pages/Album';
+import Discover from './pages/Discover';
+import PlaylistDetail from './pages/PlaylistDetail';
 
 const App: React.FC = () => {
   return (
@@ -19,6 +23,10 @@ const App: React.FC = () => {
                 <Route path="/" element={<Home />} />
                 <Route path="/search" element={<Search />} />
                 <Route path="/library" element={<Library />} />
+                <Route path="/artist/:source/:id" element={<Artist />} />
+                <Route path="/album/:source/:id" element={<Album />} />
+                <Route path="/discover" element={<Discover />} />
+                <Route path="/playlist/:source/:id" element={<PlaylistDetail />} />
                 <Route path="*" element={<Navigate to="/" replace />} />
               </Routes>
             </Layout>
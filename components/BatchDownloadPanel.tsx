@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from "react";
+import { Song } from "../types";
+import { useToast } from "./ToastHost";
+import { DownloadIcon } from "./Icons";
+import {
+  cancelBatchDownload,
+  finishBatchDownload,
+  getBatchDownloadState,
+  getBatchThrottleDelay,
+  retryBatchItem,
+  skipBatchItem,
+  startBatchDownload,
+  subscribeBatchDownload,
+  type BatchItemStatus,
+} from "../services/batchDownload";
+import { GD_STUDIO_RATE_LIMIT_HINT } from "../utils/musicSource";
+
+interface BatchDownloadPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  songs: Song[];
+}
+
+const QUALITY_OPTIONS = [
+  { id: "128k", label: "标准" },
+  { id: "320k", label: "高品质" },
+  { id: "flac", label: "无损" },
+];
+
+const STATUS_LABEL: Record<BatchItemStatus, string> = {
+  pending: "等待中",
+  running: "下载中",
+  done: "已完成",
+  failed: "失败",
+  skipped: "已跳过",
+};
+
+const STATUS_CLASS: Record<BatchItemStatus, string> = {
+  pending: "text-gray-400",
+  running: "text-blue-500",
+  done: "text-green-600",
+  failed: "text-ios-red",
+  skipped: "text-gray-400",
+};
+
+/** 订阅批量下载任务状态，Library 入口按钮也用它显示进度 */
+export const useBatchDownloadState = () => {
+  const [state, setState] = useState(getBatchDownloadState);
+  useEffect(
+    () => subscribeBatchDownload(() => setState(getBatchDownloadState())),
+    [],
+  );
+  return state;
+};
+
+const BatchDownloadPanel: React.FC<BatchDownloadPanelProps> = ({ isOpen, onClose, title, songs }) => {
+  const { showToast } = useToast();
+  const state = useBatchDownloadState();
+  const [quality, setQuality] = useState("320k");
+  const [throttleDelay, setThrottleDelay] = useState(0);
+
+  const isActive = state?.phase === "running";
+
+  // 下载进行中时刷新频控等待时间
+  useEffect(() => {
+    if (!isOpen || !isActive) {
+      setThrottleDelay(0);
+      return;
+    }
+    const timer = window.setInterval(() => setThrottleDelay(getBatchThrottleDelay()), 1000);
+    return () => window.clearInterval(timer);
+  }, [isOpen, isActive]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = "hidden";
+      return () => { document.body.style.overflow = ""; };
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleStart = async () => {
+    try {
+      await startBatchDownload(title, songs, quality);
+    } catch (error: any) {
+      if (error?.name === "AbortError") return;
+      showToast(error?.message || "无法开始下载", "error");
+    }
+  };
+
+  const handleCancel = () => {
+    if (state && (state.phase === "running" || state.phase === "waiting")) {
+      if (!window.confirm("确定取消批量下载吗？已下载的歌曲不会保存。")) return;
+    }
+    cancelBatchDownload();
+  };
+
+  const counts = state
+    ? state.items.reduce(
+        (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+        { pending: 0, running: 0, done: 0, failed: 0, skipped: 0 } as Record<BatchItemStatus, number>,
+      )
+    : null;
+  const total = state?.items.length || 0;
+  const finishedCount = counts ? counts.done + counts.failed + counts.skipped : 0;
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black/40 z-[70] backdrop-blur-sm transition-opacity touch-auto"
+        onClick={onClose}
+      />
+
+      <div className="fixed bottom-0 left-0 right-0 bg-white rounded-t-3xl z-[71] p-6 pb-safe shadow-2xl animate-slide-up touch-auto max-h-[85vh] flex flex-col">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-10 h-10 bg-ios-red/10 text-ios-red rounded-full flex items-center justify-center flex-shrink-0">
+            <DownloadIcon size={18} />
+          </div>
+          <div className="min-w-0">
+            <h3 className="font-bold text-lg truncate">{state?.title || title}</h3>
+            <p className="text-xs text-gray-500">
+              打包为 ZIP，包含歌词文件与 M3U8 播放列表
+            </p>
+          </div>
+        </div>
+
+        {!state ? (
+          <>
+            <div className="flex bg-gray-100 p-1 rounded-lg mb-3">
+              {QUALITY_OPTIONS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setQuality(option.id)}
+                  className={`flex-1 py-2 rounded-md text-xs font-bold transition-all ${
+                    quality === option.id ? "bg-white text-black shadow-sm" : "text-gray-500"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-400 leading-tight mb-4">
+              共 {songs.length} 首。部分歌曲经 GD 音乐台解析，需遵守频控（{GD_STUDIO_RATE_LIMIT_HINT}），达到上限时会自动排队等待。
+            </p>
+            <button
+              onClick={handleStart}
+              disabled={songs.length === 0}
+              className="w-full py-3 bg-ios-red text-white rounded-xl font-bold text-sm disabled:opacity-50"
+            >
+              开始下载
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="mb-3">
+              <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                <span>
+                  {finishedCount} / {total} · 成功 {counts?.done || 0}
+                  {counts?.failed ? ` · 失败 ${counts.failed}` : ""}
+                  {counts?.skipped ? ` · 跳过 ${counts.skipped}` : ""}
+                </span>
+                <span>{state.streaming ? "边下载边写入" : "完成后保存"}</span>
+              </div>
+              <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-ios-red rounded-full transition-all"
+                  style={{ width: `${total ? (finishedCount / total) * 100 : 0}%` }}
+                />
+              </div>
+              {throttleDelay > 0 && (
+                <p className="text-[10px] text-amber-500 mt-1">
+                  GD 音乐台频控额度即将用完（余量留给播放与搜索），约 {Math.ceil(throttleDelay / 1000)} 秒后继续
+                </p>
+              )}
+              {state.phase === "waiting" && (
+                <p className="text-[10px] text-ios-red mt-1">
+                  部分歌曲下载失败，可重试、跳过，或直接打包已完成的歌曲
+                </p>
+              )}
+              {state.phase === "finishing" && (
+                <p className="text-[10px] text-gray-500 mt-1">正在打包…</p>
+              )}
+              {state.phase === "finished" && (
+                <p className="text-[10px] text-green-600 mt-1">已保存 {state.title}.zip</p>
+              )}
+              {state.phase === "cancelled" && (
+                <p className="text-[10px] text-gray-500 mt-1">任务已结束，未生成文件</p>
+              )}
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto no-scrollbar space-y-2 mb-4">
+              {state.items.map((item) => (
+                <div key={item.key} className="flex items-center justify-between bg-gray-50 rounded-xl p-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-ios-text truncate">{item.song.name}</p>
+                    <p className="text-[10px] truncate">
+                      <span className={STATUS_CLASS[item.status]}>{STATUS_LABEL[item.status]}</span>
+                      <span className="text-gray-400">
+                        {" · "}
+                        {item.error || item.song.artist}
+                      </span>
+                    </p>
+                  </div>
+                  {(state.phase === "running" || state.phase === "waiting") && (
+                    <div className="flex items-center gap-1 flex-shrink-0 ml-2">
+                      {(item.status === "failed" || item.status === "skipped") && (
+                        <button
+                          onClick={() => retryBatchItem(item.key)}
+                          className="px-2 py-1 rounded-md bg-white text-[10px] font-bold text-ios-red shadow-sm"
+                        >
+                          重试
+                        </button>
+                      )}
+                      {item.status !== "done" && item.status !== "skipped" && (
+                        <button
+                          onClick={() => skipBatchItem(item.key)}
+                          className="px-2 py-1 rounded-md bg-white text-[10px] font-bold text-gray-500 shadow-sm"
+                        >
+                          跳过
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {state.phase === "finished" || state.phase === "cancelled" ? (
+                <button
+                  onClick={() => cancelBatchDownload()}
+                  className="col-span-2 py-3 bg-gray-100 text-ios-text rounded-xl font-medium text-xs"
+                >
+                  清除记录
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={handleCancel}
+                    disabled={state.phase === "finishing"}
+                    className="py-3 bg-gray-100 text-ios-red rounded-xl font-medium text-xs disabled:opacity-50"
+                  >
+                    取消任务
+                  </button>
+                  <button
+                    onClick={finishBatchDownload}
+                    disabled={state.phase !== "waiting" || !counts?.done}
+                    className="py-3 bg-ios-red text-white rounded-xl font-bold text-xs disabled:opacity-50"
+                  >
+                    打包已完成
+                  </button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-3 py-3 text-center font-bold text-gray-500 bg-white border border-gray-100 rounded-xl active:bg-gray-50"
+        >
+          {state?.phase === "running" ? "后台下载" : "关闭"}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default BatchDownloadPanel;
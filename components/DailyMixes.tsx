@@ -0,0 +1,111 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { getDailyMixes, getImgReferrerPolicy, type DailyMix } from '../services/api';
+import { usePlayerActions } from '../contexts/PlayerContext';
+import { useLibrary } from '../contexts/LibraryContext';
+import { MixIcon, MusicIcon, PlayIcon, RefreshIcon } from './Icons';
+import { useToast } from './ToastHost';
+
+const MixSkeleton = () => (
+    <div className="flex gap-3 overflow-hidden pb-2">
+        {[0, 1, 2].map(i => (
+            <div key={i} className="flex-shrink-0 bg-white p-2 rounded-2xl w-[150px] animate-pulse">
+                <div className="w-full aspect-square mb-2 rounded-xl bg-gray-200" />
+                <div className="h-3.5 bg-gray-200 rounded mx-1 mb-1" />
+                <div className="h-2.5 bg-gray-100 rounded mx-1 w-2/3" />
+            </div>
+        ))}
+    </div>
+);
+
+/** 首页「每日推荐」：基于收藏、歌单和播放历史在本地生成 */
+const DailyMixes: React.FC = () => {
+  const { favorites, playlists } = useLibrary();
+  const { playQueue } = usePlayerActions();
+  const { showToast } = useToast();
+  const [mixes, setMixes] = useState<DailyMix[]>([]);
+  const [loading, setLoading] = useState(true);
+  const libraryRef = useRef({ favorites, playlists });
+  const requestIdRef = useRef(0);
+  libraryRef.current = { favorites, playlists };
+
+  const loadMixes = useCallback(async (refresh: boolean) => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    try {
+      const next = await getDailyMixes(libraryRef.current, { refresh });
+      if (requestId === requestIdRef.current) setMixes(next);
+    } catch (e) {
+      console.error('Failed to build daily mixes', e);
+      if (requestId === requestIdRef.current && refresh) showToast('生成推荐失败，请稍后再试', 'error');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    void loadMixes(false);
+  }, [loadMixes]);
+
+  const handlePlayMix = (mix: DailyMix) => {
+    if (mix.songs.length === 0) return;
+    void playQueue(mix.songs, mix.songs[0]);
+  };
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-ios-text">每日推荐</h2>
+        <button
+          onClick={() => void loadMixes(true)}
+          disabled={loading}
+          className="flex items-center gap-1 text-[10px] font-bold text-gray-500 bg-gray-200/80 px-2 py-1 rounded-md disabled:opacity-50"
+        >
+          <RefreshIcon size={12} className={loading ? 'animate-spin' : ''} />
+          换一批
+        </button>
+      </div>
+
+      {loading && mixes.length === 0 ? (
+        <MixSkeleton />
+      ) : mixes.length === 0 ? (
+        <div className="bg-white/50 p-4 rounded-xl flex items-center gap-3 text-gray-400">
+          <MixIcon size={20} />
+          <span className="text-xs">收藏歌曲或多听几首后，这里会出现为你生成的每日推荐</span>
+        </div>
+      ) : (
+        <div className="flex gap-3 overflow-x-auto no-scrollbar pb-2">
+          {mixes.map((mix) => {
+            const cover = mix.songs.find(song => song.pic)?.pic;
+            return (
+              <button
+                key={mix.id}
+                onClick={() => handlePlayMix(mix)}
+                className="flex-shrink-0 bg-white p-2 rounded-2xl shadow-sm border border-gray-100 w-[150px] text-left active:scale-95 transition"
+              >
+                <div className="w-full aspect-square mb-2 rounded-xl overflow-hidden bg-gray-100 relative">
+                  {cover ? (
+                    <img src={cover} alt={mix.title} referrerPolicy={getImgReferrerPolicy(cover)} loading="lazy" className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-gray-300">
+                      <MusicIcon size={24} />
+                    </div>
+                  )}
+                  <div className="absolute inset-0 bg-gradient-to-t from-black/40 to-transparent pointer-events-none" />
+                  <div className="absolute bottom-2 right-2 w-8 h-8 rounded-full bg-white/90 text-ios-red flex items-center justify-center shadow">
+                    <PlayIcon size={14} className="ml-0.5" />
+                  </div>
+                </div>
+                <p className="font-bold text-ios-text text-sm truncate px-1">{mix.title}</p>
+                <p className="text-[10px] text-ios-subtext mt-0.5 truncate px-1">
+                  {mix.artists.join('、')} · {mix.songs.length} 首
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DailyMixes;
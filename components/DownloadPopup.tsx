@@ -1,8 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Song } from '../types';
 import { DownloadIcon, MusicIcon } from './Icons';
-// Changed getDownloadUrl to getSongUrl as it is the correct function name in api.ts
-import { getSongUrl, triggerDownload, getImgReferrerPolicy } from '../services/api';
+import { downloadSong, getImgReferrerPolicy, saveOfflineSong } from '../services/api';
 import { useToast } from './ToastHost';
 
 interface DownloadPopupProps {
@@ -20,6 +19,7 @@ const QUALITY_MAP: Record<string, { label: string, desc: string, ext: string }>
 
 const DownloadPopup: React.FC<DownloadPopupProps> = ({ isOpen, onClose, song }) => {
   const [downloadingType, setDownloadingType] = useState<string | null>(null);
+  const [target, setTarget] = useState<'device' | 'offline'>('device');
   const { showToast } = useToast();
 
   // 弹窗打开时锁定背景滚动
@@ -37,22 +37,35 @@ const DownloadPopup: React.FC<DownloadPopupProps> = ({ isOpen, onClose, song })
     ? song.types
     : ['128k', '320k', 'flac', 'flac24bit'];
 
+  const handleSaveOffline = async (type: string) => {
+    if (downloadingType) return;
+    setDownloadingType(type);
+    try {
+      await saveOfflineSong(song, type);
+      showToast('已保存到离线缓存', 'success');
+      onClose();
+    } catch (error: any) {
+      showToast(error?.message || '离线保存失败，请稍后再试', 'error');
+    } finally {
+      setDownloadingType(null);
+    }
+  };
+
   const handleDownload = async (type: string) => {
+    if (target === 'offline') return handleSaveOffline(type);
     if (downloadingType) return;
     setDownloadingType(type);
     try {
-      const url = await getSongUrl(song.id, song.source, type);
-      if (!url) {
-        showToast('无法获取下载地址', 'error');
-        return;
+      const result = await downloadSong(song, type);
+      if (result === 'direct') {
+        // 拿不到音频数据时只能交给浏览器直接下载，文件不含标签
+        showToast('无法写入歌曲信息，已直接下载', 'info');
+      } else {
+        showToast('已开始下载', 'success');
       }
-      const meta = QUALITY_MAP[type] || { ext: 'mp3' };
-      const filename = `${song.artist} - ${song.name}.${meta.ext}`;
-      triggerDownload(url, filename);
-      showToast('已开始下载', 'success');
       onClose();
-    } catch {
-      showToast('下载失败，请稍后再试', 'error');
+    } catch (error: any) {
+      showToast(error?.message || '下载失败，请稍后再试', 'error');
     } finally {
       setDownloadingType(null);
     }
@@ -86,6 +99,24 @@ const DownloadPopup: React.FC<DownloadPopupProps> = ({ isOpen, onClose, song })
             </div>
         </div>
 
+        <div className="flex bg-gray-100 p-1 rounded-lg mb-4">
+            {([
+                { id: 'device', label: '下载到设备' },
+                { id: 'offline', label: '离线保存' },
+            ] as const).map(option => (
+                <button
+                    key={option.id}
+                    onClick={() => setTarget(option.id)}
+                    disabled={!!downloadingType}
+                    className={`flex-1 py-2 rounded-md text-xs font-bold transition-all ${
+                        target === option.id ? 'bg-white text-black shadow-sm' : 'text-gray-500'
+                    }`}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+
         <div className="space-y-3">
             {availableTypes.map((type) => {
                 const info = QUALITY_MAP[type] || { label: type.toUpperCase(), desc: '未知格式', ext: 'mp3' };
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { usePlayerActions, usePlayerSettings } from '../contexts/PlayerContext';
+import {
+  BUILTIN_EQ_PRESETS,
+  CUSTOM_EQ_PRESET_ID,
+  EQ_BANDS,
+  MAX_EQ_GAIN,
+} from '../contexts/playerEqualizer';
+import { loadStoredEqualizerPresets, persistEqualizerPresets } from '../contexts/playerPersistence';
+import { EqualizerPreset } from '../types';
+import { useToast } from './ToastHost';
+
+interface EqualizerPanelProps {
+  onBack: () => void;
+}
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : String(hz));
+
+const formatGain = (db: number) => `${db > 0 ? '+' : ''}${db}`;
+
+const EqualizerPanel: React.FC<EqualizerPanelProps> = ({ onBack }) => {
+  const { equalizer } = usePlayerSettings();
+  const { setEqualizerSettings } = usePlayerActions();
+  const { showToast } = useToast();
+  const [customPresets, setCustomPresets] = useState<EqualizerPreset[]>(() => loadStoredEqualizerPresets());
+  const [isNaming, setIsNaming] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  const updateCustomPresets = (presets: EqualizerPreset[]) => {
+    setCustomPresets(presets);
+    persistEqualizerPresets(presets);
+  };
+
+  const handleSelectPreset = (preset: EqualizerPreset) => {
+    setEqualizerSettings({ enabled: true, preset: preset.id, gains: preset.gains });
+  };
+
+  const handleBandChange = (index: number, gain: number) => {
+    const gains = equalizer.gains.map((value, i) => (i === index ? gain : value));
+    setEqualizerSettings({ enabled: true, preset: CUSTOM_EQ_PRESET_ID, gains });
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const preset: EqualizerPreset = { id: `user-${Date.now()}`, name, gains: equalizer.gains };
+    updateCustomPresets([...customPresets, preset]);
+    setEqualizerSettings({ preset: preset.id });
+    setPresetName('');
+    setIsNaming(false);
+    showToast('已保存预设', 'success');
+  };
+
+  const handleDeletePreset = (preset: EqualizerPreset) => {
+    updateCustomPresets(customPresets.filter(p => p.id !== preset.id));
+    if (equalizer.preset === preset.id) setEqualizerSettings({ preset: CUSTOM_EQ_PRESET_ID });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-gray-800">均衡器</h4>
+        <button onClick={onBack} className="text-xs text-ios-red font-medium">返回</button>
+      </div>
+
+      <div className="p-4 bg-gray-50 rounded-xl">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">均衡器</h4>
+          <button
+            onClick={() => setEqualizerSettings({ enabled: !equalizer.enabled })}
+            className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${
+              equalizer.enabled ? 'bg-black text-white shadow-md' : 'bg-white text-gray-500 shadow-sm'
+            }`}
+          >
+            {equalizer.enabled ? '已开启' : '已关闭'}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-3">
+          {[...BUILTIN_EQ_PRESETS, ...customPresets].map(preset => {
+            const isActive = equalizer.preset === preset.id;
+            const isCustom = customPresets.includes(preset);
+            return (
+              <div
+                key={preset.id}
+                className={`flex items-center rounded-full text-xs font-bold transition-all ${
+                  isActive ? 'bg-black text-white shadow-md' : 'bg-white text-gray-500 shadow-sm'
+                }`}
+              >
+                <button onClick={() => handleSelectPreset(preset)} className="px-3 py-1">
+                  {preset.name}
+                </button>
+                {isCustom && isActive && (
+                  <button
+                    onClick={() => handleDeletePreset(preset)}
+                    className="pr-2 -ml-1 opacity-60 hover:opacity-100"
+                    aria-label="删除预设"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {equalizer.preset === CUSTOM_EQ_PRESET_ID && !isNaming && (
+            <button
+              onClick={() => setIsNaming(true)}
+              className="px-3 py-1 rounded-full text-xs font-bold border border-dashed border-gray-300 text-gray-500 hover:border-ios-red hover:text-ios-red"
+            >
+              保存为预设
+            </button>
+          )}
+        </div>
+
+        {isNaming && (
+          <div className="flex items-center space-x-2 mt-3">
+            <input
+              autoFocus
+              type="text"
+              placeholder="预设名称"
+              className="flex-1 bg-white p-2 rounded-lg text-sm outline-none focus:ring-2 focus:ring-ios-red/20"
+              value={presetName}
+              onChange={e => setPresetName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleSavePreset()}
+            />
+            <button
+              onClick={handleSavePreset}
+              disabled={!presetName.trim()}
+              className="px-3 py-2 bg-ios-red text-white rounded-lg font-medium text-xs disabled:opacity-50"
+            >
+              保存
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className={`p-4 bg-gray-50 rounded-xl space-y-2 ${equalizer.enabled ? '' : 'opacity-60'}`}>
+        {[{ label: '前级', value: equalizer.preamp }, ...EQ_BANDS.map((hz, i) => ({
+          label: formatFrequency(hz),
+          value: equalizer.gains[i] || 0,
+        }))].map(({ label, value }, row) => (
+          <div key={label} className="flex items-center space-x-3">
+            <span className="w-8 text-[10px] font-bold text-gray-500 font-mono">{label}</span>
+            <input
+              type="range"
+              min={-MAX_EQ_GAIN}
+              max={MAX_EQ_GAIN}
+              step={1}
+              value={value}
+              onChange={e => {
+                const gain = parseFloat(e.target.value);
+                if (row === 0) setEqualizerSettings({ enabled: true, preamp: gain });
+                else handleBandChange(row - 1, gain);
+              }}
+              className="flex-1 h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-black"
+            />
+            <span className="w-10 text-right text-[10px] font-bold text-gray-700 font-mono tabular-nums">
+              {formatGain(value)} dB
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 bg-gray-50 rounded-xl">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">响度均衡</h4>
+          <button
+            onClick={() => setEqualizerSettings({ normalize: !equalizer.normalize })}
+            className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${
+              equalizer.normalize ? 'bg-black text-white shadow-md' : 'bg-white text-gray-500 shadow-sm'
+            }`}
+          >
+            {equalizer.normalize ? '已开启' : '已关闭'}
+          </button>
+        </div>
+        <p className="text-[10px] text-gray-400 mt-2">
+          每首歌开头几秒测量响度后自动调整音量，让不同歌曲听起来一样响。iOS 及酷我音源不支持均衡器和响度均衡
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default EqualizerPanel;
@@ -4,11 +4,16 @@ import {
   usePlayerNowPlaying,
   usePlayerProgress,
   usePlayerQueueState,
+  usePlayerSettings,
 } from "../contexts/PlayerContext";
 import { useLibrary } from "../contexts/LibraryContext";
-import { getImgReferrerPolicy } from "../services/api";
-import { isSameSong } from "../types";
+import { getImgReferrerPolicy, setLyricOffset } from "../services/api";
+import { PLAY_MODE_LABELS, isSameSong } from "../types";
+import { getMusicSourceLabel } from "../utils/musicSource";
 import { usePlayerLyrics } from "./usePlayerLyrics";
+import KaraokeLyricLine from "./KaraokeLyricLine";
+import LyricOverrideEditor from "./LyricOverrideEditor";
+import LyricSourcePicker from "./LyricSourcePicker";
 import {
   ChevronDownIcon,
   MoreIcon,
@@ -20,6 +25,7 @@ import {
   HeartFillIcon,
   MusicIcon,
   DownloadIcon,
+  SequenceIcon,
   RepeatIcon,
   RepeatOneIcon,
   ShuffleIcon,
@@ -32,6 +38,27 @@ import PlayerMorePopup from "./PlayerMorePopup";
 import { useToast } from "./ToastHost";
 import { motion, PanInfo } from "framer-motion";
 
+const LYRIC_LAYERS_KEY = "tunefree_lyric_layers";
+const LYRIC_OFFSET_STEP = 0.5;
+
+type LyricLayers = { translation: boolean; romanization: boolean };
+
+const DEFAULT_LYRIC_LAYERS: LyricLayers = { translation: true, romanization: false };
+
+const loadLyricLayers = (): LyricLayers => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LYRIC_LAYERS_KEY) || "null");
+    return stored && typeof stored === "object"
+      ? {
+          translation: stored.translation !== false,
+          romanization: stored.romanization === true,
+        }
+      : DEFAULT_LYRIC_LAYERS;
+  } catch {
+    return DEFAULT_LYRIC_LAYERS;
+  }
+};
+
 interface FullPlayerProps {
   isOpen: boolean;
   onClose: () => void;
@@ -53,6 +80,7 @@ const FullPlayer: React.FC<FullPlayerProps> = ({
   const { currentSong, isPlaying, isLoading } = usePlayerNowPlaying();
   const { currentTime, duration } = usePlayerProgress();
   const { queue, playMode } = usePlayerQueueState();
+  const { playbackRate } = usePlayerSettings();
   const { togglePlay, playNext, playPrev, seek, togglePlayMode } =
     usePlayerActions();
   const { isFavorite, toggleFavorite } = useLibrary();
@@ -62,9 +90,20 @@ const FullPlayer: React.FC<FullPlayerProps> = ({
   const [showDownload, setShowDownload] = useState(false);
   const [showMore, setShowMore] = useState(false);
   const [imgError, setImgError] = useState(false);
+  const [lyricLayers, setLyricLayers] = useState<LyricLayers>(loadLyricLayers);
+  const [showLyricEditor, setShowLyricEditor] = useState(false);
+  const [showLyricSearch, setShowLyricSearch] = useState(false);
 
   const lyricsContainerRef = useRef<HTMLDivElement>(null);
-  const { lyrics, activeLyricIndex } = usePlayerLyrics(
+  const {
+    lyrics,
+    activeLyricIndex,
+    availableLayers,
+    lyricOverride,
+    lyricOffset,
+    lyricSource,
+    chosenSource,
+  } = usePlayerLyrics(
     currentSong,
     isOpen,
     currentTime,
@@ -76,6 +115,17 @@ const FullPlayer: React.FC<FullPlayerProps> = ({
     setImgError(false);
   }, [currentSong?.id, currentSong?.source, currentSong?.pic, isOpen]);
 
+  useEffect(() => {
+    localStorage.setItem(LYRIC_LAYERS_KEY, JSON.stringify(lyricLayers));
+  }, [lyricLayers]);
+
+  const toggleLyricLayer = (layer: keyof LyricLayers) =>
+    setLyricLayers((prev) => ({ ...prev, [layer]: !prev[layer] }));
+
+  const changeLyricOffset = (delta: number) => {
+    if (currentSong) setLyricOffset(currentSong, lyricOffset + delta);
+  };
+
   const hasSong = !!currentSong;
 
   // Gesture Handler
@@ -187,6 +237,79 @@ const FullPlayer: React.FC<FullPlayerProps> = ({
                 onClick={() => setShowLyrics(false)}
               />
 
+              {hasSong && (
+                <div
+                  className="absolute top-2 left-6 right-6 z-10 flex items-center justify-between"
+                  onPointerDown={(e) => e.stopPropagation()}
+                >
+                  <div className="flex items-center space-x-2">
+                    <div className="flex items-center bg-black/5 p-0.5 rounded-full">
+                      <button
+                        onClick={() => changeLyricOffset(-LYRIC_OFFSET_STEP)}
+                        className="w-7 py-1 rounded-full text-[11px] font-bold text-gray-500 active:bg-white"
+                        title="歌词延后"
+                      >
+                        −
+                      </button>
+                      <button
+                        onClick={() => currentSong && setLyricOffset(currentSong, 0)}
+                        className={`min-w-[44px] py-1 text-[11px] font-bold tabular-nums ${lyricOffset ? "text-black" : "text-gray-500"}`}
+                        title="歌词偏移，点击归零"
+                      >
+                        {lyricOffset > 0 ? "+" : ""}
+                        {lyricOffset.toFixed(1)}s
+                      </button>
+                      <button
+                        onClick={() => changeLyricOffset(LYRIC_OFFSET_STEP)}
+                        className="w-7 py-1 rounded-full text-[11px] font-bold text-gray-500 active:bg-white"
+                        title="歌词提前"
+                      >
+                        +
+                      </button>
+                    </div>
+                    <button
+                      onClick={() => setShowLyricEditor(true)}
+                      className={`px-3 py-1 rounded-full text-[11px] font-bold bg-black/5 ${lyricOverride ? "text-ios-red" : "text-gray-500"}`}
+                    >
+                      {lyricOverride ? "已替换" : "替换"}
+                    </button>
+                    {!lyricOverride && (
+                      <button
+                        onClick={() => setShowLyricSearch(true)}
+                        className={`px-3 py-1 rounded-full text-[11px] font-bold bg-black/5 ${lyricSource ? "text-ios-red" : "text-gray-500"}`}
+                      >
+                        {lyricSource ? `${getMusicSourceLabel(lyricSource.source)}歌词` : "搜索"}
+                      </button>
+                    )}
+                  </div>
+
+                  {(availableLayers.translation || availableLayers.romanization) && (
+                    <div className="flex bg-black/5 p-0.5 rounded-full">
+                      {availableLayers.translation && (
+                        <button
+                          onClick={() => toggleLyricLayer("translation")}
+                          className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all ${
+                            lyricLayers.translation ? "bg-white text-black shadow-sm" : "text-gray-500"
+                          }`}
+                        >
+                          译
+                        </button>
+                      )}
+                      {availableLayers.romanization && (
+                        <button
+                          onClick={() => toggleLyricLayer("romanization")}
+                          className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all ${
+                            lyricLayers.romanization ? "bg-white text-black shadow-sm" : "text-gray-500"
+                          }`}
+                        >
+                          音
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div
                 ref={lyricsContainerRef}
                 className="w-full h-full overflow-y-auto no-scrollbar relative px-8 py-[40vh] text-center"
@@ -209,15 +332,32 @@ const FullPlayer: React.FC<FullPlayerProps> = ({
                       }`}
                       onClick={(e) => {
                         e.stopPropagation();
-                        seek(line.time);
+                        seek(Math.max(0, line.time - lyricOffset));
                       }}
                     >
-                      <p
-                        className={`text-xl font-bold leading-relaxed ${i === activeLyricIndex ? "text-gray-900" : "text-gray-500/80"}`}
-                      >
-                        {line.text}
-                      </p>
-                      {line.translation && (
+                      {i === activeLyricIndex && line.words ? (
+                        <KaraokeLyricLine
+                          words={line.words}
+                          currentTime={currentTime + lyricOffset}
+                          isPlaying={isPlaying}
+                          playbackRate={playbackRate}
+                          className="text-xl font-bold leading-relaxed"
+                        />
+                      ) : (
+                        <p
+                          className={`text-xl font-bold leading-relaxed ${i === activeLyricIndex ? "text-gray-900" : "text-gray-500/80"}`}
+                        >
+                          {line.text}
+                        </p>
+                      )}
+                      {lyricLayers.romanization && line.romanization && (
+                        <p
+                          className={`text-sm font-medium mt-1 leading-normal ${i === activeLyricIndex ? "text-gray-600" : "text-gray-500/60"}`}
+                        >
+                          {line.romanization}
+                        </p>
+                      )}
+                      {lyricLayers.translation && line.translation && (
                         <p
                           className={`text-base font-medium mt-1 leading-normal ${i === activeLyricIndex ? "text-gray-700" : "text-gray-500/60"}`}
                         >
@@ -326,10 +466,13 @@ const FullPlayer: React.FC<FullPlayerProps> = ({
           <div className="flex items-center justify-between mb-4">
             <button
               onClick={togglePlayMode}
+              aria-label={`播放模式：${PLAY_MODE_LABELS[playMode]}`}
+              title={PLAY_MODE_LABELS[playMode]}
               className={`p-2 transition active:scale-90 ${playMode !== "sequence" ? "text-ios-red" : "text-gray-400 hover:text-gray-600"}`}
             >
-              {playMode === "sequence" && <RepeatIcon size={22} />}
-              {playMode === "loop" && <RepeatOneIcon size={22} />}
+              {playMode === "sequence" && <SequenceIcon size={22} />}
+              {playMode === "loop" && <RepeatIcon size={22} />}
+              {playMode === "loopOne" && <RepeatOneIcon size={22} />}
               {playMode === "shuffle" && <ShuffleIcon size={22} />}
             </button>
 
@@ -386,6 +529,18 @@ const FullPlayer: React.FC<FullPlayerProps> = ({
           onClose={() => setShowMore(false)}
           onClosePlayer={onClose}
         />
+        <LyricOverrideEditor
+          isOpen={showLyricEditor}
+          onClose={() => setShowLyricEditor(false)}
+          song={currentSong}
+        />
+        <LyricSourcePicker
+          isOpen={showLyricSearch}
+          onClose={() => setShowLyricSearch(false)}
+          song={currentSong}
+          chosenSource={chosenSource}
+          activeSource={lyricSource}
+        />
       </motion.div>
     </motion.div>
   );
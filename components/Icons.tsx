@@ -4,7 +4,10 @@ import {
   Play, Pause, SkipForward, SkipBack, Search, Home,
   ListMusic, MoreHorizontal, ChevronDown, Music2, AlertCircle,
   Heart, Plus, Share, Download, Upload, Trash2, Settings, Folder,
-  Repeat, Repeat1, Shuffle, List, Key, Info, ExternalLink, Github
+  Repeat, Repeat1, Shuffle, List, Key, Info, ExternalLink, Github,
+  ArrowLeftRight, Link, SlidersHorizontal, Moon,
+  GripVertical, Check, ListPlus, History, BarChart3,
+  Sparkles, RefreshCw, Radio, ChevronLeft, ListOrdered
 } from 'lucide-react';
 
 export const PlayIcon = ({ size = 24, className = "" }) => <Play size={size} className={className} fill="currentColor" />;
@@ -29,6 +32,7 @@ export const TrashIcon = ({ size = 24, className = "" }) => <Trash2 size={size}
 export const SettingsIcon = ({ size = 24, className = "" }) => <Settings size={size} className={className} />;
 export const FolderIcon = ({ size = 24, className = "" }) => <Folder size={size} className={className} fill="currentColor" />;
 
+export const SequenceIcon = ({ size = 24, className = "" }) => <ListOrdered size={size} className={className} />;
 export const RepeatIcon = ({ size = 24, className = "" }) => <Repeat size={size} className={className} />;
 export const RepeatOneIcon = ({ size = 24, className = "" }) => <Repeat1 size={size} className={className} />;
 export const ShuffleIcon = ({ size = 24, className = "" }) => <Shuffle size={size} className={className} />;
@@ -39,3 +43,16 @@ export const KeyIcon = ({ size = 24, className = "" }) => <Key size={size} class
 export const InfoIcon = ({ size = 24, className = "" }) => <Info size={size} className={className} />;
 export const ExternalLinkIcon = ({ size = 24, className = "" }) => <ExternalLink size={size} className={className} />;
 export const GithubIcon = ({ size = 24, className = "" }) => <Github size={size} className={className} />;
+export const SwitchSourceIcon = ({ size = 24, className = "" }) => <ArrowLeftRight size={size} className={className} />;
+export const LinkIcon = ({ size = 24, className = "" }) => <Link size={size} className={className} />;
+export const EqualizerIcon = ({ size = 24, className = "" }) => <SlidersHorizontal size={size} className={className} />;
+export const SleepIcon = ({ size = 24, className = "" }) => <Moon size={size} className={className} />;
+export const GripIcon = ({ size = 24, className = "" }) => <GripVertical size={size} className={className} />;
+export const CheckIcon = ({ size = 24, className = "" }) => <Check size={size} className={className} />;
+export const PlayNextIcon = ({ size = 24, className = "" }) => <ListPlus size={size} className={className} />;
+export const HistoryIcon = ({ size = 24, className = "" }) => <History size={size} className={className} />;
+export const StatsIcon = ({ size = 24, className = "" }) => <BarChart3 size={size} className={className} />;
+export const MixIcon = ({ size = 24, className = "" }) => <Sparkles size={size} className={className} />;
+export const RefreshIcon = ({ size = 24, className = "" }) => <RefreshCw size={size} className={className} />;
+export const RadioIcon = ({ size = 24, className = "" }) => <Radio size={size} className={className} />;
+export const BackIcon = ({ size = 24, className = "" }) => <ChevronLeft size={size} className={className} />;
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from "react";
+import { LyricWord } from "../types";
+
+interface KaraokeLyricLineProps {
+  words: LyricWord[];
+  currentTime: number;
+  isPlaying: boolean;
+  /** 当前播放速度，用于在两次 timeupdate 之间按实际速度推算进度 */
+  playbackRate?: number;
+  className?: string;
+}
+
+/** timeupdate 之间最多向前推算的实际时长（秒），避免缓冲卡住时填充跑过头 */
+const MAX_EXTRAPOLATION = 0.5;
+
+const FILL_STYLE: React.CSSProperties = {
+  backgroundImage:
+    "linear-gradient(to right, #111827 var(--lyric-fill, 0%), rgba(107, 114, 128, 0.45) var(--lyric-fill, 0%))",
+  WebkitBackgroundClip: "text",
+  backgroundClip: "text",
+  color: "transparent",
+};
+
+const getFill = (word: LyricWord, time: number): number => {
+  if (time <= word.time) return 0;
+  if (word.duration <= 0 || time >= word.time + word.duration) return 100;
+  return ((time - word.time) / word.duration) * 100;
+};
+
+/**
+ * 当前行的逐字填充。播放进度只在 timeupdate 时更新（约 4 次 / 秒），
+ * 这里用 requestAnimationFrame 在两次更新之间推算时间，直接改 CSS 变量，不触发重渲染。
+ */
+const KaraokeLyricLine: React.FC<KaraokeLyricLineProps> = ({
+  words,
+  currentTime,
+  isPlaying,
+  playbackRate = 1,
+  className = "",
+}) => {
+  const wordRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const fillsRef = useRef<number[]>([]);
+  const anchorRef = useRef({ time: currentTime, at: performance.now() });
+
+  useEffect(() => {
+    anchorRef.current = { time: currentTime, at: performance.now() };
+  }, [currentTime]);
+
+  useEffect(() => {
+    let frame = 0;
+
+    const paint = () => {
+      const anchor = anchorRef.current;
+      const elapsed = isPlaying ? ((performance.now() - anchor.at) / 1000) * playbackRate : 0;
+      const time = anchor.time + Math.min(elapsed, MAX_EXTRAPOLATION * playbackRate);
+
+      words.forEach((word, i) => {
+        const el = wordRefs.current[i];
+        if (!el) return;
+        const fill = Math.round(getFill(word, time) * 10) / 10;
+        if (fillsRef.current[i] === fill) return;
+        fillsRef.current[i] = fill;
+        el.style.setProperty("--lyric-fill", `${fill}%`);
+      });
+
+      if (isPlaying) frame = requestAnimationFrame(paint);
+    };
+
+    fillsRef.current = [];
+    paint();
+    return () => cancelAnimationFrame(frame);
+  }, [words, isPlaying, currentTime, playbackRate]);
+
+  return (
+    <p className={className}>
+      {words.map((word, i) => (
+        <span
+          key={i}
+          ref={(el) => {
+            wordRefs.current[i] = el;
+          }}
+          className="whitespace-pre-wrap"
+          style={FILL_STYLE}
+        >
+          {word.text}
+        </span>
+      ))}
+    </p>
+  );
+};
+
+export default KaraokeLyricLine;
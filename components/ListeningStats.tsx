@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from "react";
+import { usePlayerActions } from "../contexts/PlayerContext";
+import { useToast } from "./ToastHost";
+import { StatsIcon, DownloadIcon, TrashIcon } from "./Icons";
+import {
+  MIN_COUNTED_LISTEN_SECONDS,
+  clearPlayHistory,
+  computeListeningStats,
+  exportPlayHistory,
+  type ListeningStatsEntry,
+  type ListeningStatsPeriod,
+  type PlayRecord,
+} from "../services/api";
+import { formatListenDuration } from "../utils/formatting";
+import { getMusicSourceLabel } from "../utils/musicSource";
+
+interface ListeningStatsProps {
+  records: PlayRecord[];
+}
+
+const PERIOD_LABELS: Record<ListeningStatsPeriod, string> = {
+  week: "近 7 天",
+  month: "近 30 天",
+  year: "近一年",
+};
+
+const ListeningStats: React.FC<ListeningStatsProps> = ({ records }) => {
+  const { playQueue } = usePlayerActions();
+  const { showToast } = useToast();
+  const [period, setPeriod] = useState<ListeningStatsPeriod>("week");
+
+  const stats = useMemo(() => computeListeningStats(records, period), [records, period]);
+  const topSongs = stats.topSongs.map((entry) => entry.item);
+
+  const handleExport = async () => {
+    try {
+      const filename = await exportPlayHistory();
+      showToast(`已导出 ${filename}`, "success");
+    } catch {
+      showToast("导出失败，请稍后再试", "error");
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("确定清空全部播放历史吗？")) return;
+    await clearPlayHistory().catch(() => {});
+    showToast("已清空播放历史", "success");
+  };
+
+  const renderRanking = (
+    title: string,
+    entries: ListeningStatsEntry<string>[],
+    getLabel: (item: string) => string = (item) => item,
+  ) => (
+    <div>
+      <h4 className="text-xs font-bold text-gray-500 mb-2 uppercase tracking-wider">{title}</h4>
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-400">暂无数据</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.slice(0, 5).map((entry, idx) => (
+            <div key={entry.item} className="flex items-center text-sm">
+              <span className="w-5 text-xs font-bold text-gray-400 tabular-nums">{idx + 1}</span>
+              <span className="flex-1 truncate text-ios-text">{getLabel(entry.item)}</span>
+              <span className="text-[10px] text-gray-400 tabular-nums">{entry.plays} 次</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm space-y-5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3 text-gray-600">
+          <StatsIcon size={20} />
+          <h3 className="font-bold text-lg">听歌统计</h3>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={handleExport}
+            className="p-2 text-gray-400 hover:text-ios-red transition"
+            aria-label="导出播放历史"
+            title="导出播放历史 (JSON)"
+          >
+            <DownloadIcon size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="p-2 text-gray-400 hover:text-ios-red transition disabled:opacity-50"
+            aria-label="清空播放历史"
+            title="清空播放历史"
+          >
+            <TrashIcon size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex bg-gray-100 p-1 rounded-xl">
+        {(Object.keys(PERIOD_LABELS) as ListeningStatsPeriod[]).map((p) => (
+          <button
+            key={p}
+            onClick={() => setPeriod(p)}
+            className={`flex-1 py-1.5 text-xs font-semibold rounded-lg transition-all ${period === p ? "bg-white shadow-sm text-ios-text" : "text-gray-500"}`}
+          >
+            {PERIOD_LABELS[p]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-gray-50 rounded-xl p-3">
+          <p className="text-[10px] text-gray-400">收听时长</p>
+          <p className="text-lg font-bold text-ios-text">{formatListenDuration(stats.totalSeconds)}</p>
+        </div>
+        <div className="bg-gray-50 rounded-xl p-3">
+          <p className="text-[10px] text-gray-400">播放次数</p>
+          <p className="text-lg font-bold text-ios-text tabular-nums">{stats.plays}</p>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-bold text-gray-500 mb-2 uppercase tracking-wider">最常听的歌曲</h4>
+        {stats.topSongs.length === 0 ? (
+          <p className="text-xs text-gray-400">暂无数据</p>
+        ) : (
+          <div className="space-y-1">
+            {stats.topSongs.map((entry, idx) => (
+              <div
+                key={`${entry.item.source}-${entry.item.id}`}
+                className="flex items-center text-sm cursor-pointer rounded-lg p-1 -mx-1 active:bg-gray-50"
+                onClick={() => playQueue(topSongs, entry.item)}
+              >
+                <span className="w-5 text-xs font-bold text-gray-400 tabular-nums">{idx + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-ios-text">{entry.item.name}</p>
+                  <p className="truncate text-[10px] text-gray-400">{entry.item.artist}</p>
+                </div>
+                <span className="text-[10px] text-gray-400 tabular-nums">{entry.plays} 次</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {renderRanking("最常听的歌手", stats.topArtists)}
+      {renderRanking("音源分布", stats.topSources, (source) => getMusicSourceLabel(source, "full"))}
+
+      <p className="text-[10px] text-gray-400">
+        收听不足 {MIN_COUNTED_LISTEN_SECONDS} 秒且未播完的记录不计入播放次数
+      </p>
+    </div>
+  );
+};
+
+export default ListeningStats;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from "react";
+import { useToast } from "./ToastHost";
+import { KeyIcon, TrashIcon } from "./Icons";
+import {
+  getLxScriptState,
+  importLxScript,
+  listLxScripts,
+  removeLxScript,
+  setLxScriptEnabled,
+  subscribeLxScripts,
+  warmUpLxScripts,
+  type LxScriptStatus,
+} from "../services/lxSource";
+
+const STATUS_LABEL: Record<LxScriptStatus, string> = {
+  idle: "未启用",
+  loading: "初始化中",
+  ready: "可用",
+  error: "加载失败",
+};
+
+const STATUS_CLASS: Record<LxScriptStatus, string> = {
+  idle: "bg-gray-100 text-gray-500",
+  loading: "bg-blue-50 text-blue-500",
+  ready: "bg-green-50 text-green-600",
+  error: "bg-red-50 text-ios-red",
+};
+
+const LxSourceManager: React.FC = () => {
+  const { showToast } = useToast();
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = subscribeLxScripts(() => setVersion((v) => v + 1));
+    warmUpLxScripts();
+    return unsubscribe;
+  }, []);
+
+  const scripts = listLxScripts();
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = typeof event.target?.result === "string" ? event.target.result : "";
+      try {
+        const stored = importLxScript(text);
+        showToast(`已导入「${stored.name}」`, "success");
+      } catch (err: any) {
+        showToast(err?.message || "导入失败", "error");
+      }
+      input.value = "";
+    };
+    reader.onerror = () => {
+      showToast("读取文件失败", "error");
+      input.value = "";
+    };
+    reader.readAsText(file);
+  };
+
+  const handleRemove = (id: string, name: string) => {
+    if (!window.confirm(`确定删除音源「${name}」吗？`)) return;
+    removeLxScript(id);
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm">
+      <div className="flex items-center space-x-3 mb-2 text-gray-600">
+        <KeyIcon size={20} />
+        <h3 className="font-bold text-lg">自定义音源 (LX)</h3>
+      </div>
+      <p className="text-[10px] text-gray-400 mb-4 leading-tight">
+        导入洛雪音乐自定义音源脚本（.js），内置接口取不到播放地址时依次尝试。脚本在独立
+        Worker 中运行，网络请求经 CORS 代理转发，请仅导入可信来源的脚本。
+      </p>
+
+      {scripts.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {scripts.map((item) => {
+            const state = getLxScriptState(item.id);
+            const status: LxScriptStatus = item.enabled ? state.status : "idle";
+            const sources = Object.keys(state.sources);
+            return (
+              <div key={item.id} className="bg-gray-50 rounded-xl p-3">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-ios-text truncate">
+                      {item.name}
+                      {item.version && (
+                        <span className="text-[10px] text-gray-400 ml-1">v{item.version.replace(/^v/, "")}</span>
+                      )}
+                    </p>
+                    <div className="flex items-center space-x-2 mt-1">
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded ${STATUS_CLASS[status]}`}>
+                        {STATUS_LABEL[status]}
+                      </span>
+                      {status === "ready" && (
+                        <span className="text-[10px] text-gray-400 truncate">
+                          {sources.length ? sources.join(" / ") : "无可用平台"}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => setLxScriptEnabled(item.id, !item.enabled)}
+                      className={`text-xs px-3 py-1.5 rounded-full font-medium ${
+                        item.enabled ? "bg-ios-red text-white" : "bg-gray-200 text-gray-600"
+                      }`}
+                    >
+                      {item.enabled ? "已启用" : "已停用"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(item.id, item.name)}
+                      className="p-2 text-ios-red/70 hover:text-ios-red bg-ios-red/5 rounded-full"
+                    >
+                      <TrashIcon size={14} />
+                    </button>
+                  </div>
+                </div>
+                {item.enabled && status === "error" && state.error && (
+                  <p className="text-[10px] text-ios-red mt-2 leading-tight break-all">{state.error}</p>
+                )}
+                {state.updateAlert?.log && (
+                  <p className="text-[10px] text-gray-500 mt-2 leading-tight break-all">
+                    {state.updateAlert.log}
+                    {state.updateAlert.updateUrl && ` (${state.updateAlert.updateUrl})`}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="relative">
+        <button className="w-full py-3 bg-gray-100 text-ios-text rounded-xl font-medium text-xs">
+          导入音源脚本
+        </button>
+        <input
+          type="file"
+          accept=".js,text/javascript"
+          className="absolute inset-0 opacity-0 cursor-pointer"
+          onChange={handleFileImport}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LxSourceManager;
@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Song } from "../types";
+import { useToast } from "./ToastHost";
+import { getLyricOverride, setLyricOverride } from "../services/api";
+import { parseLrc } from "./playerLyrics";
+
+interface LyricOverrideEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  song: Song | null;
+}
+
+const LyricOverrideEditor: React.FC<LyricOverrideEditorProps> = ({ isOpen, onClose, song }) => {
+  const { showToast } = useToast();
+  const [text, setText] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const existing = song ? getLyricOverride(song) : null;
+
+  useEffect(() => {
+    if (isOpen) setText(existing || "");
+    // 只在打开时载入已保存的歌词
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (!isOpen || !song) return null;
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      input.value = "";
+      setText(typeof event.target?.result === "string" ? event.target.result : "");
+    };
+    reader.onerror = () => {
+      input.value = "";
+      showToast("读取文件失败", "error");
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSave = () => {
+    if (parseLrc(text).length === 0) {
+      showToast("没有识别到带时间轴的歌词，请使用 LRC 格式", "error");
+      return;
+    }
+    setLyricOverride(song, text);
+    showToast("已替换这首歌的歌词", "success");
+    onClose();
+  };
+
+  const handleRestore = () => {
+    setLyricOverride(song, null);
+    showToast("已恢复使用音源歌词", "success");
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 px-4"
+      onClick={onClose}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div
+        className="w-full max-w-md bg-white rounded-2xl p-6 shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-bold mb-1">替换歌词</h3>
+        <p className="text-xs text-gray-400 mb-4 truncate">
+          {song.name} - {song.artist}。替换后播放、离线缓存和下载都会使用这份歌词
+        </p>
+        <textarea
+          placeholder="[00:12.34]粘贴 LRC 歌词"
+          className="w-full h-56 resize-none bg-gray-50 border border-gray-200 p-3 rounded-xl text-xs font-mono focus:outline-none focus:ring-2 focus:ring-ios-red/20 mb-3"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs font-bold text-ios-red"
+          >
+            导入 .lrc 文件
+          </button>
+          {existing && (
+            <button onClick={handleRestore} className="text-xs font-bold text-gray-500">
+              恢复音源歌词
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".lrc,.txt,text/plain"
+            className="hidden"
+            onChange={handleFileImport}
+          />
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 bg-gray-100 text-gray-600 rounded-xl font-medium text-sm"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!text.trim()}
+            className="flex-1 py-3 bg-ios-red text-white rounded-xl font-bold text-sm disabled:opacity-50"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LyricOverrideEditor;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { Song, getSongKey, isSameSong } from "../types";
+import { useToast } from "./ToastHost";
+import { findLyricCandidates, setLyricSource, type LyricCandidate } from "../services/api";
+import { getMusicSourceBadgeClass, getMusicSourceLabel } from "../utils/musicSource";
+import { parseLyricBundle } from "./playerLyrics";
+
+interface LyricSourcePickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  song: Song | null;
+  /** 用户选定的歌词来源 */
+  chosenSource: Song | null;
+  /** 当前实际显示的歌词来源（含自动匹配） */
+  activeSource: Song | null;
+}
+
+const describeCandidate = ({ bundle }: LyricCandidate): string => {
+  const lines = parseLyricBundle(bundle);
+  const tags = [`${lines.length} 行`];
+  if (lines.some((line) => line.words)) tags.push("逐字");
+  if (bundle.translation) tags.push("翻译");
+  if (bundle.romanization) tags.push("罗马音");
+  return tags.join(" · ");
+};
+
+const LyricSourcePicker: React.FC<LyricSourcePickerProps> = ({
+  isOpen,
+  onClose,
+  song,
+  chosenSource,
+  activeSource,
+}) => {
+  const { showToast } = useToast();
+  const [candidates, setCandidates] = useState<LyricCandidate[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !song) return;
+    let cancelled = false;
+    setCandidates(null);
+    findLyricCandidates(song)
+      .then((result) => !cancelled && setCandidates(result))
+      .catch(() => !cancelled && setCandidates([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, song]);
+
+  if (!isOpen || !song) return null;
+
+  const handlePick = (candidate: Song | null) => {
+    setLyricSource(song, candidate);
+    showToast(
+      candidate
+        ? `此歌曲将始终使用${getMusicSourceLabel(candidate.source, "full")}的歌词`
+        : "已恢复原音源歌词",
+      "success",
+    );
+    onClose();
+  };
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black/40 z-[60] backdrop-blur-sm transition-opacity touch-auto"
+        onClick={onClose}
+        onPointerDown={(e) => e.stopPropagation()}
+      />
+
+      <div
+        className="fixed bottom-0 left-0 right-0 bg-white rounded-t-3xl z-[61] p-6 pb-safe shadow-2xl animate-slide-up max-h-[85vh] overflow-y-auto touch-auto"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <h3 className="font-bold text-lg mb-1">搜索歌词</h3>
+        <p className="text-xs text-gray-500 mb-4 truncate">
+          在其他平台查找「{song.name}」的歌词，按歌名、歌手和时长匹配
+        </p>
+
+        <div className="max-h-[50vh] overflow-y-auto no-scrollbar space-y-2">
+          {chosenSource && (
+            <button
+              onClick={() => handlePick(null)}
+              className="w-full p-3 border-2 border-dashed border-gray-200 rounded-xl text-gray-500 text-sm font-medium hover:border-ios-red hover:text-ios-red transition"
+            >
+              恢复原音源歌词（{getMusicSourceLabel(song.source, "full")}）
+            </button>
+          )}
+
+          {candidates === null ? (
+            <div className="text-center py-6 text-gray-400 text-sm">正在其他平台查找...</div>
+          ) : candidates.length === 0 ? (
+            <div className="text-center py-6 text-gray-400 text-sm">没有找到带歌词的匹配歌曲</div>
+          ) : (
+            candidates.map((candidate) => (
+              <button
+                key={getSongKey(candidate.song)}
+                onClick={() => handlePick(candidate.song)}
+                className="w-full flex items-center justify-between p-3 bg-gray-50 hover:bg-gray-100 rounded-xl transition active:scale-[0.98]"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span
+                    className={`text-[10px] px-1.5 py-0.5 rounded flex-shrink-0 ${getMusicSourceBadgeClass(candidate.song.source)}`}
+                  >
+                    {getMusicSourceLabel(candidate.song.source)}
+                  </span>
+                  <div className="text-left min-w-0">
+                    <p className="font-medium text-sm text-gray-800 truncate">{candidate.song.name}</p>
+                    <p className="text-[10px] text-gray-400 truncate">
+                      {candidate.song.artist} · {describeCandidate(candidate)}
+                    </p>
+                  </div>
+                </div>
+                {isSameSong(candidate.song, chosenSource) ? (
+                  <span className="text-[10px] bg-ios-red/10 text-ios-red px-2 py-0.5 rounded-full flex-shrink-0">
+                    当前
+                  </span>
+                ) : isSameSong(candidate.song, activeSource) ? (
+                  <span className="text-[10px] bg-gray-200 text-gray-500 px-2 py-0.5 rounded-full flex-shrink-0">
+                    自动
+                  </span>
+                ) : (
+                  <span className="text-[10px] text-gray-400 flex-shrink-0">
+                    {Math.round(candidate.score * 100)}%
+                  </span>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full mt-4 py-3 text-center font-bold text-gray-500 bg-white border border-gray-100 rounded-xl active:bg-gray-50"
+        >
+          关闭
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default LyricSourcePicker;
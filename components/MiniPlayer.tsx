@@ -3,9 +3,11 @@ import {
   usePlayerActions,
   usePlayerNowPlaying,
   usePlayerQueueState,
+  usePlayerSettings,
 } from '../contexts/PlayerContext';
 import { getImgReferrerPolicy } from '../services/api';
-import { PlayIcon, PauseIcon, NextIcon, MusicIcon } from './Icons';
+import { PlayIcon, PauseIcon, NextIcon, MusicIcon, SleepIcon } from './Icons';
+import { useSleepTimerCountdown } from './useSleepTimerCountdown';
 import { motion } from 'framer-motion';
 
 interface MiniPlayerProps {
@@ -17,6 +19,8 @@ const MiniPlayer: React.FC<MiniPlayerProps> = ({ onExpand, layoutId }) => {
   const { currentSong, isPlaying, isLoading } = usePlayerNowPlaying();
   const { togglePlay, playNext } = usePlayerActions();
   const { queue } = usePlayerQueueState();
+  const { sleepTimer } = usePlayerSettings();
+  const sleepCountdown = useSleepTimerCountdown(sleepTimer);
   const [imgError, setImgError] = useState(false);
 
   // Reset error state when song changes
@@ -70,6 +74,16 @@ const MiniPlayer: React.FC<MiniPlayerProps> = ({ onExpand, layoutId }) => {
             </p>
           </div>
 
+          {sleepCountdown && (
+            <div
+              className="flex items-center space-x-1 mr-3 px-2 py-0.5 rounded-full bg-ios-red/10 text-ios-red text-[10px] font-medium font-mono tabular-nums flex-shrink-0"
+              aria-label={`睡眠定时 ${sleepCountdown}`}
+            >
+              <SleepIcon size={10} />
+              <span>{sleepCountdown}</span>
+            </div>
+          )}
+
           <div className="flex items-center space-x-4">
             <button 
               onClick={(e) => { 
@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { usePlayerActions } from "../contexts/PlayerContext";
+import { useToast } from "./ToastHost";
+import { DownloadIcon, TrashIcon } from "./Icons";
+import {
+  clearOfflineSongs,
+  deleteOfflineSongs,
+  getOfflineStorageEstimate,
+  listOfflineSongs,
+  subscribeOfflineChange,
+  type OfflineSongRecord,
+  type OfflineStorageEstimate,
+} from "../services/api";
+import { formatBytes } from "../utils/formatting";
+
+const STALE_DAYS = 30;
+
+const OfflineStorageManager: React.FC = () => {
+  const { playQueue } = usePlayerActions();
+  const { showToast } = useToast();
+  const [records, setRecords] = useState<OfflineSongRecord[]>([]);
+  const [estimate, setEstimate] = useState<OfflineStorageEstimate | null>(null);
+  const [unsupported, setUnsupported] = useState(false);
+
+  const refresh = useCallback(() => {
+    Promise.all([listOfflineSongs(), getOfflineStorageEstimate()])
+      .then(([nextRecords, nextEstimate]) => {
+        setRecords(nextRecords);
+        setEstimate(nextEstimate);
+      })
+      .catch(() => setUnsupported(true));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeOfflineChange(refresh);
+  }, [refresh]);
+
+  const handleEvictStale = async () => {
+    const threshold = Date.now() - STALE_DAYS * 24 * 60 * 60 * 1000;
+    const stale = records.filter(
+      (record) => (record.lastPlayedAt || record.savedAt) < threshold,
+    );
+    if (stale.length === 0) {
+      showToast(`没有超过 ${STALE_DAYS} 天未播放的歌曲`, "info");
+      return;
+    }
+    await deleteOfflineSongs(stale.map((record) => record.key));
+    showToast(`已清理 ${stale.length} 首歌曲`, "success");
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("确定清空全部离线歌曲吗？")) return;
+    await clearOfflineSongs();
+    showToast("已清空离线缓存", "success");
+  };
+
+  const usageRatio =
+    estimate && estimate.quota > 0
+      ? Math.min(1, estimate.usage / estimate.quota)
+      : 0;
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm">
+      <div className="flex items-center space-x-3 mb-4 text-gray-600">
+        <DownloadIcon size={20} />
+        <h3 className="font-bold text-lg">离线缓存</h3>
+      </div>
+
+      {unsupported ? (
+        <p className="text-xs text-gray-400">当前浏览器不支持离线缓存</p>
+      ) : (
+        <>
+          <div className="mb-4">
+            <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+              <span>
+                {estimate?.count || 0} 首 · {formatBytes(estimate?.offlineBytes || 0)}
+              </span>
+              {estimate && estimate.quota > 0 && (
+                <span>
+                  已用 {formatBytes(estimate.usage)} / {formatBytes(estimate.quota)}
+                </span>
+              )}
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-ios-red rounded-full transition-all"
+                style={{ width: `${usageRatio * 100}%` }}
+              />
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1 leading-tight">
+              在播放页下载菜单中选择「离线保存」。空间不足时会自动移除最久未播放的歌曲。
+            </p>
+          </div>
+
+          {records.length > 0 && (
+            <div className="max-h-[240px] overflow-y-auto no-scrollbar space-y-2 mb-4">
+              {records.map((record) => (
+                <div
+                  key={record.key}
+                  className="flex items-center justify-between bg-gray-50 rounded-xl p-3 cursor-pointer active:scale-[0.98] transition"
+                  onClick={() =>
+                    playQueue(
+                      records.map((item) => item.song),
+                      record.song,
+                    )
+                  }
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-ios-text truncate">
+                      {record.song.name}
+                    </p>
+                    <p className="text-[10px] text-gray-400 truncate">
+                      {record.song.artist} · {record.quality} · {formatBytes(record.size)}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void deleteOfflineSongs([record.key]);
+                    }}
+                    className="p-2 text-ios-red/70 hover:text-ios-red bg-ios-red/5 rounded-full flex-shrink-0"
+                  >
+                    <TrashIcon size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={handleEvictStale}
+              disabled={records.length === 0}
+              className="py-3 bg-gray-100 text-ios-text rounded-xl font-medium text-xs disabled:opacity-50"
+            >
+              清理 {STALE_DAYS} 天未播放
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={records.length === 0}
+              className="py-3 bg-gray-100 text-ios-red rounded-xl font-medium text-xs disabled:opacity-50"
+            >
+              全部清除
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OfflineStorageManager;
@@ -1,15 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import {
+  MIN_AB_LOOP_SECONDS,
   usePlayerActions,
   usePlayerNowPlaying,
+  usePlayerProgress,
   usePlayerSettings,
 } from '../contexts/PlayerContext';
 import { useLibrary } from '../contexts/LibraryContext';
-import { getImgReferrerPolicy } from '../services/api';
+import {
+  findSongMatches,
+  getImgReferrerPolicy,
+  getSourceOverride,
+  resolveSongPageId,
+  type SongMatchCandidate,
+  type SongPageKind,
+} from '../services/api';
 import { useNavigate } from 'react-router-dom';
-import { FolderIcon, PlusIcon, MusicIcon, SearchIcon, DownloadIcon, ShareIcon } from './Icons';
-import { getSongKey } from '../types';
+import { FolderIcon, PlusIcon, MusicIcon, SearchIcon, DownloadIcon, ShareIcon, SwitchSourceIcon, EqualizerIcon, SleepIcon } from './Icons';
+import { Song, getSongKey, isSameSong } from '../types';
 import { useToast } from './ToastHost';
+import { getMusicSourceBadgeClass, getMusicSourceLabel } from '../utils/musicSource';
+import { MAX_CROSSFADE_SECONDS } from '../contexts/playerPersistence';
+import EqualizerPanel from './EqualizerPanel';
+import SleepTimerPanel from './SleepTimerPanel';
+import { useSleepTimerCountdown } from './useSleepTimerCountdown';
 
 interface PlayerMorePopupProps {
   isOpen: boolean;
@@ -17,18 +31,79 @@ interface PlayerMorePopupProps {
   onClosePlayer?: () => void;
 }
 
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// 单独订阅播放进度，避免整个弹窗随 timeupdate 重渲染
+const AbLoopControls: React.FC = () => {
+  const { currentTime } = usePlayerProgress();
+  const { abLoop } = usePlayerSettings();
+  const { setAbLoop } = usePlayerActions();
+
+  const buttonClass = 'px-3 py-1 rounded-full text-xs font-bold bg-white text-gray-500 shadow-sm disabled:opacity-50';
+
+  return (
+    <div className="flex items-center justify-between mt-3">
+      <span className="text-xs font-medium text-gray-600 font-mono tabular-nums">
+        {!abLoop
+          ? 'A-B 循环'
+          : abLoop.end === null
+            ? `A ${formatTime(abLoop.start)} → B ?`
+            : `${formatTime(abLoop.start)} → ${formatTime(abLoop.end)}`}
+      </span>
+      <div className="flex items-center space-x-2">
+        {!abLoop ? (
+          <button onClick={() => setAbLoop({ start: currentTime, end: null })} className={buttonClass}>
+            设为 A 点
+          </button>
+        ) : abLoop.end === null ? (
+          <button
+            onClick={() => setAbLoop({ start: abLoop.start, end: currentTime })}
+            disabled={currentTime - abLoop.start < MIN_AB_LOOP_SECONDS}
+            className={buttonClass}
+          >
+            设为 B 点
+          </button>
+        ) : null}
+        {abLoop && (
+          <button onClick={() => setAbLoop(null)} className={buttonClass}>
+            取消
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
 const PlayerMorePopupContent: React.FC<{
   onClose: () => void;
   onClosePlayer?: () => void;
 }> = ({ onClose, onClosePlayer }) => {
   const { currentSong } = usePlayerNowPlaying();
-  const { audioQuality } = usePlayerSettings();
-  const { setAudioQuality } = usePlayerActions();
+  const { audioQuality, crossfade, equalizer, playbackRate, preservePitch, sleepTimer } = usePlayerSettings();
+  const {
+    setAudioQuality,
+    setCrossfadeSettings,
+    setPlaybackRate,
+    setPreservePitch,
+    setSongSourceOverride,
+  } = usePlayerActions();
   const { playlists, addToPlaylist, createPlaylist } = useLibrary();
   const { showToast } = useToast();
   const [showPlaylistSelect, setShowPlaylistSelect] = useState(false);
   const [newPlaylistName, setNewPlaylistName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
+  const [showSourceSelect, setShowSourceSelect] = useState(false);
+  const [sourceCandidates, setSourceCandidates] = useState<SongMatchCandidate[] | null>(null);
+  const [showEqualizer, setShowEqualizer] = useState(false);
+  const [showSleepTimer, setShowSleepTimer] = useState(false);
+  const [resolvingPage, setResolvingPage] = useState<SongPageKind | null>(null);
+  const sleepCountdown = useSleepTimerCountdown(sleepTimer);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -54,18 +129,53 @@ const PlayerMorePopupContent: React.FC<{
     }
   };
 
-  const handleSearch = (keyword: string) => {
+  const sourceOverride = getSourceOverride(currentSong);
+
+  const openSourceSelect = () => {
+    setShowSourceSelect(true);
+    setSourceCandidates(null);
+    // 手动换源时放宽匹配阈值，由用户自行判断
+    findSongMatches(currentSong, { minScore: 0.4 })
+      .then(setSourceCandidates)
+      .catch(() => setSourceCandidates([]));
+  };
+
+  const handlePinSource = (alternate: Song | null) => {
+    setSongSourceOverride(currentSong, alternate);
+    showToast(
+      alternate
+        ? `此歌曲将始终使用${getMusicSourceLabel(alternate.source, 'full')}播放`
+        : '已恢复原始音源',
+      'success',
+    );
+    onClose();
+  };
+
+  const navigateAfterClose = (path: string) => {
     onClose();
     setTimeout(() => {
       if (onClosePlayer) onClosePlayer();
-      if (keyword) {
-        navigate(`/search?q=${encodeURIComponent(keyword)}`);
-      } else {
-        navigate('/search');
-      }
+      navigate(path);
     }, 300);
   };
 
+  const handleSearch = (keyword: string) => {
+    navigateAfterClose(keyword ? `/search?q=${encodeURIComponent(keyword)}` : '/search');
+  };
+
+  // 打开歌手页 / 专辑页；音源不支持或找不到对应 ID 时退回关键词搜索
+  const handleOpenPage = async (kind: SongPageKind) => {
+    const song = currentSong;
+    setResolvingPage(kind);
+    const id = await resolveSongPageId(song, kind).catch(() => null);
+    setResolvingPage(null);
+    if (id) {
+      navigateAfterClose(`/${kind}/${song.source}/${encodeURIComponent(id)}`);
+    } else {
+      handleSearch(kind === 'artist' ? song.artist : song.album);
+    }
+  };
+
   const handleShare = async () => {
     const shareText = `我在 TuneFree 发现了一首好歌：${currentSong.artist} - ${currentSong.name}，快来听听吧！`;
     const shareUrl = window.location.origin;
@@ -127,7 +237,61 @@ const PlayerMorePopupContent: React.FC<{
           </div>
         </div>
 
-        {!showPlaylistSelect ? (
+        {showSleepTimer ? (
+          <SleepTimerPanel onBack={() => setShowSleepTimer(false)} />
+        ) : showEqualizer ? (
+          <EqualizerPanel onBack={() => setShowEqualizer(false)} />
+        ) : showSourceSelect ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-bold text-gray-800">换源播放</h4>
+              <button onClick={() => setShowSourceSelect(false)} className="text-xs text-ios-red font-medium">返回</button>
+            </div>
+
+            <div className="max-h-[300px] overflow-y-auto no-scrollbar space-y-2">
+              {sourceOverride && (
+                <button
+                  onClick={() => handlePinSource(null)}
+                  className="w-full flex items-center space-x-3 p-3 border-2 border-dashed border-gray-200 rounded-xl text-gray-500 hover:border-ios-red hover:text-ios-red transition"
+                >
+                  <SwitchSourceIcon size={20} />
+                  <span className="font-medium text-sm">恢复原始音源（{getMusicSourceLabel(currentSong.source, 'full')}）</span>
+                </button>
+              )}
+
+              {sourceCandidates === null ? (
+                <div className="text-center py-6 text-gray-400 text-sm">正在其他平台查找...</div>
+              ) : sourceCandidates.length === 0 ? (
+                <div className="text-center py-6 text-gray-400 text-sm">没有找到匹配的歌曲</div>
+              ) : (
+                sourceCandidates.map(({ song, score }) => (
+                  <button
+                    key={getSongKey(song)}
+                    onClick={() => handlePinSource(song)}
+                    className="w-full flex items-center justify-between p-3 bg-gray-50 hover:bg-gray-100 rounded-xl transition active:scale-[0.98]"
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded flex-shrink-0 ${getMusicSourceBadgeClass(song.source)}`}>
+                        {getMusicSourceLabel(song.source)}
+                      </span>
+                      <div className="text-left min-w-0">
+                        <p className="font-medium text-sm text-gray-800 truncate">{song.name}</p>
+                        <p className="text-[10px] text-gray-400 truncate">
+                          {song.artist}{song.album ? ` · ${song.album}` : ''}
+                        </p>
+                      </div>
+                    </div>
+                    {isSameSong(song, sourceOverride) ? (
+                      <span className="text-[10px] bg-ios-red/10 text-ios-red px-2 py-0.5 rounded-full flex-shrink-0">当前</span>
+                    ) : (
+                      <span className="text-[10px] text-gray-400 flex-shrink-0">{Math.round(score * 100)}%</span>
+                    )}
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+        ) : !showPlaylistSelect ? (
           <div className="space-y-4">
             <div className="p-4 bg-gray-50 rounded-xl">
               <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase tracking-wider">在线播放音质</h4>
@@ -146,6 +310,70 @@ const PlayerMorePopupContent: React.FC<{
               </div>
             </div>
 
+            <div className="p-4 bg-gray-50 rounded-xl">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">播放速度</h4>
+                <button
+                  onClick={() => setPreservePitch(!preservePitch)}
+                  className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${
+                    preservePitch ? 'bg-black text-white shadow-md' : 'bg-white text-gray-500 shadow-sm'
+                  }`}
+                >
+                  {preservePitch ? '保持音调' : '音调随速度'}
+                </button>
+              </div>
+              <div className="flex bg-white p-1 rounded-lg shadow-sm">
+                {PLAYBACK_RATES.map(rate => (
+                  <button
+                    key={rate}
+                    onClick={() => setPlaybackRate(rate)}
+                    className={`flex-1 py-2 rounded-md text-xs font-bold transition-all ${
+                      playbackRate === rate ? 'bg-black text-white shadow-md' : 'text-gray-500 hover:bg-gray-50'
+                    }`}
+                  >
+                    {rate}x
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-400 mt-2">速度按歌曲记住，下次播放这首歌时自动恢复</p>
+              <AbLoopControls />
+            </div>
+
+            <div className="p-4 bg-gray-50 rounded-xl">
+              <div className="flex items-center justify-between">
+                <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">歌曲过渡</h4>
+                <button
+                  onClick={() => setCrossfadeSettings({ enabled: !crossfade.enabled })}
+                  className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${
+                    crossfade.enabled ? 'bg-black text-white shadow-md' : 'bg-white text-gray-500 shadow-sm'
+                  }`}
+                >
+                  {crossfade.enabled ? '已开启' : '已关闭'}
+                </button>
+              </div>
+              {crossfade.enabled && (
+                <div className="mt-3">
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="range"
+                      min={0}
+                      max={MAX_CROSSFADE_SECONDS}
+                      step={1}
+                      value={crossfade.seconds}
+                      onChange={e => setCrossfadeSettings({ seconds: parseFloat(e.target.value) })}
+                      className="flex-1 h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-black"
+                    />
+                    <span className="w-14 text-right text-xs font-bold text-gray-700 font-mono tabular-nums">
+                      {crossfade.seconds > 0 ? `${crossfade.seconds} 秒` : '无缝'}
+                    </span>
+                  </div>
+                  <p className="text-[10px] text-gray-400 mt-2">
+                    同专辑连续曲目始终无缝衔接。从下一首开始生效，iOS 及酷我音源不支持
+                  </p>
+                </div>
+              )}
+            </div>
+
             <div className="space-y-2">
               <button
                 onClick={() => setShowPlaylistSelect(true)}
@@ -157,6 +385,49 @@ const PlayerMorePopupContent: React.FC<{
                 <span className="font-medium text-gray-800">添加到歌单...</span>
               </button>
 
+              <button
+                onClick={openSourceSelect}
+                className="w-full flex items-center space-x-4 p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition active:scale-[0.98]"
+              >
+                <div className="p-2 bg-white rounded-full text-ios-red shadow-sm">
+                  <SwitchSourceIcon size={20} />
+                </div>
+                <span className="font-medium text-gray-800">换源播放...</span>
+                {sourceOverride && (
+                  <span className="text-[10px] bg-ios-red/10 text-ios-red px-2 py-0.5 rounded-full">
+                    {getMusicSourceLabel(sourceOverride.source)}
+                  </span>
+                )}
+              </button>
+
+              <button
+                onClick={() => setShowEqualizer(true)}
+                className="w-full flex items-center space-x-4 p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition active:scale-[0.98]"
+              >
+                <div className="p-2 bg-white rounded-full text-ios-red shadow-sm">
+                  <EqualizerIcon size={20} />
+                </div>
+                <span className="font-medium text-gray-800">均衡器...</span>
+                {equalizer.enabled && (
+                  <span className="text-[10px] bg-ios-red/10 text-ios-red px-2 py-0.5 rounded-full">已开启</span>
+                )}
+              </button>
+
+              <button
+                onClick={() => setShowSleepTimer(true)}
+                className="w-full flex items-center space-x-4 p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition active:scale-[0.98]"
+              >
+                <div className="p-2 bg-white rounded-full text-ios-red shadow-sm">
+                  <SleepIcon size={20} />
+                </div>
+                <span className="font-medium text-gray-800">睡眠定时...</span>
+                {sleepCountdown && (
+                  <span className="text-[10px] bg-ios-red/10 text-ios-red px-2 py-0.5 rounded-full font-mono tabular-nums">
+                    {sleepCountdown}
+                  </span>
+                )}
+              </button>
+
               <button
                 onClick={handleShare}
                 className="w-full flex items-center space-x-4 p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition active:scale-[0.98]"
@@ -170,20 +441,20 @@ const PlayerMorePopupContent: React.FC<{
 
             <div className="grid grid-cols-2 gap-2 mt-2">
               <button
-                onClick={() => currentSong.artist && handleSearch(currentSong.artist)}
-                disabled={!currentSong.artist}
+                onClick={() => currentSong.artist && handleOpenPage('artist')}
+                disabled={!currentSong.artist || resolvingPage !== null}
                 className={`flex flex-col items-center justify-center p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition active:scale-[0.98] ${!currentSong.artist ? 'opacity-50 cursor-not-allowed' : ''}`}
               >
                 <SearchIcon size={24} className="mb-2 text-gray-500" />
-                <span className="text-xs font-medium text-gray-600">搜索歌手</span>
+                <span className="text-xs font-medium text-gray-600">{resolvingPage === 'artist' ? '正在查找…' : '查看歌手'}</span>
               </button>
               <button
-                onClick={() => currentSong.album && handleSearch(currentSong.album)}
-                disabled={!currentSong.album}
+                onClick={() => currentSong.album && handleOpenPage('album')}
+                disabled={!currentSong.album || resolvingPage !== null}
                 className={`flex flex-col items-center justify-center p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition active:scale-[0.98] ${!currentSong.album ? 'opacity-50 cursor-not-allowed' : ''}`}
               >
                 <SearchIcon size={24} className="mb-2 text-gray-500" />
-                <span className="text-xs font-medium text-gray-600">搜索专辑</span>
+                <span className="text-xs font-medium text-gray-600">{resolvingPage === 'album' ? '正在查找…' : '查看专辑'}</span>
               </button>
             </div>
 
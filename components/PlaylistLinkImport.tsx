@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { useLibrary } from "../contexts/LibraryContext";
+import { useToast } from "./ToastHost";
+import { getMusicSource, getPlaylistDetail, parsePlaylistLink } from "../services/api";
+
+interface PlaylistLinkImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PLATFORM_OPTIONS = [
+  { id: "", label: "自动识别" },
+  { id: "netease", label: "网易云" },
+  { id: "qq", label: "QQ音乐" },
+  { id: "kuwo", label: "酷我" },
+];
+
+const PlaylistLinkImport: React.FC<PlaylistLinkImportProps> = ({ isOpen, onClose }) => {
+  const { createPlaylist } = useLibrary();
+  const { showToast } = useToast();
+  const [input, setInput] = useState("");
+  const [platform, setPlatform] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    if (loading) return;
+    setInput("");
+    onClose();
+  };
+
+  const handleImport = async () => {
+    const target = parsePlaylistLink(input, platform || undefined);
+    if (!target) {
+      showToast(
+        /^\s*\d+\s*$/.test(input)
+          ? "纯数字 ID 请先选择所属平台"
+          : "无法识别歌单链接，短链接请先在浏览器中打开后复制完整地址",
+        "error",
+      );
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const playlist = await getPlaylistDetail(target.source, target.id);
+      if (!playlist || playlist.songs.length === 0) {
+        showToast("没有获取到歌曲，歌单可能不存在或未公开", "error");
+        return;
+      }
+      const label = getMusicSource(target.source)?.label.short || target.source;
+      const name = playlist.name || `${label}歌单 ${target.id}`;
+      createPlaylist(name, playlist.songs);
+      showToast(`已导入「${name}」，共 ${playlist.songs.length} 首`, "success");
+      setInput("");
+      onClose();
+    } catch {
+      showToast("导入失败，请稍后再试", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 px-4"
+      onClick={handleClose}
+    >
+      <div
+        className="w-full max-w-md bg-white rounded-2xl p-6 shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-bold mb-1">从链接导入歌单</h3>
+        <p className="text-xs text-gray-400 mb-4">
+          支持网易云、QQ 音乐、酷我的歌单分享链接或分享文案
+        </p>
+        <div className="flex bg-gray-100 p-1 rounded-lg mb-3">
+          {PLATFORM_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setPlatform(option.id)}
+              disabled={loading}
+              className={`flex-1 py-1.5 rounded-md text-[11px] font-bold transition-all ${
+                platform === option.id ? "bg-white text-black shadow-sm" : "text-gray-500"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <textarea
+          placeholder="粘贴歌单链接，或选择平台后输入歌单 ID"
+          className="w-full h-24 resize-none bg-gray-50 border border-gray-200 p-3 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-ios-red/20 mb-4"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          disabled={loading}
+          autoFocus
+        />
+        <div className="flex space-x-3">
+          <button
+            onClick={handleClose}
+            disabled={loading}
+            className="flex-1 py-3 bg-gray-100 text-gray-600 rounded-xl font-medium text-sm disabled:opacity-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={loading || !input.trim()}
+            className="flex-1 py-3 bg-ios-red text-white rounded-xl font-bold text-sm disabled:opacity-50"
+          >
+            {loading ? "正在获取…" : "导入"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistLinkImport;
@@ -1,12 +1,14 @@
-import React, { useRef, useEffect, memo } from 'react';
+import React, { useRef, useEffect, useState, memo } from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
 import {
   usePlayerActions,
   usePlayerNowPlaying,
   usePlayerQueueState,
 } from '../contexts/PlayerContext';
+import { useLibrary } from '../contexts/LibraryContext';
 import { getImgReferrerPolicy } from '../services/api';
-import { Song, getSongKey, isSameSong } from '../types';
-import { TrashIcon, MusicIcon } from './Icons';
+import { PLAY_MODE_LABELS, Song, getSongKey, isSameSong } from '../types';
+import { TrashIcon, MusicIcon, GripIcon, CheckIcon, FolderIcon, PlayNextIcon, RadioIcon } from './Icons';
 import { useToast } from './ToastHost';
 
 interface QueuePopupProps {
@@ -17,15 +19,33 @@ interface QueuePopupProps {
 const QueueItem = memo<{
   song: Song;
   isCurrent: boolean;
+  isSelecting: boolean;
+  isSelected: boolean;
   onPlay: (song: Song) => void;
   onRemove: (song: Song) => void;
-}>(({ song, isCurrent, onPlay, onRemove }) => {
+  onPlayNext: (song: Song) => void;
+  onToggleSelect: (song: Song) => void;
+  onDragEnd: (song: Song) => void;
+}>(({ song, isCurrent, isSelecting, isSelected, onPlay, onRemove, onPlayNext, onToggleSelect, onDragEnd }) => {
+  const dragControls = useDragControls();
+
   return (
-    <div
+    <Reorder.Item
+      value={getSongKey(song)}
+      dragListener={false}
+      dragControls={dragControls}
+      onDragEnd={() => onDragEnd(song)}
       id={`queue-item-${getSongKey(song)}`}
-      className={`flex items-center space-x-3 p-3 rounded-xl mb-1 transition cursor-pointer ${isCurrent ? 'bg-ios-red/5' : 'hover:bg-gray-50 active:bg-gray-100'}`}
-      onClick={() => onPlay(song)}
+      className={`flex items-center space-x-3 p-3 rounded-xl mb-1 transition-colors cursor-pointer bg-white ${isCurrent ? 'bg-ios-red/5' : 'hover:bg-gray-50 active:bg-gray-100'}`}
+      onClick={() => (isSelecting ? onToggleSelect(song) : onPlay(song))}
     >
+      {isSelecting && (
+        <div
+          className={`w-5 h-5 rounded-full border-2 flex-shrink-0 flex items-center justify-center ${isSelected ? 'bg-ios-red border-ios-red text-white' : 'border-gray-300'}`}
+        >
+          {isSelected && <CheckIcon size={12} />}
+        </div>
+      )}
       <div className="w-10 h-10 rounded-lg bg-gray-100 flex-shrink-0 overflow-hidden flex items-center justify-center relative">
         {song.pic ? (
           <img src={song.pic} referrerPolicy={getImgReferrerPolicy(song.pic)} className="w-full h-full object-cover" />
@@ -45,26 +65,78 @@ const QueueItem = memo<{
           <p className="text-xs text-gray-500 truncate">{song.artist}</p>
         </div>
       </div>
-      <button
-        className="p-2 text-gray-300 hover:text-ios-red"
-        onClick={(e) => {
+      {!isSelecting && (
+        <>
+          {!isCurrent && (
+            <button
+              className="p-2 text-gray-300 hover:text-ios-red"
+              aria-label="下一首播放"
+              title="下一首播放"
+              onClick={(e) => {
+                e.stopPropagation();
+                onPlayNext(song);
+              }}
+            >
+              <PlayNextIcon size={16} />
+            </button>
+          )}
+          <button
+            className="p-2 text-gray-300 hover:text-ios-red"
+            aria-label="移出队列"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove(song);
+            }}
+          >
+            <TrashIcon size={16} />
+          </button>
+        </>
+      )}
+      <div
+        className="p-2 -mr-2 text-gray-300 cursor-grab active:cursor-grabbing touch-none"
+        aria-label="拖动排序"
+        onPointerDown={(e) => {
           e.stopPropagation();
-          onRemove(song);
+          dragControls.start(e);
         }}
+        onClick={(e) => e.stopPropagation()}
       >
-        <TrashIcon size={16} />
-      </button>
-    </div>
+        <GripIcon size={16} />
+      </div>
+    </Reorder.Item>
   );
 });
 
 const QueuePopupContent: React.FC<{ onClose: () => void }> = ({ onClose }) => {
-  const { queue, playMode } = usePlayerQueueState();
+  const { queue, playMode, radioEnabled, radioSongKeys } = usePlayerQueueState();
   const { currentSong } = usePlayerNowPlaying();
-  const { playSong, removeFromQueue, clearQueue, restoreQueue, togglePlayMode } =
-    usePlayerActions();
+  const {
+    playSong,
+    removeSongsFromQueue,
+    queueNext,
+    moveInQueue,
+    clearQueue,
+    restoreQueue,
+    togglePlayMode,
+    setRadioEnabled,
+  } = usePlayerActions();
+  const { playlists, addToPlaylist } = useLibrary();
   const { showToast } = useToast();
   const listRef = useRef<HTMLDivElement>(null);
+  // 拖动过程中的临时顺序，松手后再提交到播放队列
+  const [order, setOrder] = useState<string[]>(() => queue.map(getSongKey));
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(() => new Set());
+  const [showPlaylistSelect, setShowPlaylistSelect] = useState(false);
+
+  useEffect(() => {
+    setOrder(queue.map(getSongKey));
+    setSelectedKeys((prev) => {
+      const keys = new Set(queue.map(getSongKey));
+      const next = new Set([...prev].filter((key) => keys.has(key)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [queue]);
 
   useEffect(() => {
     document.body.style.overflow = 'hidden';
@@ -82,6 +154,18 @@ const QueuePopupContent: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     }
   }, [currentSong]);
 
+  const songsByKey = new Map(queue.map((song) => [getSongKey(song), song]));
+  const selectedSongs = queue.filter((song) => selectedKeys.has(getSongKey(song)));
+
+  const removeWithUndo = (songs: Song[], message: string) => {
+    const previousQueue = queue;
+    removeSongsFromQueue(songs);
+    showToast(message, 'success', {
+      label: '撤销',
+      onClick: () => restoreQueue(previousQueue),
+    });
+  };
+
   const handleClearQueue = () => {
     const previousQueue = queue;
     clearQueue();
@@ -91,6 +175,78 @@ const QueuePopupContent: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     });
   };
 
+  const handleRemove = (song: Song) => {
+    removeWithUndo([song], `已将「${song.name}」移出队列`);
+  };
+
+  const handlePlayNext = (song: Song) => {
+    queueNext(song);
+    showToast('已设为下一首播放', 'success');
+  };
+
+  const handleDragEnd = (song: Song) => {
+    const key = getSongKey(song);
+    const from = queue.findIndex((queued) => isSameSong(queued, song));
+    const to = order.indexOf(key);
+    if (from >= 0 && to >= 0 && from !== to) moveInQueue(from, to);
+  };
+
+  const handleToggleSelect = (song: Song) => {
+    const key = getSongKey(song);
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const exitSelecting = () => {
+    setIsSelecting(false);
+    setSelectedKeys(new Set());
+    setShowPlaylistSelect(false);
+  };
+
+  const handleRemoveSelected = () => {
+    removeWithUndo(selectedSongs, `已移出 ${selectedSongs.length} 首歌曲`);
+    exitSelecting();
+  };
+
+  const handleAddSelectedToPlaylist = (playlistId: string) => {
+    selectedSongs.forEach((song) => addToPlaylist(playlistId, song));
+    showToast(`已添加 ${selectedSongs.length} 首歌曲到歌单`, 'success');
+    exitSelecting();
+  };
+
+  const allSelected = queue.length > 0 && selectedKeys.size === queue.length;
+
+  // 队列末尾连续由电台追加的歌曲单独成组显示，各组内分别拖动排序
+  const radioKeys = new Set(radioSongKeys);
+  let radioStart = order.length;
+  while (radioStart > 0 && radioKeys.has(order[radioStart - 1])) radioStart--;
+  const mainOrder = order.slice(0, radioStart);
+  const radioOrder = order.slice(radioStart);
+
+  const renderItems = (keys: string[]) =>
+    keys.map((key) => {
+      const song = songsByKey.get(key);
+      if (!song) return null;
+      return (
+        <QueueItem
+          key={key}
+          song={song}
+          isCurrent={isSameSong(currentSong, song)}
+          isSelecting={isSelecting}
+          isSelected={selectedKeys.has(key)}
+          onPlay={playSong}
+          onRemove={handleRemove}
+          onPlayNext={handlePlayNext}
+          onToggleSelect={handleToggleSelect}
+          onDragEnd={handleDragEnd}
+        />
+      );
+    });
+
   return (
     <>
       <div
@@ -106,22 +262,50 @@ const QueuePopupContent: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         <div className="p-4 border-b border-gray-100 flex items-center justify-between bg-white/95 backdrop-blur z-10">
           <div>
             <h3 className="font-bold text-lg">播放队列 <span className="text-gray-400 text-sm">({queue.length})</span></h3>
-            <div className="flex items-center space-x-2 mt-1" onClick={togglePlayMode}>
-              <span className="text-xs bg-gray-100 px-2 py-0.5 rounded-full text-gray-500 font-medium cursor-pointer active:opacity-70">
-                {playMode === 'sequence' ? '列表循环' : playMode === 'loop' ? '单曲循环' : '随机播放'}
+            <div className="flex items-center space-x-2 mt-1">
+              <span
+                onClick={togglePlayMode}
+                className="text-xs bg-gray-100 px-2 py-0.5 rounded-full text-gray-500 font-medium cursor-pointer active:opacity-70"
+              >
+                {PLAY_MODE_LABELS[playMode]}
               </span>
+              <button
+                type="button"
+                onClick={() => setRadioEnabled(!radioEnabled)}
+                aria-pressed={radioEnabled}
+                title="队列播完后自动播放相似歌曲"
+                className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full font-medium active:opacity-70 ${radioEnabled ? 'bg-ios-red/10 text-ios-red' : 'bg-gray-100 text-gray-500'}`}
+              >
+                <RadioIcon size={12} />
+                电台
+              </button>
             </div>
+            {radioEnabled && (playMode === 'loopOne' || playMode === 'shuffle') && (
+              <p className="text-[10px] text-gray-400 mt-1">电台仅在顺序播放和列表循环模式下生效</p>
+            )}
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              type="button"
+              onClick={() => (isSelecting ? exitSelecting() : setIsSelecting(true))}
+              className="px-3 py-1 text-xs font-bold text-gray-500 hover:text-ios-red transition"
+              disabled={queue.length === 0}
+            >
+              {isSelecting ? '完成' : '选择'}
+            </button>
+            {!isSelecting && (
+              <button
+                type="button"
+                onClick={handleClearQueue}
+                className="p-2 text-gray-400 hover:text-ios-red transition"
+                aria-label="清空待播队列"
+                title="清空待播队列"
+                disabled={queue.length === 0}
+              >
+                <TrashIcon size={18} />
+              </button>
+            )}
           </div>
-          <button
-            type="button"
-            onClick={handleClearQueue}
-            className="p-2 text-gray-400 hover:text-ios-red transition"
-            aria-label="清空待播队列"
-            title="清空待播队列"
-            disabled={queue.length === 0}
-          >
-            <TrashIcon size={18} />
-          </button>
         </div>
 
         <div ref={listRef} className="flex-1 overflow-y-auto p-2 no-scrollbar">
@@ -130,19 +314,87 @@ const QueuePopupContent: React.FC<{ onClose: () => void }> = ({ onClose }) => {
               <span className="text-sm">队列为空</span>
             </div>
           ) : (
-            queue.map((song) => (
-              <QueueItem
-                key={`${song.id}-${song.source}`}
-                song={song}
-                isCurrent={isSameSong(currentSong, song)}
-                onPlay={playSong}
-                onRemove={(targetSong) =>
-                  removeFromQueue(targetSong.id, targetSong.source)
-                }
-              />
-            ))
+            <>
+              <Reorder.Group
+                axis="y"
+                values={mainOrder}
+                onReorder={(next) => setOrder([...next, ...radioOrder])}
+                layoutScroll
+              >
+                {renderItems(mainOrder)}
+              </Reorder.Group>
+              {radioOrder.length > 0 && (
+                <>
+                  <div className="flex items-center gap-1.5 px-3 pt-3 pb-2 text-xs font-bold text-gray-500">
+                    <RadioIcon size={14} className="text-ios-red" />
+                    电台 · 接下来播放
+                  </div>
+                  <Reorder.Group
+                    axis="y"
+                    values={radioOrder}
+                    onReorder={(next) => setOrder([...mainOrder, ...next])}
+                    layoutScroll
+                  >
+                    {renderItems(radioOrder)}
+                  </Reorder.Group>
+                </>
+              )}
+            </>
           )}
         </div>
+
+        {isSelecting && (
+          <div className="border-t border-gray-100 p-3 bg-white">
+            {showPlaylistSelect ? (
+              <div className="max-h-[30vh] overflow-y-auto no-scrollbar space-y-1">
+                <div className="flex items-center justify-between mb-1 px-1">
+                  <span className="text-xs font-bold text-gray-500">添加到歌单</span>
+                  <button onClick={() => setShowPlaylistSelect(false)} className="text-xs text-ios-red font-medium">返回</button>
+                </div>
+                {playlists.length === 0 ? (
+                  <p className="text-center py-4 text-xs text-gray-400">还没有歌单，请先在资料库中创建</p>
+                ) : (
+                  playlists.map(p => (
+                    <button
+                      key={p.id}
+                      onClick={() => handleAddSelectedToPlaylist(p.id)}
+                      className="w-full flex items-center space-x-3 p-2 hover:bg-gray-50 rounded-lg text-left"
+                    >
+                      <FolderIcon size={16} className="text-ios-red" />
+                      <span className="text-sm text-gray-800 truncate">{p.name}</span>
+                      <span className="text-[10px] text-gray-400">{p.songs.length} 首</span>
+                    </button>
+                  ))
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setSelectedKeys(allSelected ? new Set() : new Set(queue.map(getSongKey)))}
+                  className="text-xs font-bold text-gray-500"
+                >
+                  {allSelected ? '取消全选' : '全选'}
+                </button>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setShowPlaylistSelect(true)}
+                    disabled={selectedSongs.length === 0}
+                    className="px-3 py-2 rounded-lg text-xs font-bold bg-gray-100 text-gray-700 disabled:opacity-50"
+                  >
+                    添加到歌单
+                  </button>
+                  <button
+                    onClick={handleRemoveSelected}
+                    disabled={selectedSongs.length === 0}
+                    className="px-3 py-2 rounded-lg text-xs font-bold bg-ios-red text-white disabled:opacity-50"
+                  >
+                    移出队列{selectedSongs.length > 0 ? ` (${selectedSongs.length})` : ''}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </>
   );
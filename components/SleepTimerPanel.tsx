@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { usePlayerActions, usePlayerSettings } from '../contexts/PlayerContext';
+import { SLEEP_FADE_SECONDS } from '../contexts/playerSleepTimer';
+import { useSleepTimerCountdown } from './useSleepTimerCountdown';
+import { useToast } from './ToastHost';
+
+interface SleepTimerPanelProps {
+  onBack: () => void;
+}
+
+const PRESET_MINUTES = [15, 30, 45, 60, 90];
+/** 自定义时长上限（分钟） */
+const MAX_CUSTOM_MINUTES = 600;
+
+const SleepTimerPanel: React.FC<SleepTimerPanelProps> = ({ onBack }) => {
+  const { sleepTimer } = usePlayerSettings();
+  const { startSleepTimer, cancelSleepTimer } = usePlayerActions();
+  const { showToast } = useToast();
+  const countdown = useSleepTimerCountdown(sleepTimer);
+  const [customMinutes, setCustomMinutes] = useState('');
+  const [songCount, setSongCount] = useState(2);
+
+  const startByMinutes = (minutes: number) => {
+    startSleepTimer({ minutes });
+    showToast(`将在 ${minutes} 分钟后暂停播放`, 'success');
+  };
+
+  const startBySongs = (songs: number) => {
+    startSleepTimer({ songs });
+    showToast(songs === 1 ? '将在本曲结束后暂停播放' : `将在播完 ${songs} 首后暂停播放`, 'success');
+  };
+
+  const handleCustomStart = () => {
+    const minutes = Math.round(Number(customMinutes));
+    if (!Number.isFinite(minutes) || minutes < 1 || minutes > MAX_CUSTOM_MINUTES) {
+      showToast(`请输入 1 到 ${MAX_CUSTOM_MINUTES} 之间的分钟数`, 'error');
+      return;
+    }
+    setCustomMinutes('');
+    startByMinutes(minutes);
+  };
+
+  const chipClass = 'px-3 py-2 rounded-lg text-xs font-bold bg-white text-gray-600 shadow-sm active:scale-95 transition';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-gray-800">睡眠定时</h4>
+        <button onClick={onBack} className="text-xs text-ios-red font-medium">返回</button>
+      </div>
+
+      {sleepTimer && (
+        <div className="flex items-center justify-between p-4 bg-ios-red/10 rounded-xl">
+          <div>
+            <p className="text-xs text-ios-red font-medium">定时中</p>
+            <p className="text-lg font-bold text-ios-red font-mono tabular-nums">{countdown}</p>
+          </div>
+          <button
+            onClick={() => {
+              cancelSleepTimer();
+              showToast('已取消睡眠定时', 'success');
+            }}
+            className="px-3 py-1 rounded-full text-xs font-bold bg-white text-ios-red shadow-sm"
+          >
+            取消定时
+          </button>
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-50 rounded-xl">
+        <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase tracking-wider">按时间</h4>
+        <div className="grid grid-cols-5 gap-2">
+          {PRESET_MINUTES.map(minutes => (
+            <button key={minutes} onClick={() => startByMinutes(minutes)} className={chipClass}>
+              {minutes} 分
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-2 mt-3">
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={MAX_CUSTOM_MINUTES}
+            placeholder="自定义分钟数"
+            className="flex-1 bg-white p-2 rounded-lg text-sm outline-none focus:ring-2 focus:ring-ios-red/20"
+            value={customMinutes}
+            onChange={e => setCustomMinutes(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleCustomStart()}
+          />
+          <button
+            onClick={handleCustomStart}
+            disabled={!customMinutes}
+            className="px-3 py-2 bg-ios-red text-white rounded-lg font-medium text-xs disabled:opacity-50"
+          >
+            开始
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 bg-gray-50 rounded-xl">
+        <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase tracking-wider">按歌曲</h4>
+        <button onClick={() => startBySongs(1)} className={`${chipClass} w-full mb-3`}>
+          本曲结束后暂停
+        </button>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setSongCount(count => Math.max(2, count - 1))}
+              className="w-8 h-8 rounded-full bg-white shadow-sm text-gray-600 font-bold"
+            >
+              −
+            </button>
+            <span className="w-6 text-center text-sm font-bold text-gray-800 tabular-nums">{songCount}</span>
+            <button
+              onClick={() => setSongCount(count => Math.min(50, count + 1))}
+              className="w-8 h-8 rounded-full bg-white shadow-sm text-gray-600 font-bold"
+            >
+              +
+            </button>
+          </div>
+          <button onClick={() => startBySongs(songCount)} className={chipClass}>
+            播完 {songCount} 首后暂停
+          </button>
+        </div>
+      </div>
+
+      <p className="text-[10px] text-gray-400">
+        结束前 {SLEEP_FADE_SECONDS} 秒音量会逐渐降低。刷新页面后定时仍然有效，手动切歌不计入歌曲数
+      </p>
+    </div>
+  );
+};
+
+export default SleepTimerPanel;
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePlayerActions, usePlayerNowPlaying } from '../contexts/PlayerContext';
+import { useLibrary } from '../contexts/LibraryContext';
+import { getImgReferrerPolicy } from '../services/api';
+import { Song, getSongKey, isSameSong } from '../types';
+import { BackIcon, ErrorIcon, FolderIcon, MusicIcon, PlayIcon, PlusIcon } from './Icons';
+import { useToast } from './ToastHost';
+import { getMusicSourceBadgeClass, getMusicSourceLabel } from '../utils/musicSource';
+
+interface SongCollectionViewProps {
+  source: string;
+  title: string;
+  /** 标题下方的一行信息（歌手、发行日期等） */
+  subtitle?: React.ReactNode;
+  cover?: string;
+  /** 圆形封面（歌手头像） */
+  roundCover?: boolean;
+  description?: string;
+  songs: Song[];
+  loading: boolean;
+  error: boolean;
+  /** 显示「保存到资料库」按钮，将整个合集保存为本地歌单 */
+  saveToLibrary?: boolean;
+  /** 歌曲列表下方的额外内容（如歌手的专辑列表） */
+  children?: React.ReactNode;
+}
+
+const CollectionSkeleton = () => (
+  <div className="animate-pulse">
+    <div className="flex items-center space-x-4 mb-6">
+      <div className="w-28 h-28 rounded-2xl bg-gray-200 flex-shrink-0" />
+      <div className="flex-1 space-y-2">
+        <div className="h-5 bg-gray-200 rounded w-2/3" />
+        <div className="h-3 bg-gray-100 rounded w-1/2" />
+      </div>
+    </div>
+    <div className="space-y-3">
+      {[0, 1, 2, 3, 4].map(i => (
+        <div key={i} className="h-14 bg-white rounded-xl" />
+      ))}
+    </div>
+  </div>
+);
+
+/** 歌手 / 专辑等歌曲合集页：封面与简介、播放全部、添加到歌单和歌曲列表 */
+const SongCollectionView: React.FC<SongCollectionViewProps> = ({
+  source,
+  title,
+  subtitle,
+  cover,
+  roundCover = false,
+  description,
+  songs,
+  loading,
+  error,
+  saveToLibrary = false,
+  children,
+}) => {
+  const navigate = useNavigate();
+  const { playQueue } = usePlayerActions();
+  const { currentSong } = usePlayerNowPlaying();
+  const { playlists, addToPlaylist, createPlaylist } = useLibrary();
+  const { showToast } = useToast();
+  const [showDescription, setShowDescription] = useState(false);
+  const [showPlaylistSelect, setShowPlaylistSelect] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const handlePlayAll = () => {
+    if (songs.length > 0) void playQueue(songs, songs[0]);
+  };
+
+  const handleAddToPlaylist = (playlistId: string) => {
+    songs.forEach(song => addToPlaylist(playlistId, song));
+    showToast(`已添加 ${songs.length} 首歌曲到歌单`, 'success');
+    setShowPlaylistSelect(false);
+  };
+
+  const handleCreatePlaylist = () => {
+    createPlaylist(title, songs);
+    showToast(`已创建歌单「${title}」`, 'success');
+    setShowPlaylistSelect(false);
+  };
+
+  const handleSaveToLibrary = () => {
+    createPlaylist(title, songs);
+    setSaved(true);
+    showToast(`已保存「${title}」到资料库，共 ${songs.length} 首`, 'success', {
+      label: '查看',
+      onClick: () => navigate('/library'),
+    });
+  };
+
+  return (
+    <div className="p-5 pt-safe pb-24 min-h-screen bg-ios-bg">
+      <button
+        onClick={() => (window.history.state?.idx > 0 ? navigate(-1) : navigate('/'))}
+        className="flex items-center -ml-2 mb-4 mt-2 text-ios-red text-sm font-medium"
+      >
+        <BackIcon size={22} />
+        返回
+      </button>
+
+      {loading ? (
+        <CollectionSkeleton />
+      ) : error ? (
+        <div className="bg-red-50 p-4 rounded-xl flex items-center gap-3 text-red-600">
+          <ErrorIcon size={20} />
+          <span className="text-xs font-medium">加载失败，该音源暂不可用或内容不存在</span>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center space-x-4 mb-4">
+            <div className={`w-28 h-28 bg-gray-100 flex-shrink-0 overflow-hidden shadow-sm ${roundCover ? 'rounded-full' : 'rounded-2xl'}`}>
+              {cover ? (
+                <img src={cover} alt={title} referrerPolicy={getImgReferrerPolicy(cover)} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-gray-300">
+                  <MusicIcon size={32} />
+                </div>
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-2xl font-bold text-ios-text line-clamp-2">{title}</h1>
+              {subtitle && <div className="text-xs text-ios-subtext mt-1 truncate">{subtitle}</div>}
+              <span className={`inline-block mt-2 text-[10px] px-1.5 py-0.5 rounded ${getMusicSourceBadgeClass(source)}`}>
+                {getMusicSourceLabel(source, 'full')}
+              </span>
+            </div>
+          </div>
+
+          {description && (
+            <p
+              onClick={() => setShowDescription(prev => !prev)}
+              className={`text-xs text-gray-500 leading-relaxed mb-4 whitespace-pre-line cursor-pointer ${showDescription ? '' : 'line-clamp-3'}`}
+            >
+              {description}
+            </p>
+          )}
+
+          <div className="flex items-center space-x-2 mb-4">
+            <button
+              onClick={handlePlayAll}
+              disabled={songs.length === 0}
+              className="flex-1 flex items-center justify-center gap-2 py-3 bg-ios-red text-white rounded-xl font-bold text-sm disabled:opacity-50 active:scale-[0.98] transition"
+            >
+              <PlayIcon size={16} className="fill-current" />
+              播放全部
+            </button>
+            <button
+              onClick={() => setShowPlaylistSelect(prev => !prev)}
+              disabled={songs.length === 0}
+              className="flex-1 flex items-center justify-center gap-2 py-3 bg-white text-gray-700 rounded-xl font-bold text-sm shadow-sm disabled:opacity-50 active:scale-[0.98] transition"
+            >
+              <FolderIcon size={16} className="text-ios-red" />
+              添加到歌单
+            </button>
+            {saveToLibrary && (
+              <button
+                onClick={handleSaveToLibrary}
+                disabled={songs.length === 0 || saved}
+                className="flex-1 flex items-center justify-center gap-2 py-3 bg-white text-gray-700 rounded-xl font-bold text-sm shadow-sm disabled:opacity-50 active:scale-[0.98] transition"
+              >
+                <PlusIcon size={16} className="text-ios-red" />
+                {saved ? '已保存' : '保存'}
+              </button>
+            )}
+          </div>
+
+          {showPlaylistSelect && (
+            <div className="bg-white rounded-2xl p-2 mb-4 shadow-sm space-y-1">
+              <button
+                onClick={handleCreatePlaylist}
+                className="w-full flex items-center space-x-3 p-2 hover:bg-gray-50 rounded-lg text-left text-gray-600"
+              >
+                <PlusIcon size={16} className="text-ios-red" />
+                <span className="text-sm truncate">新建歌单「{title}」</span>
+              </button>
+              {playlists.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => handleAddToPlaylist(p.id)}
+                  className="w-full flex items-center space-x-3 p-2 hover:bg-gray-50 rounded-lg text-left"
+                >
+                  <FolderIcon size={16} className="text-ios-red" />
+                  <span className="flex-1 text-sm text-gray-800 truncate">{p.name}</span>
+                  <span className="text-[10px] text-gray-400">{p.songs.length} 首</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {songs.length === 0 ? (
+            <div className="text-center py-10 text-gray-400 text-sm bg-white/50 rounded-xl">暂无歌曲</div>
+          ) : (
+            <div className="space-y-1">
+              {songs.map((song, idx) => {
+                const isCurrent = isSameSong(currentSong, song);
+                return (
+                  <div
+                    key={`${getSongKey(song)}-${idx}`}
+                    onClick={() => void playQueue(songs, song)}
+                    className={`flex items-center space-x-3 p-3 rounded-xl transition cursor-pointer ${isCurrent ? 'bg-white shadow-sm ring-1 ring-ios-red/20' : 'hover:bg-white/50 active:bg-white'}`}
+                  >
+                    <span className="w-6 text-center text-xs font-bold text-gray-400 tabular-nums">{idx + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className={`font-medium truncate text-[15px] ${isCurrent ? 'text-ios-red' : 'text-ios-text'}`}>{song.name}</p>
+                      <p className="text-xs text-ios-subtext truncate">
+                        {song.artist}{song.album ? ` · ${song.album}` : ''}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {children}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SongCollectionView;
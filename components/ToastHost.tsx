@@ -24,7 +24,7 @@ const TOAST_EVENT = 'tunefree:toast';
 
 type ToastEventDetail = Pick<ToastState, 'message' | 'tone' | 'action'>;
 
-const emitToast = (message: string, tone: ToastTone = 'info', action?: ToastAction) => {
+export const emitToast = (message: string, tone: ToastTone = 'info', action?: ToastAction) => {
   window.dispatchEvent(new CustomEvent<ToastEventDetail>(TOAST_EVENT, {
     detail: { message, tone, action },
   }));
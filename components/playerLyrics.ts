@@ -1,16 +1,33 @@
-import { ParsedLyric } from "../types";
+import { LyricBundle, LyricWord, ParsedLyric } from "../types";
+import {
+  fillWordDurations,
+  hasWordTimings,
+  parseEnhancedLrcWords,
+} from "../services/lyricFormats";
 
-export const parseLrc = (lrc: string): ParsedLyric[] => {
+/** 翻译 / 罗马音行与原文行的时间差在此范围内视为同一行 */
+const LAYER_MATCH_TOLERANCE = 0.5;
+
+type RawLyricLine = { time: number; text: string; words?: LyricWord[] };
+
+/** 逐行解析 LRC（含增强 LRC 逐字标签），按时间排序，不做合并 */
+const parseLrcLines = (lrc: string): RawLyricLine[] => {
   if (!lrc) return [];
   const lines = lrc.split("\n");
-  const raw: { time: number; text: string }[] = [];
+  const raw: RawLyricLine[] = [];
   const timeExp = /\[(\d{2}):(\d{2})\.(\d{2,3})\]/g;
 
   for (const line of lines) {
     const matches = Array.from(line.matchAll(timeExp));
     if (matches.length === 0) continue;
 
-    const text = line.replace(timeExp, "").trim();
+    const body = line.replace(timeExp, "");
+    // 增强 LRC 的逐字时间是绝对时间，只对单个行时间标签有意义
+    const words =
+      matches.length === 1 && hasWordTimings(body) ? parseEnhancedLrcWords(body) : undefined;
+    const text = words
+      ? words.map((word) => word.text).join("").trim()
+      : body.trim();
     if (!text) continue;
 
     for (const match of matches) {
@@ -21,25 +38,71 @@ export const parseLrc = (lrc: string): ParsedLyric[] => {
       const ms = msStr.length === 2 ? msVal * 10 : msVal;
       const time = min * 60 + sec + ms / 1000;
 
-      raw.push({ time, text });
+      raw.push(words && words.length > 0 ? { time, text, words } : { time, text });
     }
   }
 
-  raw.sort((a, b) => a.time - b.time);
+  return raw.sort((a, b) => a.time - b.time);
+};
 
+/**
+ * 解析单个 LRC 字符串。原文与翻译拼接在一起的旧数据（如已保存的 song.lrc）
+ * 靠时间接近来猜测翻译：0.5 秒内的第二行视为上一行的翻译。
+ */
+export const parseLrc = (lrc: string): ParsedLyric[] => {
   const result: ParsedLyric[] = [];
-  for (const item of raw) {
+  for (const item of parseLrcLines(lrc)) {
     const last = result[result.length - 1];
-    if (last && Math.abs(last.time - item.time) < 0.5) {
-      if (!last.translation && last.text !== item.text) {
+    if (last && Math.abs(last.time - item.time) < LAYER_MATCH_TOLERANCE) {
+      if (item.words && !last.words) {
+        // 逐字行与普通行时间接近时，逐字行是原文
+        const translation = last.text !== item.text ? last.text : last.translation;
+        result[result.length - 1] = { ...item, translation };
+      } else if (!last.translation && last.text !== item.text) {
         last.translation = item.text;
       }
     } else {
-      result.push({ time: item.time, text: item.text });
+      result.push({ ...item });
     }
   }
 
-  return result;
+  return fillWordDurations(result);
+};
+
+/** 找到与 time 最接近的原文行，超出容差返回 -1 */
+const findNearestLineIndex = (lines: ParsedLyric[], time: number): number => {
+  if (lines.length === 0) return -1;
+  const index = findActiveLyricIndex(lines, time);
+  let best = index;
+  const next = lines[index + 1];
+  if (next && Math.abs(next.time - time) < Math.abs(lines[index].time - time)) {
+    best = index + 1;
+  }
+  return Math.abs(lines[best].time - time) < LAYER_MATCH_TOLERANCE ? best : -1;
+};
+
+/** 分层歌词：原文逐行保留，翻译和罗马音按时间戳挂到最接近的原文行上 */
+export const parseLyricBundle = (bundle: LyricBundle): ParsedLyric[] => {
+  const result: ParsedLyric[] = [];
+  for (const item of parseLrcLines(bundle.original)) {
+    const last = result[result.length - 1];
+    // 同一时间的重复行只保留一行
+    if (last && last.time === item.time && last.text === item.text) continue;
+    result.push({ ...item });
+  }
+
+  const attach = (lrc: string, key: "translation" | "romanization") => {
+    for (const item of parseLrcLines(lrc)) {
+      const index = findNearestLineIndex(result, item.time);
+      if (index < 0) continue;
+      const line = result[index];
+      if (!line[key] && line.text !== item.text) line[key] = item.text;
+    }
+  };
+  attach(bundle.translation, "translation");
+  attach(bundle.romanization, "romanization");
+
+  return fillWordDurations(result);
 };
 
 export const findActiveLyricIndex = (
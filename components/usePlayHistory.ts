@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { listPlayRecords, subscribePlayHistory, type PlayRecord } from '../services/api';
+
+/** 全部播放记录（按时间倒序），历史变化时自动刷新；浏览器不支持 IndexedDB 时 unsupported 为 true */
+export const usePlayHistory = () => {
+  const [records, setRecords] = useState<PlayRecord[]>([]);
+  const [unsupported, setUnsupported] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listPlayRecords()
+        .then((next) => {
+          if (!cancelled) setRecords(next);
+        })
+        .catch(() => {
+          if (!cancelled) setUnsupported(true);
+        });
+    };
+    refresh();
+    const unsubscribe = subscribePlayHistory(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { records, unsupported };
+};
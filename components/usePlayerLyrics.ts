@@ -1,7 +1,14 @@
-import { RefObject, useEffect, useState } from "react";
-import { getLyrics } from "../services/api";
-import { ParsedLyric, Song } from "../types";
-import { findActiveLyricIndex, parseLrc } from "./playerLyrics";
+import { RefObject, useEffect, useMemo, useState } from "react";
+import {
+  findLyricCandidates,
+  getLyricBundle,
+  getLyricOffset,
+  getLyricOverride,
+  getLyricSource,
+  subscribeLyricOverrides,
+} from "../services/api";
+import { ParsedLyric, Song, getSongKey } from "../types";
+import { findActiveLyricIndex, parseLrc, parseLyricBundle } from "./playerLyrics";
 
 const EMPTY_LYRICS: ParsedLyric[] = [{ time: 0, text: "暂无歌词" }];
 
@@ -14,6 +21,28 @@ export const usePlayerLyrics = (
 ) => {
   const [lyrics, setLyrics] = useState<ParsedLyric[]>([]);
   const [activeLyricIndex, setActiveLyricIndex] = useState(0);
+  const [overrideRevision, setOverrideRevision] = useState(0);
+  /** 歌词实际来自其他平台时为对应歌曲（选定或自动匹配） */
+  const [lyricSource, setLyricSource] = useState<Song | null>(null);
+
+  useEffect(
+    () => subscribeLyricOverrides(() => setOverrideRevision((prev) => prev + 1)),
+    [],
+  );
+
+  const lyricOverride = useMemo(
+    () => (currentSong ? getLyricOverride(currentSong) : null),
+    [currentSong, overrideRevision],
+  );
+  const chosenSource = useMemo(
+    () => (currentSong ? getLyricSource(currentSong) : null),
+    [currentSong, overrideRevision],
+  );
+  const chosenSourceKey = chosenSource ? getSongKey(chosenSource) : "";
+  const lyricOffset = useMemo(
+    () => (currentSong ? getLyricOffset(currentSong) : 0),
+    [currentSong, overrideRevision],
+  );
 
   useEffect(() => {
     if (!isOpen || !currentSong) return;
@@ -21,38 +50,68 @@ export const usePlayerLyrics = (
     let cancelled = false;
     setLyrics([]);
     setActiveLyricIndex(0);
+    setLyricSource(null);
 
-    const applyLyrics = (rawLrc: string) => {
-      const parsed = parseLrc(rawLrc);
-      if (cancelled) return;
+    // 用户替换的歌词优先，不再请求音源
+    if (lyricOverride) {
+      const parsed = parseLrc(lyricOverride);
       setLyrics(parsed.length > 0 ? parsed : EMPTY_LYRICS);
-    };
-
-    if (currentSong.lrc) {
-      applyLyrics(currentSong.lrc);
-      return () => {
-        cancelled = true;
-      };
+      return;
     }
 
-    getLyrics(currentSong.id, currentSong.source).then((rawLrc) => {
-      if (!rawLrc) {
-        if (!cancelled) setLyrics(EMPTY_LYRICS);
+    // 歌曲自带的 lrc（离线缓存、导入数据）先显示，分层歌词到达后再替换
+    const fallback = currentSong.lrc ? parseLrc(currentSong.lrc) : [];
+    if (fallback.length > 0) setLyrics(fallback);
+
+    const loadBundle = (song: Song) =>
+      getLyricBundle(song.id, song.source)
+        .then(parseLyricBundle)
+        .catch(() => [] as ParsedLyric[]);
+
+    const load = async () => {
+      if (chosenSource) {
+        const parsed = await loadBundle(chosenSource);
+        if (cancelled) return;
+        if (parsed.length > 0) {
+          setLyrics(parsed);
+          setLyricSource(chosenSource);
+          return;
+        }
+      }
+
+      const parsed = await loadBundle(currentSong);
+      if (cancelled) return;
+      if (parsed.length > 0) {
+        setLyrics(parsed);
         return;
       }
-      applyLyrics(rawLrc);
-    });
+      if (fallback.length > 0) return;
+
+      // 原音源没有歌词时，自动使用其他平台匹配度最高的歌词
+      const candidates = await findLyricCandidates(currentSong).catch(() => []);
+      if (cancelled) return;
+      const best = candidates[0];
+      if (best) {
+        setLyrics(parseLyricBundle(best.bundle));
+        setLyricSource(best.song);
+      } else {
+        setLyrics(EMPTY_LYRICS);
+      }
+    };
+    void load();
 
     return () => {
       cancelled = true;
     };
-  }, [currentSong, isOpen]);
+    // 偏移变化也会产生新的 chosenSource 对象，这里只在选定来源真正变化时重新加载
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentSong, isOpen, lyricOverride, chosenSourceKey]);
 
   useEffect(() => {
     if (lyrics.length === 0) return;
-    const index = findActiveLyricIndex(lyrics, currentTime);
+    const index = findActiveLyricIndex(lyrics, currentTime + lyricOffset);
     setActiveLyricIndex((prev) => (prev !== index ? index : prev));
-  }, [currentTime, lyrics]);
+  }, [currentTime, lyrics, lyricOffset]);
 
   useEffect(() => {
     if (!showLyrics || !lyricsContainerRef.current || lyrics.length === 0) return;
@@ -72,8 +131,21 @@ export const usePlayerLyrics = (
     container.scrollTo({ top: scrollNew, behavior: "smooth" });
   }, [activeLyricIndex, showLyrics, lyrics, lyricsContainerRef]);
 
+  const availableLayers = useMemo(
+    () => ({
+      translation: lyrics.some((line) => line.translation),
+      romanization: lyrics.some((line) => line.romanization),
+    }),
+    [lyrics],
+  );
+
   return {
     lyrics,
     activeLyricIndex,
+    availableLayers,
+    lyricOverride,
+    lyricOffset,
+    lyricSource,
+    chosenSource,
   };
 };
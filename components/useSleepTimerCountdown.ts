@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { formatSleepTimerCountdown } from '../contexts/playerSleepTimer';
+import { SleepTimer } from '../types';
+
+/** 睡眠定时的剩余时间文本，按时间定时时每秒刷新；未设置定时返回 null */
+export const useSleepTimerCountdown = (timer: SleepTimer | null): string | null => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (timer?.mode !== 'time') return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [timer]);
+
+  return timer ? formatSleepTimerCountdown(timer, now) : null;
+};
@@ -7,6 +7,14 @@ import React, {
   useState,
 } from "react";
 import { Song, Playlist, getSongKey } from "../types";
+import { sanitizeFilename, triggerDownload } from "../services/download";
+import {
+  matchPlaylistFileEntries,
+  parsePlaylistFile,
+  serializePlaylist,
+  type ParsedPlaylistFile,
+  type PlaylistFileFormat,
+} from "../services/playlistFormats";
 
 export interface LibraryBackup {
   favorites: Song[];
@@ -20,6 +28,10 @@ export interface LibraryImportPreview {
   playlistCount: number;
   playlistSongCount: number;
   backup: LibraryBackup;
+  /** backup：完整备份文件；playlist：单个歌单文件，只能作为新歌单导入 */
+  kind: "backup" | "playlist";
+  /** 歌单文件中没有匹配到歌曲的条目说明 */
+  unmatched: string[];
 }
 
 export type LibraryImportMode = "replace" | "merge";
@@ -53,7 +65,13 @@ interface LibraryContextType {
     source?: string,
   ) => void;
   exportData: () => LibraryExportResult;
+  exportPlaylist: (playlistId: string, format: PlaylistFileFormat) => LibraryExportResult;
   parseImportData: (jsonData: string) => LibraryImportResult;
+  parsePlaylistFileData: (
+    text: string,
+    fileName: string,
+    onProgress?: (done: number, total: number) => void,
+  ) => Promise<LibraryImportResult>;
   applyImportData: (
     data: LibraryImportPreview,
     mode: LibraryImportMode,
@@ -99,6 +117,9 @@ const normalizeSong = (value: unknown): Song | null => {
   if (typeof input.urlId === "string") song.urlId = input.urlId;
   if (typeof input.lrc === "string") song.lrc = input.lrc;
   if (typeof input.lyricId === "string") song.lyricId = input.lyricId;
+  if (typeof input.duration === "number" && input.duration > 0) song.duration = input.duration;
+  if (typeof input.artistId === "string") song.artistId = input.artistId;
+  if (typeof input.albumId === "string") song.albumId = input.albumId;
   if (Array.isArray(input.types)) {
     song.types = input.types.filter((type): type is string => typeof type === "string");
   }
@@ -342,6 +363,24 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   }, []);
 
+  const exportPlaylist = useCallback(
+    (playlistId: string, format: PlaylistFileFormat): LibraryExportResult => {
+      const playlist = playlistsRef.current.find((item) => item.id === playlistId);
+      if (!playlist) return { ok: false, error: "歌单不存在" };
+      try {
+        const { content, mime, ext } = serializePlaylist(playlist, format);
+        const filename = `${sanitizeFilename(playlist.name)}.${ext}`;
+        const url = URL.createObjectURL(new Blob([content], { type: mime }));
+        triggerDownload(url, filename);
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        return { ok: true, filename };
+      } catch {
+        return { ok: false, error: "导出失败，请稍后再试" };
+      }
+    },
+    [],
+  );
+
   const parseImportData = useCallback((jsonData: string): LibraryImportResult => {
     try {
       const parsed = JSON.parse(jsonData) as Record<string, unknown>;
@@ -371,6 +410,8 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({
             favorites: favoritesRef.current,
             playlists: playlistsRef.current,
           },
+          kind: "backup",
+          unmatched: [],
         },
       };
     } catch {
@@ -378,6 +419,58 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   }, []);
 
+  const parsePlaylistFileData = useCallback(
+    async (
+      text: string,
+      fileName: string,
+      onProgress?: (done: number, total: number) => void,
+    ): Promise<LibraryImportResult> => {
+      let parsed: ParsedPlaylistFile;
+      try {
+        parsed = parsePlaylistFile(text, fileName);
+      } catch (error) {
+        return { ok: false, error: (error as Error)?.message || "歌单文件解析失败" };
+      }
+      if (parsed.entries.length === 0) {
+        return { ok: false, error: "文件中没有歌曲" };
+      }
+
+      const { songs, unmatched } = await matchPlaylistFileEntries(parsed.entries, onProgress);
+      const playlistSongs = normalizeSongArray(songs);
+      if (playlistSongs.length === 0) {
+        return { ok: false, error: "没有匹配到任何歌曲" };
+      }
+
+      const unit = parsed.format === "xspf" ? "首" : "行";
+      const playlist: Playlist = {
+        id: Date.now().toString(),
+        name: parsed.name,
+        createTime: Date.now(),
+        songs: playlistSongs,
+      };
+      return {
+        ok: true,
+        data: {
+          favorites: [],
+          playlists: [playlist],
+          favoriteCount: 0,
+          playlistCount: 1,
+          playlistSongCount: playlistSongs.length,
+          backup: {
+            favorites: favoritesRef.current,
+            playlists: playlistsRef.current,
+          },
+          kind: "playlist",
+          unmatched: unmatched.map(
+            (entry) =>
+              `第 ${entry.line} ${unit}：${[entry.artist, entry.title].filter(Boolean).join(" - ") || "（无歌名）"}`,
+          ),
+        },
+      };
+    },
+    [],
+  );
+
   const applyImportData = useCallback(
     (data: LibraryImportPreview, mode: LibraryImportMode): LibraryApplyImportResult => {
       try {
@@ -429,7 +522,9 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({
         addToPlaylist,
         removeFromPlaylist,
         exportData,
+        exportPlaylist,
         parseImportData,
+        parsePlaylistFileData,
         applyImportData,
         restoreData,
         importData,
@@ -453,7 +548,9 @@ const LIBRARY_DEFAULTS: LibraryContextType = {
   addToPlaylist: () => {},
   removeFromPlaylist: () => {},
   exportData: () => ({ ok: false, error: "资料库未就绪" }),
+  exportPlaylist: () => ({ ok: false, error: "资料库未就绪" }),
   parseImportData: () => ({ ok: false, error: "资料库未就绪" }),
+  parsePlaylistFileData: async () => ({ ok: false, error: "资料库未就绪" }),
   applyImportData: () => ({ ok: false, error: "资料库未就绪" }),
   restoreData: () => {},
   importData: () => false,
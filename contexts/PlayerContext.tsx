@@ -10,24 +10,79 @@ import React, {
 import {
   Song,
   PlayMode,
+  ShuffleState,
   AudioQuality,
+  CrossfadeSettings,
+  EqualizerSettings,
+  SleepTimer,
   getSongKey,
   isSameSong,
 } from "../types";
-import { parseSongFull } from "../services/api";
 import {
+  getLyrics,
+  getOfflineSong,
+  getSourceOverride,
+  parseSongFull,
+  resolveAlternateSong,
+  setSourceOverride,
+  touchOfflineSong,
+  findRadioSongs,
+} from "../services/api";
+import { getMusicSourceLabel } from "../utils/musicSource";
+import {
+  MAX_CROSSFADE_SECONDS,
+  clampPlaybackRate,
   loadStoredAudioQuality,
+  loadStoredCrossfade,
+  loadStoredEqualizer,
+  loadStoredPreservePitch,
   loadStoredCurrentSong,
   loadStoredPlayMode,
+  loadStoredRadioEnabled,
+  loadStoredShuffleState,
   loadStoredQueue,
+  loadStoredSleepTimer,
+  loadStoredSongPlaybackRate,
   persistAudioQuality,
+  persistCrossfade,
   persistCurrentSong,
+  persistEqualizer,
   persistPlayMode,
+  persistRadioEnabled,
+  persistShuffleState,
+  persistPreservePitch,
   persistQueue,
+  persistSleepTimer,
+  persistSongPlaybackRate,
 } from "./playerPersistence";
-import { getNextQueueIndex, getPrevQueueIndex } from "./playerQueue";
-
-type ParsedSongData = NonNullable<Awaited<ReturnType<typeof parseSongFull>>>;
+import { SLEEP_FADE_SECONDS, describeSleepTimer } from "./playerSleepTimer";
+import { createPlayHistoryTracker } from "./playerHistory";
+import {
+  advanceShuffleState,
+  createShuffleState,
+  findCurrentSongIndex,
+  getNextQueueIndex,
+  getPrevQueueIndex,
+  insertAfterCurrent,
+  insertIntoShuffleOrder,
+  moveQueueItem,
+  syncShuffleState,
+} from "./playerQueue";
+import { createPlayerAudioEngine, type PlayerAudioEngine } from "./playerAudioEngine";
+import {
+  DEFAULT_EQUALIZER,
+  EQ_BANDS,
+  clampEqGain,
+  createEqualizerChain,
+  createLoudnessMeter,
+  type EqualizerChain,
+  type LoudnessMeter,
+} from "./playerEqualizer";
+
+type ParsedSongData = NonNullable<Awaited<ReturnType<typeof parseSongFull>>> & {
+  /** 原音源不可播放时实际用于播放的替代歌曲 */
+  alternate?: Song;
+};
 
 export interface PlayerNotice {
   id: number;
@@ -35,11 +90,45 @@ export interface PlayerNotice {
   message: string;
 }
 
+/** A-B 循环区间（秒），end 为 null 表示只设置了 A 点 */
+export interface AbLoop {
+  start: number;
+  end: number | null;
+}
+
+/** A-B 循环的最短区间 */
+export const MIN_AB_LOOP_SECONDS = 1;
+
 const getFiniteAudioDuration = (audio: HTMLAudioElement): number =>
   Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : 0;
 
 const IOS_AUTO_ADVANCE_LEAD_SECONDS = 1.25;
 
+/** 同专辑曲目之间的重叠时长，只用于抹平解码间隙 */
+const GAPLESS_OVERLAP_SECONDS = 0.05;
+/** 距离过渡起点不足该时长时设定精确计时器（timeupdate 间隔约 250ms） */
+const TRANSITION_SCHEDULE_WINDOW_SECONDS = 1;
+
+// 酷我 CDN 不支持 CORS，crossOrigin="anonymous" 会导致请求失败
+const supportsCorsAudio = (url: string): boolean =>
+  !url.includes("kuwo.cn") && !url.includes("sycdn.kuwo");
+
+/** 响度测量的采样间隔与所需有效帧数（约 6 秒有声片段） */
+const LOUDNESS_SAMPLE_INTERVAL_MS = 100;
+const LOUDNESS_ANALYSIS_FRAMES = 60;
+
+/** 睡眠定时期间刷新系统媒体通知的间隔 */
+const SLEEP_MEDIA_SESSION_REFRESH_MS = 30_000;
+/** 睡眠定时检查间隔 */
+const SLEEP_TICK_MS = 1000;
+
+/** 按歌曲数定时且当前歌曲是最后一首 */
+const endsWithCurrentTrack = (timer: SleepTimer | null): boolean =>
+  timer?.mode === "songs" && timer.remaining <= 1;
+
+const isSameAlbum = (a: Song, b: Song): boolean =>
+  !!a.album && a.source === b.source && a.album === b.album && a.artist === b.artist;
+
 interface PlayerContextType {
   currentSong: Song | null;
   isPlaying: boolean;
@@ -49,8 +138,18 @@ interface PlayerContextType {
   volume: number;
   playMode: PlayMode;
   queue: Song[];
+  /** 电台：列表循环模式下队列播完时自动追加相似歌曲，而不是回到开头 */
+  radioEnabled: boolean;
+  /** 由电台追加到队列中的歌曲 key */
+  radioSongKeys: string[];
   analyser: AnalyserNode | null;
   audioQuality: AudioQuality;
+  crossfade: CrossfadeSettings;
+  equalizer: EqualizerSettings;
+  playbackRate: number;
+  preservePitch: boolean;
+  abLoop: AbLoop | null;
+  sleepTimer: SleepTimer | null;
   playerNotice: PlayerNotice | null;
   playSong: (song: Song, forceQuality?: AudioQuality) => Promise<void>;
   playQueue: (songs: Song[], startSong?: Song) => Promise<void>;
@@ -62,10 +161,26 @@ interface PlayerContextType {
   playPrev: () => void;
   addToQueue: (song: Song) => void;
   removeFromQueue: (songId: string | number, source?: string) => void;
+  /** 批量移出队列；包含当前歌曲时播放其后的第一首 */
+  removeSongsFromQueue: (songs: Song[]) => void;
+  /** 下一首播放：插入到当前歌曲之后（playNext 为切到下一首） */
+  queueNext: (song: Song) => void;
+  moveInQueue: (from: number, to: number) => void;
   restoreQueue: (songs: Song[]) => void;
   togglePlayMode: () => void;
   clearQueue: () => void;
+  setRadioEnabled: (enabled: boolean) => void;
   setAudioQuality: (quality: AudioQuality) => void;
+  setCrossfadeSettings: (patch: Partial<CrossfadeSettings>) => void;
+  setEqualizerSettings: (patch: Partial<EqualizerSettings>) => void;
+  /** 设置当前歌曲的播放速度，按歌曲记住 */
+  setPlaybackRate: (rate: number) => void;
+  setPreservePitch: (preservePitch: boolean) => void;
+  setAbLoop: (loop: AbLoop | null) => void;
+  /** 按分钟定时，或在播完 songs 首歌曲后停止（1 表示当前歌曲结束后） */
+  startSleepTimer: (option: { minutes: number } | { songs: number }) => void;
+  cancelSleepTimer: () => void;
+  setSongSourceOverride: (song: Song, alternate: Song | null) => void;
   initAudioContext: () => void;
 }
 
@@ -81,10 +196,22 @@ type PlayerActionsType = Pick<
   | "playPrev"
   | "addToQueue"
   | "removeFromQueue"
+  | "removeSongsFromQueue"
+  | "queueNext"
+  | "moveInQueue"
   | "restoreQueue"
   | "togglePlayMode"
   | "clearQueue"
+  | "setRadioEnabled"
   | "setAudioQuality"
+  | "setCrossfadeSettings"
+  | "setEqualizerSettings"
+  | "setPlaybackRate"
+  | "setPreservePitch"
+  | "setAbLoop"
+  | "startSleepTimer"
+  | "cancelSleepTimer"
+  | "setSongSourceOverride"
   | "initAudioContext"
 >;
 
@@ -93,9 +220,21 @@ type PlayerNowPlayingType = Pick<
   "currentSong" | "isPlaying" | "isLoading"
 >;
 
-type PlayerQueueStateType = Pick<PlayerContextType, "queue" | "playMode">;
+type PlayerQueueStateType = Pick<
+  PlayerContextType,
+  "queue" | "playMode" | "radioEnabled" | "radioSongKeys"
+>;
 
-type PlayerSettingsType = Pick<PlayerContextType, "audioQuality">;
+type PlayerSettingsType = Pick<
+  PlayerContextType,
+  | "audioQuality"
+  | "crossfade"
+  | "equalizer"
+  | "playbackRate"
+  | "preservePitch"
+  | "abLoop"
+  | "sleepTimer"
+>;
 
 type PlayerAnalyserType = Pick<PlayerContextType, "analyser">;
 
@@ -131,9 +270,30 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
   const [volume, setVolume] = useState(1);
   const [queue, setQueue] = useState<Song[]>(() => loadStoredQueue());
   const [playMode, setPlayMode] = useState<PlayMode>(() => loadStoredPlayMode());
+  const [radioEnabled, setRadioEnabledState] = useState(() => loadStoredRadioEnabled());
+  const [radioSongKeys, setRadioSongKeys] = useState<string[]>([]);
   const [audioQuality, setAudioQualityState] = useState<AudioQuality>(() =>
     loadStoredAudioQuality(),
   );
+  const [crossfade, setCrossfade] = useState<CrossfadeSettings>(() =>
+    loadStoredCrossfade(),
+  );
+  const [equalizer, setEqualizer] = useState<EqualizerSettings>(() =>
+    loadStoredEqualizer(),
+  );
+  const [playbackRate, setPlaybackRateState] = useState(() => {
+    const song = loadStoredCurrentSong();
+    return song ? loadStoredSongPlaybackRate(song) : 1;
+  });
+  const [preservePitch, setPreservePitchState] = useState(() =>
+    loadStoredPreservePitch(),
+  );
+  const [abLoop, setAbLoopState] = useState<AbLoop | null>(null);
+  const [sleepTimer, setSleepTimerState] = useState<SleepTimer | null>(() =>
+    loadStoredSleepTimer(),
+  );
+  const [storedShuffle] = useState(() => loadStoredShuffleState());
+  const [historyTracker] = useState(createPlayHistoryTracker);
   const [playerNotice, setPlayerNotice] = useState<PlayerNotice | null>(null);
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
@@ -152,17 +312,52 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
   const currentSongRef = useRef(currentSong);
   const queueRef = useRef(queue);
   const playModeRef = useRef(playMode);
+  const radioEnabledRef = useRef(radioEnabled);
+  // 同一首种子歌曲只请求一次电台歌曲
+  const radioRequestRef = useRef<{ seedKey: string; promise: Promise<Song[]> } | null>(null);
   const audioQualityRef = useRef(audioQuality);
+  const crossfadeRef = useRef(crossfade);
+  const equalizerRef = useRef(equalizer);
+  const playbackRateRef = useRef(playbackRate);
+  const preservePitchRef = useRef(preservePitch);
+  const abLoopRef = useRef(abLoop);
+  const sleepTimerRef = useRef(sleepTimer);
+  const shuffleRef = useRef<ShuffleState | null>(storedShuffle);
+  // 上一次记录到随机播放历史的歌曲，以及本次切歌是否由"上一首"触发
+  const lastPlayedSongRef = useRef(currentSong);
+  const shuffleGoingBackRef = useRef(false);
+  // 睡眠定时到点时暂停播放（pausePlayback 定义在后面）
+  const stopForSleepRef = useRef<() => void>(() => {});
 
   // Track error retry to prevent loops
   const retryCountRef = useRef(0);
   const playRequestIdRef = useRef(0);
   const autoAdvanceStartedRef = useRef(false);
   const parsedSongCacheRef = useRef<Map<string, ParsedSongData>>(new Map());
+  // 当前离线播放使用的 blob: URL，切歌时释放
+  const offlineObjectUrlRef = useRef<string | null>(null);
   const preloadedAudioRef = useRef<{
     key: string;
     audio: HTMLAudioElement;
   } | null>(null);
+  // 双 deck 引擎（开启歌曲过渡且非 iOS 时使用）及其备用 deck 中已装载的下一首
+  const engineRef = useRef<PlayerAudioEngine | null>(null);
+  const standbyRef = useRef<{
+    key: string;
+    song: Song;
+    url: string;
+    objectUrl?: string;
+  } | null>(null);
+  const transitionTimerRef = useRef<number | null>(null);
+  const startTransitionRef = useRef<(lead: number) => void>(() => {});
+  // 均衡器处理链随 AudioContext 一起创建；响度测量结果按歌曲缓存
+  const eqChainRef = useRef<EqualizerChain | null>(null);
+  const loudnessCacheRef = useRef<Map<string, number>>(new Map());
+  const loudnessMeterRef = useRef<{
+    key: string;
+    chain: EqualizerChain;
+    meter: LoudnessMeter;
+  } | null>(null);
 
   const showPlayerNotice = useCallback((message: string, tone: PlayerNotice["tone"] = "info") => {
     setPlayerNotice({ id: Date.now(), message, tone });
@@ -172,6 +367,11 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
   useEffect(() => {
     persistQueue(queue);
     queueRef.current = queue;
+    const keys = new Set(queue.map(getSongKey));
+    setRadioSongKeys((prev) => {
+      const next = prev.filter((key) => keys.has(key));
+      return next.length === prev.length ? prev : next;
+    });
   }, [queue]);
 
   useEffect(() => {
@@ -184,11 +384,68 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     playModeRef.current = playMode;
   }, [playMode]);
 
+  useEffect(() => {
+    persistRadioEnabled(radioEnabled);
+    radioEnabledRef.current = radioEnabled;
+  }, [radioEnabled]);
+
   useEffect(() => {
     persistAudioQuality(audioQuality);
     audioQualityRef.current = audioQuality;
   }, [audioQuality]);
 
+  useEffect(() => {
+    persistCrossfade(crossfade);
+    crossfadeRef.current = crossfade;
+  }, [crossfade]);
+
+  useEffect(() => {
+    persistEqualizer(equalizer);
+    equalizerRef.current = equalizer;
+  }, [equalizer]);
+
+  useEffect(() => {
+    persistPreservePitch(preservePitch);
+    preservePitchRef.current = preservePitch;
+  }, [preservePitch]);
+
+  useEffect(() => {
+    abLoopRef.current = abLoop;
+  }, [abLoop]);
+
+  useEffect(() => {
+    persistSleepTimer(sleepTimer);
+    sleepTimerRef.current = sleepTimer;
+  }, [sleepTimer]);
+
+  const updateShuffle = useCallback((state: ShuffleState) => {
+    if (shuffleRef.current === state) return;
+    shuffleRef.current = state;
+    persistShuffleState(state);
+  }, []);
+
+  // 队列在多处被修改，随机顺序在取用时再与队列同步；非随机模式返回 null
+  const getShuffleState = useCallback((): ShuffleState | null => {
+    if (playModeRef.current !== "shuffle") return null;
+    const state = syncShuffleState(
+      shuffleRef.current,
+      queueRef.current,
+      currentSongRef.current,
+    );
+    updateShuffle(state);
+    return state;
+  }, [updateShuffle]);
+
+  useEffect(() => {
+    const previous = lastPlayedSongRef.current;
+    const goingBack = shuffleGoingBackRef.current;
+    lastPlayedSongRef.current = currentSong;
+    shuffleGoingBackRef.current = false;
+    const state = getShuffleState();
+    if (!state || !currentSong) return;
+    updateShuffle(advanceShuffleState(state, previous, currentSong, goingBack));
+  }, [currentSong, getShuffleState, updateShuffle]);
+
   // --- Audio 事件处理器（提取为 ref 避免重复定义，支持 Audio 元素重建） ---
   const handlersRef = useRef<{
     timeupdate: () => void;
@@ -200,50 +457,54 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     canplay: () => void;
   } | null>(null);
 
-  // 创建/重建 Audio 元素（用于切换 CORS 和非 CORS 源）
-  const createAudioElement = useCallback((withCors: boolean) => {
-    // 清理旧 Audio
-    const oldAudio = audioRef.current;
-    if (oldAudio) {
-      oldAudio.pause();
-      oldAudio.removeAttribute("src");
-      if (handlersRef.current) {
-        oldAudio.removeEventListener(
-          "timeupdate",
-          handlersRef.current.timeupdate,
-        );
-        oldAudio.removeEventListener(
-          "loadedmetadata",
-          handlersRef.current.loadedmetadata,
-        );
-        oldAudio.removeEventListener(
-          "durationchange",
-          handlersRef.current.durationchange,
-        );
-        oldAudio.removeEventListener("ended", handlersRef.current.ended);
-        oldAudio.removeEventListener("error", handlersRef.current.error);
-        oldAudio.removeEventListener("waiting", handlersRef.current.waiting);
-        oldAudio.removeEventListener("canplay", handlersRef.current.canplay);
-      }
-    }
+  const clearTransitionTimer = useCallback(() => {
+    if (transitionTimerRef.current === null) return;
+    window.clearTimeout(transitionTimerRef.current);
+    transitionTimerRef.current = null;
+  }, []);
 
-    // 清理旧 AudioContext（一旦 createMediaElementSource 绑定就无法解除）
-    if (audioCtxRef.current) {
-      audioCtxRef.current.close().catch(() => {});
-      audioCtxRef.current = null;
-      sourceNodeRef.current = null;
-      audioCtxConnectedRef.current = false;
-      analyserRef.current = null;
-      setAnalyser(null);
+  const clearStandby = useCallback(() => {
+    const standby = standbyRef.current;
+    if (!standby) return;
+    standbyRef.current = null;
+    const engine = engineRef.current;
+    if (engine && !engine.isStandbyBusy()) {
+      const standbyAudio = engine.getStandby().audio;
+      standbyAudio.pause();
+      standbyAudio.removeAttribute("src");
+      standbyAudio.load();
     }
+    if (standby.objectUrl) URL.revokeObjectURL(standby.objectUrl);
+  }, []);
 
-    const audio = new Audio();
-    audio.preload = "auto";
-    (audio as any).playsInline = true;
-    if (withCors) {
-      audio.crossOrigin = "anonymous";
-    }
+  const detachAudioHandlers = useCallback((audio: HTMLAudioElement) => {
+    const handlers = handlersRef.current;
+    if (!handlers) return;
+    audio.removeEventListener("timeupdate", handlers.timeupdate);
+    audio.removeEventListener("loadedmetadata", handlers.loadedmetadata);
+    audio.removeEventListener("durationchange", handlers.durationchange);
+    audio.removeEventListener("ended", handlers.ended);
+    audio.removeEventListener("error", handlers.error);
+    audio.removeEventListener("waiting", handlers.waiting);
+    audio.removeEventListener("canplay", handlers.canplay);
+  }, []);
+
+  const updateSleepTimer = useCallback((timer: SleepTimer | null) => {
+    sleepTimerRef.current = timer;
+    setSleepTimerState(timer);
+  }, []);
 
+  // 一首歌自然播完（或过渡到下一首）时调用，返回 true 表示应就此停止
+  const countSleepTimerTrack = useCallback((): boolean => {
+    const timer = sleepTimerRef.current;
+    if (timer?.mode !== "songs") return false;
+    if (timer.remaining <= 1) return true;
+    updateSleepTimer({ mode: "songs", remaining: timer.remaining - 1 });
+    return false;
+  }, [updateSleepTimer]);
+
+  // 为 Audio 元素绑定事件并设为当前播放元素（交叉淡化交换 deck 时也走这里）
+  const attachAudioHandlers = useCallback((audio: HTMLAudioElement) => {
     const syncDuration = () => {
       const nextDuration = getFiniteAudioDuration(audio);
       if (nextDuration > 0) setDuration(nextDuration);
@@ -265,30 +526,90 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       }
     };
 
+    // 双 deck 引擎：在结尾前 lead 秒启动备用 deck
+    const scheduleTransition = (current: Song, remaining: number, trackDuration: number) => {
+      const standby = standbyRef.current;
+      if (
+        !engineRef.current ||
+        !standby ||
+        endsWithCurrentTrack(sleepTimerRef.current) ||
+        transitionTimerRef.current !== null ||
+        isSameSong(standby.song, current) ||
+        !queueRef.current.some((song) => isSameSong(song, standby.song)) ||
+        // 顺序播放到队尾时不再衔接之前预加载的歌曲
+        getNextQueueIndex(queueRef.current, current, playModeRef.current, getShuffleState()) < 0
+      ) {
+        return;
+      }
+
+      const lead = isSameAlbum(current, standby.song)
+        ? GAPLESS_OVERLAP_SECONDS
+        : Math.max(
+            GAPLESS_OVERLAP_SECONDS,
+            Math.min(crossfadeRef.current.seconds, trackDuration / 3),
+          );
+      const delay = remaining - lead;
+      if (delay > TRANSITION_SCHEDULE_WINDOW_SECONDS) return;
+
+      transitionTimerRef.current = window.setTimeout(() => {
+        transitionTimerRef.current = null;
+        startTransitionRef.current(lead);
+      }, (Math.max(0, delay) * 1000) / (audio.playbackRate || 1));
+    };
+
     const handlers = {
       timeupdate: () => {
+        const loop = abLoopRef.current;
+        if (loop && loop.end !== null && audio.currentTime >= loop.end) {
+          audio.currentTime = loop.start;
+        }
         setCurrentTime(audio.currentTime);
+        if (!audio.paused && currentSongRef.current) {
+          historyTracker.progress(currentSongRef.current, audio.currentTime, audio.playbackRate);
+        }
+        if (loop && loop.end !== null) return;
 
         const current = currentSongRef.current;
         const nextDuration = getFiniteAudioDuration(audio);
         const remaining = nextDuration - audio.currentTime;
+
+        if (
+          engineRef.current &&
+          current &&
+          playModeRef.current !== "loopOne" &&
+          !autoAdvanceStartedRef.current &&
+          !audio.paused &&
+          remaining > 0
+        ) {
+          scheduleTransition(current, remaining, nextDuration);
+          return;
+        }
+
         const nextIndex = current
-          ? getNextQueueIndex(queueRef.current, current, playModeRef.current)
+          ? getNextQueueIndex(
+              queueRef.current,
+              current,
+              playModeRef.current,
+              getShuffleState(),
+            )
           : -1;
         const nextSong = nextIndex >= 0 ? queueRef.current[nextIndex] : null;
         if (
           isIOSRef.current &&
           document.visibilityState !== "visible" &&
-          playModeRef.current !== "loop" &&
+          playModeRef.current !== "loopOne" &&
           !autoAdvanceStartedRef.current &&
           !audio.paused &&
           remaining > 0 &&
           remaining <= IOS_AUTO_ADVANCE_LEAD_SECONDS &&
           current &&
           nextSong &&
-          !isSameSong(nextSong, current)
+          !isSameSong(nextSong, current) &&
+          !endsWithCurrentTrack(sleepTimerRef.current)
         ) {
           autoAdvanceStartedRef.current = true;
+          historyTracker.finish(true);
+          countSleepTimerTrack();
           playNextRef.current?.(false);
         }
       },
@@ -301,7 +622,19 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
         syncDuration();
       },
       ended: () => {
+        // B 点设在结尾之后时，播放结束也回到 A 点
+        const loop = abLoopRef.current;
+        if (loop && loop.end !== null) {
+          audio.currentTime = loop.start;
+          void audio.play().catch(() => {});
+          return;
+        }
         if (autoAdvanceStartedRef.current) return;
+        historyTracker.finish(true);
+        if (countSleepTimerTrack()) {
+          stopForSleepRef.current();
+          return;
+        }
         autoAdvanceStartedRef.current = true;
         console.log("[Player] 歌曲播放结束，触发自动播放下一首");
         if (playNextRef.current) playNextRef.current(false);
@@ -349,8 +682,47 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
 
     handlersRef.current = handlers;
     audioRef.current = audio;
+  }, [countSleepTimerTrack, getShuffleState, historyTracker, showPlayerNotice]);
+
+  // 创建/重建 Audio 元素（用于切换 CORS 和非 CORS 源）
+  const createAudioElement = useCallback((withCors: boolean) => {
+    // 清理旧 Audio
+    const oldAudio = audioRef.current;
+    if (oldAudio) {
+      oldAudio.pause();
+      oldAudio.removeAttribute("src");
+      detachAudioHandlers(oldAudio);
+    }
+    clearTransitionTimer();
+
+    // 清理旧 AudioContext（一旦 createMediaElementSource 绑定就无法解除）
+    if (engineRef.current) {
+      clearStandby();
+      engineRef.current.close();
+      engineRef.current = null;
+    } else if (audioCtxRef.current) {
+      audioCtxRef.current.close().catch(() => {});
+    }
+    if (audioCtxRef.current) {
+      audioCtxRef.current = null;
+      sourceNodeRef.current = null;
+      audioCtxConnectedRef.current = false;
+      analyserRef.current = null;
+      eqChainRef.current = null;
+      loudnessMeterRef.current = null;
+      setAnalyser(null);
+    }
+
+    const audio = new Audio();
+    audio.preload = "auto";
+    (audio as any).playsInline = true;
+    if (withCors) {
+      audio.crossOrigin = "anonymous";
+    }
+
+    attachAudioHandlers(audio);
     return audio;
-  }, [showPlayerNotice]);
+  }, [attachAudioHandlers, clearStandby, clearTransitionTimer, detachAudioHandlers]);
 
   // --- Audio Element 初始化（不预设 crossOrigin，由 playSong 根据源动态决定） ---
   useEffect(() => {
@@ -360,32 +732,19 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       const audio = audioRef.current;
       if (audio) {
         audio.pause();
-        if (handlersRef.current) {
-          audio.removeEventListener(
-            "timeupdate",
-            handlersRef.current.timeupdate,
-          );
-          audio.removeEventListener(
-            "loadedmetadata",
-            handlersRef.current.loadedmetadata,
-          );
-          audio.removeEventListener(
-            "durationchange",
-            handlersRef.current.durationchange,
-          );
-          audio.removeEventListener("ended", handlersRef.current.ended);
-          audio.removeEventListener("error", handlersRef.current.error);
-          audio.removeEventListener("waiting", handlersRef.current.waiting);
-          audio.removeEventListener("canplay", handlersRef.current.canplay);
-        }
+        detachAudioHandlers(audio);
       }
+      clearTransitionTimer();
       if (preloadedAudioRef.current) {
         preloadedAudioRef.current.audio.pause();
         preloadedAudioRef.current.audio.removeAttribute("src");
         preloadedAudioRef.current.audio.load();
         preloadedAudioRef.current = null;
       }
-      if (audioCtxRef.current) {
+      if (engineRef.current) {
+        clearStandby();
+        engineRef.current.close();
+      } else if (audioCtxRef.current) {
         audioCtxRef.current.close();
       }
     };
@@ -404,6 +763,32 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     // iOS 强制跳过：确保后台播放不中断
     if (isIOSRef.current) return;
     if (audioCtxRef.current || !audioRef.current) return;
+
+    const createChain = (ctx: AudioContext) => {
+      const chain = createEqualizerChain(ctx);
+      chain.apply(equalizerRef.current);
+      eqChainRef.current = chain;
+      return chain;
+    };
+
+    // 开启歌曲过渡时使用双 deck 引擎，分析器由引擎提供
+    if (crossfadeRef.current.enabled && audioRef.current.crossOrigin) {
+      try {
+        const engine = createPlayerAudioEngine(audioRef.current, createChain);
+        if (!engine) return;
+        engineRef.current = engine;
+        audioCtxRef.current = engine.ctx;
+        sourceNodeRef.current = engine.primarySource;
+        audioCtxConnectedRef.current = true;
+        analyserRef.current = engine.analyser;
+        setAnalyser(engine.analyser);
+        return;
+      } catch (e) {
+        console.warn("过渡播放引擎初始化失败，使用普通播放", e);
+        eqChainRef.current = null;
+      }
+    }
+
     try {
       const AudioCtx =
         window.AudioContext || (window as any).webkitAudioContext;
@@ -413,7 +798,9 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       node.fftSize = 512;
       node.smoothingTimeConstant = 0.7;
       const source = ctx.createMediaElementSource(audioRef.current);
-      source.connect(node);
+      const chain = createChain(ctx);
+      source.connect(chain.input);
+      chain.output.connect(node);
       node.connect(ctx.destination);
       audioCtxRef.current = ctx;
       sourceNodeRef.current = source;
@@ -422,14 +809,16 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       setAnalyser(node);
     } catch (e) {
       console.warn("AudioContext 初始化失败，使用模拟可视化", e);
+      eqChainRef.current = null;
     }
   }, []);
 
   // 页面可见性变化：后台时断开 Web Audio 路由让 Audio 直接播放，前台时重连可视化
+  // 双 deck 引擎的输出只能经过 AudioContext，因此不做断开
   useEffect(() => {
     const handleVisibility = () => {
       const ctx = audioCtxRef.current;
-      const source = sourceNodeRef.current;
+      const source = engineRef.current ? null : sourceNodeRef.current;
       const node = analyserRef.current;
 
       if (document.visibilityState === "hidden") {
@@ -448,7 +837,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
         }
         if (ctx && source && node) {
           try {
-            source.connect(node);
+            source.connect(eqChainRef.current?.input ?? node);
             node.connect(ctx.destination);
           } catch {}
         }
@@ -459,6 +848,19 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       document.removeEventListener("visibilitychange", handleVisibility);
   }, []);
 
+  // 页面隐藏或关闭前写回收听时长，之后可能不会再有机会
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === "hidden") historyTracker.flush();
+    };
+    document.addEventListener("visibilitychange", handleHide);
+    window.addEventListener("pagehide", historyTracker.flush);
+    return () => {
+      document.removeEventListener("visibilitychange", handleHide);
+      window.removeEventListener("pagehide", historyTracker.flush);
+    };
+  }, [historyTracker]);
+
   // --- Logic Definitions ---
 
   // --- updateMediaSession / updatePositionState 定义在 playSong 之前，供其调用 ---
@@ -469,7 +871,10 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       navigator.mediaSession.metadata = new MediaMetadata({
         title: song.name,
         artist: song.artist,
-        album: song.album || "TuneFree Music",
+        // 睡眠定时的剩余时间显示在专辑一栏
+        album: sleepTimerRef.current
+          ? `${describeSleepTimer(sleepTimerRef.current)} · ${song.album || "TuneFree Music"}`
+          : song.album || "TuneFree Music",
         artwork: song.pic
           ? [
               { src: song.pic, sizes: "96x96", type: "image/jpeg" },
@@ -516,7 +921,50 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       const cached = parsedSongCacheRef.current.get(cacheKey);
       if (cached) return cached;
 
-      const parsed = await parseSongFull(song.id, song.source, quality, song);
+      let parsed: ParsedSongData | null = null;
+
+      // 用户固定了音源：播放地址和歌词取自替代歌曲，封面优先保留原曲
+      const override = getSourceOverride(song);
+      if (override) {
+        const overrideParsed = await parseSongFull(
+          override.id,
+          override.source,
+          quality,
+          override,
+        );
+        if (overrideParsed?.url) {
+          parsed = {
+            ...overrideParsed,
+            pic: song.pic || overrideParsed.pic,
+            alternate: override,
+          };
+        }
+      }
+
+      if (!parsed) {
+        parsed = await parseSongFull(song.id, song.source, quality, song);
+      }
+
+      // 原音源无可用地址（VIP / 版权限制）时，到其他平台匹配同一首歌
+      if (!parsed?.url) {
+        const alternate = await resolveAlternateSong(song, quality).catch(
+          () => null,
+        );
+        if (alternate) {
+          const lrc =
+            parsed?.lrc ||
+            (await getLyrics(alternate.song.id, alternate.song.source).catch(
+              () => "",
+            ));
+          parsed = {
+            url: alternate.url,
+            lrc,
+            pic: parsed?.pic || alternate.song.pic || "",
+            alternate: alternate.song,
+          };
+        }
+      }
+
       if (parsed) {
         parsedSongCacheRef.current.set(cacheKey, parsed);
       }
@@ -526,6 +974,11 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
   );
 
   const clearPreloadedAudio = useCallback((cacheKey?: string) => {
+    if (standbyRef.current && (!cacheKey || standbyRef.current.key === cacheKey)) {
+      clearTransitionTimer();
+      clearStandby();
+    }
+
     const preloaded = preloadedAudioRef.current;
     if (!preloaded || (cacheKey && preloaded.key !== cacheKey)) return;
 
@@ -533,7 +986,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     preloaded.audio.removeAttribute("src");
     preloaded.audio.load();
     preloadedAudioRef.current = null;
-  }, []);
+  }, [clearStandby, clearTransitionTimer]);
 
   const preloadAudioUrl = useCallback(
     (cacheKey: string, url: string) => {
@@ -550,12 +1003,33 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     [clearPreloadedAudio],
   );
 
+  // 把下一首装进引擎的备用 deck；不具备条件时返回 false，由调用方改用普通预加载
+  const loadStandbySong = useCallback(
+    (song: Song, cacheKey: string, url: string, objectUrl?: string): boolean => {
+      const engine = engineRef.current;
+      if (!engine || engine.isStandbyBusy() || !supportsCorsAudio(url)) {
+        return false;
+      }
+
+      clearStandby();
+      const standbyAudio = engine.getStandby().audio;
+      standbyAudio.src = url;
+      standbyAudio.load();
+      standbyRef.current = { key: cacheKey, song, url, objectUrl };
+      return true;
+    },
+    [clearStandby],
+  );
+
   const preloadNextSong = useCallback(
     (song: Song) => {
+      const engine = engineRef.current;
+      const standby = standbyRef.current;
       const nextIndex = getNextQueueIndex(
         queueRef.current,
         song,
         playModeRef.current,
+        getShuffleState(),
       );
       if (nextIndex < 0) return;
 
@@ -564,16 +1038,39 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
 
       const quality = audioQualityRef.current;
       const cacheKey = getParsedSongCacheKey(nextSong, quality);
-      if (preloadedAudioRef.current?.key === cacheKey) return;
+      if (engine) {
+        // 备用 deck 仍在淡出时由淡出结束的回调重新预加载
+        if (standby?.key === cacheKey || engine.isStandbyBusy()) return;
+      } else if (preloadedAudioRef.current?.key === cacheKey) {
+        return;
+      }
 
-      void resolveParsedSong(nextSong, quality)
+      const isStale = () =>
+        !isSameSong(currentSongRef.current, song) ||
+        getParsedSongCacheKey(nextSong, audioQualityRef.current) !== cacheKey;
+
+      // 已离线保存的歌曲无需预加载网络地址，但引擎可直接装载本地音频
+      void getOfflineSong(nextSong)
+        .catch(() => null)
+        .then((offline) => {
+          if (!offline) return resolveParsedSong(nextSong, quality);
+          if (engineRef.current && !isStale()) {
+            const objectUrl = URL.createObjectURL(offline.audio);
+            if (!loadStandbySong(nextSong, cacheKey, objectUrl, objectUrl)) {
+              URL.revokeObjectURL(objectUrl);
+            }
+          }
+          return null;
+        })
         .then((parsed) => {
           if (!parsed?.url) return;
           if (getParsedSongCacheKey(nextSong, audioQualityRef.current) !== cacheKey) {
             return;
           }
 
-          preloadAudioUrl(cacheKey, parsed.url);
+          if (isStale() || !loadStandbySong(nextSong, cacheKey, parsed.url)) {
+            preloadAudioUrl(cacheKey, parsed.url);
+          }
           const patch: Partial<Song> = { url: parsed.url };
           if (parsed.pic && !nextSong.pic) patch.pic = parsed.pic;
           if (parsed.lrc) patch.lrc = parsed.lrc;
@@ -589,19 +1086,170 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
           console.warn("Preload next song failed:", error);
         });
     },
-    [getParsedSongCacheKey, preloadAudioUrl, resolveParsedSong],
+    [
+      getParsedSongCacheKey,
+      getShuffleState,
+      loadStandbySong,
+      preloadAudioUrl,
+      resolveParsedSong,
+    ],
   );
 
+  const releaseOfflineObjectUrl = useCallback(() => {
+    if (!offlineObjectUrlRef.current) return;
+    URL.revokeObjectURL(offlineObjectUrlRef.current);
+    offlineObjectUrlRef.current = null;
+  }, []);
+
+  // load() 会把 playbackRate 重置为 defaultPlaybackRate，两者一起设置
+  const applyPlaybackRate = useCallback((audio: HTMLAudioElement) => {
+    const rate = playbackRateRef.current;
+    const preserve = preservePitchRef.current;
+    audio.defaultPlaybackRate = rate;
+    audio.playbackRate = rate;
+    audio.preservesPitch = preserve;
+    const prefixed = audio as HTMLAudioElement & {
+      webkitPreservesPitch?: boolean;
+      mozPreservesPitch?: boolean;
+    };
+    prefixed.webkitPreservesPitch = preserve;
+    prefixed.mozPreservesPitch = preserve;
+  }, []);
+
+  // 切换到新歌曲时恢复它记住的速度，并清除 A-B 循环
+  const restoreSongPlaybackState = useCallback((song: Song) => {
+    const rate = loadStoredSongPlaybackRate(song);
+    playbackRateRef.current = rate;
+    setPlaybackRateState(rate);
+    abLoopRef.current = null;
+    setAbLoopState(null);
+  }, []);
+
+  // 交叉淡化到备用 deck 中的下一首；备用 deck 未就绪时不处理，由 ended 事件走普通切歌
+  const startTransition = useCallback(
+    (lead: number) => {
+      const engine = engineRef.current;
+      const standby = standbyRef.current;
+      const previousAudio = audioRef.current;
+      if (!engine || !standby || !previousAudio || autoAdvanceStartedRef.current) return;
+
+      const nextAudio = engine.getStandby().audio;
+      const nextSong = queueRef.current.find((song) => isSameSong(song, standby.song));
+      if (!nextSong || nextAudio.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+      // 计时期间发生了跳转（如单曲重播、回到开头），不再过渡
+      const remaining = getFiniteAudioDuration(previousAudio) - previousAudio.currentTime;
+      if (remaining > lead + TRANSITION_SCHEDULE_WINDOW_SECONDS) return;
+
+      standbyRef.current = null;
+      historyTracker.finish(true);
+      countSleepTimerTrack();
+      const previousObjectUrl = offlineObjectUrlRef.current;
+      offlineObjectUrlRef.current = standby.objectUrl || null;
+
+      detachAudioHandlers(previousAudio);
+      attachAudioHandlers(nextAudio);
+      engine.crossfade(lead, () => {
+        if (previousObjectUrl) URL.revokeObjectURL(previousObjectUrl);
+        if (currentSongRef.current) preloadNextSong(currentSongRef.current);
+      });
+
+      const requestId = ++playRequestIdRef.current;
+      const fullSong = standby.objectUrl ? nextSong : { ...nextSong, url: standby.url };
+      restoreSongPlaybackState(fullSong);
+      applyPlaybackRate(nextAudio);
+      currentSongRef.current = fullSong;
+      setCurrentSong(fullSong);
+      setCurrentTime(0);
+      setDuration(getFiniteAudioDuration(nextAudio));
+      retryCountRef.current = 0;
+      autoAdvanceStartedRef.current = false;
+      if (standby.objectUrl) void touchOfflineSong(fullSong).catch(() => {});
+
+      nextAudio
+        .play()
+        .then(() => {
+          if (playRequestIdRef.current !== requestId) return;
+          setIsPlaying(true);
+          setIsLoading(false);
+          updateMediaSession(fullSong, "playing");
+        })
+        .catch((error) => {
+          if (playRequestIdRef.current !== requestId) return;
+          console.warn("[Player] 过渡播放失败:", error);
+          engine.settle();
+          setIsPlaying(false);
+          setIsLoading(false);
+          updateMediaSession(fullSong, "paused");
+          showPlayerNotice("播放被浏览器阻止，请再次点击播放", "warning");
+        });
+    },
+    [
+      applyPlaybackRate,
+      attachAudioHandlers,
+      countSleepTimerTrack,
+      detachAudioHandlers,
+      historyTracker,
+      preloadNextSong,
+      restoreSongPlaybackState,
+      showPlayerNotice,
+      updateMediaSession,
+    ],
+  );
+
+  startTransitionRef.current = startTransition;
+
   const pausePlayback = useCallback(() => {
     const song = currentSongRef.current;
     if (!audioRef.current || !song) return;
 
     playRequestIdRef.current += 1;
+    clearTransitionTimer();
+    engineRef.current?.settle();
     audioRef.current.pause();
     setIsPlaying(false);
     setIsLoading(false);
     updateMediaSession(song, "paused");
-  }, [updateMediaSession]);
+  }, [clearTransitionTimer, updateMediaSession]);
+
+  stopForSleepRef.current = () => {
+    pausePlayback();
+    if (audioRef.current) audioRef.current.volume = 1;
+    updateSleepTimer(null);
+    showPlayerNotice("睡眠定时结束，已暂停播放", "info");
+  };
+
+  // 睡眠定时：到点暂停；最后 SLEEP_FADE_SECONDS 秒逐渐降低音量
+  useEffect(() => {
+    if (!sleepTimer) return;
+
+    const tick = () => {
+      const audio = audioRef.current;
+      const timer = sleepTimerRef.current;
+      if (!audio || !timer) return;
+
+      let remaining = Infinity;
+      if (timer.mode === "time") {
+        remaining = (timer.endsAt - Date.now()) / 1000;
+        if (remaining <= 0) {
+          stopForSleepRef.current();
+          return;
+        }
+      } else if (endsWithCurrentTrack(timer)) {
+        const trackDuration = getFiniteAudioDuration(audio);
+        if (trackDuration > 0) {
+          remaining = (trackDuration - audio.currentTime) / (audio.playbackRate || 1);
+        }
+      }
+      audio.volume = Math.max(0, Math.min(1, remaining / SLEEP_FADE_SECONDS));
+    };
+
+    tick();
+    const timer = window.setInterval(tick, SLEEP_TICK_MS);
+    return () => {
+      window.clearInterval(timer);
+      if (audioRef.current) audioRef.current.volume = 1;
+    };
+  }, [sleepTimer]);
 
   const resumePlayback = useCallback(async () => {
     const song = currentSongRef.current;
@@ -664,6 +1312,8 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       }
 
       const requestId = ++playRequestIdRef.current;
+      clearTransitionTimer();
+      engineRef.current?.settle();
       setIsLoading(true);
       if (!forceQuality) {
         retryCountRef.current = 0; // Reset retry if user manually clicked a new song
@@ -673,6 +1323,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
         audioRef.current.pause();
         audioRef.current.removeAttribute("src");
         audioRef.current.load();
+        restoreSongPlaybackState(song);
         setIsPlaying(false);
         setCurrentTime(0);
         setDuration(0);
@@ -689,8 +1340,11 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       });
 
       try {
-        // 单次 parse 获取 url / 歌词 / 封面，避免重复消耗积分
-        const parsed = await resolveParsedSong(song, targetQuality);
+        // 已离线保存的歌曲优先使用本地音频；否则单次 parse 获取 url / 歌词 / 封面，避免重复消耗积分
+        const offline = await getOfflineSong(song).catch(() => null);
+        const parsed: ParsedSongData | null = offline
+          ? { url: null, lrc: offline.lrc, pic: "" }
+          : await resolveParsedSong(song, targetQuality);
 
         // Race condition check
         if (
@@ -702,6 +1356,13 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
 
         // 用 parse 返回的完整数据补全播放地址、封面和歌词
         if (parsed) {
+          if (parsed.alternate && !getSourceOverride(song)) {
+            showPlayerNotice(
+              `原音源暂不可用，已自动切换到${getMusicSourceLabel(parsed.alternate.source, "full")}`,
+              "info",
+            );
+          }
+
           const patch: Partial<Song> = {};
           if (parsed.url) patch.url = parsed.url;
           if (parsed.pic && !fullSong.pic) patch.pic = parsed.pic;
@@ -722,19 +1383,23 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
           }
         }
 
-        const url = parsed?.url || null;
+        const url = offline
+          ? URL.createObjectURL(offline.audio)
+          : parsed?.url || null;
 
         if (url) {
+          releaseOfflineObjectUrl();
+          if (offline) {
+            offlineObjectUrlRef.current = url;
+            void touchOfflineSong(song).catch(() => {});
+          }
+
           const resumeTime =
             isCurrentSong && isDifferentQuality ? audioRef.current.currentTime : 0;
 
           if (!isIOSRef.current) {
-            // 酷我 CDN 不支持 CORS，crossOrigin="anonymous" 会导致请求失败
             // createMediaElementSource 绑定后的 Audio 播放非 CORS 源也会静音
-            const needsCors =
-              !url.includes("kuwo.cn") && !url.includes("sycdn.kuwo");
-
-            if (!needsCors) {
+            if (!supportsCorsAudio(url)) {
               if (audioCtxConnectedRef.current || audioRef.current.crossOrigin) {
                 console.log(
                   "[Player] 切换到无 CORS Audio（酷我源），可视化使用模拟模式",
@@ -742,7 +1407,11 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
                 createAudioElement(false);
               }
             } else {
-              if (!audioCtxConnectedRef.current) {
+              // 歌曲过渡开关变化后，在下一首重建为对应的播放路径
+              if (
+                !audioCtxConnectedRef.current ||
+                crossfadeRef.current.enabled !== !!engineRef.current
+              ) {
                 createAudioElement(true);
               }
               initAudioContext();
@@ -754,6 +1423,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
           autoAdvanceStartedRef.current = false;
           activeAudio.src = url;
           activeAudio.load();
+          applyPlaybackRate(activeAudio);
 
           if (preloadedCurrentAudio?.key === cacheKey) {
             const preloadedDuration = getFiniteAudioDuration(
@@ -845,6 +1515,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
           audioRef.current.pause();
           audioRef.current.removeAttribute("src");
           audioRef.current.load();
+          releaseOfflineObjectUrl();
           setCurrentTime(0);
           setDuration(0);
           setIsLoading(false);
@@ -862,12 +1533,16 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       }
     },
     [
+      applyPlaybackRate,
       clearPreloadedAudio,
+      clearTransitionTimer,
       createAudioElement,
       getParsedSongCacheKey,
       initAudioContext,
       preloadNextSong,
+      releaseOfflineObjectUrl,
       resolveParsedSong,
+      restoreSongPlaybackState,
       resumePlayback,
       showPlayerNotice,
       updateMediaSession,
@@ -905,6 +1580,58 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     preloadNextSong(currentSong);
   }, [audioQuality, currentSong, isPlaying, playMode, preloadNextSong, queue]);
 
+  useEffect(() => {
+    if (audioRef.current) applyPlaybackRate(audioRef.current);
+    updatePositionState();
+  }, [applyPlaybackRate, playbackRate, preservePitch, updatePositionState]);
+
+  // 音频图重建（analyser 变化）后重新应用均衡器设置
+  useEffect(() => {
+    eqChainRef.current?.apply(equalizer);
+  }, [analyser, equalizer]);
+
+  // 响度均衡：每首歌开头采样估算响度，测得前保持 0 dB
+  const currentSongKey = currentSong ? getSongKey(currentSong) : null;
+  useEffect(() => {
+    const chain = eqChainRef.current;
+    if (!chain) return;
+    if (!equalizer.normalize || !currentSongKey) {
+      chain.setNormalizationGain(0);
+      return;
+    }
+
+    const cached = loudnessCacheRef.current.get(currentSongKey);
+    if (cached !== undefined) {
+      chain.setNormalizationGain(cached);
+      return;
+    }
+
+    const measuring = loudnessMeterRef.current;
+    if (!measuring || measuring.key !== currentSongKey || measuring.chain !== chain) {
+      chain.setNormalizationGain(0);
+      loudnessMeterRef.current = {
+        key: currentSongKey,
+        chain,
+        meter: createLoudnessMeter(chain.meter),
+      };
+    }
+    if (!isPlaying) return;
+
+    const { meter } = loudnessMeterRef.current!;
+    const timer = window.setInterval(() => {
+      if (audioRef.current?.paused) return;
+      meter.sample();
+      if (meter.frames() < LOUDNESS_ANALYSIS_FRAMES) return;
+
+      window.clearInterval(timer);
+      const gainDb = meter.gainDb();
+      loudnessCacheRef.current.set(currentSongKey, gainDb);
+      loudnessMeterRef.current = null;
+      chain.setNormalizationGain(gainDb);
+    }, LOUDNESS_SAMPLE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [analyser, currentSongKey, equalizer.normalize, isPlaying]);
+
   const togglePlay = useCallback(() => {
     if (!audioRef.current || !currentSongRef.current) return;
     if (!audioRef.current.paused) {
@@ -916,11 +1643,63 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
 
   const seek = useCallback((time: number) => {
     if (audioRef.current) {
+      clearTransitionTimer();
+      engineRef.current?.settle();
       audioRef.current.currentTime = time;
       setCurrentTime(time);
       updatePositionState();
     }
-  }, [updatePositionState]);
+  }, [clearTransitionTimer, updatePositionState]);
+
+  // 电台：顺序播放或列表循环模式下当前歌曲是队列最后一首时，由电台接着追加歌曲
+  const isRadioTail = useCallback((song: Song | null) => {
+    const q = queueRef.current;
+    return (
+      !!song &&
+      radioEnabledRef.current &&
+      (playModeRef.current === "sequence" || playModeRef.current === "loop") &&
+      q.length > 0 &&
+      findCurrentSongIndex(q, song) === q.length - 1
+    );
+  }, []);
+
+  const extendRadioQueue = useCallback((seed: Song): Promise<Song[]> => {
+    const seedKey = getSongKey(seed);
+    const pending = radioRequestRef.current;
+    if (pending?.seedKey === seedKey) return pending.promise;
+
+    const promise = findRadioSongs(seed, queueRef.current)
+      .then((songs) => {
+        if (radioRequestRef.current?.promise !== promise || !radioEnabledRef.current) {
+          return [];
+        }
+        const existing = new Set(queueRef.current.map(getSongKey));
+        const added = songs.filter((song) => !existing.has(getSongKey(song)));
+        if (added.length === 0) return [];
+        const nextQueue = [...queueRef.current, ...added];
+        queueRef.current = nextQueue;
+        setQueue(nextQueue);
+        setRadioSongKeys((prev) => [...prev, ...added.map(getSongKey)]);
+        return added;
+      })
+      .catch((e) => {
+        console.warn("电台歌曲获取失败:", e);
+        return [] as Song[];
+      });
+    radioRequestRef.current = { seedKey, promise };
+    return promise;
+  }, []);
+
+  // 播到最后一首时提前获取电台歌曲，保证交叉淡化和预加载能衔接到下一首
+  useEffect(() => {
+    if (currentSong && isRadioTail(currentSong)) void extendRadioQueue(currentSong);
+  }, [currentSong, queue, playMode, radioEnabled, extendRadioQueue, isRadioTail]);
+
+  const setRadioEnabled = useCallback((enabled: boolean) => {
+    radioEnabledRef.current = enabled;
+    radioRequestRef.current = null;
+    setRadioEnabledState(enabled);
+  }, []);
 
   const playNext = useCallback((force = true) => {
     const q = queueRef.current;
@@ -929,7 +1708,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
 
     if (q.length === 0) return;
 
-    if (!force && mode === "loop") {
+    if (!force && mode === "loopOne") {
       if (audioRef.current && c) {
         const requestId = playRequestIdRef.current;
         audioRef.current.currentTime = 0;
@@ -964,7 +1743,27 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       return;
     }
 
-    const nextIndex = getNextQueueIndex(q, c, mode);
+    if (isRadioTail(c)) {
+      void extendRadioQueue(c as Song).then((added) => {
+        if (!isSameSong(currentSongRef.current, c)) return;
+        const nextSong = added[0] || queueRef.current[0];
+        if (nextSong) playSongRef.current(nextSong);
+      });
+      return;
+    }
+
+    let nextIndex = getNextQueueIndex(q, c, mode, getShuffleState());
+    // 顺序播放到队尾：自动播放停在最后一首，手动切歌回到第一首
+    if (nextIndex < 0 && mode === "sequence") {
+      if (!force) {
+        autoAdvanceStartedRef.current = false;
+        setIsPlaying(false);
+        setIsLoading(false);
+        if (c) updateMediaSession(c, "paused");
+        return;
+      }
+      nextIndex = 0;
+    }
     if (nextIndex < 0) return;
 
     const nextSong = q[nextIndex];
@@ -976,7 +1775,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     }
 
     playSongRef.current(nextSong);
-  }, [updateMediaSession]);
+  }, [extendRadioQueue, getShuffleState, isRadioTail, updateMediaSession]);
 
   const playPrev = useCallback(() => {
     const q = queueRef.current;
@@ -992,11 +1791,12 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       return;
     }
 
-    const prevIndex = getPrevQueueIndex(q, c, mode);
+    const prevIndex = getPrevQueueIndex(q, c, mode, getShuffleState());
     if (prevIndex < 0) return;
 
+    shuffleGoingBackRef.current = mode === "shuffle" && !isSameSong(q[prevIndex], c);
     playSongRef.current(q[prevIndex]);
-  }, [updatePositionState]);
+  }, [getShuffleState, updatePositionState]);
 
   useEffect(() => {
     playNextRef.current = playNext;
@@ -1019,10 +1819,14 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
   }, [pausePlayback, playNext, playPrev, resumePlayback, seek]);
 
   useEffect(() => {
-    if (currentSong) {
+    if (!currentSong) return;
+    const refresh = () =>
       updateMediaSession(currentSong, isPlaying ? "playing" : "paused");
-    }
-  }, [currentSong, isPlaying, updateMediaSession]);
+    refresh();
+    if (!sleepTimer) return;
+    const timer = window.setInterval(refresh, SLEEP_MEDIA_SESSION_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [currentSong, isPlaying, sleepTimer, updateMediaSession]);
 
   const addToQueue = useCallback((song: Song) => {
     setQueue((prev) => {
@@ -1031,27 +1835,27 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     });
   }, []);
 
-  const removeFromQueue = useCallback(
-    (songId: string | number, source?: string) => {
+  const removeSongsFromQueue = useCallback(
+    (songs: Song[]) => {
       const current = currentSongRef.current;
       const previousQueue = queueRef.current;
-      const removedIndex = previousQueue.findIndex(
-        (s) => String(s.id) === String(songId) && (!source || s.source === source),
-      );
-      if (removedIndex < 0) return;
+      const removedKeys = new Set(songs.map(getSongKey));
+      const nextQueue = previousQueue.filter((s) => !removedKeys.has(getSongKey(s)));
+      if (nextQueue.length === previousQueue.length) return;
 
-      const removedSong = previousQueue[removedIndex];
-      const nextQueue = previousQueue.filter(
-        (s) => !(String(s.id) === String(songId) && (!source || s.source === source)),
-      );
       queueRef.current = nextQueue;
       setQueue(nextQueue);
       clearPreloadedAudio();
 
-      if (!isSameSong(removedSong, current)) return;
+      if (!current || !removedKeys.has(getSongKey(current))) return;
 
       if (nextQueue.length > 0) {
-        const nextSong = nextQueue[Math.min(removedIndex, nextQueue.length - 1)] || nextQueue[0];
+        // 当前歌曲之后第一首未被移除的歌曲
+        const currentIndex = previousQueue.findIndex((s) => isSameSong(s, current));
+        const nextSong =
+          previousQueue
+            .slice(currentIndex + 1)
+            .find((s) => !removedKeys.has(getSongKey(s))) || nextQueue[0];
         void playSongRef.current(nextSong);
         return;
       }
@@ -1072,6 +1876,42 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     [clearPreloadedAudio],
   );
 
+  const removeFromQueue = useCallback(
+    (songId: string | number, source?: string) => {
+      removeSongsFromQueue(
+        queueRef.current.filter(
+          (s) => String(s.id) === String(songId) && (!source || s.source === source),
+        ),
+      );
+    },
+    [removeSongsFromQueue],
+  );
+
+  const queueNext = useCallback(
+    (song: Song) => {
+      const nextQueue = insertAfterCurrent(queueRef.current, currentSongRef.current, song);
+      if (nextQueue === queueRef.current) return;
+      // 随机模式下同样排在当前歌曲之后，避免新歌曲触发重新洗牌
+      const shuffle = getShuffleState();
+      if (shuffle) updateShuffle(insertIntoShuffleOrder(shuffle, currentSongRef.current, song));
+      queueRef.current = nextQueue;
+      setQueue(nextQueue);
+      clearPreloadedAudio();
+    },
+    [clearPreloadedAudio, getShuffleState, updateShuffle],
+  );
+
+  const moveInQueue = useCallback(
+    (from: number, to: number) => {
+      const nextQueue = moveQueueItem(queueRef.current, from, to);
+      if (nextQueue === queueRef.current) return;
+      queueRef.current = nextQueue;
+      setQueue(nextQueue);
+      clearPreloadedAudio();
+    },
+    [clearPreloadedAudio],
+  );
+
   const clearQueue = useCallback(() => {
     clearPreloadedAudio();
     const current = currentSongRef.current;
@@ -1086,12 +1926,22 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
   }, []);
 
   const togglePlayMode = useCallback(() => {
-    setPlayMode((prev) => {
-      if (prev === "sequence") return "loop";
-      if (prev === "loop") return "shuffle";
-      return "sequence";
-    });
-  }, []);
+    const prev = playModeRef.current;
+    const next: PlayMode =
+      prev === "sequence"
+        ? "loop"
+        : prev === "loop"
+          ? "loopOne"
+          : prev === "loopOne"
+            ? "shuffle"
+            : "sequence";
+    playModeRef.current = next;
+    // 每次进入随机模式都重新洗牌，当前歌曲作为新一轮的第一首
+    if (next === "shuffle") {
+      updateShuffle(createShuffleState(queueRef.current, currentSongRef.current));
+    }
+    setPlayMode(next);
+  }, [updateShuffle]);
 
   const setAudioQuality = useCallback((q: AudioQuality) => {
     setAudioQualityState(q);
@@ -1105,6 +1955,92 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   }, []);
 
+  // 开关在下一首歌曲播放时生效（需要重建 Audio 元素）
+  const setCrossfadeSettings = useCallback((patch: Partial<CrossfadeSettings>) => {
+    setCrossfade((prev) => {
+      const seconds = patch.seconds ?? prev.seconds;
+      return {
+        enabled: patch.enabled ?? prev.enabled,
+        seconds: Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds)),
+      };
+    });
+  }, []);
+
+  const setEqualizerSettings = useCallback((patch: Partial<EqualizerSettings>) => {
+    setEqualizer((prev) => ({
+      enabled: patch.enabled ?? prev.enabled,
+      preset: patch.preset ?? prev.preset,
+      gains: EQ_BANDS.map((_, i) => clampEqGain((patch.gains ?? prev.gains)[i] ?? 0)),
+      preamp: clampEqGain(patch.preamp ?? prev.preamp),
+      normalize: patch.normalize ?? prev.normalize,
+    }));
+  }, []);
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    const nextRate = clampPlaybackRate(rate);
+    playbackRateRef.current = nextRate;
+    setPlaybackRateState(nextRate);
+    if (currentSongRef.current) {
+      persistSongPlaybackRate(currentSongRef.current, nextRate);
+    }
+  }, []);
+
+  const setPreservePitch = useCallback((preserve: boolean) => {
+    preservePitchRef.current = preserve;
+    setPreservePitchState(preserve);
+  }, []);
+
+  // B 点不晚于 A 点 + MIN_AB_LOOP_SECONDS 时只保留 A 点
+  const setAbLoop = useCallback((loop: AbLoop | null) => {
+    const nextLoop = loop && {
+      start: Math.max(0, loop.start),
+      end:
+        loop.end !== null && loop.end - loop.start >= MIN_AB_LOOP_SECONDS
+          ? loop.end
+          : null,
+    };
+    abLoopRef.current = nextLoop;
+    setAbLoopState(nextLoop);
+    if (nextLoop?.end != null && audioRef.current) {
+      const { currentTime } = audioRef.current;
+      if (currentTime < nextLoop.start || currentTime > nextLoop.end) {
+        audioRef.current.currentTime = nextLoop.start;
+      }
+    }
+  }, []);
+
+  const startSleepTimer = useCallback(
+    (option: { minutes: number } | { songs: number }) => {
+      if ("minutes" in option) {
+        const minutes = Math.max(1, Math.round(option.minutes));
+        updateSleepTimer({ mode: "time", endsAt: Date.now() + minutes * 60_000 });
+      } else {
+        updateSleepTimer({ mode: "songs", remaining: Math.max(1, Math.round(option.songs)) });
+      }
+    },
+    [updateSleepTimer],
+  );
+
+  const cancelSleepTimer = useCallback(() => {
+    updateSleepTimer(null);
+  }, [updateSleepTimer]);
+
+  const setSongSourceOverride = useCallback(
+    (song: Song, alternate: Song | null) => {
+      setSourceOverride(song, alternate);
+      const keyPrefix = `${getSongKey(song)}:`;
+      Array.from(parsedSongCacheRef.current.keys()).forEach((key) => {
+        if (key.startsWith(keyPrefix)) parsedSongCacheRef.current.delete(key);
+      });
+      clearPreloadedAudio();
+
+      if (isSameSong(currentSongRef.current, song)) {
+        void playSongRef.current(song, audioQualityRef.current);
+      }
+    },
+    [clearPreloadedAudio],
+  );
+
   const actionsValue = useMemo(
     () => ({
       playSong,
@@ -1117,10 +2053,22 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       playPrev,
       addToQueue,
       removeFromQueue,
+      removeSongsFromQueue,
+      queueNext,
+      moveInQueue,
       restoreQueue,
       togglePlayMode,
       clearQueue,
+      setRadioEnabled,
       setAudioQuality,
+      setCrossfadeSettings,
+      setEqualizerSettings,
+      setPlaybackRate,
+      setPreservePitch,
+      setAbLoop,
+      startSleepTimer,
+      cancelSleepTimer,
+      setSongSourceOverride,
       initAudioContext,
     }),
     [
@@ -1134,10 +2082,22 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       playPrev,
       addToQueue,
       removeFromQueue,
+      removeSongsFromQueue,
+      queueNext,
+      moveInQueue,
       restoreQueue,
       togglePlayMode,
       clearQueue,
+      setRadioEnabled,
       setAudioQuality,
+      setCrossfadeSettings,
+      setEqualizerSettings,
+      setPlaybackRate,
+      setPreservePitch,
+      setAbLoop,
+      startSleepTimer,
+      cancelSleepTimer,
+      setSongSourceOverride,
       initAudioContext,
     ],
   );
@@ -1155,15 +2115,31 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
     () => ({
       queue,
       playMode,
+      radioEnabled,
+      radioSongKeys,
     }),
-    [queue, playMode],
+    [queue, playMode, radioEnabled, radioSongKeys],
   );
 
   const settingsValue = useMemo(
     () => ({
       audioQuality,
+      crossfade,
+      equalizer,
+      playbackRate,
+      preservePitch,
+      abLoop,
+      sleepTimer,
     }),
-    [audioQuality],
+    [
+      audioQuality,
+      crossfade,
+      equalizer,
+      playbackRate,
+      preservePitch,
+      abLoop,
+      sleepTimer,
+    ],
   );
 
   const analyserValue = useMemo(
@@ -1193,8 +2169,16 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       volume,
       playMode,
       queue,
+      radioEnabled,
+      radioSongKeys,
       analyser,
       audioQuality,
+      crossfade,
+      equalizer,
+      playbackRate,
+      preservePitch,
+      abLoop,
+      sleepTimer,
       playerNotice,
       ...actionsValue,
     }),
@@ -1207,8 +2191,16 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({
       volume,
       playMode,
       queue,
+      radioEnabled,
+      radioSongKeys,
       analyser,
       audioQuality,
+      crossfade,
+      equalizer,
+      playbackRate,
+      preservePitch,
+      abLoop,
+      sleepTimer,
       playerNotice,
       actionsValue,
     ],
@@ -1243,8 +2235,16 @@ const PLAYER_DEFAULTS: PlayerContextType = {
   volume: 1,
   playMode: "sequence",
   queue: [],
+  radioEnabled: false,
+  radioSongKeys: [],
   analyser: null,
   audioQuality: "320k",
+  crossfade: { enabled: false, seconds: 0 },
+  equalizer: DEFAULT_EQUALIZER,
+  playbackRate: 1,
+  preservePitch: true,
+  abLoop: null,
+  sleepTimer: null,
   playerNotice: null,
   playSong: async () => {},
   playQueue: async () => {},
@@ -1256,10 +2256,22 @@ const PLAYER_DEFAULTS: PlayerContextType = {
   playPrev: () => {},
   addToQueue: () => {},
   removeFromQueue: () => {},
+  removeSongsFromQueue: () => {},
+  queueNext: () => {},
+  moveInQueue: () => {},
   restoreQueue: () => {},
   togglePlayMode: () => {},
   clearQueue: () => {},
+  setRadioEnabled: () => {},
   setAudioQuality: () => {},
+  setCrossfadeSettings: () => {},
+  setEqualizerSettings: () => {},
+  setPlaybackRate: () => {},
+  setPreservePitch: () => {},
+  setAbLoop: () => {},
+  startSleepTimer: () => {},
+  cancelSleepTimer: () => {},
+  setSongSourceOverride: () => {},
   initAudioContext: () => {},
 };
 
@@ -1294,10 +2306,22 @@ export const usePlayerActions = () => {
       playPrev: PLAYER_DEFAULTS.playPrev,
       addToQueue: PLAYER_DEFAULTS.addToQueue,
       removeFromQueue: PLAYER_DEFAULTS.removeFromQueue,
+      removeSongsFromQueue: PLAYER_DEFAULTS.removeSongsFromQueue,
+      queueNext: PLAYER_DEFAULTS.queueNext,
+      moveInQueue: PLAYER_DEFAULTS.moveInQueue,
       restoreQueue: PLAYER_DEFAULTS.restoreQueue,
       togglePlayMode: PLAYER_DEFAULTS.togglePlayMode,
       clearQueue: PLAYER_DEFAULTS.clearQueue,
+      setRadioEnabled: PLAYER_DEFAULTS.setRadioEnabled,
       setAudioQuality: PLAYER_DEFAULTS.setAudioQuality,
+      setCrossfadeSettings: PLAYER_DEFAULTS.setCrossfadeSettings,
+      setEqualizerSettings: PLAYER_DEFAULTS.setEqualizerSettings,
+      setPlaybackRate: PLAYER_DEFAULTS.setPlaybackRate,
+      setPreservePitch: PLAYER_DEFAULTS.setPreservePitch,
+      setAbLoop: PLAYER_DEFAULTS.setAbLoop,
+      startSleepTimer: PLAYER_DEFAULTS.startSleepTimer,
+      cancelSleepTimer: PLAYER_DEFAULTS.cancelSleepTimer,
+      setSongSourceOverride: PLAYER_DEFAULTS.setSongSourceOverride,
       initAudioContext: PLAYER_DEFAULTS.initAudioContext,
     };
   }
@@ -1328,6 +2352,8 @@ export const usePlayerQueueState = () => {
     return {
       queue: PLAYER_DEFAULTS.queue,
       playMode: PLAYER_DEFAULTS.playMode,
+      radioEnabled: PLAYER_DEFAULTS.radioEnabled,
+      radioSongKeys: PLAYER_DEFAULTS.radioSongKeys,
     };
   }
   return context;
@@ -1341,6 +2367,12 @@ export const usePlayerSettings = () => {
     );
     return {
       audioQuality: PLAYER_DEFAULTS.audioQuality,
+      crossfade: PLAYER_DEFAULTS.crossfade,
+      equalizer: PLAYER_DEFAULTS.equalizer,
+      playbackRate: PLAYER_DEFAULTS.playbackRate,
+      preservePitch: PLAYER_DEFAULTS.preservePitch,
+      abLoop: PLAYER_DEFAULTS.abLoop,
+      sleepTimer: PLAYER_DEFAULTS.sleepTimer,
     };
   }
   return context;
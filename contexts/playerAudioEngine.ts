@@ -0,0 +1,162 @@
+// ==============================
+// Web Audio 双 deck 播放引擎
+// 两个 HTMLAudioElement 各自经 MediaElementSource → GainNode 汇入同一个分析器。
+// 备用 deck 预加载下一首，在当前曲目结尾前启动并交叉淡化；
+// 同专辑连续曲目只做极短的重叠，实现无缝衔接。
+// iOS 不使用（AudioContext 在后台会被挂起），由 PlayerContext 走原有的单元素路径。
+// ==============================
+
+export interface AudioDeck {
+  audio: HTMLAudioElement;
+  gain: GainNode;
+}
+
+/** 插在混音与分析器之间的处理链（如均衡器） */
+export interface AudioInsert {
+  input: AudioNode;
+  output: AudioNode;
+}
+
+export interface PlayerAudioEngine {
+  ctx: AudioContext;
+  analyser: AnalyserNode;
+  /** 主 deck 的 source（与单元素路径的 sourceNodeRef 含义一致） */
+  primarySource: MediaElementAudioSourceNode;
+  getActive: () => AudioDeck;
+  getStandby: () => AudioDeck;
+  /** 备用 deck 仍在淡出上一首，暂时不能装载新歌曲 */
+  isStandbyBusy: () => boolean;
+  /**
+   * 交换主备 deck，并在 seconds 秒内把音量从旧 deck 过渡到新 deck。
+   * 淡出结束后旧 deck 被清空，并调用 onReleased。
+   */
+  crossfade: (seconds: number, onReleased?: () => void) => void;
+  /** 立即结束正在进行的淡出，主 deck 恢复满音量 */
+  settle: () => void;
+  close: () => void;
+}
+
+/** 淡化曲线分段数 */
+const FADE_STEPS = 16;
+
+/**
+ * 等功率曲线（交叉过程中总响度基本不变），用分段线性斜坡近似。
+ * 不用 setValueCurveAtTime：曲线进行中被取消时部分浏览器会抛异常。
+ */
+const scheduleFade = (param: AudioParam, fadeIn: boolean, start: number, duration: number) => {
+  param.cancelScheduledValues(start);
+  param.setValueAtTime(fadeIn ? 0 : 1, start);
+  for (let i = 1; i <= FADE_STEPS; i++) {
+    const t = i / FADE_STEPS;
+    const value = fadeIn ? Math.sin((t * Math.PI) / 2) : Math.cos((t * Math.PI) / 2);
+    param.linearRampToValueAtTime(value, start + duration * t);
+  }
+};
+
+const releaseAudio = (audio: HTMLAudioElement) => {
+  audio.pause();
+  audio.removeAttribute("src");
+  audio.load();
+};
+
+export const createStandbyAudioElement = (): HTMLAudioElement => {
+  const audio = new Audio();
+  audio.preload = "auto";
+  (audio as any).playsInline = true;
+  audio.crossOrigin = "anonymous";
+  return audio;
+};
+
+/**
+ * 以现有的主 Audio 元素创建引擎。primary 必须已设置 crossOrigin，
+ * 且从未接入过其他 AudioContext。浏览器不支持 Web Audio 时返回 null，创建失败时抛出异常。
+ * createInsert 返回的处理链接在两个 deck 混音之后。
+ */
+export const createPlayerAudioEngine = (
+  primary: HTMLAudioElement,
+  createInsert?: (ctx: AudioContext) => AudioInsert,
+): PlayerAudioEngine | null => {
+  const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioCtx) return null;
+
+  const ctx: AudioContext = new AudioCtx();
+  try {
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 512;
+    analyser.smoothingTimeConstant = 0.7;
+    analyser.connect(ctx.destination);
+
+    const insert = createInsert?.(ctx);
+    insert?.output.connect(analyser);
+    const mixInput = insert?.input ?? analyser;
+
+    const connectDeck = (audio: HTMLAudioElement, volume: number) => {
+      const source = ctx.createMediaElementSource(audio);
+      const gain = ctx.createGain();
+      gain.gain.value = volume;
+      source.connect(gain);
+      gain.connect(mixInput);
+      return { deck: { audio, gain }, source };
+    };
+
+    const primaryDeck = connectDeck(primary, 1);
+    const standbyDeck = connectDeck(createStandbyAudioElement(), 0);
+
+    let active: AudioDeck = primaryDeck.deck;
+    let standby: AudioDeck = standbyDeck.deck;
+    let fading: { deck: AudioDeck; timer: number; onReleased?: () => void } | null = null;
+
+    const finishFade = () => {
+      if (!fading) return;
+      const { deck, timer, onReleased } = fading;
+      fading = null;
+      window.clearTimeout(timer);
+      deck.gain.gain.cancelScheduledValues(ctx.currentTime);
+      deck.gain.gain.setValueAtTime(0, ctx.currentTime);
+      releaseAudio(deck.audio);
+      onReleased?.();
+    };
+
+    const settle = () => {
+      finishFade();
+      active.gain.gain.cancelScheduledValues(ctx.currentTime);
+      active.gain.gain.setValueAtTime(1, ctx.currentTime);
+    };
+
+    return {
+      ctx,
+      analyser,
+      primarySource: primaryDeck.source,
+      getActive: () => active,
+      getStandby: () => standby,
+      isStandbyBusy: () => fading !== null,
+      crossfade: (seconds, onReleased) => {
+        finishFade();
+        const from = active;
+        const to = standby;
+        const now = ctx.currentTime;
+        const duration = Math.max(0.01, seconds);
+
+        scheduleFade(from.gain.gain, false, now, duration);
+        scheduleFade(to.gain.gain, true, now, duration);
+
+        active = to;
+        standby = from;
+        fading = {
+          deck: from,
+          timer: window.setTimeout(finishFade, duration * 1000 + 50),
+          onReleased,
+        };
+      },
+      settle,
+      close: () => {
+        finishFade();
+        releaseAudio(standby.audio);
+        ctx.close().catch(() => {});
+      },
+    };
+  } catch (e) {
+    ctx.close().catch(() => {});
+    throw e;
+  }
+};
@@ -0,0 +1,141 @@
+import type { EqualizerPreset, EqualizerSettings } from "../types";
+
+// ==============================
+// 均衡器与响度均衡
+// 音频图：输入 → 前级增益 → 10 段 BiquadFilter → 响度增益 → 输出，
+// 另有一个只读的测量分析器挂在输入端，用于估算歌曲响度。
+// ==============================
+
+/** 各频段中心频率（Hz） */
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+export const MAX_EQ_GAIN = 12;
+
+export const clampEqGain = (gain: number): number =>
+  Number.isFinite(gain) ? Math.max(-MAX_EQ_GAIN, Math.min(MAX_EQ_GAIN, gain)) : 0;
+
+export const BUILTIN_EQ_PRESETS: EqualizerPreset[] = [
+  { id: "flat", name: "原声", gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { id: "pop", name: "流行", gains: [-1, 1, 3, 4, 2, 0, -1, -1, 1, 2] },
+  { id: "rock", name: "摇滚", gains: [4, 3, 2, 0, -1, -1, 1, 3, 4, 4] },
+  { id: "vocal", name: "人声", gains: [-2, -2, -1, 1, 3, 4, 4, 2, 0, -1] },
+  { id: "bass", name: "重低音", gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+];
+
+export const CUSTOM_EQ_PRESET_ID = "custom";
+
+export const DEFAULT_EQUALIZER: EqualizerSettings = {
+  enabled: false,
+  preset: "flat",
+  gains: BUILTIN_EQ_PRESETS[0].gains,
+  preamp: 0,
+  normalize: false,
+};
+
+/** 峰值滤波器的 Q 值，约一个倍频程带宽 */
+const EQ_PEAKING_Q = 1.41;
+/** 参数变化的平滑时间常数（秒），避免拖动滑块时出现爆音 */
+const PARAM_SMOOTHING = 0.03;
+
+/** 响度均衡的目标电平（dBFS RMS） */
+const LOUDNESS_TARGET_DB = -14;
+/** 提升上限较小，避免安静的歌曲被推到削波 */
+const MAX_NORMALIZATION_BOOST_DB = 6;
+const MAX_NORMALIZATION_CUT_DB = 12;
+/** 低于该电平的帧视为静音，不参与统计 */
+const SILENCE_THRESHOLD_DB = -60;
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+export interface EqualizerChain {
+  input: AudioNode;
+  output: AudioNode;
+  /** 接在输入端的测量分析器，不影响输出 */
+  meter: AnalyserNode;
+  apply: (settings: EqualizerSettings) => void;
+  setNormalizationGain: (db: number) => void;
+}
+
+export const createEqualizerChain = (ctx: AudioContext): EqualizerChain => {
+  const input = ctx.createGain();
+  const preamp = ctx.createGain();
+  const normalization = ctx.createGain();
+
+  const meter = ctx.createAnalyser();
+  meter.fftSize = 2048;
+  input.connect(meter);
+
+  const filters = EQ_BANDS.map((frequency, i) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type =
+      i === 0 ? "lowshelf" : i === EQ_BANDS.length - 1 ? "highshelf" : "peaking";
+    filter.frequency.value = frequency;
+    filter.Q.value = EQ_PEAKING_Q;
+    filter.gain.value = 0;
+    return filter;
+  });
+
+  input.connect(preamp);
+  filters.reduce<AudioNode>((prev, filter) => {
+    prev.connect(filter);
+    return filter;
+  }, preamp);
+  filters[filters.length - 1].connect(normalization);
+
+  const setParam = (param: AudioParam, value: number) => {
+    param.setTargetAtTime(value, ctx.currentTime, PARAM_SMOOTHING);
+  };
+
+  return {
+    input,
+    output: normalization,
+    meter,
+    apply: (settings) => {
+      setParam(preamp.gain, settings.enabled ? dbToGain(settings.preamp) : 1);
+      filters.forEach((filter, i) => {
+        setParam(filter.gain, settings.enabled ? settings.gains[i] || 0 : 0);
+      });
+    },
+    setNormalizationGain: (db) => {
+      // 响度变化放慢，听感上不突兀
+      normalization.gain.setTargetAtTime(dbToGain(db), ctx.currentTime, 0.5);
+    },
+  };
+};
+
+export interface LoudnessMeter {
+  /** 读取一帧并累计，静音帧忽略 */
+  sample: () => void;
+  /** 已累计的有效帧数 */
+  frames: () => number;
+  /** 达到目标电平所需的增益（dB），尚无有效帧时为 0 */
+  gainDb: () => number;
+}
+
+/** 对测量分析器做短时采样，估算整体 RMS 电平 */
+export const createLoudnessMeter = (analyser: AnalyserNode): LoudnessMeter => {
+  const buffer = new Float32Array(analyser.fftSize);
+  let energy = 0;
+  let count = 0;
+
+  return {
+    sample: () => {
+      analyser.getFloatTimeDomainData(buffer);
+      let sum = 0;
+      for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+      const meanSquare = sum / buffer.length;
+      if (meanSquare <= dbToGain(SILENCE_THRESHOLD_DB) ** 2) return;
+      energy += meanSquare;
+      count += 1;
+    },
+    frames: () => count,
+    gainDb: () => {
+      if (count === 0) return 0;
+      const level = 10 * Math.log10(energy / count);
+      return Math.max(
+        -MAX_NORMALIZATION_CUT_DB,
+        Math.min(MAX_NORMALIZATION_BOOST_DB, LOUDNESS_TARGET_DB - level),
+      );
+    },
+  };
+};
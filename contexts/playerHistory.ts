@@ -0,0 +1,69 @@
+import { Song, isSameSong } from "../types";
+import { addPlayRecord, updatePlayRecord } from "../services/api";
+
+// ==============================
+// 播放历史记录器
+// 由 timeupdate 驱动：歌曲真正开始出声时写入记录，之后累计收听时长，
+// 播完、切歌或页面隐藏时把时长写回。
+// ==============================
+
+/** 两次 timeupdate 之间按实际时间换算的进度超过该值（秒）视为拖动进度条，不计入收听时长 */
+const MAX_PROGRESS_STEP_SECONDS = 2;
+
+interface PlaySession {
+  song: Song;
+  startedAt: number;
+  listened: number;
+  lastTime: number;
+  /** 记录写入后的 id；写入失败时为 null */
+  id: Promise<number | null> | null;
+}
+
+export interface PlayHistoryTracker {
+  /**
+   * 播放中每次 timeupdate 调用；歌曲变化时自动结束上一条记录。
+   * 进度按 playbackRate 换算为实际收听时间，倍速播放不会重复计时。
+   */
+  progress: (song: Song, currentTime: number, playbackRate?: number) => void;
+  /** 当前歌曲结束（completed 表示自然播完） */
+  finish: (completed: boolean) => void;
+  /** 写回当前收听时长，用于页面隐藏或关闭前 */
+  flush: () => void;
+}
+
+export const createPlayHistoryTracker = (): PlayHistoryTracker => {
+  let session: PlaySession | null = null;
+
+  const save = (current: PlaySession, completed: boolean) => {
+    if (!current.id) return;
+    const listenedSeconds = Math.round(current.listened);
+    void current.id
+      .then((id) => (id === null ? undefined : updatePlayRecord(id, { listenedSeconds, completed })))
+      .catch(() => {});
+  };
+
+  return {
+    progress: (song, currentTime, playbackRate = 1) => {
+      if (!session || !isSameSong(session.song, song)) {
+        if (session) save(session, false);
+        session = { song, startedAt: Date.now(), listened: 0, lastTime: currentTime, id: null };
+        return;
+      }
+      const delta = (currentTime - session.lastTime) / (playbackRate > 0 ? playbackRate : 1);
+      session.lastTime = currentTime;
+      if (delta <= 0 || delta > MAX_PROGRESS_STEP_SECONDS) return;
+      session.listened += delta;
+      if (!session.id) {
+        session.id = addPlayRecord(song, session.startedAt).catch(() => null);
+      }
+    },
+    finish: (completed) => {
+      if (!session) return;
+      save(session, completed);
+      session = null;
+    },
+    flush: () => {
+      if (session) save(session, false);
+    },
+  };
+};
@@ -1,12 +1,48 @@
-import { AudioQuality, PlayMode, Song } from "../types";
+import {
+  AudioQuality,
+  CrossfadeSettings,
+  EqualizerPreset,
+  EqualizerSettings,
+  PlayMode,
+  ShuffleState,
+  SleepTimer,
+  Song,
+  getSongKey,
+} from "../types";
+import {
+  DEFAULT_EQUALIZER,
+  EQ_BANDS,
+  clampEqGain,
+} from "./playerEqualizer";
 
 const PLAYER_STORAGE_KEYS = {
   queue: "tunefree_queue",
   currentSong: "tunefree_current_song",
-  playMode: "tunefree_play_mode",
+  playMode: "tunefree_play_mode_v2",
+  legacyPlayMode: "tunefree_play_mode",
   quality: "tunefree_quality",
+  crossfade: "tunefree_crossfade",
+  equalizer: "tunefree_equalizer",
+  equalizerPresets: "tunefree_eq_presets",
+  playbackRates: "tunefree_playback_rates",
+  preservePitch: "tunefree_preserve_pitch",
+  sleepTimer: "tunefree_sleep_timer",
+  shuffle: "tunefree_shuffle",
+  radio: "tunefree_radio",
 } as const;
 
+export const MAX_CROSSFADE_SECONDS = 12;
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+export const clampPlaybackRate = (rate: number): number =>
+  Number.isFinite(rate) && rate > 0
+    ? Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, Math.round(rate * 100) / 100))
+    : 1;
+
+const DEFAULT_CROSSFADE: CrossfadeSettings = { enabled: false, seconds: 0 };
+
 export const getPlayerStorage = <T,>(key: string, fallback: T): T => {
   try {
     const item = localStorage.getItem(key);
@@ -22,12 +58,123 @@ export const loadStoredQueue = (): Song[] =>
 export const loadStoredCurrentSong = (): Song | null =>
   getPlayerStorage(PLAYER_STORAGE_KEYS.currentSong, null as Song | null);
 
-export const loadStoredPlayMode = (): PlayMode =>
-  getPlayerStorage(PLAYER_STORAGE_KEYS.playMode, "sequence" as PlayMode);
+const PLAY_MODES: readonly PlayMode[] = ["sequence", "loop", "loopOne", "shuffle"];
+
+/** 旧版本的 sequence 会循环整个列表，loop 是单曲循环 */
+const LEGACY_PLAY_MODES: Record<string, PlayMode> = {
+  sequence: "loop",
+  loop: "loopOne",
+  shuffle: "shuffle",
+};
+
+export const loadStoredPlayMode = (): PlayMode => {
+  const stored = getPlayerStorage<unknown>(PLAYER_STORAGE_KEYS.playMode, null);
+  if (PLAY_MODES.includes(stored as PlayMode)) return stored as PlayMode;
+  const legacy = getPlayerStorage<unknown>(PLAYER_STORAGE_KEYS.legacyPlayMode, null);
+  return (typeof legacy === "string" && LEGACY_PLAY_MODES[legacy]) || "sequence";
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+export const loadStoredShuffleState = (): ShuffleState | null => {
+  const stored = getPlayerStorage<Partial<ShuffleState> | null>(
+    PLAYER_STORAGE_KEYS.shuffle,
+    null,
+  );
+  if (!stored || typeof stored !== "object") return null;
+  const seed = Number(stored.seed);
+  if (!Number.isFinite(seed) || !isStringArray(stored.order)) return null;
+  return {
+    seed,
+    order: stored.order,
+    history: isStringArray(stored.history) ? stored.history : [],
+  };
+};
+
+export const loadStoredRadioEnabled = (): boolean =>
+  getPlayerStorage<boolean>(PLAYER_STORAGE_KEYS.radio, false) === true;
 
 export const loadStoredAudioQuality = (): AudioQuality =>
   getPlayerStorage(PLAYER_STORAGE_KEYS.quality, "320k" as AudioQuality);
 
+export const loadStoredCrossfade = (): CrossfadeSettings => {
+  const stored = getPlayerStorage<Partial<CrossfadeSettings> | null>(
+    PLAYER_STORAGE_KEYS.crossfade,
+    null,
+  );
+  if (!stored || typeof stored !== "object") return DEFAULT_CROSSFADE;
+  const seconds = Number(stored.seconds);
+  return {
+    enabled: stored.enabled === true,
+    seconds: Number.isFinite(seconds)
+      ? Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds))
+      : 0,
+  };
+};
+
+const sanitizeGains = (gains: unknown): number[] =>
+  EQ_BANDS.map((_, i) =>
+    clampEqGain(Array.isArray(gains) ? Number(gains[i]) : 0),
+  );
+
+export const loadStoredEqualizer = (): EqualizerSettings => {
+  const stored = getPlayerStorage<Partial<EqualizerSettings> | null>(
+    PLAYER_STORAGE_KEYS.equalizer,
+    null,
+  );
+  if (!stored || typeof stored !== "object") return DEFAULT_EQUALIZER;
+  return {
+    enabled: stored.enabled === true,
+    preset: typeof stored.preset === "string" ? stored.preset : DEFAULT_EQUALIZER.preset,
+    gains: sanitizeGains(stored.gains),
+    preamp: clampEqGain(Number(stored.preamp)),
+    normalize: stored.normalize === true,
+  };
+};
+
+/** 用户保存的自定义预设 */
+export const loadStoredEqualizerPresets = (): EqualizerPreset[] => {
+  const stored = getPlayerStorage<unknown>(PLAYER_STORAGE_KEYS.equalizerPresets, []);
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter(
+      (preset): preset is EqualizerPreset =>
+        !!preset && typeof preset.id === "string" && typeof preset.name === "string",
+    )
+    .map((preset) => ({ ...preset, gains: sanitizeGains(preset.gains) }));
+};
+
+/** 按歌曲记住的播放速度，未设置时为 1 */
+export const loadStoredSongPlaybackRate = (song: Pick<Song, "id" | "source">): number => {
+  const rates = getPlayerStorage<Record<string, number> | null>(
+    PLAYER_STORAGE_KEYS.playbackRates,
+    null,
+  );
+  return clampPlaybackRate(Number(rates?.[getSongKey(song)] ?? 1));
+};
+
+export const loadStoredPreservePitch = (): boolean =>
+  getPlayerStorage<boolean>(PLAYER_STORAGE_KEYS.preservePitch, true) !== false;
+
+/** 刷新页面后恢复睡眠定时，已到期的定时丢弃 */
+export const loadStoredSleepTimer = (): SleepTimer | null => {
+  const stored = getPlayerStorage<Partial<SleepTimer> | null>(
+    PLAYER_STORAGE_KEYS.sleepTimer,
+    null,
+  );
+  if (!stored || typeof stored !== "object") return null;
+  if (stored.mode === "time") {
+    const endsAt = Number(stored.endsAt);
+    return Number.isFinite(endsAt) && endsAt > Date.now() ? { mode: "time", endsAt } : null;
+  }
+  if (stored.mode === "songs") {
+    const remaining = Math.floor(Number(stored.remaining));
+    return remaining > 0 ? { mode: "songs", remaining } : null;
+  }
+  return null;
+};
+
 export const persistQueue = (queue: Song[]): void => {
   localStorage.setItem(PLAYER_STORAGE_KEYS.queue, JSON.stringify(queue));
 };
@@ -38,8 +185,55 @@ export const persistCurrentSong = (song: Song | null): void => {
 
 export const persistPlayMode = (mode: PlayMode): void => {
   localStorage.setItem(PLAYER_STORAGE_KEYS.playMode, JSON.stringify(mode));
+  localStorage.removeItem(PLAYER_STORAGE_KEYS.legacyPlayMode);
 };
 
 export const persistAudioQuality = (quality: AudioQuality): void => {
   localStorage.setItem(PLAYER_STORAGE_KEYS.quality, JSON.stringify(quality));
 };
+
+export const persistCrossfade = (settings: CrossfadeSettings): void => {
+  localStorage.setItem(PLAYER_STORAGE_KEYS.crossfade, JSON.stringify(settings));
+};
+
+export const persistEqualizer = (settings: EqualizerSettings): void => {
+  localStorage.setItem(PLAYER_STORAGE_KEYS.equalizer, JSON.stringify(settings));
+};
+
+export const persistEqualizerPresets = (presets: EqualizerPreset[]): void => {
+  localStorage.setItem(PLAYER_STORAGE_KEYS.equalizerPresets, JSON.stringify(presets));
+};
+
+export const persistSongPlaybackRate = (
+  song: Pick<Song, "id" | "source">,
+  rate: number,
+): void => {
+  const rates = getPlayerStorage<Record<string, number>>(PLAYER_STORAGE_KEYS.playbackRates, {});
+  const key = getSongKey(song);
+  if (rate === 1) {
+    delete rates[key];
+  } else {
+    rates[key] = rate;
+  }
+  localStorage.setItem(PLAYER_STORAGE_KEYS.playbackRates, JSON.stringify(rates));
+};
+
+export const persistPreservePitch = (preservePitch: boolean): void => {
+  localStorage.setItem(PLAYER_STORAGE_KEYS.preservePitch, JSON.stringify(preservePitch));
+};
+
+export const persistRadioEnabled = (enabled: boolean): void => {
+  localStorage.setItem(PLAYER_STORAGE_KEYS.radio, JSON.stringify(enabled));
+};
+
+export const persistShuffleState = (state: ShuffleState): void => {
+  localStorage.setItem(PLAYER_STORAGE_KEYS.shuffle, JSON.stringify(state));
+};
+
+export const persistSleepTimer = (timer: SleepTimer | null): void => {
+  if (timer) {
+    localStorage.setItem(PLAYER_STORAGE_KEYS.sleepTimer, JSON.stringify(timer));
+  } else {
+    localStorage.removeItem(PLAYER_STORAGE_KEYS.sleepTimer);
+  }
+};
@@ -1,4 +1,136 @@
-import { PlayMode, Song, isSameSong } from "../types";
+import { PlayMode, ShuffleState, Song, getSongKey, isSameSong } from "../types";
+import { shuffleWithSeed } from "../utils/random";
+
+/** 随机播放历史的最大长度 */
+const MAX_SHUFFLE_HISTORY = 200;
+
+const createShuffleSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+/** 按 seed 打乱；firstKey 在列表中时固定放到第一位 */
+const shuffleKeys = (keys: string[], seed: number, firstKey?: string): string[] => {
+  const order = shuffleWithSeed(keys, seed);
+  const firstIndex = firstKey ? order.indexOf(firstKey) : -1;
+  if (firstIndex > 0) {
+    order.splice(firstIndex, 1);
+    order.unshift(firstKey as string);
+  }
+  return order;
+};
+
+/** 下一轮的顺序，由 seed + 1 决定；避免上一轮最后一首紧接着再放一次 */
+const getNextCycleOrder = (state: ShuffleState): string[] => {
+  const order = shuffleKeys(state.order, state.seed + 1);
+  const lastKey = state.order[state.order.length - 1];
+  if (order.length > 1 && order[0] === lastKey) {
+    [order[0], order[order.length - 1]] = [order[order.length - 1], order[0]];
+  }
+  return order;
+};
+
+/** 以新的 seed 打乱队列，当前歌曲排在第一位 */
+export const createShuffleState = (
+  queue: Song[],
+  currentSong: Song | null,
+  history: string[] = [],
+): ShuffleState => {
+  const seed = createShuffleSeed();
+  return {
+    seed,
+    order: shuffleKeys(
+      queue.map(getSongKey),
+      seed,
+      currentSong ? getSongKey(currentSong) : undefined,
+    ),
+    history,
+  };
+};
+
+/**
+ * 让随机顺序与队列保持一致：队列未变时原样返回；
+ * 只移除了歌曲时保留剩余顺序，有新歌曲加入时重新洗牌。
+ */
+export const syncShuffleState = (
+  state: ShuffleState | null,
+  queue: Song[],
+  currentSong: Song | null,
+): ShuffleState => {
+  if (!state) return createShuffleState(queue, currentSong);
+  const keys = new Set(queue.map(getSongKey));
+  const kept = state.order.filter((key) => keys.has(key));
+  if (kept.length === keys.size) {
+    return kept.length === state.order.length ? state : { ...state, order: kept };
+  }
+  return createShuffleState(queue, currentSong, state.history);
+};
+
+/** 把歌曲放到随机顺序中当前歌曲之后，配合 insertAfterCurrent 使用 */
+export const insertIntoShuffleOrder = (
+  state: ShuffleState,
+  currentSong: Song | null,
+  song: Song,
+): ShuffleState => {
+  const key = getSongKey(song);
+  const rest = state.order.filter((orderKey) => orderKey !== key);
+  const insertAt = currentSong ? rest.indexOf(getSongKey(currentSong)) + 1 : 0;
+  return { ...state, order: [...rest.slice(0, insertAt), key, ...rest.slice(insertAt)] };
+};
+
+/**
+ * 记录一次切歌：正常前进时把上一首压入历史，一轮播完后进入下一轮；
+ * goingBack 为 true（"上一首"）时从历史中弹出目标歌曲。
+ */
+export const advanceShuffleState = (
+  state: ShuffleState,
+  fromSong: Song | null,
+  toSong: Song,
+  goingBack: boolean,
+): ShuffleState => {
+  const fromKey = fromSong ? getSongKey(fromSong) : null;
+  const toKey = getSongKey(toSong);
+  if (fromKey === toKey) return state;
+
+  if (goingBack) {
+    const historyIndex = state.history.lastIndexOf(toKey);
+    return historyIndex < 0
+      ? state
+      : { ...state, history: state.history.slice(0, historyIndex) };
+  }
+
+  const history = fromKey
+    ? [...state.history, fromKey].slice(-MAX_SHUFFLE_HISTORY)
+    : state.history;
+  const fromIndex = fromKey ? state.order.indexOf(fromKey) : -1;
+  if (fromIndex < 0 || fromIndex < state.order.length - 1) {
+    return { ...state, history };
+  }
+
+  const order = getNextCycleOrder(state);
+  const toIndex = order.indexOf(toKey);
+  if (toIndex > 0) {
+    order.splice(toIndex, 1);
+    order.unshift(toKey);
+  }
+  return { seed: state.seed + 1, order, history };
+};
+
+const getShuffleNextKey = (state: ShuffleState, currentSong: Song | null) => {
+  const index = currentSong ? state.order.indexOf(getSongKey(currentSong)) : -1;
+  if (index < 0) return state.order[0];
+  if (index < state.order.length - 1) return state.order[index + 1];
+  return getNextCycleOrder(state)[0];
+};
+
+const getShufflePrevKey = (state: ShuffleState, currentSong: Song | null, queue: Song[]) => {
+  const currentKey = currentSong ? getSongKey(currentSong) : null;
+  const keys = new Set(queue.map(getSongKey));
+  for (let i = state.history.length - 1; i >= 0; i--) {
+    const key = state.history[i];
+    if (key !== currentKey && keys.has(key)) return key;
+  }
+  // 没有历史时沿随机顺序往回走
+  const index = currentKey ? state.order.indexOf(currentKey) : -1;
+  return index > 0 ? state.order[index - 1] : undefined;
+};
 
 export const findCurrentSongIndex = (
   queue: Song[],
@@ -12,18 +144,19 @@ export const getNextQueueIndex = (
   queue: Song[],
   currentSong: Song | null,
   playMode: PlayMode,
+  shuffle: ShuffleState | null = null,
 ): number => {
   if (queue.length === 0) return -1;
 
-  const currentIndex = findCurrentSongIndex(queue, currentSong);
   if (playMode === "shuffle") {
-    let nextIndex = 0;
-    do {
-      nextIndex = Math.floor(Math.random() * queue.length);
-    } while (queue.length > 1 && nextIndex === currentIndex);
-    return nextIndex;
+    const state = syncShuffleState(shuffle, queue, currentSong);
+    const nextKey = getShuffleNextKey(state, currentSong);
+    return queue.findIndex((song) => getSongKey(song) === nextKey);
   }
 
+  const currentIndex = findCurrentSongIndex(queue, currentSong);
+  // 顺序播放到最后一首后没有下一首
+  if (playMode === "sequence" && currentIndex === queue.length - 1) return -1;
   return (currentIndex + 1) % queue.length;
 };
 
@@ -31,17 +164,45 @@ export const getPrevQueueIndex = (
   queue: Song[],
   currentSong: Song | null,
   playMode: PlayMode,
+  shuffle: ShuffleState | null = null,
 ): number => {
   if (queue.length === 0) return -1;
 
-  const currentIndex = findCurrentSongIndex(queue, currentSong);
   if (playMode === "shuffle") {
-    let prevIndex = 0;
-    do {
-      prevIndex = Math.floor(Math.random() * queue.length);
-    } while (queue.length > 1 && prevIndex === currentIndex);
-    return prevIndex;
+    const state = syncShuffleState(shuffle, queue, currentSong);
+    const prevKey = getShufflePrevKey(state, currentSong, queue);
+    return prevKey ? queue.findIndex((song) => getSongKey(song) === prevKey) : -1;
   }
 
+  const currentIndex = findCurrentSongIndex(queue, currentSong);
   return (currentIndex - 1 + queue.length) % queue.length;
 };
+
+/** 把歌曲放到当前歌曲之后；已在队列中的歌曲会从原位置移过去 */
+export const insertAfterCurrent = (
+  queue: Song[],
+  currentSong: Song | null,
+  song: Song,
+): Song[] => {
+  if (isSameSong(song, currentSong)) return queue;
+  const existing = queue.find((queued) => isSameSong(queued, song));
+  const rest = queue.filter((queued) => !isSameSong(queued, song));
+  const insertAt = findCurrentSongIndex(rest, currentSong) + 1;
+  return [...rest.slice(0, insertAt), existing || song, ...rest.slice(insertAt)];
+};
+
+export const moveQueueItem = (queue: Song[], from: number, to: number): Song[] => {
+  if (
+    from === to ||
+    from < 0 ||
+    to < 0 ||
+    from >= queue.length ||
+    to >= queue.length
+  ) {
+    return queue;
+  }
+  const next = [...queue];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
@@ -0,0 +1,35 @@
+import type { SleepTimer } from "../types";
+
+/** 定时结束前的音量渐弱时长（秒） */
+export const SLEEP_FADE_SECONDS = 30;
+
+const getRemainingSeconds = (endsAt: number, now: number): number =>
+  Math.max(0, (endsAt - now) / 1000);
+
+const formatCountdown = (seconds: number): string => {
+  const total = Math.ceil(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${mins.toString().padStart(hours > 0 ? 2 : 1, "0")}:${secs
+    .toString()
+    .padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+/** 精确到秒的剩余时间，用于应用内显示 */
+export const formatSleepTimerCountdown = (timer: SleepTimer, now = Date.now()): string => {
+  if (timer.mode === "time") return formatCountdown(getRemainingSeconds(timer.endsAt, now));
+  return timer.remaining <= 1 ? "本曲结束" : `剩 ${timer.remaining} 首`;
+};
+
+/** 精确到分钟的描述，用于系统媒体通知（不宜每秒刷新） */
+export const describeSleepTimer = (timer: SleepTimer, now = Date.now()): string => {
+  if (timer.mode === "time") {
+    const minutes = Math.ceil(getRemainingSeconds(timer.endsAt, now) / 60);
+    return `睡眠定时 还剩 ${Math.max(1, minutes)} 分钟`;
+  }
+  return timer.remaining <= 1
+    ? "睡眠定时 本曲结束后暂停"
+    : `睡眠定时 还剩 ${timer.remaining} 首`;
+};
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { getAlbumDetail, type SourceAlbum } from '../services/api';
+import SongCollectionView from '../components/SongCollectionView';
+
+const Album: React.FC = () => {
+  const { source = '', id = '' } = useParams();
+  const [album, setAlbum] = useState<SourceAlbum | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    getAlbumDetail(source, id)
+      .then((detail) => {
+        if (cancelled) return;
+        setAlbum(detail);
+        setError(!detail);
+      })
+      .catch((e) => {
+        console.error('Failed to load album', e);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, id]);
+
+  const subtitle = album && (
+    <>
+      {album.artistId ? (
+        <Link to={`/artist/${source}/${encodeURIComponent(album.artistId)}`} className="text-ios-red">
+          {album.artist}
+        </Link>
+      ) : (
+        album.artist
+      )}
+      {album.publishDate ? ` · ${album.publishDate}` : ''}
+      {` · ${album.songs.length} 首`}
+    </>
+  );
+
+  return (
+    <SongCollectionView
+      source={source}
+      title={album?.name || '专辑'}
+      subtitle={subtitle}
+      cover={album?.cover}
+      description={album?.description}
+      songs={album?.songs || []}
+      loading={loading}
+      error={error}
+    />
+  );
+};
+
+export default Album;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { getArtistDetail, getImgReferrerPolicy, type SourceArtist } from '../services/api';
+import { MusicIcon } from '../components/Icons';
+import SongCollectionView from '../components/SongCollectionView';
+
+const Artist: React.FC = () => {
+  const { source = '', id = '' } = useParams();
+  const [artist, setArtist] = useState<SourceArtist | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    getArtistDetail(source, id)
+      .then((detail) => {
+        if (cancelled) return;
+        setArtist(detail);
+        setError(!detail);
+      })
+      .catch((e) => {
+        console.error('Failed to load artist', e);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, id]);
+
+  return (
+    <SongCollectionView
+      source={source}
+      title={artist?.name || '歌手'}
+      subtitle={artist ? `${artist.songs.length} 首热门歌曲 · ${artist.albums.length} 张专辑` : undefined}
+      cover={artist?.cover}
+      roundCover
+      description={artist?.description}
+      songs={artist?.songs || []}
+      loading={loading}
+      error={error}
+    >
+      {artist && artist.albums.length > 0 && (
+        <section className="mt-8">
+          <h2 className="text-lg font-bold text-ios-text mb-4">专辑</h2>
+          <div className="grid grid-cols-2 gap-3">
+            {artist.albums.map((album) => (
+              <Link
+                key={album.id}
+                to={`/album/${source}/${encodeURIComponent(album.id)}`}
+                className="bg-white p-2 rounded-2xl shadow-sm border border-gray-100 active:scale-95 transition"
+              >
+                <div className="w-full aspect-square mb-2 rounded-xl overflow-hidden bg-gray-100">
+                  {album.cover ? (
+                    <img src={album.cover} alt={album.name} referrerPolicy={getImgReferrerPolicy(album.cover)} loading="lazy" className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-gray-300">
+                      <MusicIcon size={24} />
+                    </div>
+                  )}
+                </div>
+                <p className="font-bold text-ios-text text-sm truncate px-1">{album.name}</p>
+                {album.publishDate && (
+                  <p className="text-[10px] text-ios-subtext mt-0.5 truncate px-1">{album.publishDate}</p>
+                )}
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+    </SongCollectionView>
+  );
+};
+
+export default Artist;
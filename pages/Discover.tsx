@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  getCategoryPlaylists,
+  getImgReferrerPolicy,
+  getPlaylistCategories,
+  type SourcePlaylistCategory,
+  type SourcePlaylistSummary,
+} from '../services/api';
+import { BackIcon, ChevronDownIcon, ErrorIcon, MusicIcon, PlayIcon } from '../components/Icons';
+import { formatPlayCount } from '../utils/formatting';
+import { getMusicSourceLabel, getPlaylistBrowseSources } from '../utils/musicSource';
+
+/** 横向滚动条中直接显示的分类数，其余在展开面板中 */
+const QUICK_CATEGORY_COUNT = 12;
+
+// 切换音源时不重复请求分类
+const _categoryCache = new Map<string, SourcePlaylistCategory[]>();
+
+const PlaylistSkeleton = () => (
+  <div className="grid grid-cols-2 gap-3">
+    {[0, 1, 2, 3].map(i => (
+      <div key={i} className="bg-white p-2 rounded-2xl animate-pulse">
+        <div className="w-full aspect-square mb-2 rounded-xl bg-gray-200" />
+        <div className="h-3.5 bg-gray-200 rounded mx-1 mb-1" />
+        <div className="h-2.5 bg-gray-100 rounded mx-1 w-2/3" />
+      </div>
+    ))}
+  </div>
+);
+
+/** 歌单广场：按分类浏览各平台的精选歌单，滚动到底部自动加载下一页 */
+const Discover: React.FC = () => {
+  const sources = getPlaylistBrowseSources();
+  const [activeSource, setActiveSource] = useState(sources[0] || '');
+  const [categories, setCategories] = useState<SourcePlaylistCategory[]>([]);
+  const [activeCategory, setActiveCategory] = useState<string | null>(null);
+  const [showAllCategories, setShowAllCategories] = useState(false);
+  const [playlists, setPlaylists] = useState<SourcePlaylistSummary[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+  const requestIdRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const cached = _categoryCache.get(activeSource);
+    const load = cached ? Promise.resolve(cached) : getPlaylistCategories(activeSource);
+    load
+      .then((next) => {
+        if (cancelled) return;
+        if (next.length > 0) _categoryCache.set(activeSource, next);
+        setCategories(next);
+        setActiveCategory(next[0]?.id ?? null);
+        if (next.length === 0) setError(true);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeSource]);
+
+  const loadPage = useCallback(async (category: string, nextPage: number) => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(false);
+    try {
+      const result = await getCategoryPlaylists(activeSource, category, nextPage);
+      if (requestId !== requestIdRef.current) return;
+      setPlaylists(prev => {
+        if (nextPage === 1) return result;
+        const seen = new Set(prev.map(p => p.id));
+        return [...prev, ...result.filter(p => !seen.has(p.id))];
+      });
+      setPage(nextPage);
+      setHasMore(result.length > 0);
+    } catch (e) {
+      console.error('Failed to load playlists', e);
+      if (requestId === requestIdRef.current) {
+        setError(true);
+        setHasMore(false);
+      }
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [activeSource]);
+
+  useEffect(() => {
+    requestIdRef.current += 1;
+    setPlaylists([]);
+    setHasMore(true);
+    if (activeCategory !== null) void loadPage(activeCategory, 1);
+  }, [activeCategory, loadPage]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || activeCategory === null || !hasMore || loading) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) void loadPage(activeCategory, page + 1);
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [activeCategory, hasMore, loading, loadPage, page]);
+
+  // 分类与音源同时切换，避免用旧分类请求新音源
+  const selectSource = (source: string) => {
+    if (source === activeSource) return;
+    setActiveSource(source);
+    setCategories([]);
+    setActiveCategory(null);
+    setShowAllCategories(false);
+    setError(false);
+  };
+
+  const selectCategory = (id: string) => {
+    setActiveCategory(id);
+    setShowAllCategories(false);
+  };
+
+  // 从全部分类中选中的分类不在常用分类里时，追加到最前面显示
+  const quickCategories = categories.slice(0, QUICK_CATEGORY_COUNT);
+  const selected = categories.find(c => c.id === activeCategory);
+  if (selected && !quickCategories.includes(selected)) quickCategories.unshift(selected);
+
+  const groupedCategories = categories.reduce<Array<{ group: string; items: SourcePlaylistCategory[] }>>((groups, category) => {
+    const group = category.group || '常用';
+    const entry = groups.find(g => g.group === group);
+    if (entry) entry.items.push(category);
+    else groups.push({ group, items: [category] });
+    return groups;
+  }, []);
+
+  return (
+    <div className="p-5 pt-safe pb-24 min-h-screen bg-ios-bg">
+      <Link to="/" className="flex items-center -ml-2 mb-2 mt-2 text-ios-red text-sm font-medium w-fit">
+        <BackIcon size={22} />
+        首页
+      </Link>
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-3xl font-bold text-ios-text tracking-tight">歌单广场</h1>
+        <div className="flex bg-gray-200/80 p-0.5 rounded-lg">
+          {sources.map(src => (
+            <button
+              key={src}
+              onClick={() => selectSource(src)}
+              className={`px-3 py-1 text-[10px] font-bold uppercase rounded-md transition-all ${
+                activeSource === src ? 'bg-white text-black shadow-sm' : 'text-gray-500'
+              }`}
+            >
+              {getMusicSourceLabel(src)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {categories.length > 0 && (
+        <div className="mb-4">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 flex gap-2 overflow-x-auto no-scrollbar">
+              {quickCategories.map(category => (
+                <button
+                  key={category.id}
+                  onClick={() => selectCategory(category.id)}
+                  className={`flex-shrink-0 px-3 py-1 rounded-full text-xs font-medium transition ${
+                    activeCategory === category.id ? 'bg-ios-red text-white' : 'bg-white text-gray-600 shadow-sm'
+                  }`}
+                >
+                  {category.name}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setShowAllCategories(prev => !prev)}
+              className="flex-shrink-0 p-1.5 rounded-full bg-white text-gray-500 shadow-sm"
+              aria-label="全部分类"
+            >
+              <ChevronDownIcon size={14} className={`transition-transform ${showAllCategories ? 'rotate-180' : ''}`} />
+            </button>
+          </div>
+
+          {showAllCategories && (
+            <div className="bg-white rounded-2xl p-4 mt-3 shadow-sm space-y-3 max-h-[50vh] overflow-y-auto no-scrollbar">
+              {groupedCategories.map(({ group, items }) => (
+                <div key={group}>
+                  <h4 className="text-[10px] font-bold text-gray-400 mb-2 uppercase tracking-wider">{group}</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {items.map(category => (
+                      <button
+                        key={category.id}
+                        onClick={() => selectCategory(category.id)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${
+                          activeCategory === category.id ? 'bg-ios-red text-white' : 'bg-gray-100 text-gray-600'
+                        }`}
+                      >
+                        {category.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && playlists.length === 0 ? (
+        <div className="bg-red-50 p-4 rounded-xl flex items-center gap-3 text-red-600">
+          <ErrorIcon size={20} />
+          <span className="text-xs font-medium">该音源暂不可用，请切换其他音源</span>
+        </div>
+      ) : playlists.length === 0 && (loading || activeCategory === null) ? (
+        <PlaylistSkeleton />
+      ) : playlists.length === 0 ? (
+        <div className="text-center py-10 text-gray-400 text-sm bg-white/50 rounded-xl">该分类暂无歌单</div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {playlists.map(playlist => (
+            <Link
+              key={playlist.id}
+              to={`/playlist/${activeSource}/${encodeURIComponent(playlist.id)}`}
+              className="bg-white p-2 rounded-2xl shadow-sm border border-gray-100 active:scale-95 transition"
+            >
+              <div className="w-full aspect-square mb-2 rounded-xl overflow-hidden bg-gray-100 relative">
+                {playlist.cover ? (
+                  <img src={playlist.cover} alt={playlist.name} referrerPolicy={getImgReferrerPolicy(playlist.cover)} loading="lazy" className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-gray-300">
+                    <MusicIcon size={24} />
+                  </div>
+                )}
+                {playlist.playCount !== undefined && (
+                  <span className="absolute top-1.5 right-1.5 flex items-center gap-0.5 text-[10px] text-white bg-black/40 px-1.5 py-0.5 rounded-full">
+                    <PlayIcon size={8} className="fill-current" />
+                    {formatPlayCount(playlist.playCount)}
+                  </span>
+                )}
+              </div>
+              <p className="font-bold text-ios-text text-sm line-clamp-2 px-1">{playlist.name}</p>
+              {playlist.creator && (
+                <p className="text-[10px] text-ios-subtext mt-0.5 truncate px-1">by {playlist.creator}</p>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <div ref={sentinelRef} className="h-10 flex items-center justify-center text-xs text-gray-400">
+        {playlists.length > 0 && (loading ? '加载中…' : !hasMore ? '没有更多了' : '')}
+      </div>
+    </div>
+  );
+};
+
+export default Discover;
@@ -1,9 +1,11 @@
 import React, { useEffect, useState, useCallback, useRef, memo } from 'react';
+import { Link } from 'react-router-dom';
 import { getTopLists, getTopListDetail, getImgReferrerPolicy } from '../services/api';
 import { Song, TopList } from '../types';
 import { usePlayerActions } from '../contexts/PlayerContext';
-import { PlayIcon, MusicIcon, ErrorIcon } from '../components/Icons';
-import { getMusicSourceBadgeClass, getMusicSourceLabel } from '../utils/musicSource';
+import { PlayIcon, MusicIcon, ErrorIcon, FolderIcon } from '../components/Icons';
+import DailyMixes from '../components/DailyMixes';
+import { getMusicSourceBadgeClass, getMusicSourceLabel, getTopListSources } from '../utils/musicSource';
 
 // ====== 数据缓存 — 切换音源时不重复请求 ======
 const _topListCache = new Map<string, { lists: TopList[]; ts: number }>();
@@ -200,13 +202,22 @@ const Home: React.FC = () => {
     <div className="p-5 pt-safe min-h-screen bg-ios-bg">
       <div className="flex items-end justify-between mb-6 mt-2">
         <h1 className="text-3xl font-bold text-ios-text tracking-tight">{getGreeting()}</h1>
+        <Link
+          to="/discover"
+          className="flex items-center gap-1 text-xs font-bold text-ios-red bg-white px-3 py-1.5 rounded-full shadow-sm active:scale-95 transition"
+        >
+          <FolderIcon size={12} />
+          歌单广场
+        </Link>
       </div>
 
+      <DailyMixes />
+
       <section className="mb-8">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-bold text-ios-text">排行榜</h2>
             <div className="flex bg-gray-200/80 p-0.5 rounded-lg">
-                {(['netease', 'qq', 'kuwo'] as const).map(src => (
+                {getTopListSources().map(src => (
                     <button
                         key={src}
                         onClick={() => setActiveSource(src)}
@@ -2,8 +2,15 @@ import React, { useState, useMemo } from "react";
 import { usePlayerActions } from "../contexts/PlayerContext";
 import { useLibrary, type LibraryImportMode, type LibraryImportPreview } from "../contexts/LibraryContext";
 import { useToast } from "../components/ToastHost";
-import { getImgReferrerPolicy } from "../services/api";
+import LxSourceManager from "../components/LxSourceManager";
+import OfflineStorageManager from "../components/OfflineStorageManager";
+import BatchDownloadPanel, { useBatchDownloadState } from "../components/BatchDownloadPanel";
+import PlaylistLinkImport from "../components/PlaylistLinkImport";
+import ListeningStats from "../components/ListeningStats";
+import { usePlayHistory } from "../components/usePlayHistory";
+import { getImgReferrerPolicy, getRecentlyPlayedSongs } from "../services/api";
 import { Song } from "../types";
+import type { PlaylistFileFormat } from "../services/playlistFormats";
 import {
   HeartFillIcon,
   FolderIcon,
@@ -16,13 +23,16 @@ import {
   ExternalLinkIcon,
   GithubIcon,
   PlayIcon,
+  DownloadIcon,
+  LinkIcon,
+  HistoryIcon,
 } from "../components/Icons";
 import {
   GD_STUDIO_ATTRIBUTION,
   GD_STUDIO_RATE_LIMIT_HINT,
 } from "../utils/musicSource";
 
-type Tab = "favorites" | "playlists" | "manage" | "about";
+type Tab = "favorites" | "playlists" | "history" | "manage" | "about";
 
 const Library: React.FC = () => {
   const { playSong, playQueue } = usePlayerActions();
@@ -37,7 +47,9 @@ const Library: React.FC = () => {
     removeFromPlaylist,
     renamePlaylist,
     exportData,
+    exportPlaylist,
     parseImportData,
+    parsePlaylistFileData,
     applyImportData,
     restoreData,
   } = useLibrary();
@@ -46,10 +58,17 @@ const Library: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>("favorites");
   const [newPlaylistName, setNewPlaylistName] = useState("");
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showLinkImport, setShowLinkImport] = useState(false);
+  const [showExportFormats, setShowExportFormats] = useState(false);
+  const [importProgress, setImportProgress] = useState<string | null>(null);
   const [showRenameModal, setShowRenameModal] = useState(false);
   const [renameValue, setRenameValue] = useState("");
   const [isEditMode, setIsEditMode] = useState(false);
   const [pendingImport, setPendingImport] = useState<LibraryImportPreview | null>(null);
+  const [batchTarget, setBatchTarget] = useState<{ title: string; songs: Song[] } | null>(null);
+  const batchState = useBatchDownloadState();
+  const { records: playRecords, unsupported: historyUnsupported } = usePlayHistory();
+  const recentSongs = useMemo(() => getRecentlyPlayedSongs(playRecords), [playRecords]);
 
   const [tempProxy, setTempProxy] = useState(corsProxy);
 
@@ -87,6 +106,32 @@ const Library: React.FC = () => {
     showToast(result.ok ? "已导出 JSON" : result.error, result.ok ? "success" : "error");
   };
 
+  const handleExportPlaylist = (format: PlaylistFileFormat) => {
+    if (!selectedPlaylist) return;
+    const result = exportPlaylist(selectedPlaylist.id, format);
+    showToast(result.ok ? `已导出 ${result.filename}` : result.error, result.ok ? "success" : "error");
+    setShowExportFormats(false);
+  };
+
+  const importPlaylistFile = async (text: string, fileName: string) => {
+    setImportProgress("正在解析歌单…");
+    const result = await parsePlaylistFileData(text, fileName, (done, total) => {
+      if (total > 0) setImportProgress(`正在匹配歌曲 ${done}/${total}`);
+    });
+    setImportProgress(null);
+    if (!result.ok) {
+      showToast(result.error, "error");
+      return;
+    }
+    setPendingImport(result.data);
+    showToast(
+      result.data.unmatched.length
+        ? `有 ${result.data.unmatched.length} 首未匹配，请确认`
+        : "已读取歌单文件，请确认",
+      "info",
+    );
+  };
+
   const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const input = e.currentTarget;
     const file = input.files?.[0];
@@ -95,6 +140,11 @@ const Library: React.FC = () => {
     const reader = new FileReader();
     reader.onload = (event) => {
       const text = typeof event.target?.result === "string" ? event.target.result : "";
+      input.value = "";
+      if (!/\.json$/i.test(file.name)) {
+        void importPlaylistFile(text, file.name);
+        return;
+      }
       const result = parseImportData(text);
       if (!result.ok) {
         showToast(result.error, "error");
@@ -102,7 +152,6 @@ const Library: React.FC = () => {
         setPendingImport(result.data);
         showToast("已读取导入文件，请确认", "info");
       }
-      input.value = "";
     };
     reader.onerror = () => {
       showToast("读取文件失败", "error");
@@ -122,12 +171,34 @@ const Library: React.FC = () => {
     }
 
     setPendingImport(null);
-    showToast(mode === "merge" ? "已合并导入" : "已覆盖导入", "success", {
+    const message =
+      pendingImport.kind === "playlist"
+        ? "已导入歌单"
+        : mode === "merge"
+          ? "已合并导入"
+          : "已覆盖导入";
+    showToast(message, "success", {
       label: "撤销",
       onClick: () => restoreData(result.backup),
     });
   };
 
+  const batchProgress =
+    batchState && batchState.phase === "running"
+      ? `${batchState.items.filter((item) => item.status !== "pending" && item.status !== "running").length}/${batchState.items.length}`
+      : "";
+
+  const renderBatchButton = (title: string, songs: Song[]) => (
+    <button
+      onClick={() => setBatchTarget({ title, songs })}
+      disabled={songs.length === 0 && !batchState}
+      className="flex items-center gap-1 rounded-lg bg-gray-100 px-3 py-1.5 text-xs font-bold text-ios-red transition disabled:text-gray-400"
+    >
+      <DownloadIcon size={13} />
+      {batchProgress || "下载全部"}
+    </button>
+  );
+
   const renderSongList = (
     songs: Song[],
     canRemove: boolean = false,
@@ -200,7 +271,7 @@ const Library: React.FC = () => {
         </div>
 
         <div className="flex bg-gray-200/50 p-1 rounded-xl mb-6 overflow-x-auto no-scrollbar">
-          {(["favorites", "playlists", "manage", "about"] as Tab[]).map((t) => (
+          {(["favorites", "playlists", "history", "manage", "about"] as Tab[]).map((t) => (
             <button
               key={t}
               className={`flex-1 py-1.5 text-xs font-semibold rounded-lg transition-all whitespace-nowrap px-2 ${activeTab === t ? "bg-white shadow-sm text-ios-text" : "text-gray-500"}`}
@@ -213,25 +284,49 @@ const Library: React.FC = () => {
                 ? "收藏"
                 : t === "playlists"
                   ? "歌单"
-                  : t === "manage"
-                    ? "管理"
-                    : "关于"}
+                  : t === "history"
+                    ? "最近"
+                    : t === "manage"
+                      ? "管理"
+                      : "关于"}
             </button>
           ))}
         </div>
 
         {activeTab === "favorites" && (
           <div>
-            <div className="flex items-center space-x-2 mb-4 text-ios-red">
-              <HeartFillIcon size={20} />
-              <span className="font-bold text-lg">
-                我喜欢的音乐 ({favorites.length})
-              </span>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-2 text-ios-red">
+                <HeartFillIcon size={20} />
+                <span className="font-bold text-lg">
+                  我喜欢的音乐 ({favorites.length})
+                </span>
+              </div>
+              {renderBatchButton("我喜欢的音乐", favorites)}
             </div>
             {renderSongList(favorites)}
           </div>
         )}
 
+        {activeTab === "history" && (
+          <div className="space-y-6">
+            <ListeningStats records={playRecords} />
+            <div>
+              <div className="flex items-center space-x-2 mb-4 text-ios-text">
+                <HistoryIcon size={20} />
+                <span className="font-bold text-lg">最近播放</span>
+              </div>
+              {historyUnsupported ? (
+                <div className="text-center py-10 text-gray-400 text-sm">
+                  当前浏览器不支持保存播放历史
+                </div>
+              ) : (
+                renderSongList(recentSongs, false, undefined, recentSongs)
+              )}
+            </div>
+          </div>
+        )}
+
         {activeTab === "playlists" && !selectedPlaylist && (
           <div className="grid grid-cols-2 gap-4">
             <div
@@ -241,12 +336,20 @@ const Library: React.FC = () => {
               <PlusIcon size={32} className="mb-2" />
               <span className="text-sm font-medium">新建歌单</span>
             </div>
+            <div
+              onClick={() => setShowLinkImport(true)}
+              className="aspect-square bg-white rounded-2xl flex flex-col items-center justify-center border-2 border-dashed border-gray-200 text-gray-400 active:bg-gray-50 cursor-pointer"
+            >
+              <LinkIcon size={32} className="mb-2" />
+              <span className="text-sm font-medium">从链接导入</span>
+            </div>
             {playlists.map((p) => (
               <div
                 key={p.id}
                 onClick={() => {
                   setSelectedPlaylistId(p.id);
                   setIsEditMode(false);
+                  setShowExportFormats(false);
                 }}
                 className="aspect-square bg-white rounded-2xl p-4 shadow-sm flex flex-col justify-between active:scale-95 transition relative overflow-hidden"
               >
@@ -291,6 +394,7 @@ const Library: React.FC = () => {
                     <PlayIcon size={13} className="fill-current" />
                     播放全部
                   </button>
+                  {renderBatchButton(String(selectedPlaylist.name || "未命名歌单"), selectedPlaylist.songs)}
                   <button
                     onClick={() => setIsEditMode(!isEditMode)}
                     className={`px-3 py-1.5 rounded-lg text-xs font-bold transition ${isEditMode ? "bg-ios-red text-white" : "bg-gray-100 text-ios-red"}`}
@@ -310,6 +414,12 @@ const Library: React.FC = () => {
                   >
                     重命名
                   </button>
+                  <button
+                    onClick={() => setShowExportFormats(!showExportFormats)}
+                    className="flex-1 py-2 bg-gray-100 text-gray-700 rounded-lg text-xs font-medium"
+                  >
+                    导出
+                  </button>
                   <button
                     onClick={() => {
                       if (confirm("确定删除？")) {
@@ -323,6 +433,20 @@ const Library: React.FC = () => {
                   </button>
                 </div>
               )}
+              {isEditMode && showExportFormats && (
+                <div className="flex items-center space-x-3 mt-3">
+                  {(["m3u8", "xspf", "csv"] as PlaylistFileFormat[]).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportPlaylist(format)}
+                      disabled={selectedPlaylist.songs.length === 0}
+                      className="flex-1 py-2 bg-gray-50 border border-gray-100 text-gray-600 rounded-lg text-xs font-bold uppercase disabled:opacity-50"
+                    >
+                      {format}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
             {renderSongList(selectedPlaylist.songs, true, selectedPlaylist.id, selectedPlaylist.songs)}
           </div>
@@ -378,47 +502,91 @@ const Library: React.FC = () => {
                 </button>
                 <div className="relative">
                   <button className="w-full py-3 bg-gray-100 text-ios-text rounded-xl font-medium text-xs">
-                    导入数据
+                    {importProgress || "导入数据"}
                   </button>
                   <input
                     type="file"
-                    accept=".json"
+                    accept=".json,.m3u,.m3u8,.xspf,.csv"
+                    disabled={!!importProgress}
                     className="absolute inset-0 opacity-0 cursor-pointer"
                     onChange={handleFileImport}
                   />
                 </div>
               </div>
+              <p className="text-[10px] text-gray-400 mt-2 leading-tight">
+                也可导入 M3U8 / XSPF / CSV 歌单文件，缺少歌曲 ID 的条目会按歌名和歌手自动匹配。
+              </p>
             </div>
 
+            <OfflineStorageManager />
+
+            <LxSourceManager />
+
             {pendingImport && (
               <div className="bg-white p-5 rounded-2xl shadow-sm border border-ios-red/10">
                 <h3 className="font-bold text-lg text-ios-text mb-2">确认导入数据</h3>
-                <p className="text-xs text-gray-500 leading-relaxed mb-4">
-                  文件包含 {pendingImport.favoriteCount} 首收藏、{pendingImport.playlistCount} 个歌单、{pendingImport.playlistSongCount} 首歌单歌曲。当前资料库有 {favorites.length} 首收藏、{playlists.length} 个歌单。
-                </p>
-                <div className="grid grid-cols-3 gap-2">
-                  <button
-                    type="button"
-                    onClick={() => applyPendingImport("replace")}
-                    className="py-3 bg-ios-red text-white rounded-xl font-bold text-xs"
-                  >
-                    覆盖导入
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => applyPendingImport("merge")}
-                    className="py-3 bg-gray-900 text-white rounded-xl font-bold text-xs"
-                  >
-                    合并导入
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setPendingImport(null)}
-                    className="py-3 bg-gray-100 text-gray-600 rounded-xl font-bold text-xs"
-                  >
-                    取消
-                  </button>
-                </div>
+                {pendingImport.kind === "playlist" ? (
+                  <>
+                    <p className="text-xs text-gray-500 leading-relaxed mb-3">
+                      歌单「{pendingImport.playlists[0]?.name}」匹配到 {pendingImport.playlistSongCount} 首歌曲
+                      {pendingImport.unmatched.length > 0 && `，${pendingImport.unmatched.length} 首未能匹配`}。将作为新歌单导入。
+                    </p>
+                    {pendingImport.unmatched.length > 0 && (
+                      <div className="max-h-[160px] overflow-y-auto no-scrollbar bg-gray-50 rounded-xl p-3 mb-4 space-y-1">
+                        {pendingImport.unmatched.map((line) => (
+                          <p key={line} className="text-[10px] text-gray-500 truncate">
+                            {line}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        type="button"
+                        onClick={() => applyPendingImport("merge")}
+                        className="py-3 bg-ios-red text-white rounded-xl font-bold text-xs"
+                      >
+                        导入为新歌单
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setPendingImport(null)}
+                        className="py-3 bg-gray-100 text-gray-600 rounded-xl font-bold text-xs"
+                      >
+                        取消
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-xs text-gray-500 leading-relaxed mb-4">
+                      文件包含 {pendingImport.favoriteCount} 首收藏、{pendingImport.playlistCount} 个歌单、{pendingImport.playlistSongCount} 首歌单歌曲。当前资料库有 {favorites.length} 首收藏、{playlists.length} 个歌单。
+                    </p>
+                    <div className="grid grid-cols-3 gap-2">
+                      <button
+                        type="button"
+                        onClick={() => applyPendingImport("replace")}
+                        className="py-3 bg-ios-red text-white rounded-xl font-bold text-xs"
+                      >
+                        覆盖导入
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => applyPendingImport("merge")}
+                        className="py-3 bg-gray-900 text-white rounded-xl font-bold text-xs"
+                      >
+                        合并导入
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setPendingImport(null)}
+                        className="py-3 bg-gray-100 text-gray-600 rounded-xl font-bold text-xs"
+                      >
+                        取消
+                      </button>
+                    </div>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -593,6 +761,18 @@ const Library: React.FC = () => {
         )}
       </div>
 
+      <BatchDownloadPanel
+        isOpen={!!batchTarget}
+        onClose={() => setBatchTarget(null)}
+        title={batchTarget?.title || ""}
+        songs={batchTarget?.songs || []}
+      />
+
+      <PlaylistLinkImport
+        isOpen={showLinkImport}
+        onClose={() => setShowLinkImport(false)}
+      />
+
       {/* ====== 新建歌单弹窗 ====== */}
       {showCreateModal && (
         <div
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { getPlaylistDetail, type SourcePlaylist } from '../services/api';
+import SongCollectionView from '../components/SongCollectionView';
+
+const PlaylistDetail: React.FC = () => {
+  const { source = '', id = '' } = useParams();
+  const [playlist, setPlaylist] = useState<SourcePlaylist | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    getPlaylistDetail(source, id)
+      .then((detail) => {
+        if (cancelled) return;
+        setPlaylist(detail);
+        setError(!detail);
+      })
+      .catch((e) => {
+        console.error('Failed to load playlist', e);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, id]);
+
+  return (
+    <SongCollectionView
+      source={source}
+      title={playlist?.name || '歌单'}
+      subtitle={playlist ? `${playlist.songs.length} 首` : undefined}
+      cover={playlist?.cover}
+      songs={playlist?.songs || []}
+      loading={loading}
+      error={error}
+      saveToLibrary
+    />
+  );
+};
+
+export default PlaylistDetail;
@@ -1,25 +1,32 @@
 import React, { useState, useEffect, memo, useCallback, useRef } from "react";
-import { useSearchParams } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import {
   searchAggregate,
   searchSongs,
+  searchByType,
+  getSearchSuggestions,
+  getHotKeywords,
   getImgReferrerPolicy,
   isGDStudioOnlySource,
+  type TypedSearchResult,
+  type TypedSearchType,
 } from "../services/api";
 import { Song, isSameSong } from "../types";
 import {
   usePlayerActions,
   usePlayerNowPlaying,
 } from "../contexts/PlayerContext";
-import { SearchIcon, MusicIcon, TrashIcon } from "../components/Icons";
+import { SearchIcon, MusicIcon, TrashIcon, PlayNextIcon } from "../components/Icons";
 import { useToast } from "../components/ToastHost";
 import {
-  EXTENDED_AGGREGATE_SOURCES,
   GD_STUDIO_ATTRIBUTION,
   GD_STUDIO_RATE_LIMIT_HINT,
+  getExtendedAggregateSources,
   getMusicSourceBadgeClass,
   getMusicSourceLabel,
+  getSearchableSources,
 } from "../utils/musicSource";
+import { formatPlayCount } from "../utils/formatting";
 
 const AGGREGATE_EXTENDED_SOURCES_KEY =
   "tunefree_aggregate_extended_sources";
@@ -39,7 +46,8 @@ const SearchResultItem = memo<{
   isCurrent: boolean;
   isPlaying: boolean;
   onPlay: (song: Song) => void;
-}>(({ song, isCurrent, isPlaying, onPlay }) => {
+  onPlayNext: (song: Song) => void;
+}>(({ song, isCurrent, isPlaying, onPlay, onPlayNext }) => {
   const songName = typeof song.name === "string" ? song.name : "未知歌曲";
   const songArtist = typeof song.artist === "string" ? song.artist : "未知歌手";
   const sourceLabel = getMusicSourceLabel(song.source);
@@ -82,10 +90,94 @@ const SearchResultItem = memo<{
           <p className="text-xs text-ios-subtext truncate">{songArtist}</p>
         </div>
       </div>
+      {!isCurrent && (
+        <button
+          className="p-2 text-gray-300 hover:text-ios-red flex-shrink-0"
+          aria-label="下一首播放"
+          title="下一首播放"
+          onClick={(e) => {
+            e.stopPropagation();
+            onPlayNext(song);
+          }}
+        >
+          <PlayNextIcon size={18} />
+        </button>
+      )}
     </div>
   );
 });
 
+type SearchResultType = "song" | TypedSearchType;
+
+const RESULT_TYPE_TABS: Array<{ type: SearchResultType; label: string }> = [
+  { type: "song", label: "单曲" },
+  { type: "artist", label: "歌手" },
+  { type: "album", label: "专辑" },
+  { type: "playlist", label: "歌单" },
+];
+
+const EMPTY_RESULT_LABEL: Record<SearchResultType, string> = {
+  song: "歌曲",
+  artist: "歌手",
+  album: "专辑",
+  playlist: "歌单",
+};
+
+// ====== 歌手 / 专辑 / 歌单结果卡片 ======
+const TypedResultItem = memo<{
+  type: TypedSearchType;
+  item: TypedSearchResult<TypedSearchType>;
+}>(({ type, item }) => {
+  let detail = "";
+  if (type === "artist") {
+    const { albumCount } = item as TypedSearchResult<"artist">;
+    detail = albumCount ? `${albumCount} 张专辑` : "";
+  } else if (type === "album") {
+    const { artist, publishDate } = item as TypedSearchResult<"album">;
+    detail = [artist, publishDate].filter(Boolean).join(" · ");
+  } else {
+    const { creator, playCount } = item as TypedSearchResult<"playlist">;
+    detail = [
+      creator && `by ${creator}`,
+      playCount !== undefined && `${formatPlayCount(playCount)} 次播放`,
+    ].filter(Boolean).join(" · ");
+  }
+
+  return (
+    <Link
+      to={`/${type}/${item.source}/${encodeURIComponent(item.id)}`}
+      className="flex items-center space-x-3 p-3 rounded-xl transition hover:bg-white/50 active:bg-white"
+    >
+      <div
+        className={`w-12 h-12 overflow-hidden flex-shrink-0 bg-gray-100 flex items-center justify-center ${type === "artist" ? "rounded-full" : "rounded-lg"}`}
+      >
+        {item.cover ? (
+          <img
+            src={item.cover}
+            alt={item.name}
+            referrerPolicy={getImgReferrerPolicy(item.cover)}
+            loading="lazy"
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <MusicIcon className="text-gray-300" size={24} />
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate text-[15px] text-ios-text">{item.name}</p>
+        <div className="flex items-center mt-0.5 space-x-2">
+          <span
+            className={`inline-block whitespace-nowrap text-[9px] px-1 rounded tracking-wider ${getMusicSourceBadgeClass(item.source)}`}
+          >
+            {getMusicSourceLabel(item.source)}
+          </span>
+          {detail && <p className="text-xs text-ios-subtext truncate">{detail}</p>}
+        </div>
+      </div>
+    </Link>
+  );
+});
+
 // ====== 搜索骨架屏 ======
 const SearchSkeleton = () => (
   <div className="space-y-2">
@@ -111,6 +203,13 @@ const Search: React.FC = () => {
   const [query, setQuery] = useState(initialQuery);
   const [searchTerm, setSearchTerm] = useState(initialQuery.trim());
   const [results, setResults] = useState<Song[]>([]);
+  const [resultType, setResultType] = useState<SearchResultType>("song");
+  const [typedResults, setTypedResults] = useState<
+    TypedSearchResult<TypedSearchType>[]
+  >([]);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [hotKeywords, setHotKeywords] = useState<string[]>([]);
+  const [inputFocused, setInputFocused] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [searchMode, setSearchMode] = useState<"aggregate" | "single">(
     "aggregate",
@@ -127,6 +226,7 @@ const Search: React.FC = () => {
   const [hasMore, setHasMore] = useState(true);
   const [searchError, setSearchError] = useState("");
   const debounceRef = useRef<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
   const searchRequestIdRef = useRef(0);
   const { showToast } = useToast();
 
@@ -165,7 +265,43 @@ const Search: React.FC = () => {
       }
     };
   }, [query]);
-  const { playSong } = usePlayerActions();
+
+  // 输入过程中的联想建议，比正式搜索的防抖更短
+  const suggestTerm = useDebounce(query.trim(), 250);
+  const suggestSource = searchMode === "single" ? selectedSource : undefined;
+  useEffect(() => {
+    if (!suggestTerm) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    getSearchSuggestions(suggestTerm, suggestSource)
+      .then((next) => {
+        if (!cancelled) setSuggestions(next);
+      })
+      .catch(() => {
+        if (!cancelled) setSuggestions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [suggestTerm, suggestSource]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getHotKeywords(suggestSource)
+      .then((next) => {
+        if (!cancelled) setHotKeywords(next);
+      })
+      .catch(() => {
+        if (!cancelled) setHotKeywords([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [suggestSource]);
+
+  const { playSong, queueNext } = usePlayerActions();
   const { currentSong, isPlaying } = usePlayerNowPlaying();
 
   useEffect(() => {
@@ -198,10 +334,11 @@ const Search: React.FC = () => {
 
   useEffect(() => {
     setResults([]);
+    setTypedResults([]);
     setPage(1);
     setHasMore(true);
     setSearchError("");
-  }, [searchTerm, searchMode, selectedSource, includeExtendedSources]);
+  }, [searchTerm, searchMode, selectedSource, includeExtendedSources, resultType]);
 
   useEffect(() => {
     if (!searchTerm) return;
@@ -215,6 +352,22 @@ const Search: React.FC = () => {
 
     const run = async () => {
       try {
+        if (resultType !== "song") {
+          const typed = await searchByType(
+            resultType,
+            searchTerm,
+            page,
+            searchMode === "single" ? selectedSource : undefined,
+          );
+          if (signal.aborted || requestId !== searchRequestIdRef.current) return;
+          if (typed.length === 0) {
+            setHasMore(false);
+          } else {
+            setTypedResults((prev) => (page === 1 ? typed : [...prev, ...typed]));
+          }
+          return;
+        }
+
         let data: Song[] = [];
         if (searchMode === "aggregate") {
           data = await searchAggregate(searchTerm, page, {
@@ -234,7 +387,10 @@ const Search: React.FC = () => {
       } catch (e) {
         if (signal.aborted || requestId !== searchRequestIdRef.current) return;
         console.error(e);
-        if (page === 1) setResults([]);
+        if (page === 1) {
+          setResults([]);
+          setTypedResults([]);
+        }
         setHasMore(false);
         setSearchError(
           searchMode === "single" && isGDStudioOnlySource(selectedSource)
@@ -254,6 +410,7 @@ const Search: React.FC = () => {
     selectedSource,
     page,
     includeExtendedSources,
+    resultType,
   ]);
 
   const handleLoadMore = useCallback(() => {
@@ -270,6 +427,33 @@ const Search: React.FC = () => {
     [query, searchTerm, playSong, addToHistory],
   );
 
+  const handlePlayNext = useCallback(
+    (song: Song) => {
+      queueNext(song);
+      showToast("已添加到下一首播放", "success");
+    },
+    [queueNext, showToast],
+  );
+
+  // 立即搜索（回车或点击联想词），跳过输入防抖
+  const submitSearch = useCallback(
+    (term: string) => {
+      if (debounceRef.current !== null) {
+        window.clearTimeout(debounceRef.current);
+        debounceRef.current = null;
+      }
+      setQuery(term);
+      setSearchTerm(term);
+      setPage(1);
+      setHasMore(true);
+      setSearchError("");
+      setSuggestions([]);
+      addToHistory(term);
+      setSearchParams({ q: term });
+    },
+    [addToHistory, setSearchParams],
+  );
+
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       if (e.key === "Enter") {
@@ -279,20 +463,11 @@ const Search: React.FC = () => {
           showToast("请输入关键词后再搜索", "warning");
           return;
         }
-        if (debounceRef.current !== null) {
-          window.clearTimeout(debounceRef.current);
-          debounceRef.current = null;
-        }
-        setSearchTerm(term);
-        setPage(1);
-        setHasMore(true);
-        setSearchError("");
-        addToHistory(term);
-        setSearchParams({ q: term });
+        submitSearch(term);
         (e.target as HTMLInputElement).blur();
       }
     },
-    [query, addToHistory, setSearchParams, showToast],
+    [query, submitSearch, showToast],
   );
 
   const handleQueryChange = useCallback(
@@ -302,7 +477,10 @@ const Search: React.FC = () => {
     [],
   );
 
-  const extendedSourceLabel = EXTENDED_AGGREGATE_SOURCES.map((source) =>
+  const resultCount =
+    resultType === "song" ? results.length : typedResults.length;
+
+  const extendedSourceLabel = getExtendedAggregateSources().map((source) =>
     getMusicSourceLabel(source),
   ).join(" / ");
 
@@ -324,6 +502,7 @@ const Search: React.FC = () => {
             size={18}
           />
           <input
+            ref={inputRef}
             type="text"
             placeholder={
               searchMode === "aggregate"
@@ -334,7 +513,28 @@ const Search: React.FC = () => {
             value={query}
             onChange={handleQueryChange}
             onKeyDown={handleKeyDown}
+            onFocus={() => setInputFocused(true)}
+            onBlur={() => setInputFocused(false)}
           />
+          {inputFocused && query.trim() !== "" && suggestions.length > 0 && (
+            <div className="absolute left-0 right-0 top-full mt-1 bg-white rounded-xl shadow-lg border border-gray-100 py-1 z-30 max-h-72 overflow-y-auto no-scrollbar">
+              {suggestions.map((suggestion) => (
+                <button
+                  key={suggestion}
+                  // 阻止输入框失焦，保证点击能落在建议项上
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => {
+                    submitSearch(suggestion);
+                    inputRef.current?.blur();
+                  }}
+                  className="w-full flex items-center space-x-3 px-4 py-2.5 text-left hover:bg-gray-50 active:bg-gray-100"
+                >
+                  <SearchIcon size={14} className="text-gray-300 flex-shrink-0" />
+                  <span className="text-sm text-gray-700 truncate">{suggestion}</span>
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         <div className="flex items-center space-x-2 overflow-x-auto no-scrollbar py-1">
@@ -380,15 +580,32 @@ const Search: React.FC = () => {
                 onChange={(e) => setSelectedSource(e.target.value)}
                 className="bg-white border border-gray-200 text-xs font-medium px-3 py-1.5 rounded-full outline-none text-gray-700"
               >
-                <option value="netease">{getMusicSourceLabel("netease", "full")}</option>
-                <option value="qq">{getMusicSourceLabel("qq", "full")}</option>
-                <option value="kuwo">{getMusicSourceLabel("kuwo", "full")}</option>
-                <option value="joox">{getMusicSourceLabel("joox", "full")}</option>
+                {getSearchableSources().map((source) => (
+                  <option key={source} value={source}>
+                    {getMusicSourceLabel(source, "full")}
+                  </option>
+                ))}
               </select>
             </>
           )}
         </div>
 
+        <div className="flex items-center space-x-4 mt-2 px-1">
+          {RESULT_TYPE_TABS.map(({ type, label }) => (
+            <button
+              key={type}
+              onClick={() => setResultType(type)}
+              className={`pb-1 text-sm font-medium border-b-2 transition-colors ${
+                resultType === type
+                  ? "text-ios-text border-ios-red"
+                  : "text-gray-400 border-transparent"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
         {searchHint && (
           <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-[11px] leading-relaxed text-amber-700">
             {searchHint}
@@ -431,7 +648,39 @@ const Search: React.FC = () => {
           </div>
         )}
 
-        {results.length > 0 &&
+        {!query && hotKeywords.length > 0 && (
+          <div className="mb-6">
+            <h3 className="font-bold text-gray-900 text-sm mb-3 px-1">热门搜索</h3>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 bg-white rounded-2xl p-3 shadow-sm">
+              {hotKeywords.slice(0, 20).map((term, idx) => (
+                <button
+                  key={term}
+                  onClick={() => submitSearch(term)}
+                  className="flex items-center space-x-2 py-1.5 text-left min-w-0"
+                >
+                  <span
+                    className={`w-4 text-xs font-bold tabular-nums flex-shrink-0 ${idx < 3 ? "text-ios-red" : "text-gray-400"}`}
+                  >
+                    {idx + 1}
+                  </span>
+                  <span className="text-sm text-gray-700 truncate">{term}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {resultType !== "song" &&
+          typedResults.map((item, idx) => (
+            <TypedResultItem
+              key={`${item.source}-${item.id}-${idx}`}
+              type={resultType}
+              item={item}
+            />
+          ))}
+
+        {resultType === "song" &&
+          results.length > 0 &&
           results.map((song, idx) => (
             <SearchResultItem
               key={`${song.source}-${song.id}-${idx}`}
@@ -439,14 +688,13 @@ const Search: React.FC = () => {
               isCurrent={isSameSong(currentSong, song)}
               isPlaying={isPlaying}
               onPlay={handlePlaySong}
+              onPlayNext={handlePlayNext}
             />
           ))}
 
-        {isSearching && results.length === 0 && <SearchSkeleton />}
-
-        {isSearching && results.length > 0 && <SearchSkeleton />}
+        {isSearching && <SearchSkeleton />}
 
-        {!isSearching && results.length > 0 && hasMore && (
+        {!isSearching && resultCount > 0 && hasMore && (
           <button
             onClick={handleLoadMore}
             className="w-full py-4 text-sm text-ios-subtext font-medium active:bg-gray-100 rounded-xl transition"
@@ -455,10 +703,10 @@ const Search: React.FC = () => {
           </button>
         )}
 
-        {!isSearching && results.length === 0 && query !== "" && !searchError && (
+        {!isSearching && resultCount === 0 && query !== "" && !searchError && (
           <div className="text-center py-16 text-gray-400 text-sm">
             <MusicIcon size={48} className="mx-auto mb-4 opacity-10" />
-            <p>未找到相关歌曲，请尝试简化关键词</p>
+            <p>未找到相关{EMPTY_RESULT_LABEL[resultType]}，请尝试简化关键词</p>
           </div>
         )}
       </div>
@@ -11,6 +11,7 @@ export {
   fetchNativeUrl,
   getSongUrl,
   getLyrics,
+  getLyricBundle,
   fetchFallbackLyrics,
   parseSongFull,
 } from "./resolver";
@@ -20,6 +21,16 @@ export {
   getNeteaseTopLists,
   getNeteaseTopListDetail,
   fetchNeteaselyrics,
+  getNeteasePlaylistDetail,
+  getNeteaseArtistDetail,
+  getNeteaseAlbumDetail,
+  getNeteasePlaylistCategories,
+  getNeteaseCategoryPlaylists,
+  searchNeteaseArtists,
+  searchNeteaseAlbums,
+  searchNeteasePlaylists,
+  getNeteaseSearchSuggestions,
+  getNeteaseHotKeywords,
 } from "./netease";
 export {
   searchQQ,
@@ -27,6 +38,16 @@ export {
   getQQTopLists,
   getQQTopListDetail,
   fetchQQLyrics,
+  getQQPlaylistDetail,
+  getQQArtistDetail,
+  getQQAlbumDetail,
+  getQQPlaylistCategories,
+  getQQCategoryPlaylists,
+  searchQQArtists,
+  searchQQAlbums,
+  searchQQPlaylists,
+  getQQSearchSuggestions,
+  getQQHotKeywords,
 } from "./qq";
 export {
   searchKuwo,
@@ -34,6 +55,15 @@ export {
   getKuwoTopListDetail,
   fetchKuwoLyrics,
   batchFetchKuwoCovers,
+  getKuwoPlaylistDetail,
+  getKuwoArtistDetail,
+  getKuwoAlbumDetail,
+  getKuwoPlaylistCategories,
+  getKuwoCategoryPlaylists,
+  searchKuwoArtists,
+  searchKuwoAlbums,
+  searchKuwoPlaylists,
+  getKuwoHotKeywords,
 } from "./kuwo";
 export {
   searchGDStudio,
@@ -44,15 +74,110 @@ export {
   isGDStudioOnlySource,
 } from "./gdStudio";
 
-import { Song, TopList } from "../types";
+export {
+  registerMusicSource,
+  getMusicSource,
+  listMusicSources,
+} from "./sourceRegistry";
+export {
+  importLxScript,
+  removeLxScript,
+  setLxScriptEnabled,
+  listLxScripts,
+  resolveLxUrl,
+} from "./lxSource";
+export {
+  findSongMatches,
+  scoreSongMatch,
+  resolveAlternateSong,
+  resolvePlayableUrl,
+  getSourceOverride,
+  setSourceOverride,
+} from "./songMatcher";
+export type { SongMatchCandidate } from "./songMatcher";
+export {
+  triggerDownload,
+  downloadSong,
+  fetchSongFile,
+  getSongFilename,
+  sanitizeFilename,
+} from "./download";
+export type { SongFile } from "./download";
+export {
+  MAX_LYRIC_OFFSET,
+  getLyricOffset,
+  setLyricOffset,
+  getLyricOverride,
+  setLyricOverride,
+  getLyricSource,
+  setLyricSource,
+  subscribeLyricOverrides,
+  resolveSongLyrics,
+  resolveSongLyricsForExport,
+} from "./lyricOverrides";
+export { findLyricCandidates } from "./lyricSearch";
+export type { LyricCandidate } from "./lyricSearch";
+export {
+  saveOfflineSong,
+  getOfflineSong,
+  listOfflineSongs,
+  touchOfflineSong,
+  deleteOfflineSongs,
+  clearOfflineSongs,
+  evictOfflineSongs,
+  getOfflineStorageEstimate,
+  subscribeOfflineChange,
+} from "./offlineStore";
+export type {
+  OfflineSongRecord,
+  OfflineStorageEstimate,
+} from "./offlineStore";
+export {
+  MIN_COUNTED_LISTEN_SECONDS,
+  LISTENING_STATS_PERIOD_DAYS,
+  addPlayRecord,
+  updatePlayRecord,
+  listPlayRecords,
+  clearPlayHistory,
+  getRecentlyPlayedSongs,
+  computeListeningStats,
+  exportPlayHistory,
+  subscribePlayHistory,
+} from "./playHistory";
+export type {
+  PlayRecord,
+  ListeningStats,
+  ListeningStatsEntry,
+  ListeningStatsPeriod,
+} from "./playHistory";
+export { getDailyMixes } from "./dailyMix";
+export type { DailyMix, DailyMixLibrary } from "./dailyMix";
+export { RADIO_BATCH_SIZE, findRadioSongs } from "./radio";
+export type {
+  MusicSourceProvider,
+  MusicSourceCapabilities,
+  SourcePlaylist,
+  SourceArtist,
+  SourceAlbum,
+  SourceAlbumSummary,
+  SourceArtistSummary,
+  SourcePlaylistCategory,
+  SourcePlaylistSummary,
+} from "./sourceRegistry";
+
+import { Song, TopList, isSameSong } from "../types";
 import {
-  searchNetease,
-  getNeteaseTopLists,
-  getNeteaseTopListDetail,
-} from "./netease";
-import { searchQQ, getQQTopLists, getQQTopListDetail } from "./qq";
-import { searchKuwo, getKuwoTopLists, getKuwoTopListDetail } from "./kuwo";
-import { searchGDStudio } from "./gdStudio";
+  getMusicSource,
+  listMusicSources,
+  type MusicSourceProvider,
+  type SourceAlbum,
+  type SourceAlbumSummary,
+  type SourceArtist,
+  type SourceArtistSummary,
+  type SourcePlaylist,
+  type SourcePlaylistCategory,
+  type SourcePlaylistSummary,
+} from "./sourceRegistry";
 
 export const searchSongs = async (
   keyword: string,
@@ -60,13 +185,9 @@ export const searchSongs = async (
   page: number = 1,
 ): Promise<Song[]> => {
   const limit = 30;
-
-  if (platform === "netease") return searchNetease(keyword, page, limit);
-  if (platform === "qq") return searchQQ(keyword, page, limit);
-  if (platform === "kuwo") return searchKuwo(keyword, page, limit);
-  if (platform === "joox") return searchGDStudio(keyword, platform, page, limit);
-
-  return [];
+  const provider = getMusicSource(platform);
+  if (!provider?.search) return [];
+  return provider.search(keyword, page, limit);
 };
 
 export const searchAggregate = async (
@@ -74,9 +195,11 @@ export const searchAggregate = async (
   page: number = 1,
   options: { includeExtendedSources?: boolean } = {},
 ): Promise<Song[]> => {
-  const platforms = options.includeExtendedSources
-    ? (["netease", "qq", "kuwo", "joox"] as const)
-    : (["netease", "qq", "kuwo"] as const);
+  const platforms = listMusicSources(
+    (p) =>
+      p.capabilities.aggregate === "core" ||
+      (!!options.includeExtendedSources && p.capabilities.aggregate === "extended"),
+  ).map((p) => p.id);
 
   const results = await Promise.all(
     platforms.map((p) =>
@@ -85,7 +208,7 @@ export const searchAggregate = async (
   );
 
   const merged: Song[] = [];
-  const maxLen = Math.max(...results.map((r) => r.length));
+  const maxLen = Math.max(0, ...results.map((r) => r.length));
   for (let i = 0; i < maxLen; i++) {
     for (const platformResult of results) {
       if (platformResult[i]) merged.push(platformResult[i]);
@@ -95,30 +218,221 @@ export const searchAggregate = async (
   return merged;
 };
 
-export const getTopLists = async (platform: string): Promise<TopList[]> => {
-  if (platform === "netease") return getNeteaseTopLists();
-  if (platform === "qq") return getQQTopLists();
-  if (platform === "kuwo") return getKuwoTopLists();
+/** 按类型搜索的结果，附带所属音源 */
+interface TypedSearchResultMap {
+  artist: SourceArtistSummary;
+  album: SourceAlbumSummary;
+  playlist: SourcePlaylistSummary;
+}
+export type TypedSearchType = keyof TypedSearchResultMap;
+export type TypedSearchResult<T extends TypedSearchType> = TypedSearchResultMap[T] & {
+  source: string;
+};
+
+const getTypedSearch = <T extends TypedSearchType>(
+  provider: MusicSourceProvider,
+  type: T,
+) =>
+  ({
+    artist: provider.searchArtists,
+    album: provider.searchAlbums,
+    playlist: provider.searchPlaylists,
+  })[type] as
+    | ((keyword: string, page: number, limit: number) => Promise<TypedSearchResultMap[T][]>)
+    | undefined;
+
+/**
+ * 搜索歌手 / 专辑 / 歌单。指定 platform 时只搜索该音源，
+ * 否则在所有支持该类型的核心音源中搜索并交错合并。
+ */
+export const searchByType = async <T extends TypedSearchType>(
+  type: T,
+  keyword: string,
+  page: number = 1,
+  platform?: string,
+): Promise<TypedSearchResult<T>[]> => {
+  const limit = 20;
+  const providers = platform
+    ? [getMusicSource(platform)].filter((p): p is MusicSourceProvider => !!p)
+    : listMusicSources((p) => p.capabilities.aggregate === "core");
+
+  const results = await Promise.all(
+    providers.map(async (provider) => {
+      const search = getTypedSearch(provider, type);
+      if (!search) return [];
+      const items = await search(keyword, page, limit).catch(() => []);
+      return items.map((item) => ({ ...item, source: provider.id }));
+    }),
+  );
+
+  const merged: TypedSearchResult<T>[] = [];
+  const maxLen = Math.max(0, ...results.map((r) => r.length));
+  for (let i = 0; i < maxLen; i++) {
+    for (const platformResult of results) {
+      if (platformResult[i]) merged.push(platformResult[i]);
+    }
+  }
+  return merged;
+};
+
+/** 搜索建议条数上限 */
+const SEARCH_SUGGESTION_LIMIT = 10;
+
+/**
+ * 输入过程中的搜索建议。指定 platform 时只请求该音源，否则合并所有核心音源并去重。
+ */
+export const getSearchSuggestions = async (
+  keyword: string,
+  platform?: string,
+): Promise<string[]> => {
+  const providers = platform
+    ? [getMusicSource(platform)].filter((p): p is MusicSourceProvider => !!p)
+    : listMusicSources((p) => p.capabilities.aggregate === "core");
+  const results = await Promise.all(
+    providers.map((p) => p.suggest?.(keyword).catch(() => [] as string[]) ?? []),
+  );
+
+  const seen = new Set<string>();
+  const merged: string[] = [];
+  const maxLen = Math.max(0, ...results.map((r) => r.length));
+  for (let i = 0; i < maxLen && merged.length < SEARCH_SUGGESTION_LIMIT; i++) {
+    for (const suggestions of results) {
+      const suggestion = suggestions[i]?.trim();
+      if (!suggestion || seen.has(suggestion.toLowerCase())) continue;
+      seen.add(suggestion.toLowerCase());
+      merged.push(suggestion);
+      if (merged.length >= SEARCH_SUGGESTION_LIMIT) break;
+    }
+  }
+  return merged;
+};
+
+/**
+ * 热门搜索词。优先使用指定音源，不支持时依次尝试其他音源。
+ */
+export const getHotKeywords = async (platform?: string): Promise<string[]> => {
+  const providers = listMusicSources((p) => typeof p.hotKeywords === "function").sort(
+    (a, b) => Number(b.id === platform) - Number(a.id === platform),
+  );
+  for (const provider of providers) {
+    const keywords = await provider.hotKeywords!().catch(() => [] as string[]);
+    if (keywords.length > 0) return keywords;
+  }
   return [];
 };
 
+export const getTopLists = async (platform: string): Promise<TopList[]> => {
+  const provider = getMusicSource(platform);
+  if (!provider?.topLists) return [];
+  return provider.topLists();
+};
+
 export const getTopListDetail = async (
   id: string | number,
   platform: string,
 ): Promise<Song[]> => {
-  if (platform === "netease") return getNeteaseTopListDetail(id);
-  if (platform === "qq") return getQQTopListDetail(id);
-  if (platform === "kuwo") return getKuwoTopListDetail(id);
-  return [];
+  const provider = getMusicSource(platform);
+  if (!provider?.topListDetail) return [];
+  return provider.topListDetail(id);
+};
+
+export interface PlaylistLinkTarget {
+  source: string;
+  id: string;
+}
+
+/**
+ * 从分享链接 / 分享文案中识别歌单所属平台和 ID。
+ * 指定 platform 时也接受纯数字的歌单 ID。
+ */
+export const parsePlaylistLink = (
+  input: string,
+  platform?: string,
+): PlaylistLinkTarget | null => {
+  const text = input.trim();
+  if (!text) return null;
+
+  if (platform) {
+    if (/^\d+$/.test(text)) return { source: platform, id: text };
+    const id = getMusicSource(platform)?.parsePlaylistLink?.(text);
+    return id ? { source: platform, id } : null;
+  }
+
+  for (const provider of listMusicSources((p) => !!p.parsePlaylistLink)) {
+    const id = provider.parsePlaylistLink!(text);
+    if (id) return { source: provider.id, id };
+  }
+  return null;
+};
+
+export const getPlaylistDetail = async (
+  platform: string,
+  id: string,
+): Promise<SourcePlaylist | null> => {
+  const provider = getMusicSource(platform);
+  if (!provider?.playlistDetail) return null;
+  return provider.playlistDetail(id);
+};
+
+export const getPlaylistCategories = async (
+  platform: string,
+): Promise<SourcePlaylistCategory[]> => {
+  const provider = getMusicSource(platform);
+  if (!provider?.playlistCategories) return [];
+  return provider.playlistCategories();
+};
+
+export const getCategoryPlaylists = async (
+  platform: string,
+  categoryId: string,
+  page: number = 1,
+): Promise<SourcePlaylistSummary[]> => {
+  const limit = 30;
+  const provider = getMusicSource(platform);
+  if (!provider?.categoryPlaylists) return [];
+  return provider.categoryPlaylists(categoryId, page, limit);
 };
 
-export const triggerDownload = (url: string, filename: string): void => {
-  if (!url) return;
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.target = "_blank";
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
+export const getArtistDetail = async (
+  platform: string,
+  id: string,
+): Promise<SourceArtist | null> => {
+  const provider = getMusicSource(platform);
+  if (!provider?.artistDetail) return null;
+  return provider.artistDetail(id);
+};
+
+export const getAlbumDetail = async (
+  platform: string,
+  id: string,
+): Promise<SourceAlbum | null> => {
+  const provider = getMusicSource(platform);
+  if (!provider?.albumDetail) return null;
+  return provider.albumDetail(id);
+};
+
+export type SongPageKind = "artist" | "album";
+
+/**
+ * 查找歌曲对应的歌手页 / 专辑页 ID。
+ * 歌曲本身没有记录 ID 时（如旧版本保存的收藏），在原平台搜索同一首歌补全；
+ * 平台不支持该页面或找不到时返回 null。
+ */
+export const resolveSongPageId = async (
+  song: Song,
+  kind: SongPageKind,
+): Promise<string | null> => {
+  const provider = getMusicSource(String(song.source));
+  const supported = kind === "artist" ? provider?.artistDetail : provider?.albumDetail;
+  if (!provider || !supported) return null;
+
+  const known = kind === "artist" ? song.artistId : song.albumId;
+  if (known) return known;
+  if (!provider.search) return null;
+
+  const results = await provider
+    .search(`${song.name} ${song.artist}`, 1, 20)
+    .catch(() => [] as Song[]);
+  const match = results.find((result) => isSameSong(result, song));
+  return (kind === "artist" ? match?.artistId : match?.albumId) || null;
 };
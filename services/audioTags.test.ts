@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import { writeAudioTags, type AudioTags } from "./audioTags";
+
+const textDecoder = new TextDecoder();
+const ascii = (text: string) => Uint8Array.from(text, (ch) => ch.charCodeAt(0));
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const readSynchsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const readUint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const readUint32LE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+// ---------- 测试素材 ----------
+
+/** 一个 MPEG-1 Layer III 帧头后接若干字节，足以被识别为 MP3 */
+const MP3_AUDIO = Uint8Array.of(0xff, 0xfb, 0x90, 0x64, ...new Array(32).fill(0x55));
+
+/** 已有的 ID3v2.3 标签（TIT2 = "Old Title"） */
+const OLD_ID3_TAG = (() => {
+  const frameBody = concat(Uint8Array.of(0), ascii("Old Title"));
+  const frame = concat(ascii("TIT2"), Uint8Array.of(0, 0, 0, frameBody.length, 0, 0), frameBody);
+  return concat(ascii("ID3"), Uint8Array.of(3, 0, 0, 0, 0, 0, frame.length), frame);
+})();
+
+const flacBlock = (type: number, data: Uint8Array, isLast = false) =>
+  concat(
+    Uint8Array.of((isLast ? 0x80 : 0) | type, (data.length >> 16) & 0xff, (data.length >> 8) & 0xff, data.length & 0xff),
+    data,
+  );
+
+const FLAC_STREAMINFO = Uint8Array.from({ length: 34 }, (_, i) => i);
+const FLAC_SEEKTABLE = new Uint8Array(18).fill(0xaa);
+const FLAC_AUDIO = Uint8Array.of(0xff, 0xf8, 0x69, 0x08, ...new Array(32).fill(0x33));
+
+/** STREAMINFO + 旧 VORBIS_COMMENT + SEEKTABLE + PADDING，后接音频帧 */
+const FLAC_FILE = concat(
+  ascii("fLaC"),
+  flacBlock(0, FLAC_STREAMINFO),
+  flacBlock(4, concat(Uint8Array.of(3, 0, 0, 0), ascii("old"), Uint8Array.of(1, 0, 0, 0, 9, 0, 0, 0), ascii("TITLE=Old"))),
+  flacBlock(3, FLAC_SEEKTABLE),
+  flacBlock(1, new Uint8Array(64), true),
+  FLAC_AUDIO,
+);
+
+/** 大于 127 字节，使 synchsafe 长度与普通长度不同 */
+const COVER = Uint8Array.from({ length: 300 }, (_, i) => (i === 0 ? 0xff : i === 1 ? 0xd8 : i & 0xff));
+
+const TAGS: AudioTags = {
+  title: "晴天",
+  artist: "周杰伦 / 杨瑞代",
+  album: "叶惠美",
+  lyrics: "[00:01.00]故事的小黄花",
+  cover: { data: COVER, mime: "image/jpeg" },
+};
+
+// ---------- 解析 ----------
+
+const parseId3v2 = (bytes: Uint8Array) => {
+  expect(textDecoder.decode(bytes.subarray(0, 3))).toBe("ID3");
+  const version = bytes[3];
+  const size = readSynchsafe(bytes, 6);
+  const frames = new Map<string, Uint8Array>();
+  let offset = 10;
+  while (offset < 10 + size) {
+    const id = textDecoder.decode(bytes.subarray(offset, offset + 4));
+    const frameSize = readSynchsafe(bytes, offset + 4);
+    frames.set(id, bytes.subarray(offset + 10, offset + 10 + frameSize));
+    offset += 10 + frameSize;
+  }
+  expect(offset).toBe(10 + size);
+  return { version, frames, audio: bytes.subarray(offset) };
+};
+
+const parseFlac = (bytes: Uint8Array) => {
+  expect(textDecoder.decode(bytes.subarray(0, 4))).toBe("fLaC");
+  const blocks: Array<{ type: number; data: Uint8Array; isLast: boolean }> = [];
+  let offset = 4;
+  let isLast = false;
+  while (!isLast) {
+    isLast = (bytes[offset] & 0x80) !== 0;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    blocks.push({ type: bytes[offset] & 0x7f, data: bytes.subarray(offset + 4, offset + 4 + length), isLast });
+    offset += 4 + length;
+  }
+  return { blocks, audio: bytes.subarray(offset) };
+};
+
+const parseVorbisComment = (data: Uint8Array) => {
+  const vendorLength = readUint32LE(data, 0);
+  let offset = 4 + vendorLength;
+  const count = readUint32LE(data, offset);
+  offset += 4;
+  const comments: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = readUint32LE(data, offset);
+    comments.push(textDecoder.decode(data.subarray(offset + 4, offset + 4 + length)));
+    offset += 4 + length;
+  }
+  expect(offset).toBe(data.length);
+  return comments;
+};
+
+// ---------- 用例 ----------
+
+describe("writeAudioTags · MP3", () => {
+  it("写入 ID3v2.4 文本、歌词和封面帧", () => {
+    const result = writeAudioTags(MP3_AUDIO, TAGS);
+    expect(result).toMatchObject({ container: "mp3", tagged: true });
+
+    const { version, frames, audio } = parseId3v2(result.bytes);
+    expect(version).toBe(4);
+    expect([...frames.keys()]).toEqual(["TIT2", "TPE1", "TALB", "USLT", "APIC"]);
+    expect(textDecoder.decode(frames.get("TIT2")!)).toBe("\x03晴天");
+    expect(textDecoder.decode(frames.get("TPE1")!)).toBe("\x03周杰伦 / 杨瑞代");
+    expect(textDecoder.decode(frames.get("TALB")!)).toBe("\x03叶惠美");
+    expect(textDecoder.decode(frames.get("USLT")!)).toBe(`\x03chi\x00${TAGS.lyrics}`);
+
+    const apic = frames.get("APIC")!;
+    const apicHeader = concat(Uint8Array.of(3), ascii("image/jpeg"), Uint8Array.of(0, 3, 0));
+    expect(apic.subarray(0, apicHeader.length)).toEqual(apicHeader);
+    expect(apic.subarray(apicHeader.length)).toEqual(COVER);
+
+    expect(audio).toEqual(MP3_AUDIO);
+  });
+
+  it("替换文件中已有的 ID3 标签", () => {
+    const result = writeAudioTags(concat(OLD_ID3_TAG, MP3_AUDIO), { title: "新标题", artist: "歌手" });
+    expect(result).toMatchObject({ container: "mp3", tagged: true });
+
+    const { version, frames, audio } = parseId3v2(result.bytes);
+    expect(version).toBe(4);
+    expect(textDecoder.decode(frames.get("TIT2")!)).toBe("\x03新标题");
+    expect(audio).toEqual(MP3_AUDIO);
+    expect(textDecoder.decode(result.bytes)).not.toContain("Old Title");
+  });
+});
+
+describe("writeAudioTags · FLAC", () => {
+  it("替换 VORBIS_COMMENT 并写入 PICTURE 块", () => {
+    const result = writeAudioTags(FLAC_FILE, TAGS);
+    expect(result).toMatchObject({ container: "flac", tagged: true });
+
+    const { blocks, audio } = parseFlac(result.bytes);
+    expect(blocks.map((block) => block.type)).toEqual([0, 4, 3, 6]);
+    expect(blocks.map((block) => block.isLast)).toEqual([false, false, false, true]);
+    expect(blocks[0].data).toEqual(FLAC_STREAMINFO);
+    expect(blocks[2].data).toEqual(FLAC_SEEKTABLE);
+
+    expect(parseVorbisComment(blocks[1].data)).toEqual([
+      "TITLE=晴天",
+      "ARTIST=周杰伦",
+      "ARTIST=杨瑞代",
+      "ALBUM=叶惠美",
+      `LYRICS=${TAGS.lyrics}`,
+    ]);
+
+    const picture = blocks[3].data;
+    expect(readUint32BE(picture, 0)).toBe(3);
+    const mimeLength = readUint32BE(picture, 4);
+    expect(textDecoder.decode(picture.subarray(8, 8 + mimeLength))).toBe("image/jpeg");
+    const dataLengthOffset = 8 + mimeLength + 4 * 5;
+    expect(readUint32BE(picture, dataLengthOffset)).toBe(COVER.length);
+    expect(picture.subarray(dataLengthOffset + 4)).toEqual(COVER);
+
+    expect(audio).toEqual(FLAC_AUDIO);
+  });
+});
+
+describe("writeAudioTags · 其他格式", () => {
+  it("非 MP3 / FLAC 文件原样返回", () => {
+    const wav = concat(ascii("RIFF"), Uint8Array.of(36, 0, 0, 0), ascii("WAVEfmt "), new Uint8Array(16));
+    const m4a = concat(Uint8Array.of(0, 0, 0, 24), ascii("ftypM4A "), new Uint8Array(12));
+
+    const wavResult = writeAudioTags(wav, TAGS);
+    expect(wavResult).toMatchObject({ container: "unknown", tagged: false });
+    expect(wavResult.bytes).toBe(wav);
+
+    const m4aResult = writeAudioTags(m4a, TAGS);
+    expect(m4aResult).toMatchObject({ container: "m4a", tagged: false });
+    expect(m4aResult.bytes).toBe(m4a);
+  });
+});
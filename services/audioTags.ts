@@ -0,0 +1,313 @@
+// ==============================
+// 音频标签写入
+// 纯 TS 实现：MP3 写入 ID3v2.4（TIT2 / TPE1 / TALB / APIC / USLT），
+// FLAC 写入 VORBIS_COMMENT 与 PICTURE 元数据块。其他格式原样返回。
+// ==============================
+
+export interface AudioTagPicture {
+  data: Uint8Array;
+  mime: string;
+}
+
+export interface AudioTags {
+  title: string;
+  artist: string;
+  album?: string;
+  /** 歌词文本（LRC） */
+  lyrics?: string;
+  cover?: AudioTagPicture;
+}
+
+export type AudioContainer = "mp3" | "flac" | "m4a" | "ogg" | "unknown";
+
+const textEncoder = new TextEncoder();
+
+/** ID3v2 封面类型：3 = Cover (front) */
+const PICTURE_TYPE_FRONT_COVER = 3;
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, (ch) => ch.charCodeAt(0) & 0xff);
+
+const matchesAscii = (bytes: Uint8Array, offset: number, text: string) => {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const uint32BE = (value: number) =>
+  Uint8Array.of((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+
+const uint32LE = (value: number) =>
+  Uint8Array.of(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+
+const uint24BE = (value: number) =>
+  Uint8Array.of((value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+
+/** ID3v2.4 的 synchsafe 整数：每字节只用低 7 位 */
+const synchsafe = (value: number) =>
+  Uint8Array.of((value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f);
+
+const readSynchsafe = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] & 0x7f) << 21) |
+  ((bytes[offset + 1] & 0x7f) << 14) |
+  ((bytes[offset + 2] & 0x7f) << 7) |
+  (bytes[offset + 3] & 0x7f);
+
+/**
+ * 文件开头已有 ID3v2 标签时返回其总长度（含 footer），否则返回 0。
+ */
+const getId3v2Length = (bytes: Uint8Array): number => {
+  if (bytes.length < 10 || !matchesAscii(bytes, 0, "ID3")) return 0;
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + readSynchsafe(bytes, 6) + (hasFooter ? 10 : 0);
+};
+
+/**
+ * 根据文件头判断容器格式。
+ */
+export const detectAudioContainer = (bytes: Uint8Array): AudioContainer => {
+  const start = getId3v2Length(bytes);
+  if (matchesAscii(bytes, start, "fLaC")) return "flac";
+  if (matchesAscii(bytes, 0, "OggS")) return "ogg";
+  if (matchesAscii(bytes, 4, "ftyp")) return "m4a";
+  if (start > 0) return "mp3";
+  // MPEG 帧同步字：11 个 1
+  if (bytes.length > 1 && bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return "mp3";
+  return "unknown";
+};
+
+/**
+ * 根据文件头判断封面图片 MIME，无法识别时退回 image/jpeg。
+ */
+export const detectImageMime = (bytes: Uint8Array, fallback = "image/jpeg"): string => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "image/jpeg";
+  if (matchesAscii(bytes, 0, "\x89PNG")) return "image/png";
+  if (matchesAscii(bytes, 0, "GIF8")) return "image/gif";
+  if (matchesAscii(bytes, 0, "RIFF") && matchesAscii(bytes, 8, "WEBP")) return "image/webp";
+  return fallback;
+};
+
+// ---------- ID3v2.4 ----------
+
+/** ID3v2.4 文本编码：3 = UTF-8 */
+const ID3_ENCODING_UTF8 = 0x03;
+
+const id3Frame = (id: string, body: Uint8Array): Uint8Array =>
+  concatBytes([ascii(id), synchsafe(body.length), Uint8Array.of(0, 0), body]);
+
+const id3TextFrame = (id: string, text: string) =>
+  id3Frame(id, concatBytes([Uint8Array.of(ID3_ENCODING_UTF8), textEncoder.encode(text)]));
+
+const id3LyricsFrame = (lyrics: string) =>
+  id3Frame(
+    "USLT",
+    concatBytes([
+      Uint8Array.of(ID3_ENCODING_UTF8),
+      ascii("chi"),
+      Uint8Array.of(0), // 空的内容描述
+      textEncoder.encode(lyrics),
+    ]),
+  );
+
+const id3PictureFrame = (picture: AudioTagPicture) =>
+  id3Frame(
+    "APIC",
+    concatBytes([
+      Uint8Array.of(ID3_ENCODING_UTF8),
+      ascii(picture.mime),
+      Uint8Array.of(0, PICTURE_TYPE_FRONT_COVER, 0), // MIME 结束符、封面类型、空描述
+      picture.data,
+    ]),
+  );
+
+/**
+ * 生成 ID3v2.4 标签字节（不含音频数据）。
+ */
+export const buildId3v2Tag = (tags: AudioTags): Uint8Array => {
+  const frames: Uint8Array[] = [];
+  if (tags.title) frames.push(id3TextFrame("TIT2", tags.title));
+  if (tags.artist) frames.push(id3TextFrame("TPE1", tags.artist));
+  if (tags.album) frames.push(id3TextFrame("TALB", tags.album));
+  if (tags.lyrics) frames.push(id3LyricsFrame(tags.lyrics));
+  if (tags.cover?.data.length) frames.push(id3PictureFrame(tags.cover));
+
+  const body = concatBytes(frames);
+  const header = concatBytes([ascii("ID3"), Uint8Array.of(4, 0, 0), synchsafe(body.length)]);
+  return concatBytes([header, body]);
+};
+
+const writeMp3Tags = (bytes: Uint8Array, tags: AudioTags): Uint8Array =>
+  concatBytes([buildId3v2Tag(tags), bytes.subarray(getId3v2Length(bytes))]);
+
+// ---------- FLAC ----------
+
+const FLAC_BLOCK_STREAMINFO = 0;
+const FLAC_BLOCK_PADDING = 1;
+const FLAC_BLOCK_VORBIS_COMMENT = 4;
+const FLAC_BLOCK_PICTURE = 6;
+/** 元数据块长度字段只有 24 位 */
+const FLAC_MAX_BLOCK_LENGTH = 0xffffff;
+
+interface FlacBlock {
+  type: number;
+  data: Uint8Array;
+}
+
+const readFlacBlocks = (
+  bytes: Uint8Array,
+  start: number,
+): { blocks: FlacBlock[]; audioOffset: number } => {
+  const blocks: FlacBlock[] = [];
+  let offset = start + 4; // 跳过 "fLaC"
+  let isLast = false;
+  while (!isLast) {
+    if (offset + 4 > bytes.length) throw new Error("FLAC 元数据不完整");
+    const header = bytes[offset];
+    isLast = (header & 0x80) !== 0;
+    const type = header & 0x7f;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const dataStart = offset + 4;
+    if (dataStart + length > bytes.length) throw new Error("FLAC 元数据不完整");
+    blocks.push({ type, data: bytes.subarray(dataStart, dataStart + length) });
+    offset = dataStart + length;
+  }
+  return { blocks, audioOffset: offset };
+};
+
+const flacBlock = (type: number, data: Uint8Array, isLast: boolean) =>
+  concatBytes([Uint8Array.of((isLast ? 0x80 : 0) | type), uint24BE(data.length), data]);
+
+/**
+ * 生成 VORBIS_COMMENT 块内容。注释字段名不区分大小写，这里统一用大写。
+ */
+export const buildVorbisComment = (tags: AudioTags, vendor = "TuneFree"): Uint8Array => {
+  const comments: string[] = [];
+  if (tags.title) comments.push(`TITLE=${tags.title}`);
+  if (tags.artist) {
+    // 多歌手拆成多个 ARTIST 字段，播放器可正确识别
+    tags.artist
+      .split(/\s*[/、]\s*/)
+      .filter(Boolean)
+      .forEach((name) => comments.push(`ARTIST=${name}`));
+  }
+  if (tags.album) comments.push(`ALBUM=${tags.album}`);
+  if (tags.lyrics) comments.push(`LYRICS=${tags.lyrics}`);
+
+  const vendorBytes = textEncoder.encode(vendor);
+  const parts: Uint8Array[] = [uint32LE(vendorBytes.length), vendorBytes, uint32LE(comments.length)];
+  for (const comment of comments) {
+    const encoded = textEncoder.encode(comment);
+    parts.push(uint32LE(encoded.length), encoded);
+  }
+  return concatBytes(parts);
+};
+
+/**
+ * 生成 PICTURE 块内容（宽高、色深留 0，播放器会自行解析图片）。
+ */
+export const buildFlacPicture = (picture: AudioTagPicture): Uint8Array => {
+  const mime = ascii(picture.mime);
+  return concatBytes([
+    uint32BE(PICTURE_TYPE_FRONT_COVER),
+    uint32BE(mime.length),
+    mime,
+    uint32BE(0), // 描述长度
+    uint32BE(0), // 宽
+    uint32BE(0), // 高
+    uint32BE(0), // 色深
+    uint32BE(0), // 索引色数量
+    uint32BE(picture.data.length),
+    picture.data,
+  ]);
+};
+
+const writeFlacTags = (bytes: Uint8Array, tags: AudioTags): Uint8Array => {
+  // 部分 FLAC 文件前面带有 ID3v2 标签，写入时一并去掉
+  const start = getId3v2Length(bytes);
+  const { blocks, audioOffset } = readFlacBlocks(bytes, start);
+
+  const kept = blocks.filter(
+    (block) =>
+      block.type !== FLAC_BLOCK_VORBIS_COMMENT &&
+      block.type !== FLAC_BLOCK_PICTURE &&
+      block.type !== FLAC_BLOCK_PADDING,
+  );
+  if (kept[0]?.type !== FLAC_BLOCK_STREAMINFO) throw new Error("缺少 STREAMINFO 块");
+
+  const nextBlocks: FlacBlock[] = [
+    kept[0],
+    { type: FLAC_BLOCK_VORBIS_COMMENT, data: buildVorbisComment(tags) },
+    ...kept.slice(1),
+  ];
+  if (tags.cover?.data.length) {
+    const picture = buildFlacPicture(tags.cover);
+    if (picture.length <= FLAC_MAX_BLOCK_LENGTH) {
+      nextBlocks.push({ type: FLAC_BLOCK_PICTURE, data: picture });
+    }
+  }
+
+  return concatBytes([
+    ascii("fLaC"),
+    ...nextBlocks.map((block, index) =>
+      flacBlock(block.type, block.data, index === nextBlocks.length - 1),
+    ),
+    bytes.subarray(audioOffset),
+  ]);
+};
+
+// ---------- 对外接口 ----------
+
+/**
+ * 按容器格式写入标签。不支持的格式或解析失败时原样返回。
+ */
+export const writeAudioTags = (
+  bytes: Uint8Array,
+  tags: AudioTags,
+): { bytes: Uint8Array; container: AudioContainer; tagged: boolean } => {
+  const container = detectAudioContainer(bytes);
+  try {
+    if (container === "mp3") return { bytes: writeMp3Tags(bytes, tags), container, tagged: true };
+    if (container === "flac") return { bytes: writeFlacTags(bytes, tags), container, tagged: true };
+  } catch (e) {
+    console.warn("Failed to write audio tags", e);
+  }
+  return { bytes, container, tagged: false };
+};
+
+const CONTAINER_MIME: Record<AudioContainer, string> = {
+  mp3: "audio/mpeg",
+  flac: "audio/flac",
+  m4a: "audio/mp4",
+  ogg: "audio/ogg",
+  unknown: "application/octet-stream",
+};
+
+/**
+ * Blob 版本的 writeAudioTags，返回带标签的新 Blob。
+ */
+export const tagAudioBlob = async (
+  audio: Blob,
+  tags: AudioTags,
+): Promise<{ blob: Blob; container: AudioContainer; tagged: boolean }> => {
+  const source = new Uint8Array(await audio.arrayBuffer());
+  const result = writeAudioTags(source, tags);
+  const type =
+    result.container === "unknown" ? audio.type || CONTAINER_MIME.unknown : CONTAINER_MIME[result.container];
+  return {
+    blob: result.tagged ? new Blob([result.bytes as BlobPart], { type }) : audio,
+    container: result.container,
+    tagged: result.tagged,
+  };
+};
@@ -0,0 +1,344 @@
+import { Song, getSongKey } from "../types";
+import { fetchSongFile, sanitizeFilename, getSongFilename, triggerDownload } from "./download";
+import { getGDStudioThrottleDelay } from "./gdStudio";
+import { createZipWriter, type ZipSink, type ZipWriter } from "./zipWriter";
+
+// ==============================
+// 歌单批量下载
+// 有限并发地解析并拉取歌曲，逐首写入 ZIP（含 .lrc 与 .m3u8）。
+// 同一时间只允许一个批量任务。GD 音乐台频控窗口接近用满时由批量队列排队等待，
+// 并为播放、歌词、搜索等交互请求预留额度（交互请求在窗口满时直接失败）。
+// ==============================
+
+const CONCURRENCY = 3;
+
+/** 为交互请求预留的 GD 音乐台请求次数，需大于全部并发歌曲可能发出的请求数 */
+const GD_STUDIO_INTERACTIVE_RESERVE = 15;
+
+/** 批量队列还需等待 GD 音乐台频控的毫秒数，0 表示可以继续 */
+export const getBatchThrottleDelay = (): number =>
+  getGDStudioThrottleDelay(GD_STUDIO_INTERACTIVE_RESERVE);
+
+export type BatchItemStatus = "pending" | "running" | "done" | "failed" | "skipped";
+
+export interface BatchDownloadItem {
+  key: string;
+  song: Song;
+  status: BatchItemStatus;
+  error?: string;
+  /** 写入压缩包后的音频文件名 */
+  fileName?: string;
+}
+
+/**
+ * running：仍有歌曲在排队或下载；waiting：剩余的都是失败项，等待重试 / 跳过 / 直接打包；
+ * finishing：正在写入目录并保存文件。
+ */
+export type BatchDownloadPhase = "running" | "waiting" | "finishing" | "finished" | "cancelled";
+
+export interface BatchDownloadState {
+  title: string;
+  quality: string;
+  phase: BatchDownloadPhase;
+  items: BatchDownloadItem[];
+  /** 边下载边写入磁盘（File System Access API），否则在内存中拼接后保存 */
+  streaming: boolean;
+}
+
+type FileWritable = {
+  write: (data: Blob | Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+};
+
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<{ createWritable: () => Promise<FileWritable> }>;
+
+interface ActiveJob {
+  state: BatchDownloadState;
+  zip: ZipWriter;
+  folder: string;
+  usedNames: Set<string>;
+  finalizeOutput: () => Promise<void>;
+  abortOutput: () => void;
+  workers: number;
+}
+
+let job: ActiveJob | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  if (job) job.state = { ...job.state, items: [...job.state.items] };
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeBatchDownload = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getBatchDownloadState = (): BatchDownloadState | null => job?.state || null;
+
+const updateItem = (key: string, patch: Partial<BatchDownloadItem>) => {
+  if (!job) return;
+  job.state.items = job.state.items.map((item) =>
+    item.key === key ? { ...item, ...patch } : item,
+  );
+  notify();
+};
+
+const findItem = (key: string) => job?.state.items.find((item) => item.key === key);
+
+/** 同名文件加序号区分 */
+const claimFileName = (current: ActiveJob, song: Song, ext: string): string => {
+  const base = getSongFilename(song, ext).slice(0, -(ext.length + 1));
+  let name = base;
+  for (let i = 2; current.usedNames.has(name.toLowerCase()); i++) {
+    name = `${base} (${i})`;
+  }
+  current.usedNames.add(name.toLowerCase());
+  return name;
+};
+
+const buildM3u8 = (items: BatchDownloadItem[]): string => {
+  const lines = ["#EXTM3U"];
+  for (const item of items) {
+    if (item.status !== "done" || !item.fileName) continue;
+    const duration = item.song.duration ? Math.round(item.song.duration) : -1;
+    lines.push(`#EXTINF:${duration},${item.song.artist} - ${item.song.name}`);
+    lines.push(item.fileName);
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+const createOutput = async (
+  fileName: string,
+): Promise<{ sink: ZipSink; streaming: boolean; finalize: () => Promise<void>; abort: () => void }> => {
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (picker) {
+    let writable: FileWritable | null = null;
+    try {
+      const handle = await picker({
+        suggestedName: fileName,
+        types: [{ description: "ZIP", accept: { "application/zip": [".zip"] } }],
+      });
+      writable = await handle.createWritable();
+    } catch (error) {
+      // 用户取消选择时不再继续；其他错误（如 iframe 中不可用）退回内存方式
+      if ((error as Error)?.name === "AbortError") throw error;
+    }
+    if (writable) {
+      const output = writable;
+      return {
+        sink: { write: (chunk) => output.write(chunk) },
+        streaming: true,
+        finalize: () => output.close(),
+        abort: () => void output.abort().catch(() => undefined),
+      };
+    }
+  }
+
+  const parts: BlobPart[] = [];
+  return {
+    sink: {
+      write: async (chunk) => {
+        // 音频数据转成 Blob 后浏览器可以把它放到磁盘上，避免长期占用 JS 堆
+        parts.push(chunk instanceof Blob ? chunk : new Blob([chunk as BlobPart]));
+      },
+    },
+    streaming: false,
+    finalize: async () => {
+      const url = URL.createObjectURL(new Blob(parts, { type: "application/zip" }));
+      triggerDownload(url, fileName);
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    },
+    abort: () => {
+      parts.length = 0;
+    },
+  };
+};
+
+const finalize = async (current: ActiveJob) => {
+  if (!current.state.items.some((item) => item.status === "done")) {
+    current.abortOutput();
+    current.state.phase = "cancelled";
+    notify();
+    return;
+  }
+  current.state.phase = "finishing";
+  notify();
+  try {
+    await current.zip.add(
+      `${current.folder}/${current.folder}.m3u8`,
+      buildM3u8(current.state.items),
+    );
+    await current.zip.close();
+    await current.finalizeOutput();
+    if (job === current) {
+      current.state.phase = "finished";
+      notify();
+    }
+  } catch (error) {
+    console.warn("[BatchDownload] finalize failed:", error);
+    current.abortOutput();
+    if (job === current) {
+      current.state.phase = "cancelled";
+      notify();
+    }
+  }
+};
+
+const settle = (current: ActiveJob) => {
+  if (job !== current || current.state.phase !== "running" || current.workers > 0) return;
+  const items = current.state.items;
+  if (items.some((item) => item.status === "pending" || item.status === "running")) return;
+
+  if (items.some((item) => item.status === "failed")) {
+    current.state.phase = "waiting";
+    notify();
+    return;
+  }
+  void finalize(current);
+};
+
+const downloadItem = async (current: ActiveJob, item: BatchDownloadItem) => {
+  updateItem(item.key, { status: "running", error: undefined });
+
+  let error = "";
+  try {
+    const file = await fetchSongFile(item.song, current.state.quality);
+    // 下载期间被跳过或任务已取消则丢弃结果
+    if (job !== current || findItem(item.key)?.status !== "running") return;
+    if (!file) {
+      error = "无法获取音频";
+    } else {
+      const name = claimFileName(current, item.song, file.ext);
+      const fileName = `${name}.${file.ext}`;
+      await current.zip.add(`${current.folder}/${fileName}`, file.blob);
+      if (file.lyrics) {
+        await current.zip.add(`${current.folder}/${name}.lrc`, file.lyrics);
+      }
+      updateItem(item.key, { status: "done", fileName });
+      return;
+    }
+  } catch (e) {
+    error = (e as Error)?.message || "下载失败";
+  }
+
+  if (job === current && findItem(item.key)?.status === "running") {
+    updateItem(item.key, { status: "failed", error });
+  }
+};
+
+/** 等到频控窗口留出预留额度之外的余量；任务被取消时提前返回 */
+const waitForThrottle = async (current: ActiveJob) => {
+  for (;;) {
+    const delay = getBatchThrottleDelay();
+    if (delay <= 0 || job !== current) return;
+    await new Promise((resolve) => setTimeout(resolve, Math.min(delay, 1000)));
+  }
+};
+
+const runWorker = async (current: ActiveJob) => {
+  current.workers++;
+  try {
+    while (job === current && current.state.phase === "running") {
+      await waitForThrottle(current);
+      if (job !== current || current.state.phase !== "running") break;
+      const next = current.state.items.find((item) => item.status === "pending");
+      if (!next) break;
+      await downloadItem(current, next);
+    }
+  } finally {
+    current.workers--;
+    settle(current);
+  }
+};
+
+const pump = (current: ActiveJob) => {
+  const pending = current.state.items.filter((item) => item.status === "pending").length;
+  const slots = Math.min(CONCURRENCY - current.workers, pending);
+  for (let i = 0; i < slots; i++) void runWorker(current);
+};
+
+/**
+ * 开始批量下载。需要在用户点击事件中调用，以便弹出保存位置选择框。
+ * 用户取消选择时抛出 AbortError。
+ */
+export const startBatchDownload = async (
+  title: string,
+  songs: Song[],
+  quality: string,
+): Promise<void> => {
+  if (job && (job.state.phase === "running" || job.state.phase === "waiting" || job.state.phase === "finishing")) {
+    throw new Error("已有批量下载任务正在进行");
+  }
+  if (songs.length === 0) throw new Error("歌单为空");
+
+  const folder = sanitizeFilename(title);
+  const output = await createOutput(`${folder}.zip`);
+
+  const seen = new Set<string>();
+  const items: BatchDownloadItem[] = [];
+  for (const song of songs) {
+    const key = getSongKey(song);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    items.push({ key, song, status: "pending" });
+  }
+
+  job = {
+    state: { title, quality, phase: "running", items, streaming: output.streaming },
+    zip: createZipWriter(output.sink),
+    folder,
+    usedNames: new Set(),
+    finalizeOutput: output.finalize,
+    abortOutput: output.abort,
+    workers: 0,
+  };
+  notify();
+  pump(job);
+};
+
+export const retryBatchItem = (key: string) => {
+  const current = job;
+  const item = findItem(key);
+  if (!current || !item || (item.status !== "failed" && item.status !== "skipped")) return;
+  if (current.state.phase !== "running" && current.state.phase !== "waiting") return;
+  current.state.phase = "running";
+  updateItem(key, { status: "pending", error: undefined });
+  pump(current);
+};
+
+export const skipBatchItem = (key: string) => {
+  const current = job;
+  const item = findItem(key);
+  if (!current || !item || item.status === "done" || item.status === "skipped") return;
+  updateItem(key, { status: "skipped" });
+  if (current.state.phase === "waiting") current.state.phase = "running";
+  settle(current);
+};
+
+/** 放弃剩余失败项，直接用已完成的歌曲打包 */
+export const finishBatchDownload = () => {
+  const current = job;
+  if (!current || current.state.phase !== "waiting") return;
+  current.state.items = current.state.items.map((item) =>
+    item.status === "failed" ? { ...item, status: "skipped" } : item,
+  );
+  void finalize(current);
+};
+
+export const cancelBatchDownload = () => {
+  const current = job;
+  if (!current) return;
+  if (current.state.phase !== "finished" && current.state.phase !== "cancelled") {
+    current.abortOutput();
+  }
+  job = null;
+  notify();
+};
@@ -0,0 +1,267 @@
+import { Playlist, Song, getSongKey } from "../types";
+import { shuffleWithSeed } from "../utils/random";
+import {
+  MIN_COUNTED_LISTEN_SECONDS,
+  listPlayRecords,
+  type PlayRecord,
+} from "./playHistory";
+import { getSongDedupeKey, normalizeMatchText, splitArtistNames } from "./songMatcher";
+import { getMusicSource, listMusicSources } from "./sourceRegistry";
+
+// ==============================
+// 每日推荐
+// 完全在本地计算：根据收藏、歌单和播放历史给歌手打分（播放记录按时间衰减），
+// 每个推荐分到几位歌手，用库内歌曲加上搜索这些歌手得到的歌曲填充，并交错排列不同音源。
+// 结果按日期缓存，同一天内保持不变。
+// ==============================
+
+const DAILY_MIX_STORAGE_KEY = "tunefree_daily_mixes";
+const DAILY_MIX_COUNT = 3;
+const ARTISTS_PER_MIX = 3;
+const DAILY_MIX_SIZE = 25;
+/** 库内歌曲在每个推荐中最多占的比例，其余用搜索结果填充 */
+const LIBRARY_SHARE = 0.4;
+const SEARCH_LIMIT = 20;
+/** 播放记录权重的半衰期（天） */
+const PLAY_HALF_LIFE_DAYS = 14;
+/** 只统计最近这么多天的播放记录 */
+const HISTORY_WINDOW_DAYS = 90;
+/** 这几天内听过的歌曲不再推荐 */
+const RECENTLY_PLAYED_DAYS = 2;
+
+const AFFINITY_WEIGHTS = {
+  favorite: 3,
+  playlist: 1,
+  play: 1,
+  /** 很快切走的播放视为不喜欢 */
+  skip: -0.5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyMix {
+  id: string;
+  title: string;
+  /** 该推荐围绕的歌手 */
+  artists: string[];
+  songs: Song[];
+}
+
+export interface DailyMixLibrary {
+  favorites: Song[];
+  playlists: Playlist[];
+}
+
+interface StoredDailyMixes {
+  date: string;
+  mixes: DailyMix[];
+}
+
+interface ArtistAffinity {
+  key: string;
+  name: string;
+  score: number;
+}
+
+const getDateKey = (now: number) => {
+  const date = new Date(now);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const getLibrarySongs = (library: DailyMixLibrary) => {
+  const seen = new Set<string>();
+  return [...library.favorites, ...library.playlists.flatMap((p) => p.songs)].filter((song) => {
+    const key = getSongKey(song);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const computeArtistAffinity = (
+  library: DailyMixLibrary,
+  records: PlayRecord[],
+  now: number,
+): ArtistAffinity[] => {
+  const artists = new Map<string, ArtistAffinity>();
+  const addScore = (artist: string, weight: number) => {
+    splitArtistNames(artist).forEach((name) => {
+      const key = normalizeMatchText(name);
+      if (!key) return;
+      const entry = artists.get(key) || { key, name, score: 0 };
+      entry.score += weight;
+      artists.set(key, entry);
+    });
+  };
+
+  library.favorites.forEach((song) => addScore(song.artist, AFFINITY_WEIGHTS.favorite));
+  library.playlists.forEach((playlist) =>
+    playlist.songs.forEach((song) => addScore(song.artist, AFFINITY_WEIGHTS.playlist)),
+  );
+  records.forEach((record) => {
+    const ageDays = Math.max(0, now - record.startedAt) / DAY_MS;
+    const decay = Math.pow(0.5, ageDays / PLAY_HALF_LIFE_DAYS);
+    const counted =
+      record.completed || record.listenedSeconds >= MIN_COUNTED_LISTEN_SECONDS;
+    addScore(
+      record.song.artist,
+      (counted ? AFFINITY_WEIGHTS.play : AFFINITY_WEIGHTS.skip) * decay,
+    );
+  });
+
+  return [...artists.values()]
+    .filter((artist) => artist.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+/** 按音源轮流取歌，避免同一音源的歌曲连成一片 */
+const interleaveBySource = (songs: Song[]): Song[] => {
+  const buckets = new Map<string, Song[]>();
+  songs.forEach((song) => {
+    const bucket = buckets.get(String(song.source)) || [];
+    bucket.push(song);
+    buckets.set(String(song.source), bucket);
+  });
+  const result: Song[] = [];
+  const queues = [...buckets.values()];
+  while (result.length < songs.length) {
+    queues.forEach((queue) => {
+      const song = queue.shift();
+      if (song) result.push(song);
+    });
+  }
+  return result;
+};
+
+const searchArtistSongs = async (artist: string, source: string): Promise<Song[]> => {
+  const provider = getMusicSource(source);
+  if (!provider?.search) return [];
+  try {
+    return await provider.search(artist, 1, SEARCH_LIMIT);
+  } catch {
+    return [];
+  }
+};
+
+const buildDailyMixes = async (
+  library: DailyMixLibrary,
+  records: PlayRecord[],
+  seed: number,
+  dateKey: string,
+  now: number,
+): Promise<DailyMix[]> => {
+  const artists = computeArtistAffinity(library, records, now).slice(
+    0,
+    DAILY_MIX_COUNT * ARTISTS_PER_MIX,
+  );
+  if (artists.length === 0) return [];
+
+  // 排名靠前的歌手分散到不同推荐中
+  const groups: ArtistAffinity[][] = Array.from(
+    { length: Math.min(DAILY_MIX_COUNT, artists.length) },
+    () => [],
+  );
+  artists.forEach((artist, i) => groups[i % groups.length].push(artist));
+
+  const recentSince = now - RECENTLY_PLAYED_DAYS * DAY_MS;
+  const recentKeys = new Set(
+    records.filter((record) => record.startedAt >= recentSince).map((record) => record.songKey),
+  );
+  const librarySongs = getLibrarySongs(library).filter(
+    (song) => !recentKeys.has(getSongKey(song)),
+  );
+  // 每位歌手轮流使用不同的核心音源搜索，兼顾音源多样性与请求量
+  const sources = listMusicSources(
+    (p) => p.capabilities.aggregate === "core" && typeof p.search === "function",
+  ).map((p) => p.id);
+  let searchCount = 0;
+
+  const mixes = await Promise.all(
+    groups.map(async (group, i): Promise<DailyMix | null> => {
+      const artistKeys = new Set(group.map((artist) => artist.key));
+      const fromLibrary = shuffleWithSeed(
+        librarySongs.filter((song) =>
+          splitArtistNames(song.artist).some((name) => artistKeys.has(normalizeMatchText(name))),
+        ),
+        seed + i,
+      ).slice(0, Math.floor(DAILY_MIX_SIZE * LIBRARY_SHARE));
+
+      const searched = sources.length
+        ? await Promise.all(
+            group.map((artist) =>
+              searchArtistSongs(artist.name, sources[(seed + searchCount++) % sources.length]),
+            ),
+          )
+        : [];
+
+      const seen = new Set(fromLibrary.map(getSongDedupeKey));
+      const candidates = shuffleWithSeed(searched.flat(), seed + i).filter((song) => {
+        const key = getSongDedupeKey(song);
+        if (seen.has(key) || recentKeys.has(getSongKey(song))) return false;
+        seen.add(key);
+        return true;
+      });
+      const songs = interleaveBySource(
+        shuffleWithSeed(
+          [...fromLibrary, ...candidates.slice(0, DAILY_MIX_SIZE - fromLibrary.length)],
+          seed + i,
+        ),
+      ).map((song) => ({ ...song, url: undefined, lrc: undefined }));
+      if (songs.length === 0) return null;
+
+      return {
+        id: `${dateKey}-${i}`,
+        title: `每日推荐 ${i + 1}`,
+        artists: group.map((artist) => artist.name),
+        songs,
+      };
+    }),
+  );
+  return mixes.filter((mix): mix is DailyMix => mix !== null);
+};
+
+const loadStoredDailyMixes = (): StoredDailyMixes | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DAILY_MIX_STORAGE_KEY) || "null");
+    return stored && typeof stored.date === "string" && Array.isArray(stored.mixes)
+      ? stored
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 获取今天的每日推荐。同一天内直接返回缓存；refresh 为 true 时换一批重新生成。
+ * 收藏、歌单和播放历史都为空时返回空数组。
+ */
+export const getDailyMixes = async (
+  library: DailyMixLibrary,
+  options: { refresh?: boolean } = {},
+): Promise<DailyMix[]> => {
+  const now = Date.now();
+  const dateKey = getDateKey(now);
+  const stored = loadStoredDailyMixes();
+  if (!options.refresh && stored?.date === dateKey && stored.mixes.length > 0) {
+    return stored.mixes;
+  }
+
+  const records = await listPlayRecords(now - HISTORY_WINDOW_DAYS * DAY_MS).catch(
+    () => [] as PlayRecord[],
+  );
+  const seed = options.refresh
+    ? Math.floor(Math.random() * 0x100000000)
+    : Number(dateKey.replace(/-/g, ""));
+  const mixes = await buildDailyMixes(library, records, seed, dateKey, now);
+
+  if (mixes.length > 0) {
+    const data: StoredDailyMixes = { date: dateKey, mixes };
+    try {
+      localStorage.setItem(DAILY_MIX_STORAGE_KEY, JSON.stringify(data));
+    } catch {
+      /* 存储已满时下次重新生成 */
+    }
+  }
+  return mixes;
+};
@@ -0,0 +1,135 @@
+import { Song } from "../types";
+import { detectImageMime, tagAudioBlob, type AudioContainer } from "./audioTags";
+import { resolveSongLyricsForExport } from "./lyricOverrides";
+import { proxyFetchBlob } from "./proxy";
+import { resolvePlayableUrl } from "./songMatcher";
+import { getMusicSource } from "./sourceRegistry";
+import { fixUrl } from "./utils";
+
+// ==============================
+// 歌曲下载
+// 拉取音频字节并写入标题 / 歌手 / 专辑 / 封面 / 歌词标签后保存为文件。
+// ==============================
+
+const AUDIO_FETCH_TIMEOUT_MS = 120000;
+const COVER_FETCH_TIMEOUT_MS = 15000;
+
+const QUALITY_EXT: Record<string, string> = {
+  "128k": "mp3",
+  "320k": "mp3",
+  flac: "flac",
+  flac24bit: "flac",
+};
+
+const CONTAINER_EXT: Partial<Record<AudioContainer, string>> = {
+  mp3: "mp3",
+  flac: "flac",
+  m4a: "m4a",
+  ogg: "ogg",
+};
+
+export interface SongFile {
+  blob: Blob;
+  ext: string;
+  lyrics: string;
+  /** 是否成功写入了标签（不支持的格式保持原样） */
+  tagged: boolean;
+}
+
+export const triggerDownload = (url: string, filename: string): void => {
+  if (!url) return;
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.target = "_blank";
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
+/** 去掉文件系统不允许的字符 */
+export const sanitizeFilename = (name: string): string =>
+  name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_").replace(/\s+/g, " ").trim() || "untitled";
+
+export const getSongFilename = (song: Song, ext: string): string =>
+  `${sanitizeFilename(`${song.artist} - ${song.name}`)}.${ext}`;
+
+export const getQualityExt = (quality: string): string => QUALITY_EXT[quality] || "mp3";
+
+/**
+ * 获取歌曲封面原始数据：优先使用已有 pic，否则向音源查询。
+ */
+export const fetchSongCoverBlob = async (song: Song): Promise<Blob | null> => {
+  const picUrl = song.pic
+    ? fixUrl(song.pic)
+    : await getMusicSource(song.source)
+        ?.cover?.(song.id, song)
+        .catch(() => "");
+  return picUrl ? proxyFetchBlob(picUrl, COVER_FETCH_TIMEOUT_MS) : null;
+};
+
+/**
+ * 下载音频并写入标签。取不到地址或音频下载失败时返回 null。
+ * 已解析过播放地址时可通过 resolvedUrl 传入，避免重复请求。
+ */
+export const fetchSongFile = async (
+  song: Song,
+  quality: string,
+  resolvedUrl?: string,
+): Promise<SongFile | null> => {
+  const url = resolvedUrl || (await resolvePlayableUrl(song, quality));
+  if (!url) return null;
+
+  const audio = await proxyFetchBlob(url, AUDIO_FETCH_TIMEOUT_MS);
+  if (!audio || audio.size === 0) return null;
+
+  const [lyrics, coverBlob] = await Promise.all([
+    resolveSongLyricsForExport(song),
+    fetchSongCoverBlob(song).catch(() => null),
+  ]);
+
+  let cover: { data: Uint8Array; mime: string } | undefined;
+  if (coverBlob && coverBlob.size > 0) {
+    const data = new Uint8Array(await coverBlob.arrayBuffer());
+    cover = { data, mime: detectImageMime(data, coverBlob.type || undefined) };
+  }
+
+  const result = await tagAudioBlob(audio, {
+    title: song.name,
+    artist: song.artist,
+    album: song.album,
+    lyrics,
+    cover,
+  });
+
+  return {
+    blob: result.blob,
+    ext: CONTAINER_EXT[result.container] || getQualityExt(quality),
+    lyrics,
+    tagged: result.tagged,
+  };
+};
+
+/**
+ * 下载单曲到设备。优先保存带标签的文件；浏览器无法读取音频字节（CORS / 代理失败）时
+ * 退回为直接打开下载链接。
+ */
+export const downloadSong = async (
+  song: Song,
+  quality: string,
+): Promise<"tagged" | "untagged" | "direct"> => {
+  const url = await resolvePlayableUrl(song, quality);
+  if (!url) throw new Error("无法获取下载地址");
+
+  const file = await fetchSongFile(song, quality, url).catch(() => null);
+  if (file) {
+    const objectUrl = URL.createObjectURL(file.blob);
+    triggerDownload(objectUrl, getSongFilename(song, file.ext));
+    // 给浏览器留出开始下载的时间再释放
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 60000);
+    return file.tagged ? "tagged" : "untagged";
+  }
+
+  triggerDownload(url, getSongFilename(song, getQualityExt(quality)));
+  return "direct";
+};
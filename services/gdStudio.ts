@@ -1,6 +1,8 @@
-import { Song } from "../types";
+import { LyricBundle, Song } from "../types";
 import { GD_STUDIO_API_BASE } from "./config";
+import { createLyricBundle, joinLyricBundle } from "./lyricFormats";
 import { proxyFetch } from "./proxy";
+import { registerMusicSource } from "./sourceRegistry";
 import { fixUrl } from "./utils";
 
 type GdStudioTrack = {
@@ -14,7 +16,7 @@ type GdStudioTrack = {
   source?: string;
 };
 
-type GdStudioSource = "netease" | "kuwo" | "joox" | "bilibili";
+export type GdStudioSource = "netease" | "kuwo" | "joox" | "bilibili";
 
 type CachedTrackMeta = {
   pic?: string;
@@ -36,12 +38,43 @@ const buildJooxCoverUrl = (picId: string, size: 300 | 500 = 500): string =>
   `https://image.joox.com/JOOXcover/0/${picId}/${size}`;
 
 const trackMetaCache = new Map<string, CachedTrackMeta>();
-const lyricCache = new Map<string, string>();
+const lyricCache = new Map<string, LyricBundle>();
 const picCache = new Map<string, string>();
 const urlCache = new Map<string, { url: string; expiresAt: number }>();
 
 const URL_CACHE_TTL = 5 * 60 * 1000;
 
+// 公开接口频控：5 分钟内不超过 50 次请求（见 GD_STUDIO_RATE_LIMIT_HINT）
+const RATE_LIMIT_MAX_REQUESTS = 50;
+const RATE_LIMIT_WINDOW_MS = 5 * 60 * 1000;
+const requestTimestamps: number[] = [];
+
+const pruneRequestTimestamps = (now: number) => {
+  while (requestTimestamps.length && now - requestTimestamps[0] >= RATE_LIMIT_WINDOW_MS) {
+    requestTimestamps.shift();
+  }
+};
+
+/**
+ * 距离窗口内余量超过 reserve 次还需等待的毫秒数，0 表示可以继续请求。
+ * 批量下载等后台任务传入 reserve，为播放、歌词、搜索等交互请求预留额度。
+ */
+export const getGDStudioThrottleDelay = (reserve = 0): number => {
+  const now = Date.now();
+  pruneRequestTimestamps(now);
+  const limit = Math.max(1, RATE_LIMIT_MAX_REQUESTS - reserve);
+  if (requestTimestamps.length < limit) return 0;
+  return requestTimestamps[requestTimestamps.length - limit] + RATE_LIMIT_WINDOW_MS - now;
+};
+
+/** 滑动窗口限流：窗口已满时立即失败，不让交互请求排队等待 */
+const acquireRequestSlot = (): void => {
+  if (getGDStudioThrottleDelay() > 0) {
+    throw new Error("GD_STUDIO_RATE_LIMIT");
+  }
+  requestTimestamps.push(Date.now());
+};
+
 const countDecodeArtifacts = (text: string): number =>
   (text.match(/�/g) || []).length;
 
@@ -78,6 +111,7 @@ const looksLikeRateLimitResponse = (status: number, text: string): boolean => {
 const fetchGDStudioData = async <T = any>(
   params: Record<string, string | number>,
 ): Promise<T> => {
+  acquireRequestSlot();
   const response = await proxyFetch(buildApiUrl(params), {}, 12000);
   if (!response) {
     throw new Error("GD_STUDIO_UNAVAILABLE");
@@ -257,14 +291,13 @@ export const getGDStudioSongUrl = async (
 export const getGDStudioLyrics = async (
   id: string | number,
   source: GdStudioSource,
-): Promise<string> => {
+): Promise<LyricBundle> => {
   const trackMeta = resolveTrackMeta(id, source);
   const requestId = trackMeta.lyricId || String(id);
   const cacheKey = getTrackKey(requestId, source);
 
-  if (lyricCache.has(cacheKey)) {
-    return lyricCache.get(cacheKey) || "";
-  }
+  const cached = lyricCache.get(cacheKey);
+  if (cached) return cached;
 
   try {
     const data = await fetchGDStudioData<{ lyric?: string; tlyric?: string }>({
@@ -273,16 +306,18 @@ export const getGDStudioLyrics = async (
       id: requestId,
     });
 
-    const main = typeof data?.lyric === "string" ? data.lyric.trim() : "";
-    const trans = typeof data?.tlyric === "string" ? data.tlyric.trim() : "";
-    const lrc = main && trans ? `${main}\n${trans}` : main;
+    const bundle = createLyricBundle(
+      typeof data?.lyric === "string" ? data.lyric : "",
+      typeof data?.tlyric === "string" ? data.tlyric : "",
+    );
 
-    lyricCache.set(cacheKey, lrc);
+    lyricCache.set(cacheKey, bundle);
     rememberTrackMeta(id, source, { lyricId: requestId });
-    return lrc;
+    return bundle;
   } catch {
-    lyricCache.set(cacheKey, "");
-    return "";
+    const empty = createLyricBundle();
+    lyricCache.set(cacheKey, empty);
+    return empty;
   }
 };
 
@@ -354,11 +389,12 @@ export const parseGDStudioSongFull = async (
   quality: string = "320k",
   songMeta?: Pick<Song, "pic" | "picId">,
 ): Promise<{ url: string | null; lrc: string; pic: string } | null> => {
-  const [url, lrc, pic] = await Promise.all([
+  const [url, lyrics, pic] = await Promise.all([
     getGDStudioSongUrl(id, source, quality),
     getGDStudioLyrics(id, source),
     resolveGDStudioPic(id, source, songMeta),
   ]);
+  const lrc = joinLyricBundle(lyrics);
 
   if (!url && !lrc && !pic) return null;
 
@@ -368,3 +404,42 @@ export const parseGDStudioSongFull = async (
     pic,
   };
 };
+
+const GD_STUDIO_ONLY_SOURCE_META: Record<
+  (typeof GD_STUDIO_ONLY_SOURCES)[number],
+  {
+    order: number;
+    label: { short: string; full: string };
+    badgeClass: string;
+    aggregate: "extended" | false;
+  }
+> = {
+  joox: {
+    order: 40,
+    label: { short: "JOOX", full: "JOOX" },
+    badgeClass: "bg-purple-100 text-purple-700",
+    aggregate: "extended",
+  },
+  bilibili: {
+    order: 50,
+    label: { short: "bilibili", full: "bilibili" },
+    badgeClass: "bg-gray-200 text-gray-600",
+    aggregate: false,
+  },
+};
+
+// GD 音乐台独占音源：搜索 / 播放地址 / 歌词 / 封面全部走 GD 音乐台接口
+for (const source of GD_STUDIO_ONLY_SOURCES) {
+  const meta = GD_STUDIO_ONLY_SOURCE_META[source];
+  registerMusicSource({
+    id: source,
+    order: meta.order,
+    label: meta.label,
+    badgeClass: meta.badgeClass,
+    capabilities: { aggregate: meta.aggregate, gdStudioFallback: false },
+    search: (keyword, page, limit) => searchGDStudio(keyword, source, page, limit),
+    lyrics: (id) => getGDStudioLyrics(id, source),
+    url: (id, quality) => getGDStudioSongUrl(id, source, quality),
+    cover: (id, songMeta) => resolveGDStudioPic(id, source, songMeta),
+  });
+}
@@ -0,0 +1,57 @@
+// ==============================
+// IndexedDB 工具
+// 轻量封装：按库名缓存连接、把 IDBRequest 转为 Promise。
+// ==============================
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * 打开（或创建）数据库。同名数据库只建立一次连接；打开失败时清除缓存，下次调用会重试。
+ */
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void,
+): Promise<IDBDatabase> => {
+  const existing = connections.get(name);
+  if (existing) return existing;
+
+  const pending = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not supported"));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // 其他标签页升级数据库时主动断开，避免阻塞
+      db.onversionchange = () => {
+        db.close();
+        connections.delete(name);
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`IndexedDB ${name} is blocked`));
+  });
+
+  connections.set(name, pending);
+  pending.catch(() => connections.delete(name));
+  return pending;
+};
+
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("transaction aborted"));
+  });
@@ -1,7 +1,19 @@
-import { Song, TopList } from "../types";
+import { LyricBundle, Song, TopList } from "../types";
 import { SELF_HOSTED_PROXY } from "./config";
+import { createLyricBundle } from "./lyricFormats";
+import { resolveNativeUrl } from "./nativeUrl";
 import { getProxies, proxyFetchJson } from "./proxy";
-import { fixUrl } from "./utils";
+import {
+  registerMusicSource,
+  type SourceAlbum,
+  type SourceAlbumSummary,
+  type SourceArtist,
+  type SourceArtistSummary,
+  type SourcePlaylist,
+  type SourcePlaylistCategory,
+  type SourcePlaylistSummary,
+} from "./sourceRegistry";
+import { fixUrl, normalizeSongs, toDurationSeconds, toOptionalId } from "./utils";
 
 // ==============================
 // 酷我音乐 直连接口
@@ -46,6 +58,49 @@ export const batchFetchKuwoCovers = async (songs: Song[]): Promise<Song[]> => {
   return Promise.all(coverPromises);
 };
 
+/**
+ * 请求旧版 search.kuwo.cn/r.s 接口，依次尝试代理。
+ * 旧版 API 返回单引号 dict 格式（非标准 JSON），需预处理后解析；
+ * isValid 不通过时继续尝试下一个代理，全部失败返回 null。
+ */
+const fetchKuwoLegacyJson = async (
+  rawUrl: string,
+  isValid: (data: any) => boolean,
+): Promise<any> => {
+  for (const proxy of getProxies()) {
+    try {
+      const finalUrl = `${proxy}${encodeURIComponent(rawUrl)}`;
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 8000);
+      const isSelfProxy = proxy === SELF_HOSTED_PROXY;
+
+      const resp = await fetch(finalUrl, {
+        ...(isSelfProxy ? {} : { mode: "cors" as RequestMode }),
+        credentials: "omit",
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+
+      const data = JSON.parse((await resp.text()).replace(/'/g, '"'));
+      if (isValid(data)) return data;
+    } catch {
+      /* 继续下一个代理 */
+    }
+  }
+  return null;
+};
+
+/** 旧版接口的文本字段含 &nbsp; HTML 实体，需清理 */
+const cleanKuwoText = (value: unknown): string =>
+  String(value || "").replace(/&nbsp;/g, " ").trim();
+
+/** 旧版接口的图片字段可能是相对路径 */
+const fixKuwoImage = (pic: unknown, baseUrl: string): string => {
+  const value = String(pic || "").trim();
+  if (!value) return "";
+  return fixUrl(/^(https?:)?\/\//.test(value) ? value : `${baseUrl}${value.replace(/^\//, "")}`);
+};
+
 /**
  * 酷我搜索：旧版 search.kuwo.cn/r.s（无需 CSRF，稳定可用）。
  * 新版 v2 接口存在 CSRF Token 校验问题，暂不使用。
@@ -62,51 +117,108 @@ export const searchKuwo = async (
 ): Promise<Song[]> => {
   const pn = page - 1; // 旧版 API 页码从 0 开始
   const rawUrl = `http://search.kuwo.cn/r.s?all=${encodeURIComponent(keyword)}&ft=music&itemset=web_2013&pn=${pn}&rn=${limit}&encoding=utf8&rformat=json&moession=1&vkey=VKEY`;
-  const proxies = getProxies();
+  const data = await fetchKuwoLegacyJson(
+    rawUrl,
+    (result) => Array.isArray(result?.abslist) && result.abslist.length > 0,
+  );
+  if (!data) return [];
 
-  for (const proxy of proxies) {
-    try {
-      const finalUrl = `${proxy}${encodeURIComponent(rawUrl)}`;
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 8000);
-      const isSelfProxy = proxy === SELF_HOSTED_PROXY;
+  const songs: Song[] = data.abslist.map((s: any) => {
+    const rid = String(s.MUSICRID || "").replace("MUSIC_", "");
+    return {
+      id: rid || String(s.DC_TARGETID || Math.random()),
+      name: cleanKuwoText(s.SONGNAME || s.NAME),
+      artist: cleanKuwoText(s.ARTIST),
+      album: cleanKuwoText(s.ALBUM),
+      pic: "",
+      source: "kuwo" as const,
+      duration: toDurationSeconds(s.DURATION),
+      artistId: toOptionalId(s.ARTISTID),
+      albumId: toOptionalId(s.ALBUMID),
+    };
+  });
 
-      const resp = await fetch(finalUrl, {
-        ...(isSelfProxy ? {} : { mode: "cors" as RequestMode }),
-        credentials: "omit",
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
+  // 旧版 API 无封面，通过 artistpicserver 批量补全
+  return batchFetchKuwoCovers(songs);
+};
 
-      let text = await resp.text();
-      // 旧版 kuwo API 返回单引号 dict，转换为标准 JSON
-      text = text.replace(/'/g, '"');
-
-      const data = JSON.parse(text);
-      const list = data?.abslist;
-      if (!list || !Array.isArray(list) || list.length === 0) continue;
-
-      const songs: Song[] = list.map((s: any) => {
-        const rid = String(s.MUSICRID || "").replace("MUSIC_", "");
-        return {
-          id: rid || String(s.DC_TARGETID || Math.random()),
-          // 旧版 API 歌名含 &nbsp; HTML 实体，需清理
-          name: (s.SONGNAME || s.NAME || "").replace(/&nbsp;/g, " ").trim(),
-          artist: (s.ARTIST || "").replace(/&nbsp;/g, " ").trim(),
-          album: (s.ALBUM || "").replace(/&nbsp;/g, " ").trim(),
-          pic: "",
-          source: "kuwo" as const,
-        };
-      });
+/** 旧版 r.s 按类型搜索（ft 参数），返回解析后的响应 */
+const searchKuwoLegacy = (
+  keyword: string,
+  ft: "artist" | "album" | "playlist",
+  page: number,
+  limit: number,
+  listKey: string,
+) =>
+  fetchKuwoLegacyJson(
+    `http://search.kuwo.cn/r.s?all=${encodeURIComponent(keyword)}&ft=${ft}&itemset=web_2013&pn=${page - 1}&rn=${limit}&encoding=utf8&rformat=json&vipver=1`,
+    (data) => Array.isArray(data?.[listKey]),
+  );
 
-      // 旧版 API 无封面，通过 artistpicserver 批量补全
-      return batchFetchKuwoCovers(songs);
-    } catch {
-      /* 继续下一个代理 */
-    }
-  }
+/** 酷我歌手搜索：r.s ft=artist */
+export const searchKuwoArtists = async (
+  keyword: string,
+  page: number,
+  limit: number,
+): Promise<SourceArtistSummary[]> => {
+  const data = await searchKuwoLegacy(keyword, "artist", page, limit, "abslist");
+  if (!data) return [];
+
+  return data.abslist.map((artist: any) => ({
+    id: String(artist.ARTISTID || artist.id),
+    name: cleanKuwoText(artist.ARTIST || artist.name),
+    cover: fixKuwoImage(artist.hts_PICPATH || artist.PICPATH, "http://img1.kwcdn.kuwo.cn/star/starheads/"),
+    albumCount: Number(artist.ALBUMNUM) || undefined,
+  }));
+};
 
-  return [];
+/** 酷我专辑搜索：r.s ft=album */
+export const searchKuwoAlbums = async (
+  keyword: string,
+  page: number,
+  limit: number,
+): Promise<SourceAlbumSummary[]> => {
+  const data = await searchKuwoLegacy(keyword, "album", page, limit, "albumlist");
+  if (!data) return [];
+
+  return data.albumlist.map((album: any) => ({
+    id: String(album.albumid || album.id),
+    name: cleanKuwoText(album.name),
+    cover: fixKuwoImage(album.hts_img || album.pic, "http://img1.kwcdn.kuwo.cn/star/albumcover/"),
+    artist: cleanKuwoText(album.artist),
+    publishDate: album.pub || undefined,
+  }));
+};
+
+/** 酷我歌单搜索：r.s ft=playlist */
+export const searchKuwoPlaylists = async (
+  keyword: string,
+  page: number,
+  limit: number,
+): Promise<SourcePlaylistSummary[]> => {
+  const data = await searchKuwoLegacy(keyword, "playlist", page, limit, "abslist");
+  if (!data) return [];
+
+  return data.abslist.map((item: any) => ({
+    id: String(item.playlistid || item.id),
+    name: cleanKuwoText(item.name),
+    cover: fixKuwoImage(item.hts_pic || item.pic, "http://img1.kwcdn.kuwo.cn/star/userpl2015/"),
+    playCount: Number(item.playcnt) || undefined,
+    creator: cleanKuwoText(item.nickname) || undefined,
+  }));
+};
+
+/**
+ * 酷我热搜：hotword.kuwo.cn（客户端热搜词接口）。
+ * 酷我的搜索建议接口需要 CSRF Token，暂不提供。
+ */
+export const getKuwoHotKeywords = async (): Promise<string[]> => {
+  const data = await proxyFetchJson(
+    "http://hotword.kuwo.cn/hotword.s?prod=kwplayer_ar_9.3.0.1&corp=kuwo&newver=2&vipver=9.3.0.1&source=kwplayer_ar_9.3.0.1_40.apk&p2p=1&notrace=0&uid=0&plat=kwplayer_ar&rformat=json&encoding=utf8&tabid=1",
+  );
+  const words = data?.tagvalue;
+  if (!Array.isArray(words)) return [];
+  return words.map((item: any) => cleanKuwoText(item.key)).filter(Boolean);
 };
 
 // ==============================
@@ -175,6 +287,8 @@ export const getKuwoTopListDetail = async (
     album: s.album || "",
     pic: "",
     source: "kuwo" as const,
+    artistId: toOptionalId(s.artistid),
+    albumId: toOptionalId(s.albumid),
   }));
 
   // kbangserver 不返回封面，通过 artistpicserver 批量补全
@@ -190,12 +304,13 @@ export const getKuwoTopListDetail = async (
  * 1. 优先使用 openapi/v1/www/lyric/getlyric（兼容性更好）
  * 2. 降级到 m.kuwo.cn/newh5/singles/songinfoandlrc（httpsStatus=1 防止 301 重定向）
  *
- * 歌词格式：将 lrclist 转换为标准 LRC 时间轴格式（[mm:ss.xx]text）。
+ * 歌词格式：将 lrclist 转换为标准 LRC 时间轴格式（[mm:ss.xx]text），
+ * 与上一行时间相同的行作为翻译层返回。
  * @param id 歌曲 ID
  */
 export const fetchKuwoLyrics = async (
   id: string | number,
-): Promise<string> => {
+): Promise<LyricBundle> => {
   try {
     let lrcList: any[] | null = null;
 
@@ -215,17 +330,265 @@ export const fetchKuwoLyrics = async (
       }
     }
 
-    if (!Array.isArray(lrcList)) return "";
+    if (!Array.isArray(lrcList)) return createLyricBundle();
 
-    return lrcList
-      .map((l: any) => {
-        const t = parseFloat(l.time || "0");
-        const min = Math.floor(t / 60).toString().padStart(2, "0");
-        const sec = (t % 60).toFixed(2).padStart(5, "0");
-        return `[${min}:${sec}]${l.lineLyric || ""}`;
-      })
-      .join("\n");
+    // 双语歌词中译文紧跟原文且时间相同，拆到翻译层
+    const original: string[] = [];
+    const translation: string[] = [];
+    let lastTime = -1;
+    for (const l of lrcList) {
+      const t = parseFloat(l.time || "0");
+      const min = Math.floor(t / 60).toString().padStart(2, "0");
+      const sec = (t % 60).toFixed(2).padStart(5, "0");
+      const line = `[${min}:${sec}]${l.lineLyric || ""}`;
+      if (t === lastTime && original.length > 0) {
+        translation.push(line);
+      } else {
+        original.push(line);
+      }
+      lastTime = t;
+    }
+
+    return createLyricBundle(original.join("\n"), translation.join("\n"));
   } catch {
-    return "";
+    return createLyricBundle();
+  }
+};
+
+// ==============================
+// 歌单导入
+// ==============================
+
+/** 每页拉取歌曲数 */
+const PLAYLIST_PAGE_SIZE = 100;
+/** 分页上限，避免接口异常时无限请求 */
+const PLAYLIST_MAX_PAGES = 100;
+/** 补全封面时每批并发请求数 */
+const COVER_BATCH_SIZE = 30;
+
+/**
+ * 识别酷我歌单分享链接：
+ * www.kuwo.cn/playlist_detail/xxx、m.kuwo.cn/h5app/playlist/xxx、带 pid 参数的链接
+ */
+export const parseKuwoPlaylistLink = (input: string): string | null => {
+  if (!/kuwo\.cn/.test(input)) return null;
+  const match =
+    input.match(/playlist(?:_detail)?\/(\d+)/) || input.match(/[?&]pid=(\d+)/);
+  return match ? match[1] : null;
+};
+
+/**
+ * 酷我歌单详情：nplserver.kuwo.cn/pl.svc getlistinfo（pn 从 0 开始分页）。
+ * 接口不返回歌曲封面，分批通过 batchFetchKuwoCovers 补全。
+ * @param pid 歌单 ID
+ */
+export const getKuwoPlaylistDetail = async (
+  pid: string,
+): Promise<SourcePlaylist | null> => {
+  let name = "";
+  let cover = "";
+  let total = Infinity;
+  const songs: Song[] = [];
+
+  for (let pn = 0; pn < PLAYLIST_MAX_PAGES && songs.length < total; pn++) {
+    const data = await proxyFetchJson(
+      `http://nplserver.kuwo.cn/pl.svc?op=getlistinfo&pid=${pid}&pn=${pn}&rn=${PLAYLIST_PAGE_SIZE}&encode=utf8&keyset=pl2012&identity=kuwo&pcmp4=1`,
+      12000,
+    );
+    if (!data) break;
+
+    if (pn === 0) {
+      name = data.title || "";
+      cover = data.pic || "";
+    }
+    const count = Number(data.total);
+    if (Number.isFinite(count) && count >= 0) total = count;
+
+    const list: any[] = Array.isArray(data.musiclist) ? data.musiclist : [];
+    if (list.length === 0) break;
+    songs.push(
+      ...normalizeSongs(list, "kuwo").map((song) => ({
+        ...song,
+        id: String(song.id).replace(/^MUSIC_/, ""),
+      })),
+    );
+    if (list.length < PLAYLIST_PAGE_SIZE) break;
   }
+
+  if (!name && songs.length === 0) return null;
+
+  const withCovers: Song[] = [];
+  for (let i = 0; i < songs.length; i += COVER_BATCH_SIZE) {
+    withCovers.push(...(await batchFetchKuwoCovers(songs.slice(i, i + COVER_BATCH_SIZE))));
+  }
+
+  return { id: pid, name, cover: fixUrl(cover), songs: withCovers };
+};
+
+// ==============================
+// 歌单广场
+// ==============================
+
+/** 默认分类：推荐歌单（getRcmPlayList），其余为 getTagPlayList 的标签 ID */
+const KUWO_RECOMMEND_CATEGORY = "recommend";
+const KUWO_WAPI_PARAMS = "loginUid=0&loginSid=0&appUid=76039576";
+
+/**
+ * 酷我歌单分类：wapi.kuwo.cn getTagList，响应按分组返回标签。
+ */
+export const getKuwoPlaylistCategories = async (): Promise<SourcePlaylistCategory[]> => {
+  const data = await proxyFetchJson(
+    `http://wapi.kuwo.cn/api/pc/classify/playlist/getTagList?cmd=rcm_keyword_playlist&user=0&prod=kwplayer_pc_9.0.5.0&vipver=9.0.5.0&source=kwplayer_pc_9.0.5.0&${KUWO_WAPI_PARAMS}`,
+  );
+  const groups: any[] = Array.isArray(data?.data) ? data.data : [];
+  return [
+    { id: KUWO_RECOMMEND_CATEGORY, name: "推荐" },
+    ...groups.flatMap((group) =>
+      (group.data || []).map((item: any) => ({
+        id: String(item.id),
+        name: cleanKuwoText(item.name),
+        group: cleanKuwoText(group.name) || undefined,
+      })),
+    ),
+  ];
+};
+
+/**
+ * 酷我分类歌单：推荐分类使用 getRcmPlayList（按热度），其余使用 getTagPlayList。
+ * @param tagId 标签 ID
+ */
+export const getKuwoCategoryPlaylists = async (
+  tagId: string,
+  page: number,
+  limit: number,
+): Promise<SourcePlaylistSummary[]> => {
+  const url =
+    tagId === KUWO_RECOMMEND_CATEGORY
+      ? `http://wapi.kuwo.cn/api/pc/classify/playlist/getRcmPlayList?${KUWO_WAPI_PARAMS}&pn=${page}&rn=${limit}&order=hot`
+      : `http://wapi.kuwo.cn/api/pc/classify/playlist/getTagPlayList?${KUWO_WAPI_PARAMS}&pn=${page}&id=${tagId}&rn=${limit}`;
+  const data = await proxyFetchJson(url);
+  const playlists = data?.data?.data;
+  if (!Array.isArray(playlists)) return [];
+
+  return playlists.map((item: any) => ({
+    id: String(item.id),
+    name: cleanKuwoText(item.name),
+    cover: fixUrl(item.img || ""),
+    playCount: Number(item.listencnt) || undefined,
+    creator: cleanKuwoText(item.uname) || undefined,
+  }));
+};
+
+// ==============================
+// 歌手 / 专辑
+// ==============================
+
+/** 歌手热门歌曲 / 专辑列表拉取数量 */
+const ARTIST_SONG_LIMIT = 50;
+const ARTIST_ALBUM_LIMIT = 50;
+
+const normalizeKuwoSongs = (list: unknown): Song[] =>
+  normalizeSongs(Array.isArray(list) ? list : [], "kuwo").map((song) => ({
+    ...song,
+    id: String(song.id).replace(/^MUSIC_/, ""),
+    name: cleanKuwoText(song.name),
+    artist: cleanKuwoText(song.artist),
+    album: cleanKuwoText(song.album),
+  }));
+
+/**
+ * 酷我歌手页：search.kuwo.cn artistinfo（基本信息）、albumlist（专辑列表），
+ * 热门歌曲来自 artistlistinfo.kuwo.cn artist2music，封面通过 batchFetchKuwoCovers 补全。
+ * @param id 歌手 ID
+ */
+export const getKuwoArtistDetail = async (
+  id: string,
+): Promise<SourceArtist | null> => {
+  const [info, songData, albumData] = await Promise.all([
+    fetchKuwoLegacyJson(
+      `http://search.kuwo.cn/r.s?stype=artistinfo&artistid=${id}&encoding=utf8`,
+      (data) => !!data?.name,
+    ),
+    proxyFetchJson(
+      `http://artistlistinfo.kuwo.cn/mb.slist?stype=artist2music&artistid=${id}&pn=0&rn=${ARTIST_SONG_LIMIT}`,
+    ).catch(() => null),
+    fetchKuwoLegacyJson(
+      `http://search.kuwo.cn/r.s?stype=albumlist&artistid=${id}&sortby=1&alflag=1&show_copyright_off=1&encoding=utf8&pn=0&rn=${ARTIST_ALBUM_LIMIT}`,
+      (data) => Array.isArray(data?.albumlist),
+    ),
+  ]);
+
+  const songs = await batchFetchKuwoCovers(normalizeKuwoSongs(songData?.musiclist));
+  if (!info && songs.length === 0) return null;
+
+  const albums: SourceAlbumSummary[] = (albumData?.albumlist || []).map((album: any) => ({
+    id: String(album.albumid || album.id),
+    name: cleanKuwoText(album.name),
+    cover: fixKuwoImage(album.pic, "http://img1.kwcdn.kuwo.cn/star/albumcover/"),
+    publishDate: album.pub || undefined,
+  }));
+
+  return {
+    id,
+    name: cleanKuwoText(info?.name) || songs[0]?.artist || "",
+    cover: fixKuwoImage(info?.hts_pic || info?.pic, "http://img1.kwcdn.kuwo.cn/star/starheads/"),
+    description: cleanKuwoText(info?.info),
+    songs,
+    albums,
+  };
+};
+
+/**
+ * 酷我专辑页：search.kuwo.cn albuminfo，曲目统一使用专辑封面。
+ * @param id 专辑 ID
+ */
+export const getKuwoAlbumDetail = async (
+  id: string,
+): Promise<SourceAlbum | null> => {
+  const data = await fetchKuwoLegacyJson(
+    `http://search.kuwo.cn/r.s?stype=albuminfo&albumid=${id}&show_copyright_off=1&alflag=1&encoding=utf8`,
+    (result) => !!result?.name || Array.isArray(result?.musiclist),
+  );
+  if (!data) return null;
+
+  const name = cleanKuwoText(data.name);
+  const cover = fixKuwoImage(data.hts_img || data.img || data.pic, "http://img1.kwcdn.kuwo.cn/star/albumcover/");
+  return {
+    id,
+    name,
+    cover,
+    publishDate: data.pub || undefined,
+    artist: cleanKuwoText(data.artist),
+    artistId: toOptionalId(data.artistid),
+    description: cleanKuwoText(data.info),
+    songs: normalizeKuwoSongs(data.musiclist).map((song) => ({
+      ...song,
+      pic: song.pic || cover,
+      album: song.album || name,
+      albumId: song.albumId || id,
+    })),
+  };
 };
+
+registerMusicSource({
+  id: "kuwo",
+  order: 30,
+  label: { short: "酷我", full: "酷我音乐" },
+  badgeClass: "bg-yellow-100 text-yellow-700",
+  capabilities: { aggregate: "core", gdStudioFallback: true },
+  search: searchKuwo,
+  searchArtists: searchKuwoArtists,
+  searchAlbums: searchKuwoAlbums,
+  searchPlaylists: searchKuwoPlaylists,
+  hotKeywords: getKuwoHotKeywords,
+  topLists: getKuwoTopLists,
+  topListDetail: getKuwoTopListDetail,
+  lyrics: fetchKuwoLyrics,
+  url: (id, quality) => resolveNativeUrl(id, "kuwo", quality),
+  parsePlaylistLink: parseKuwoPlaylistLink,
+  playlistDetail: getKuwoPlaylistDetail,
+  playlistCategories: getKuwoPlaylistCategories,
+  categoryPlaylists: getKuwoCategoryPlaylists,
+  artistDetail: getKuwoArtistDetail,
+  albumDetail: getKuwoAlbumDetail,
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  aesEncrypt,
+  bytesToHex,
+  bytesToString,
+  md5Hex,
+  randomBytes,
+  rsaEncrypt,
+  toBytes,
+} from "./lxCrypto";
+
+// 以下向量由 Node.js crypto 生成（AES 为 PKCS#7 填充，RSA 为无填充）
+
+const RSA_SPKI_PEM = `-----BEGIN PUBLIC KEY-----
+MFwwDQYJKoZIhvcNAQEBBQADSwAwSAJBALhQyxuIVO6P0sH8R/NrY4d6YpR26eTj
+mHx4i2KYR34xCoGQydcGsZizGRm67yUK9ItX0S136qX5BcGzt1kUGssCAwEAAQ==
+-----END PUBLIC KEY-----`;
+
+const RSA_PKCS1_PEM = `-----BEGIN RSA PUBLIC KEY-----
+MEgCQQC4UMsbiFTuj9LB/Efza2OHemKUdunk45h8eItimEd+MQqBkMnXBrGYsxkZ
+uu8lCvSLV9Etd+ql+QXBs7dZFBrLAgMBAAE=
+-----END RSA PUBLIC KEY-----`;
+
+const RSA_CIPHER_HEX =
+  "8b95789a9d077261545ca2d8893c7b056c74455fdd0a04dc018ebd446e22307732d43d64b013fbc7fba3901418a9a9f27e046c259d79f78b8abe423e3f750a1b";
+
+describe("md5Hex", () => {
+  it("与标准向量一致", () => {
+    expect(md5Hex("")).toBe("d41d8cd98f00b204e9800998ecf8427e");
+    expect(md5Hex("The quick brown fox jumps over the lazy dog")).toBe(
+      "9e107d9d372bb6826bd81d3542a419d6",
+    );
+  });
+
+  it("按 UTF-8 处理中文", () => {
+    expect(md5Hex("六音音源")).toBe("9a24052883aa8e62984dfd276d86ad23");
+  });
+});
+
+describe("aesEncrypt", () => {
+  it("首个分组与 FIPS-197 AES-128 向量一致", () => {
+    const cipher = aesEncrypt(
+      toBytes("00112233445566778899aabbccddeeff", "hex"),
+      "aes-128-ecb",
+      toBytes("000102030405060708090a0b0c0d0e0f", "hex"),
+    );
+    expect(bytesToHex(cipher).slice(0, 32)).toBe("69c4e0d86a7b0430d8cdb78070b4c55a");
+    // 整块明文也会追加一个完整的填充分组
+    expect(cipher.length).toBe(32);
+  });
+
+  it("ECB 模式", () => {
+    expect(bytesToHex(aesEncrypt("hello lx", "aes-128-ecb", "0CoJUm6Qyw8W8jud"))).toBe(
+      "3aa3a72d776768156d7fb227715d3550",
+    );
+  });
+
+  it("CBC 模式，模式名也接受简写", () => {
+    const data = '{"ids":"[347230]","br":320000}';
+    const expected = "pgHP1O/hr+IboRMAq6HzpBIHZ6EvNZ69aN8Du5tXQBg=";
+    expect(bytesToString(aesEncrypt(data, "aes-128-cbc", "0CoJUm6Qyw8W8jud", "0102030405060708"), "base64")).toBe(expected);
+    expect(bytesToString(aesEncrypt(data, "cbc", "0CoJUm6Qyw8W8jud", "0102030405060708"), "base64")).toBe(expected);
+  });
+
+  it("AES-256-CBC", () => {
+    const cipher = aesEncrypt("sixteen byte msg", "aes-256-cbc", new Uint8Array(32).fill(7), new Uint8Array(16).fill(1));
+    expect(bytesToHex(cipher)).toBe(
+      "b0f7e914324ed71c2866ba6428e3838f7a56dbb98128f3cc09adead0ade1d7ec",
+    );
+  });
+
+  it("拒绝非法密钥长度", () => {
+    expect(() => aesEncrypt("data", "aes-128-ecb", "short")).toThrow("Invalid AES key length");
+  });
+});
+
+describe("rsaEncrypt", () => {
+  it("SPKI 与 PKCS#1 公钥得到相同的无填充密文", () => {
+    expect(bytesToHex(rsaEncrypt("secret", RSA_SPKI_PEM))).toBe(RSA_CIPHER_HEX);
+    expect(bytesToHex(rsaEncrypt("secret", RSA_PKCS1_PEM))).toBe(RSA_CIPHER_HEX);
+  });
+});
+
+describe("编码转换", () => {
+  it("hex / base64 / latin1 往返", () => {
+    const bytes = Uint8Array.of(0, 1, 127, 128, 255);
+    for (const encoding of ["hex", "base64", "latin1"]) {
+      expect(toBytes(bytesToString(bytes, encoding), encoding)).toEqual(bytes);
+    }
+    expect(bytesToString(toBytes("洛雪"), "utf-8")).toBe("洛雪");
+  });
+
+  it("randomBytes 返回指定长度", () => {
+    expect(randomBytes(24)).toHaveLength(24);
+  });
+});
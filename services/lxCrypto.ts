@@ -0,0 +1,382 @@
+// ==============================
+// LX 自定义音源宿主：同步字节 / 加密工具
+// LX 脚本以同步方式调用 md5 / aesEncrypt / rsaEncrypt，
+// WebCrypto 只有异步接口且不支持 ECB，因此这里用纯 TS 实现。
+// ==============================
+
+export type ByteInput = Uint8Array | ArrayBuffer | number[] | string;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8");
+
+export const utf8ToBytes = (text: string): Uint8Array => textEncoder.encode(text);
+
+export const bytesToUtf8 = (bytes: Uint8Array): string => textDecoder.decode(bytes);
+
+export const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  const clean = hex.length % 2 ? `0${hex}` : hex;
+  const out = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (b64: string): Uint8Array => {
+  const binary = atob(b64.replace(/[\r\n\s]/g, ""));
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i);
+  return out;
+};
+
+const binaryToBytes = (binary: string): Uint8Array => {
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i) & 0xff;
+  return out;
+};
+
+/**
+ * 模拟 Node Buffer.from：支持 utf-8 / hex / base64 / binary 编码，
+ * 以及数组 / ArrayBuffer / Uint8Array 输入。
+ */
+export const toBytes = (data: ByteInput, encoding: string = "utf-8"): Uint8Array => {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (Array.isArray(data)) return Uint8Array.from(data, (b) => b & 0xff);
+
+  const text = String(data);
+  switch (encoding.toLowerCase()) {
+    case "hex":
+      return hexToBytes(text);
+    case "base64":
+      return base64ToBytes(text);
+    case "binary":
+    case "latin1":
+      return binaryToBytes(text);
+    default:
+      return utf8ToBytes(text);
+  }
+};
+
+/**
+ * 模拟 Node buffer.toString(format)。
+ */
+export const bytesToString = (data: ByteInput, format: string = "utf-8"): string => {
+  const bytes = toBytes(data);
+  switch (format.toLowerCase()) {
+    case "hex":
+      return bytesToHex(bytes);
+    case "base64":
+      return bytesToBase64(bytes);
+    case "binary":
+    case "latin1":
+      return String.fromCharCode(...bytes);
+    default:
+      return bytesToUtf8(bytes);
+  }
+};
+
+// ==============================
+// MD5
+// ==============================
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const MD5_K = Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0,
+);
+
+export const md5Bytes = (input: ByteInput): Uint8Array => {
+  const message = toBytes(input);
+  const paddedLength = (((message.length + 8) >>> 6) + 1) << 6;
+  const buffer = new Uint8Array(paddedLength);
+  buffer.set(message);
+  buffer[message.length] = 0x80;
+
+  const bitLength = message.length * 8;
+  const view = new DataView(buffer.buffer);
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 0x100000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+
+  const words = new Uint32Array(16);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4, true);
+
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const sum = (a + f + MD5_K[i] + words[g]) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) >>> 0;
+    }
+
+    a0 = (a0 + a) >>> 0;
+    b0 = (b0 + b) >>> 0;
+    c0 = (c0 + c) >>> 0;
+    d0 = (d0 + d) >>> 0;
+  }
+
+  const out = new Uint8Array(16);
+  const outView = new DataView(out.buffer);
+  outView.setUint32(0, a0, true);
+  outView.setUint32(4, b0, true);
+  outView.setUint32(8, c0, true);
+  outView.setUint32(12, d0, true);
+  return out;
+};
+
+export const md5Hex = (input: ByteInput): string => bytesToHex(md5Bytes(input));
+
+// ==============================
+// AES（ECB / CBC，PKCS#7 填充）
+// ==============================
+
+const AES_SBOX = new Uint8Array(256);
+
+// 运行时生成 S 盒，避免内联 256 字节常量表
+(() => {
+  let p = 1;
+  let q = 1;
+  do {
+    p = p ^ ((p << 1) & 0xff) ^ (p & 0x80 ? 0x1b : 0);
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+    const x = q ^ ((q << 1) | (q >>> 7)) ^ ((q << 2) | (q >>> 6)) ^
+      ((q << 3) | (q >>> 5)) ^ ((q << 4) | (q >>> 4));
+    AES_SBOX[p] = (x ^ 0x63) & 0xff;
+  } while (p !== 1);
+  AES_SBOX[0] = 0x63;
+})();
+
+const xtime = (b: number): number => ((b << 1) ^ (b & 0x80 ? 0x1b : 0)) & 0xff;
+
+const expandAesKey = (key: Uint8Array): Uint8Array[] => {
+  const nk = key.length / 4;
+  const rounds = nk + 6;
+  const words: number[][] = [];
+  for (let i = 0; i < nk; i++) {
+    words.push([key[4 * i], key[4 * i + 1], key[4 * i + 2], key[4 * i + 3]]);
+  }
+
+  let rcon = 1;
+  for (let i = nk; i < 4 * (rounds + 1); i++) {
+    let temp = [...words[i - 1]];
+    if (i % nk === 0) {
+      temp = [
+        AES_SBOX[temp[1]] ^ rcon,
+        AES_SBOX[temp[2]],
+        AES_SBOX[temp[3]],
+        AES_SBOX[temp[0]],
+      ];
+      rcon = xtime(rcon);
+    } else if (nk > 6 && i % nk === 4) {
+      temp = temp.map((b) => AES_SBOX[b]);
+    }
+    words.push(words[i - nk].map((b, j) => b ^ temp[j]));
+  }
+
+  const roundKeys: Uint8Array[] = [];
+  for (let r = 0; r <= rounds; r++) {
+    roundKeys.push(Uint8Array.from(words.slice(r * 4, r * 4 + 4).flat()));
+  }
+  return roundKeys;
+};
+
+const encryptAesBlock = (block: Uint8Array, roundKeys: Uint8Array[]): Uint8Array => {
+  const state = Uint8Array.from(block, (b, i) => b ^ roundKeys[0][i]);
+  const rounds = roundKeys.length - 1;
+
+  for (let round = 1; round <= rounds; round++) {
+    for (let i = 0; i < 16; i++) state[i] = AES_SBOX[state[i]];
+
+    // ShiftRows（状态按列存储：index = col * 4 + row）
+    const shifted = new Uint8Array(16);
+    for (let col = 0; col < 4; col++) {
+      for (let row = 0; row < 4; row++) {
+        shifted[col * 4 + row] = state[((col + row) % 4) * 4 + row];
+      }
+    }
+    state.set(shifted);
+
+    if (round !== rounds) {
+      for (let col = 0; col < 4; col++) {
+        const o = col * 4;
+        const [s0, s1, s2, s3] = [state[o], state[o + 1], state[o + 2], state[o + 3]];
+        const all = s0 ^ s1 ^ s2 ^ s3;
+        state[o] = s0 ^ all ^ xtime(s0 ^ s1);
+        state[o + 1] = s1 ^ all ^ xtime(s1 ^ s2);
+        state[o + 2] = s2 ^ all ^ xtime(s2 ^ s3);
+        state[o + 3] = s3 ^ all ^ xtime(s3 ^ s0);
+      }
+    }
+
+    for (let i = 0; i < 16; i++) state[i] ^= roundKeys[round][i];
+  }
+
+  return state;
+};
+
+/**
+ * AES 加密（与 LX 宿主 utils.crypto.aesEncrypt 签名一致）。
+ * @param data 明文
+ * @param mode 形如 "aes-128-ecb" / "aes-128-cbc"，也接受 "ecb" / "cbc"
+ * @param key  密钥（16 / 24 / 32 字节）
+ * @param iv   CBC 模式的初始向量，ECB 模式忽略
+ */
+export const aesEncrypt = (
+  data: ByteInput,
+  mode: string,
+  key: ByteInput,
+  iv?: ByteInput,
+): Uint8Array => {
+  const keyBytes = toBytes(key);
+  if (![16, 24, 32].includes(keyBytes.length)) {
+    throw new Error(`Invalid AES key length: ${keyBytes.length}`);
+  }
+
+  const plain = toBytes(data);
+  const padLength = 16 - (plain.length % 16);
+  const padded = new Uint8Array(plain.length + padLength);
+  padded.set(plain);
+  padded.fill(padLength, plain.length);
+
+  const roundKeys = expandAesKey(keyBytes);
+  const isCbc = /cbc$/i.test(mode);
+  let previous = isCbc && iv ? toBytes(iv).subarray(0, 16) : new Uint8Array(16);
+  const out = new Uint8Array(padded.length);
+
+  for (let offset = 0; offset < padded.length; offset += 16) {
+    const block = padded.slice(offset, offset + 16);
+    if (isCbc) {
+      for (let i = 0; i < 16; i++) block[i] ^= previous[i];
+    }
+    const encrypted = encryptAesBlock(block, roundKeys);
+    out.set(encrypted, offset);
+    previous = encrypted;
+  }
+
+  return out;
+};
+
+// ==============================
+// RSA（无填充，LX 网易 weapi 用法）
+// ==============================
+
+const readDerLength = (bytes: Uint8Array, offset: number): [number, number] => {
+  const first = bytes[offset];
+  if (first < 0x80) return [first, offset + 1];
+  const count = first & 0x7f;
+  let length = 0;
+  for (let i = 0; i < count; i++) length = (length << 8) | bytes[offset + 1 + i];
+  return [length, offset + 1 + count];
+};
+
+const bytesToBigInt = (bytes: Uint8Array): bigint =>
+  bytes.length ? BigInt(`0x${bytesToHex(bytes)}`) : 0n;
+
+/**
+ * 从 PEM 公钥（SPKI 或 PKCS#1）中提取 modulus 与 exponent：
+ * 依次收集 DER 中出现的 INTEGER，最后两个即为 n / e。
+ */
+const parseRsaPublicKey = (pem: string): { n: bigint; e: bigint } => {
+  const body = pem.replace(/-----[^-]+-----/g, "");
+  const der = base64ToBytes(body);
+  const integers: Uint8Array[] = [];
+
+  const walk = (start: number, end: number) => {
+    let offset = start;
+    while (offset < end) {
+      const tag = der[offset];
+      const [length, contentStart] = readDerLength(der, offset + 1);
+      const contentEnd = contentStart + length;
+      if (tag === 0x30) {
+        walk(contentStart, contentEnd);
+      } else if (tag === 0x03) {
+        // BIT STRING：首字节为未使用位数，其后嵌套 RSAPublicKey
+        walk(contentStart + 1, contentEnd);
+      } else if (tag === 0x02) {
+        integers.push(der.subarray(contentStart, contentEnd));
+      }
+      offset = contentEnd;
+    }
+  };
+  walk(0, der.length);
+
+  if (integers.length < 2) throw new Error("Invalid RSA public key");
+  return {
+    n: bytesToBigInt(integers[integers.length - 2]),
+    e: bytesToBigInt(integers[integers.length - 1]),
+  };
+};
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = 1n;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+};
+
+export const rsaEncrypt = (data: ByteInput, publicKey: string): Uint8Array => {
+  const { n, e } = parseRsaPublicKey(publicKey);
+  const size = Math.ceil(n.toString(16).length / 2);
+  const cipher = modPow(bytesToBigInt(toBytes(data)), e, n)
+    .toString(16)
+    .padStart(size * 2, "0");
+  return hexToBytes(cipher);
+};
+
+export const randomBytes = (size: number): Uint8Array => {
+  const out = new Uint8Array(size);
+  crypto.getRandomValues(out);
+  return out;
+};
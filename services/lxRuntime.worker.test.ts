@@ -0,0 +1,206 @@
+/// <reference types="vite/client" />
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type {
+  LxHostResponse,
+  LxMainMessage,
+  LxScriptInfo,
+  LxWorkerMessage,
+} from "./lxSource";
+import SAMPLE_SCRIPT from "../lx-music-sixyin.js?raw";
+
+// 六音音源会校验脚本信息，与脚本发布时的元信息保持一致
+const SAMPLE_INFO: LxScriptInfo = {
+  name: "六音音源",
+  description: "v1.2.1 如失效请前往 www.sixyin.com 下载最新版本",
+  version: "1.2.1",
+  author: "",
+  homepage: "",
+  rawScript: SAMPLE_SCRIPT,
+};
+
+const KUWO_STREAM_URL = "http://sycdn.kuwo.cn/test/12345.mp3";
+
+const messages: LxWorkerMessage[] = [];
+const requestedUrls: string[] = [];
+const waiters: Array<() => void> = [];
+
+const send = (message: LxMainMessage) =>
+  (self.onmessage as (event: { data: LxMainMessage }) => void)({ data: message });
+
+/** 代替主线程代理的 lx.request 桩：按 URL 返回固定响应 */
+const stubResponse = (url: string): LxHostResponse => {
+  const ok = (body: unknown): LxHostResponse => ({
+    statusCode: 200,
+    statusMessage: "OK",
+    headers: {},
+    body,
+  });
+  if (url.startsWith("http://www.hibai.cn/api.php")) {
+    return ok({ success: true, qualityList: ["128k", "320k"], platformList: ["kw"] });
+  }
+  if (url.startsWith("http://mobi.kuwo.cn/mobi.s")) {
+    return ok(`format=mp3\r\nbitrate=320\r\nurl=${KUWO_STREAM_URL}?sig=abc\r\n`);
+  }
+  return { statusCode: 404, statusMessage: "Not Found", headers: {}, body: "" };
+};
+
+const nextMessage = async <T extends LxWorkerMessage["type"]>(
+  type: T,
+  predicate: (message: Extract<LxWorkerMessage, { type: T }>) => boolean = () => true,
+): Promise<Extract<LxWorkerMessage, { type: T }>> => {
+  const find = () =>
+    messages.find(
+      (m): m is Extract<LxWorkerMessage, { type: T }> =>
+        m.type === type && predicate(m as Extract<LxWorkerMessage, { type: T }>),
+    );
+  let found = find();
+  while (!found) {
+    await new Promise<void>((resolve) => waiters.push(resolve));
+    found = find();
+  }
+  return found;
+};
+
+beforeAll(async () => {
+  vi.stubGlobal("self", globalThis);
+  vi.stubGlobal("addEventListener", vi.fn());
+  vi.stubGlobal("postMessage", (message: LxWorkerMessage) => {
+    messages.push(message);
+    if (message.type === "http") {
+      requestedUrls.push(message.url);
+      queueMicrotask(() =>
+        send({ type: "httpResult", id: message.id, response: stubResponse(message.url) }),
+      );
+    }
+    waiters.splice(0).forEach((resolve) => resolve());
+  });
+  await import("./lxRuntime.worker");
+});
+
+describe("LX 运行时", () => {
+  it("运行示例脚本并完成 inited 握手", async () => {
+    send({ type: "load", script: SAMPLE_SCRIPT, info: SAMPLE_INFO });
+
+    const inited = await nextMessage("inited");
+    expect(Object.keys(inited.sources)).toEqual(["kw"]);
+    expect(inited.sources.kw).toMatchObject({
+      name: "酷我音乐",
+      actions: ["musicUrl"],
+      qualitys: ["128k", "320k"],
+    });
+    expect(requestedUrls[0]).toBe("http://www.hibai.cn/api.php?p=mobile&v=1.2.1");
+  });
+
+  it("通过桩请求解析 musicUrl", async () => {
+    send({
+      type: "call",
+      id: 1,
+      source: "kw",
+      action: "musicUrl",
+      info: { type: "320k", musicInfo: { songmid: "12345" } },
+    });
+
+    const result = await nextMessage("result", (m) => m.id === 1);
+    expect(result.error).toBeUndefined();
+    expect(result.result).toBe(KUWO_STREAM_URL);
+    expect(requestedUrls[requestedUrls.length - 1]).toMatch(/^http:\/\/mobi\.kuwo\.cn\/mobi\.s\?f=kuwo&q=/);
+  });
+
+  it("脚本无法直接使用 fetch、嵌套 Worker 或动态 import()", async () => {
+    // 探测脚本本身不能出现 import( 字样，否则会在加载时被整体拒绝
+    send({
+      type: "load",
+      script: `
+        const dynamicImport = "imp" + "ort('data:text/javascript,export default 1')";
+        const attempt = (run) => {
+          try {
+            run();
+            return "allowed";
+          } catch (e) {
+            return "blocked";
+          }
+        };
+        lx.send(lx.EVENT_NAMES.inited, {
+          sources: {
+            probe: {
+              name: [
+                typeof fetch,
+                typeof self.fetch,
+                typeof Object.getPrototypeOf(self).fetch,
+                typeof Worker,
+                typeof SharedWorker,
+                typeof BroadcastChannel,
+              ].join(),
+              actions: [
+                attempt(() => Function("return " + dynamicImport)()),
+                attempt(() => (function () {}).constructor("return " + dynamicImport)()),
+                attempt(() => (async function () {}).constructor("return " + dynamicImport)),
+                attempt(() => eval(dynamicImport)),
+                typeof Function("return this")(),
+              ],
+            },
+          },
+        });`,
+      info: { ...SAMPLE_INFO, rawScript: "" },
+    });
+
+    const inited = await nextMessage("inited", (m) => "probe" in m.sources);
+    expect(inited.sources.probe.name).toBe(
+      "undefined,undefined,undefined,undefined,undefined,undefined",
+    );
+    expect(inited.sources.probe.actions).toEqual([
+      "blocked",
+      "blocked",
+      "blocked",
+      "blocked",
+      "object",
+    ]);
+  });
+
+  it("utils 返回的字节数据支持 toString(encoding)", async () => {
+    send({
+      type: "load",
+      script: `
+        const { buffer, crypto } = lx.utils;
+        lx.send(lx.EVENT_NAMES.inited, {
+          sources: {
+            buffers: {
+              actions: [
+                buffer.from("abc").toString("hex"),
+                buffer.from("616263", "hex").toString(),
+                buffer.from("洛雪").toString("base64"),
+                crypto.aesEncrypt("hello lx", "aes-128-ecb", "0CoJUm6Qyw8W8jud").toString("hex"),
+                String(crypto.randomBytes(4).length),
+                String(buffer.from("abc")[0]),
+              ],
+            },
+          },
+        });`,
+      info: { ...SAMPLE_INFO, rawScript: "" },
+    });
+
+    const inited = await nextMessage("inited", (m) => "buffers" in m.sources);
+    expect(inited.sources.buffers.actions).toEqual([
+      "616263",
+      "abc",
+      "5rSb6Zuq",
+      "3aa3a72d776768156d7fb227715d3550",
+      "4",
+      "97",
+    ]);
+  });
+
+  it("拒绝包含动态 import() 的脚本", async () => {
+    send({
+      type: "load",
+      script: `import("data:text/javascript,export default 1").then(() => {
+        lx.send(lx.EVENT_NAMES.inited, { sources: { escaped: {} } });
+      });`,
+      info: { ...SAMPLE_INFO, rawScript: "" },
+    });
+
+    const error = await nextMessage("error", (m) => m.message.includes("import()"));
+    expect(error.message).toBe("脚本不允许使用动态 import()");
+    expect(messages.some((m) => m.type === "inited" && "escaped" in m.sources)).toBe(false);
+  });
+});
@@ -0,0 +1,279 @@
+/// <reference lib="webworker" />
+import {
+  aesEncrypt,
+  bytesToString,
+  md5Hex,
+  randomBytes,
+  rsaEncrypt,
+  toBytes,
+  type ByteInput,
+} from "./lxCrypto";
+import type {
+  LxHostRequestOptions,
+  LxHostResponse,
+  LxMainMessage,
+  LxScriptInfo,
+  LxWorkerMessage,
+} from "./lxSource";
+
+// ==============================
+// LX 自定义音源运行时（Web Worker）
+// 在独立 Worker 中提供 globalThis.lx 宿主 API 并执行用户导入的脚本。
+// 执行前会移除 Worker 中可直接联网、访问同源存储或启动新执行环境的全局对象，
+// 并拦截动态 import()，脚本只能通过 lx.request 经主线程代理发起请求。
+// ==============================
+
+type LxHost = ReturnType<typeof createHost>;
+
+declare global {
+  interface WorkerGlobalScope {
+    lx?: LxHost;
+  }
+}
+
+const worker = self as unknown as DedicatedWorkerGlobalScope;
+
+/**
+ * 脚本运行前需要屏蔽的全局对象：直接网络访问、同源存储（离线缓存、Service Worker 缓存），
+ * 以及可以绕开屏蔽的新执行环境（嵌套 Worker）和同源通信通道。
+ */
+const BLOCKED_GLOBALS = [
+  "fetch",
+  "XMLHttpRequest",
+  "importScripts",
+  "indexedDB",
+  "caches",
+  "WebSocket",
+  "EventSource",
+  "Worker",
+  "SharedWorker",
+  "BroadcastChannel",
+] as const;
+
+/**
+ * 动态 import() 是语法而不是全局函数，无法通过屏蔽全局对象禁用（经典 Worker 中同样可用），
+ * 只能在源码进入执行前检查。import 与括号之间允许出现空白和注释。
+ */
+const DYNAMIC_IMPORT_PATTERN = /\bimport\s*(?:\/\*[\s\S]*?\*\/\s*|\/\/[^\n]*\n\s*)*\(/;
+
+const EVENT_NAMES = {
+  request: "request",
+  inited: "inited",
+  updateAlert: "updateAlert",
+} as const;
+
+type LxRequestHandler = (payload: {
+  source: string;
+  action: string;
+  info: any;
+}) => Promise<unknown> | unknown;
+
+type LxRequestCallback = (
+  error: Error | null,
+  response: LxHostResponse | null,
+  body?: unknown,
+) => void;
+
+let requestHandler: LxRequestHandler | null = null;
+let httpSeq = 0;
+const pendingHttp = new Map<number, LxRequestCallback>();
+
+const post = (message: LxWorkerMessage) => worker.postMessage(message);
+
+/** 宿主返回的字节数据：与 LX 桌面端的 Buffer 一样可按下标读取，并支持 toString(encoding) */
+type LxBuffer = Uint8Array & { toString: (encoding?: string) => string };
+
+const toLxBuffer = (bytes: Uint8Array): LxBuffer => {
+  const buffer = Uint8Array.from(bytes);
+  return Object.assign(buffer, {
+    toString: (encoding: string = "utf-8") => bytesToString(buffer, encoding),
+  });
+};
+
+const lxRequest = (
+  url: string,
+  options: LxHostRequestOptions = {},
+  callback?: LxRequestCallback,
+) => {
+  const id = ++httpSeq;
+  if (callback) pendingHttp.set(id, callback);
+  post({
+    type: "http",
+    id,
+    url,
+    options: {
+      method: options.method,
+      headers: options.headers,
+      body: options.body,
+      form: options.form,
+      formData: options.formData,
+      timeout: options.timeout,
+    },
+  });
+  return () => {
+    pendingHttp.delete(id);
+  };
+};
+
+const createHost = (info: LxScriptInfo) => ({
+  EVENT_NAMES,
+  version: "2.0.0",
+  env: "mobile",
+  currentScriptInfo: info,
+  request: lxRequest,
+  on: (eventName: string, handler: LxRequestHandler) => {
+    if (eventName === EVENT_NAMES.request) requestHandler = handler;
+  },
+  send: (eventName: string, data: any) => {
+    if (eventName === EVENT_NAMES.inited) {
+      post({ type: "inited", sources: data?.sources || {} });
+    } else if (eventName === EVENT_NAMES.updateAlert) {
+      post({ type: "updateAlert", log: String(data?.log || ""), updateUrl: data?.updateUrl });
+    }
+    return Promise.resolve();
+  },
+  utils: {
+    crypto: {
+      md5: (text: ByteInput) => md5Hex(text),
+      aesEncrypt: (data: ByteInput, mode: string, key: ByteInput, iv?: ByteInput) =>
+        toLxBuffer(aesEncrypt(data, mode, key, iv)),
+      rsaEncrypt: (data: ByteInput, key: string) =>
+        toLxBuffer(rsaEncrypt(data, key)),
+      randomBytes: (size: number) => toLxBuffer(randomBytes(size)),
+    },
+    buffer: {
+      from: (data: ByteInput, encoding?: string) =>
+        toLxBuffer(toBytes(data, encoding)),
+      bufToString: (data: ByteInput, format?: string) =>
+        bytesToString(data, format),
+    },
+  },
+});
+
+/**
+ * 把被屏蔽的全局对象在 Worker 全局对象及其原型链上都覆盖为 undefined，
+ * 避免脚本通过 Object.getPrototypeOf(self) 取回原始实现。
+ */
+const lockDownGlobals = () => {
+  for (
+    let target: object | null = worker;
+    target && target !== Object.prototype;
+    target = Object.getPrototypeOf(target)
+  ) {
+    for (const name of BLOCKED_GLOBALS) {
+      if (target !== worker && !Object.prototype.hasOwnProperty.call(target, name)) continue;
+      lockValue(target, name, undefined);
+    }
+  }
+};
+
+const assertNoDynamicImport = (code: string) => {
+  if (DYNAMIC_IMPORT_PATTERN.test(code)) throw new Error("脚本不允许使用动态 import()");
+};
+
+/**
+ * 覆盖后原始实现已无从取得，重新赋值不会恢复它；不可配置则防止删除后露出原型链上的原始实现。
+ */
+const lockValue = (target: object, name: PropertyKey, value: unknown) =>
+  Object.defineProperty(target, name, { value, writable: true, configurable: false });
+
+/**
+ * 由字符串生成代码的入口（Function 系列构造器、eval、字符串形式的定时器）改为先检查动态 import() 再执行。
+ * 混淆过的脚本常用 Function("return this") 取全局对象，因此不直接禁用。
+ */
+const guardCodeEntryPoints = () => {
+  // 普通函数、async 函数、生成器和 async 生成器各有自己的构造器
+  const prototypes = [
+    function () {},
+    async function () {},
+    function* () {},
+    async function* () {},
+  ].map((fn) => Object.getPrototypeOf(fn) as { constructor: FunctionConstructor });
+
+  for (const prototype of prototypes) {
+    const nativeConstructor = prototype.constructor;
+    const guarded = function (...args: unknown[]) {
+      assertNoDynamicImport(args.map(String).join("\n"));
+      return Reflect.construct(nativeConstructor, args);
+    };
+    lockValue(guarded, "prototype", prototype);
+    lockValue(prototype, "constructor", guarded);
+  }
+  lockValue(worker, "Function", Function.prototype.constructor);
+
+  const nativeEval = globalThis.eval;
+  lockValue(worker, "eval", (code: unknown) => {
+    if (typeof code === "string") assertNoDynamicImport(code);
+    return nativeEval(code as string);
+  });
+
+  for (const name of ["setTimeout", "setInterval"] as const) {
+    const nativeTimer = worker[name].bind(worker);
+    lockValue(worker, name, (handler: TimerHandler, timeout?: number, ...args: unknown[]) => {
+      if (typeof handler === "string") assertNoDynamicImport(handler);
+      return nativeTimer(handler, timeout, ...args);
+    });
+  }
+};
+
+let lockedDown = false;
+
+/** 屏蔽全局对象并接管代码生成入口，只执行一次 */
+const lockDown = () => {
+  if (lockedDown) return;
+  lockDownGlobals();
+  guardCodeEntryPoints();
+  lockedDown = true;
+};
+
+const handleLoad = (script: string, info: LxScriptInfo) => {
+  worker.lx = createHost(info);
+  // 脚本中的未捕获 Promise 拒绝（例如版本校验失败）需要回传给主线程
+  worker.addEventListener("unhandledrejection", (event) => {
+    const reason = event.reason;
+    post({ type: "error", message: reason?.message || String(reason) });
+  });
+  try {
+    // 无法完成屏蔽时不执行脚本
+    lockDown();
+    new Function(script)();
+  } catch (e: any) {
+    post({ type: "error", message: e?.message || String(e) });
+  }
+};
+
+const handleCall = async (
+  id: number,
+  source: string,
+  action: string,
+  info: any,
+) => {
+  if (!requestHandler) {
+    post({ type: "result", id, error: "脚本未注册 request 事件" });
+    return;
+  }
+  try {
+    const result = await requestHandler({ source, action, info });
+    post({ type: "result", id, result });
+  } catch (e: any) {
+    post({ type: "result", id, error: e?.message || String(e) });
+  }
+};
+
+worker.onmessage = (event: MessageEvent<LxMainMessage>) => {
+  const message = event.data;
+  if (message.type === "load") {
+    handleLoad(message.script, message.info);
+  } else if (message.type === "call") {
+    void handleCall(message.id, message.source, message.action, message.info);
+  } else if (message.type === "httpResult") {
+    const callback = pendingHttp.get(message.id);
+    if (!callback) return;
+    pendingHttp.delete(message.id);
+    if (message.error || !message.response) {
+      callback(new Error(message.error || "request failed"), null);
+    } else {
+      callback(null, message.response, message.response.body);
+    }
+  }
+};
@@ -0,0 +1,486 @@
+import { FORBIDDEN_HEADERS } from "./config";
+import { proxyFetch } from "./proxy";
+import { registerUrlResolver } from "./sourceRegistry";
+import { fixUrl } from "./utils";
+
+// ==============================
+// LX 自定义音源
+// 管理用户导入的洛雪音乐（LX Music）自定义音源脚本：持久化、按需启动 Worker 运行时，
+// 并作为额外播放地址解析器接入 getSongUrl。
+// ==============================
+
+const LX_SCRIPTS_STORAGE_KEY = "tunefree_lx_scripts";
+const LX_INIT_TIMEOUT_MS = 15000;
+const LX_CALL_TIMEOUT_MS = 20000;
+const LX_HTTP_TIMEOUT_MS = 15000;
+
+export interface LxScriptInfo {
+  name: string;
+  description: string;
+  version: string;
+  author: string;
+  homepage: string;
+  rawScript: string;
+}
+
+export interface LxSourceInfo {
+  name?: string;
+  type?: string;
+  actions?: string[];
+  qualitys?: string[];
+}
+
+export interface LxHostRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: any;
+  form?: Record<string, any>;
+  formData?: Record<string, any>;
+  timeout?: number;
+}
+
+export interface LxHostResponse {
+  statusCode: number;
+  statusMessage: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** 主线程 → Worker */
+export type LxMainMessage =
+  | { type: "load"; script: string; info: LxScriptInfo }
+  | { type: "call"; id: number; source: string; action: string; info: any }
+  | {
+      type: "httpResult";
+      id: number;
+      response?: LxHostResponse;
+      error?: string;
+    };
+
+/** Worker → 主线程 */
+export type LxWorkerMessage =
+  | { type: "inited"; sources: Record<string, LxSourceInfo> }
+  | { type: "updateAlert"; log: string; updateUrl?: string }
+  | { type: "error"; message: string }
+  | { type: "result"; id: number; result?: unknown; error?: string }
+  | { type: "http"; id: number; url: string; options: LxHostRequestOptions };
+
+export interface LxStoredScript {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  author: string;
+  homepage: string;
+  script: string;
+  enabled: boolean;
+  importedAt: number;
+}
+
+export type LxScriptStatus = "idle" | "loading" | "ready" | "error";
+
+export interface LxScriptState {
+  status: LxScriptStatus;
+  sources: Record<string, LxSourceInfo>;
+  error?: string;
+  updateAlert?: { log: string; updateUrl?: string };
+}
+
+/** Song.source → LX 平台标识 */
+const LX_SOURCE_MAP: Record<string, string> = {
+  kuwo: "kw",
+  kugou: "kg",
+  qq: "tx",
+  netease: "wy",
+  migu: "mg",
+};
+
+/** 音质由高到低，脚本不支持请求音质时依次降级 */
+const LX_QUALITY_ORDER = ["flac24bit", "flac", "320k", "192k", "128k"];
+
+// ---------- 持久化 ----------
+
+const readScripts = (): LxStoredScript[] => {
+  try {
+    const raw = localStorage.getItem(LX_SCRIPTS_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (item): item is LxStoredScript =>
+            !!item && typeof item.id === "string" && typeof item.script === "string",
+        )
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeScripts = (scripts: LxStoredScript[]) => {
+  try {
+    localStorage.setItem(LX_SCRIPTS_STORAGE_KEY, JSON.stringify(scripts));
+  } catch (e) {
+    console.warn("Failed to save LX scripts", e);
+  }
+};
+
+/**
+ * 解析脚本头部注释中的 @name / @description / @version 等元信息。
+ */
+export const parseLxScriptInfo = (script: string): Omit<LxScriptInfo, "rawScript"> => {
+  const header = script.match(/^\s*(?:'use strict';?\s*)?\/\*[\s\S]*?\*\//)?.[0] || "";
+  const read = (key: string) =>
+    header.match(new RegExp(`@${key}\\s+(.+)`))?.[1]?.trim() || "";
+  return {
+    name: read("name"),
+    description: read("description"),
+    version: read("version"),
+    author: read("author"),
+    homepage: read("homepage"),
+  };
+};
+
+// ---------- 运行时 ----------
+
+interface LxRuntime {
+  worker: Worker;
+  ready: Promise<void>;
+  pendingCalls: Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (reason: Error) => void }
+  >;
+  callSeq: number;
+}
+
+const runtimes = new Map<string, LxRuntime>();
+const states = new Map<string, LxScriptState>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const setState = (id: string, patch: Partial<LxScriptState>) => {
+  const prev = states.get(id) || { status: "idle" as const, sources: {} };
+  states.set(id, { ...prev, ...patch });
+  notify();
+};
+
+export const subscribeLxScripts = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getLxScriptState = (id: string): LxScriptState =>
+  states.get(id) || { status: "idle", sources: {} };
+
+const encodeForm = (form: Record<string, any>) =>
+  Object.entries(form)
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(String(value ?? ""))}`,
+    )
+    .join("&");
+
+/**
+ * 代替脚本发起网络请求：经 CORS 代理转发，浏览器禁止设置的请求头会被丢弃。
+ */
+const performLxHttp = async (
+  url: string,
+  options: LxHostRequestOptions,
+): Promise<LxHostResponse> => {
+  const headers: Record<string, string> = {};
+  Object.entries(options.headers || {}).forEach(([key, value]) => {
+    if (!FORBIDDEN_HEADERS.includes(key.toLowerCase())) headers[key] = String(value);
+  });
+
+  let body: BodyInit | undefined;
+  if (options.form) {
+    body = encodeForm(options.form);
+    headers["Content-Type"] = "application/x-www-form-urlencoded";
+  } else if (options.formData) {
+    const formData = new FormData();
+    Object.entries(options.formData).forEach(([key, value]) =>
+      formData.append(key, String(value)),
+    );
+    body = formData;
+  } else if (options.body !== undefined && options.body !== null) {
+    if (typeof options.body === "string") {
+      body = options.body;
+    } else {
+      body = JSON.stringify(options.body);
+      if (!Object.keys(headers).some((key) => key.toLowerCase() === "content-type")) {
+        headers["Content-Type"] = "application/json";
+      }
+    }
+  }
+
+  const method = (options.method || "GET").toUpperCase();
+  const resp = await proxyFetch(
+    url,
+    { method, headers, ...(method === "GET" || method === "HEAD" ? {} : { body }) },
+    options.timeout || LX_HTTP_TIMEOUT_MS,
+  );
+  if (!resp) throw new Error("request failed");
+
+  const text = await resp.text();
+  let parsed: unknown = text;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    /* 非 JSON 响应保留原文 */
+  }
+
+  const responseHeaders: Record<string, string> = {};
+  resp.headers.forEach((value, key) => {
+    responseHeaders[key] = value;
+  });
+
+  return {
+    statusCode: resp.status,
+    statusMessage: resp.statusText,
+    headers: responseHeaders,
+    body: parsed,
+  };
+};
+
+const stopRuntime = (id: string) => {
+  const runtime = runtimes.get(id);
+  if (!runtime) return;
+  runtime.worker.terminate();
+  runtime.pendingCalls.forEach(({ reject }) => reject(new Error("script stopped")));
+  runtimes.delete(id);
+};
+
+const startRuntime = (stored: LxStoredScript): LxRuntime => {
+  const existing = runtimes.get(stored.id);
+  if (existing) return existing;
+
+  const worker = new Worker(new URL("./lxRuntime.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const pendingCalls: LxRuntime["pendingCalls"] = new Map();
+
+  let settleReady: (error?: Error) => void = () => {};
+  const ready = new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(
+      () => settleReady(new Error("脚本初始化超时")),
+      LX_INIT_TIMEOUT_MS,
+    );
+    let settled = false;
+    settleReady = (error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (error) reject(error);
+      else resolve();
+    };
+  });
+  // 避免未等待的初始化失败触发未处理拒绝
+  ready.catch(() => {});
+
+  setState(stored.id, { status: "loading", error: undefined });
+
+  worker.onmessage = (event: MessageEvent<LxWorkerMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "inited":
+        setState(stored.id, { status: "ready", sources: message.sources || {} });
+        settleReady();
+        break;
+      case "updateAlert":
+        setState(stored.id, {
+          updateAlert: { log: message.log, updateUrl: message.updateUrl },
+        });
+        break;
+      case "error":
+        if (getLxScriptState(stored.id).status !== "ready") {
+          setState(stored.id, { status: "error", error: message.message });
+          settleReady(new Error(message.message));
+        } else {
+          console.warn(`LX script ${stored.name} error:`, message.message);
+        }
+        break;
+      case "result": {
+        const pending = pendingCalls.get(message.id);
+        if (!pending) break;
+        pendingCalls.delete(message.id);
+        if (message.error) pending.reject(new Error(message.error));
+        else pending.resolve(message.result);
+        break;
+      }
+      case "http":
+        performLxHttp(message.url, message.options)
+          .then((response) =>
+            worker.postMessage({
+              type: "httpResult",
+              id: message.id,
+              response,
+            } satisfies LxMainMessage),
+          )
+          .catch((e: any) =>
+            worker.postMessage({
+              type: "httpResult",
+              id: message.id,
+              error: e?.message || String(e),
+            } satisfies LxMainMessage),
+          );
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    setState(stored.id, { status: "error", error: event.message || "脚本运行失败" });
+    settleReady(new Error(event.message || "脚本运行失败"));
+  };
+
+  const info: LxScriptInfo = {
+    name: stored.name,
+    description: stored.description,
+    version: stored.version,
+    author: stored.author,
+    homepage: stored.homepage,
+    rawScript: stored.script,
+  };
+  worker.postMessage({ type: "load", script: stored.script, info } satisfies LxMainMessage);
+
+  const runtime: LxRuntime = { worker, ready, pendingCalls, callSeq: 0 };
+  runtimes.set(stored.id, runtime);
+
+  // 初始化失败的运行时不再保留，下次调用时重新启动
+  ready.catch(() => {
+    if (runtimes.get(stored.id) === runtime) stopRuntime(stored.id);
+  });
+
+  return runtime;
+};
+
+const callRuntime = (
+  runtime: LxRuntime,
+  source: string,
+  action: string,
+  info: any,
+): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const id = ++runtime.callSeq;
+    const timer = setTimeout(() => {
+      runtime.pendingCalls.delete(id);
+      reject(new Error("脚本响应超时"));
+    }, LX_CALL_TIMEOUT_MS);
+    runtime.pendingCalls.set(id, {
+      resolve: (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      reject: (reason) => {
+        clearTimeout(timer);
+        reject(reason);
+      },
+    });
+    runtime.worker.postMessage({
+      type: "call",
+      id,
+      source,
+      action,
+      info,
+    } satisfies LxMainMessage);
+  });
+
+// ---------- 对外接口 ----------
+
+export const listLxScripts = (): LxStoredScript[] => readScripts();
+
+/**
+ * 导入脚本文本并立即尝试初始化。同名脚本会被替换。
+ */
+export const importLxScript = (script: string): LxStoredScript => {
+  if (!script.trim()) throw new Error("脚本内容为空");
+  const meta = parseLxScriptInfo(script);
+  const scripts = readScripts();
+  const name = meta.name || `自定义音源 ${scripts.length + 1}`;
+  const previous = scripts.find((item) => item.name === name);
+  if (previous) stopRuntime(previous.id);
+
+  const stored: LxStoredScript = {
+    ...meta,
+    name,
+    id: previous?.id || `lx_${Date.now().toString(36)}`,
+    script,
+    enabled: true,
+    importedAt: Date.now(),
+  };
+  writeScripts([...scripts.filter((item) => item.id !== stored.id), stored]);
+  startRuntime(stored);
+  notify();
+  return stored;
+};
+
+export const removeLxScript = (id: string) => {
+  stopRuntime(id);
+  states.delete(id);
+  writeScripts(readScripts().filter((item) => item.id !== id));
+  notify();
+};
+
+export const setLxScriptEnabled = (id: string, enabled: boolean) => {
+  const scripts = readScripts();
+  const target = scripts.find((item) => item.id === id);
+  if (!target) return;
+  writeScripts(scripts.map((item) => (item.id === id ? { ...item, enabled } : item)));
+  if (enabled) {
+    startRuntime({ ...target, enabled });
+  } else {
+    stopRuntime(id);
+    setState(id, { status: "idle", error: undefined });
+  }
+  notify();
+};
+
+/** 启动所有已启用脚本（用于展示状态），已启动的不会重复启动 */
+export const warmUpLxScripts = () => {
+  readScripts()
+    .filter((item) => item.enabled)
+    .forEach((item) => startRuntime(item));
+};
+
+const pickLxQuality = (requested: string, supported?: string[]) => {
+  if (!supported?.length || supported.includes(requested)) return requested;
+  const start = Math.max(0, LX_QUALITY_ORDER.indexOf(requested));
+  return (
+    LX_QUALITY_ORDER.slice(start).find((quality) => supported.includes(quality)) ||
+    supported[0]
+  );
+};
+
+/**
+ * 依次使用已启用的 LX 脚本解析播放地址，全部失败时返回 null。
+ */
+export const resolveLxUrl = async (
+  id: string | number,
+  source: string,
+  quality: string,
+): Promise<string | null> => {
+  const lxSource = LX_SOURCE_MAP[source];
+  if (!lxSource) return null;
+
+  for (const stored of readScripts().filter((item) => item.enabled)) {
+    try {
+      const runtime = startRuntime(stored);
+      await runtime.ready;
+      const sourceInfo = getLxScriptState(stored.id).sources[lxSource];
+      if (!sourceInfo || (sourceInfo.actions && !sourceInfo.actions.includes("musicUrl"))) {
+        continue;
+      }
+      const result = await callRuntime(runtime, lxSource, "musicUrl", {
+        type: pickLxQuality(quality, sourceInfo.qualitys),
+        musicInfo: { songmid: String(id), hash: String(id), copyrightId: String(id) },
+      });
+      if (typeof result === "string" && result) return fixUrl(result) || result;
+    } catch (e) {
+      console.warn(`LX script ${stored.name} failed to resolve url`, e);
+    }
+  }
+  return null;
+};
+
+registerUrlResolver({ id: "lx", resolve: resolveLxUrl });
@@ -0,0 +1,205 @@
+import { LyricBundle, LyricWord, ParsedLyric } from "../types";
+
+// ==============================
+// 歌词格式
+// 网易云 YRC、QQ 音乐 QRC 在获取时统一转换为增强 LRC（<mm:ss.xx> 逐字标签），
+// 原文、翻译、罗马音分层保存在 LyricBundle 中；离线保存、下载写入标签等
+// 只需要单个字符串的环节用 joinLyricBundle 拼接原文与翻译。
+// ==============================
+
+export const createLyricBundle = (
+  original = "",
+  translation = "",
+  romanization = "",
+): LyricBundle => ({
+  original: original.trim(),
+  translation: translation.trim(),
+  romanization: romanization.trim(),
+});
+
+export const isLyricBundleEmpty = (bundle: LyricBundle): boolean => !bundle.original;
+
+/** 拼接为单个 LRC：原文在前、翻译在后（与各平台导出的双语 LRC 一致），不含罗马音 */
+export const joinLyricBundle = (bundle: LyricBundle): string =>
+  bundle.original && bundle.translation
+    ? `${bundle.original}\n${bundle.translation}`
+    : bundle.original;
+
+/** 没有结束标记时，一行最后一个字的最长持续时间（秒） */
+const MAX_TRAILING_WORD_DURATION = 1;
+
+const WORD_TAG_EXP = /<(\d{2,}):(\d{2})\.(\d{2,3})>/g;
+
+const parseTimeTag = (min: string, sec: string, frac: string): number =>
+  parseInt(min, 10) * 60 +
+  parseInt(sec, 10) +
+  parseInt(frac, 10) / (frac.length === 2 ? 100 : 1000);
+
+const formatTimeTag = (seconds: number): string => {
+  const centis = Math.max(0, Math.round(seconds * 100));
+  const min = Math.floor(centis / 6000);
+  const sec = Math.floor((centis % 6000) / 100);
+  const cs = centis % 100;
+  return `${String(min).padStart(2, "0")}:${String(sec).padStart(2, "0")}.${String(cs).padStart(2, "0")}`;
+};
+
+const buildLine = (time: number, words: LyricWord[]): ParsedLyric | null => {
+  const text = words.map((word) => word.text).join("").trim();
+  if (!text) return null;
+  return { time, text, words };
+};
+
+const sortLines = (lines: ParsedLyric[]): ParsedLyric[] =>
+  lines.sort((a, b) => a.time - b.time);
+
+/** 是否包含增强 LRC 的逐字标签 */
+export const hasWordTimings = (body: string): boolean => /<\d{2,}:\d{2}\.\d{2,3}>/.test(body);
+
+/**
+ * 解析增强 LRC 一行中去掉行时间标签后的内容：`<00:01.00>逐<00:01.30>字<00:01.80>`。
+ * 标签后紧跟空文本时视为上一个字的结束时间；最后一个字没有结束标记时 duration 为 -1，
+ * 由 fillWordDurations 按下一行补齐。
+ */
+export const parseEnhancedLrcWords = (body: string): LyricWord[] => {
+  const tags = Array.from(body.matchAll(WORD_TAG_EXP));
+  const words: LyricWord[] = [];
+  tags.forEach((tag, i) => {
+    const start = (tag.index || 0) + tag[0].length;
+    const end = i + 1 < tags.length ? tags[i + 1].index || 0 : body.length;
+    const text = body.slice(start, end);
+    if (!text) return;
+    const time = parseTimeTag(tag[1], tag[2], tag[3]);
+    const next = tags[i + 1];
+    words.push({
+      time,
+      duration: next ? Math.max(0, parseTimeTag(next[1], next[2], next[3]) - time) : -1,
+      text,
+    });
+  });
+  return words;
+};
+
+/** 补齐没有结束标记的字的时长，按下一行开始时间截断 */
+export const fillWordDurations = (lines: ParsedLyric[]): ParsedLyric[] => {
+  lines.forEach((line, i) => {
+    if (!line.words) return;
+    const nextTime = lines[i + 1]?.time;
+    for (const word of line.words) {
+      if (word.duration >= 0) continue;
+      const limit = nextTime !== undefined ? nextTime - word.time : MAX_TRAILING_WORD_DURATION;
+      word.duration = Math.max(0, Math.min(MAX_TRAILING_WORD_DURATION, limit));
+    }
+  });
+  return lines;
+};
+
+/**
+ * 按播放页的歌词偏移调整时间标签（行标签与逐字标签），用于导出歌词文件。
+ * offset 为正表示歌词提前显示，即所有时间减去 offset。
+ */
+export const shiftLrc = (lrc: string, offset: number): string => {
+  if (!lrc || !offset) return lrc;
+  return lrc.replace(
+    /([[<])(\d{2,}):(\d{2})\.(\d{2,3})([\]>])/g,
+    (_, open, min, sec, frac, close) =>
+      `${open}${formatTimeTag(parseTimeTag(min, sec, frac) - offset)}${close}`,
+  );
+};
+
+/** 去掉逐字时间，只保留行文本（罗马音等辅助层不需要逐字） */
+export const formatPlainLrc = (lines: ParsedLyric[]): string =>
+  formatEnhancedLrc(lines.map(({ time, text }) => ({ time, text })));
+
+/** 转换为增强 LRC；字与字之间有空档时补一个结束标记 */
+export const formatEnhancedLrc = (lines: ParsedLyric[]): string =>
+  lines
+    .map((line) => {
+      if (!line.words || line.words.length === 0) {
+        return `[${formatTimeTag(line.time)}]${line.text}`;
+      }
+      let body = "";
+      line.words.forEach((word, i) => {
+        body += `<${formatTimeTag(word.time)}>${word.text}`;
+        const end = word.time + word.duration;
+        const next = line.words![i + 1];
+        if (!next || next.time - end >= 0.01) body += `<${formatTimeTag(end)}>`;
+      });
+      return `[${formatTimeTag(line.time)}]${body}`;
+    })
+    .join("\n");
+
+/**
+ * 网易云 YRC：`[行开始ms,行时长ms](字开始ms,字时长ms,0)字(…)字`。
+ * 作词 / 作曲等信息行是 JSON：`{"t":0,"c":[{"tx":"作词: "},{"tx":"某某"}]}`。
+ */
+export const parseYrc = (yrc: string): ParsedLyric[] => {
+  if (!yrc) return [];
+  const lines: ParsedLyric[] = [];
+  const lineExp = /^\[(\d+),(\d+)\](.*)$/;
+  const wordExp = /\((\d+),(\d+),-?\d+\)((?:(?!\(\d+,\d+,-?\d+\)).)*)/g;
+
+  for (const raw of yrc.split("\n")) {
+    const row = raw.trim();
+    if (row.startsWith("{")) {
+      try {
+        const info = JSON.parse(row) as { t?: number; c?: { tx?: string }[] };
+        const text = (info.c || []).map((part) => part.tx || "").join("").trim();
+        if (text) lines.push({ time: (info.t || 0) / 1000, text });
+      } catch {
+        // 非法 JSON 行直接忽略
+      }
+      continue;
+    }
+
+    const match = row.match(lineExp);
+    if (!match) continue;
+    const words = Array.from(match[3].matchAll(wordExp)).map((word) => ({
+      time: parseInt(word[1], 10) / 1000,
+      duration: parseInt(word[2], 10) / 1000,
+      text: word[3],
+    }));
+    const line = buildLine(parseInt(match[1], 10) / 1000, words);
+    if (line) lines.push(line);
+  }
+
+  return sortLines(lines);
+};
+
+const decodeXmlEntities = (text: string): string =>
+  text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+/**
+ * QQ 音乐 QRC：`[行开始ms,行时长ms]字(字开始ms,字时长ms)字(…)`，
+ * 通常包在 `<Lyric_1 LyricType="1" LyricContent="…"/>` 的 XML 中。
+ * 只支持明文 QRC，加密内容返回空数组。
+ */
+export const parseQrc = (qrc: string): ParsedLyric[] => {
+  if (!qrc) return [];
+  const content = qrc.match(/LyricContent="([\s\S]*?)"\s*\/>/);
+  const text = content ? decodeXmlEntities(content[1]) : qrc;
+
+  const lines: ParsedLyric[] = [];
+  const lineExp = /^\[(\d+),(\d+)\](.*)$/;
+  const wordExp = /(.*?)\((\d+),(\d+)\)/g;
+
+  for (const raw of text.split("\n")) {
+    const match = raw.trim().match(lineExp);
+    if (!match) continue;
+    const words = Array.from(match[3].matchAll(wordExp)).map((word) => ({
+      time: parseInt(word[2], 10) / 1000,
+      duration: parseInt(word[3], 10) / 1000,
+      text: word[1],
+    }));
+    const line = buildLine(parseInt(match[1], 10) / 1000, words);
+    if (line) lines.push(line);
+  }
+
+  return sortLines(lines);
+};
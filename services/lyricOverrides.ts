@@ -0,0 +1,125 @@
+import { Song, getSongKey } from "../types";
+import { shiftLrc } from "./lyricFormats";
+import { getLyrics } from "./resolver";
+
+// ==============================
+// 单曲歌词设置
+// 按 getSongKey 保存歌词偏移、用户替换的 .lrc 和选定的歌词来源。
+// 优先级：替换歌词 → 选定的其他平台歌词 → 歌曲自带 lrc → 原音源歌词，
+// 在播放页、离线缓存和下载中都生效。
+// ==============================
+
+const LYRIC_OVERRIDES_KEY = "tunefree_lyric_overrides";
+
+/** 偏移范围（秒） */
+export const MAX_LYRIC_OFFSET = 30;
+
+export interface LyricOverride {
+  /** 正数表示歌词提前显示 */
+  offset?: number;
+  /** 用户粘贴或导入的 LRC */
+  lrc?: string;
+  /** 从其他平台搜索并选定的歌词来源 */
+  lyricSource?: Song;
+}
+
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeLyricOverrides = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const readLyricOverrides = (): Record<string, LyricOverride> => {
+  try {
+    const raw = localStorage.getItem(LYRIC_OVERRIDES_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const updateLyricOverride = (
+  song: Pick<Song, "id" | "source">,
+  patch: Partial<LyricOverride>,
+) => {
+  const overrides = readLyricOverrides();
+  const key = getSongKey(song);
+  const next: LyricOverride = { ...overrides[key], ...patch };
+  if (!next.offset) delete next.offset;
+  if (!next.lrc) delete next.lrc;
+  if (!next.lyricSource) delete next.lyricSource;
+
+  if (Object.keys(next).length > 0) {
+    overrides[key] = next;
+  } else {
+    delete overrides[key];
+  }
+  try {
+    localStorage.setItem(LYRIC_OVERRIDES_KEY, JSON.stringify(overrides));
+  } catch (e) {
+    console.warn("Failed to save lyric overrides", e);
+  }
+  notify();
+};
+
+export const getLyricOffset = (song: Pick<Song, "id" | "source">): number =>
+  readLyricOverrides()[getSongKey(song)]?.offset || 0;
+
+export const setLyricOffset = (song: Pick<Song, "id" | "source">, offset: number): void => {
+  const clamped = Math.max(-MAX_LYRIC_OFFSET, Math.min(MAX_LYRIC_OFFSET, offset));
+  updateLyricOverride(song, { offset: Math.round(clamped * 10) / 10 });
+};
+
+export const getLyricOverride = (song: Pick<Song, "id" | "source">): string | null =>
+  readLyricOverrides()[getSongKey(song)]?.lrc || null;
+
+/** 传入 null 或空文本时恢复使用音源歌词 */
+export const setLyricOverride = (song: Pick<Song, "id" | "source">, lrc: string | null): void => {
+  updateLyricOverride(song, { lrc: lrc?.trim() || undefined });
+};
+
+export const getLyricSource = (song: Pick<Song, "id" | "source">): Song | null =>
+  readLyricOverrides()[getSongKey(song)]?.lyricSource || null;
+
+/** 传入 null 时恢复使用原音源歌词 */
+export const setLyricSource = (song: Pick<Song, "id" | "source">, lyricSource: Song | null): void => {
+  updateLyricOverride(song, {
+    lyricSource: lyricSource
+      ? {
+          id: lyricSource.id,
+          name: lyricSource.name,
+          artist: lyricSource.artist,
+          album: lyricSource.album,
+          pic: lyricSource.pic,
+          source: lyricSource.source,
+          duration: lyricSource.duration,
+        }
+      : undefined,
+  });
+};
+
+/** 歌曲当前使用的歌词文本：替换歌词 → 选定来源 → 歌曲自带 lrc → 音源歌词 */
+export const resolveSongLyrics = async (song: Song): Promise<string> => {
+  const override = getLyricOverride(song);
+  if (override) return override;
+
+  const lyricSource = getLyricSource(song);
+  if (lyricSource) {
+    const lrc = await getLyrics(lyricSource.id, lyricSource.source).catch(() => "");
+    if (lrc) return lrc;
+  }
+
+  return song.lrc || (await getLyrics(song.id, song.source).catch(() => ""));
+};
+
+/** 导出到文件的歌词，已按偏移调整时间 */
+export const resolveSongLyricsForExport = async (song: Song): Promise<string> =>
+  shiftLrc(await resolveSongLyrics(song), getLyricOffset(song));
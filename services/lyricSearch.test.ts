@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { Song } from "../types";
+import { createLyricBundle } from "./lyricFormats";
+import { findLyricCandidates } from "./lyricSearch";
+import { registerMusicSource } from "./sourceRegistry";
+
+const ORIGINAL: Song = {
+  id: 186016,
+  name: "晴天",
+  artist: "周杰伦",
+  album: "叶惠美",
+  source: "netease",
+  duration: 269,
+};
+
+const candidate = (id: string, duration: number): Song => ({
+  id,
+  name: "晴天",
+  artist: "周杰伦",
+  album: "叶惠美",
+  source: "test-lyric",
+  duration,
+});
+
+registerMusicSource({
+  id: "test-lyric",
+  order: 999,
+  label: { short: "测", full: "测试音源" },
+  badgeClass: "",
+  capabilities: { aggregate: "core", gdStudioFallback: false },
+  // 搜索结果中时长不符的版本排在最前，模拟平台按热度排序
+  search: async () => [
+    candidate("extended", 269 + 60),
+    candidate("near", 269 + 8),
+    candidate("exact", 269 + 1),
+  ],
+  lyrics: async (id) => createLyricBundle(`[00:01.00]${id}`),
+});
+
+describe("findLyricCandidates", () => {
+  it("按时长挑选歌词来源，自动采用的首个候选时长最接近", async () => {
+    const candidates = await findLyricCandidates(ORIGINAL);
+    expect(candidates.map((item) => item.song.id)).toEqual(["exact", "near"]);
+    expect(candidates[0].bundle.original).toBe("[00:01.00]exact");
+  });
+});
@@ -0,0 +1,52 @@
+import { LyricBundle, Song, getSongKey } from "../types";
+import { isLyricBundleEmpty } from "./lyricFormats";
+import { getLyricBundle } from "./resolver";
+import { findSongMatches } from "./songMatcher";
+
+// ==============================
+// 跨平台歌词搜索
+// 原音源没有歌词时，在其他平台按歌名 / 歌手 / 时长匹配同一首歌，
+// 取有歌词的候选供播放页自动使用或由用户挑选。
+// ==============================
+
+/** 歌词来源只影响显示，匹配阈值比换源播放宽松 */
+const LYRIC_MATCH_MIN_SCORE = 0.5;
+/** 最多拉取歌词的候选数 */
+const MAX_LYRIC_CANDIDATES = 6;
+
+export interface LyricCandidate {
+  song: Song;
+  score: number;
+  bundle: LyricBundle;
+}
+
+const candidateCache = new Map<string, Promise<LyricCandidate[]>>();
+
+/**
+ * 在其他平台查找有歌词的匹配歌曲，按匹配分数从高到低返回。
+ * 同一首歌的结果在本次会话内缓存。
+ */
+export const findLyricCandidates = (song: Song): Promise<LyricCandidate[]> => {
+  const key = getSongKey(song);
+  const cached = candidateCache.get(key);
+  if (cached) return cached;
+
+  const request = (async () => {
+    const matches = await findSongMatches(song, { minScore: LYRIC_MATCH_MIN_SCORE });
+    const top = matches.slice(0, MAX_LYRIC_CANDIDATES);
+    const bundles = await Promise.all(
+      top.map((match) => getLyricBundle(match.song.id, match.song.source).catch(() => null)),
+    );
+    return top
+      .map((match, i) => ({ ...match, bundle: bundles[i] }))
+      .filter(
+        (candidate): candidate is LyricCandidate =>
+          !!candidate.bundle && !isLyricBundleEmpty(candidate.bundle),
+      );
+  })();
+
+  // 失败时不缓存，下次重新搜索
+  request.catch(() => candidateCache.delete(key));
+  candidateCache.set(key, request);
+  return request;
+};
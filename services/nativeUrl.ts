@@ -0,0 +1,37 @@
+import { API_PREFIX } from "./config";
+import { fixUrl } from "./utils";
+
+/**
+ * 通过内置 /api/url 函数获取网易云 / QQ / 酷我的原生播放地址。
+ * 失败或返回空地址时返回 null。
+ */
+export const fetchNativeUrl = async (
+  id: string,
+  platform: string,
+  quality: string,
+): Promise<string | null> => {
+  try {
+    const resp = await fetch(
+      `${API_PREFIX}/api/url?platform=${encodeURIComponent(platform)}&id=${encodeURIComponent(id)}&quality=${encodeURIComponent(quality)}`,
+    );
+    if (resp.ok) {
+      const data = await resp.json();
+      if (data?.url) return data.url as string;
+    }
+  } catch {
+    return null;
+  }
+  return null;
+};
+
+/**
+ * fetchNativeUrl 的标准化版本：结果经过 fixUrl 处理，供音源注册使用。
+ */
+export const resolveNativeUrl = async (
+  id: string | number,
+  platform: string,
+  quality: string,
+): Promise<string | null> => {
+  const url = await fetchNativeUrl(String(id), platform, quality);
+  return url ? fixUrl(url) || null : null;
+};
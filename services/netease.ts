@@ -1,14 +1,49 @@
-import { Song, TopList } from "../types";
+import { LyricBundle, Song, TopList } from "../types";
+import { createLyricBundle, formatEnhancedLrc, parseYrc } from "./lyricFormats";
+import { resolveNativeUrl } from "./nativeUrl";
 import { proxyFetchJson } from "./proxy";
-import { fixUrl } from "./utils";
+import {
+  registerMusicSource,
+  type SourceAlbum,
+  type SourceAlbumSummary,
+  type SourceArtist,
+  type SourceArtistSummary,
+  type SourcePlaylist,
+  type SourcePlaylistCategory,
+  type SourcePlaylistSummary,
+} from "./sourceRegistry";
+import { fixUrl, normalizeSongs, toDurationSeconds, toOptionalId } from "./utils";
 
 // ==============================
 // 网易云音乐 直连接口
 // 通过 CORS 代理直接调用网易云 API
 // ==============================
 
+/** 毫秒时间戳转为 YYYY-MM-DD */
+const formatPublishTime = (time: unknown): string | undefined => {
+  const value = Number(time);
+  if (!Number.isFinite(value) || value <= 0) return undefined;
+  return new Date(value).toISOString().slice(0, 10);
+};
+
+/** cloudsearch 的 type 参数 */
+const NETEASE_SEARCH_TYPES = { song: 1, album: 10, artist: 100, playlist: 1000 } as const;
+
+/** cloudsearch/pc（未加密，支持分页），返回 result 字段 */
+const neteaseCloudSearch = async (
+  keyword: string,
+  type: keyof typeof NETEASE_SEARCH_TYPES,
+  page: number,
+  limit: number,
+): Promise<any> => {
+  const offset = (page - 1) * limit;
+  const url = `https://music.163.com/api/cloudsearch/pc?s=${encodeURIComponent(keyword)}&type=${NETEASE_SEARCH_TYPES[type]}&offset=${offset}&limit=${limit}`;
+  const data = await proxyFetchJson(url);
+  return data?.result;
+};
+
 /**
- * 网易云搜索：cloudsearch/pc（未加密，支持分页）
+ * 网易云搜索：cloudsearch/pc
  * @param keyword 搜索关键词
  * @param page    页码（从 1 开始）
  * @param limit   每页数量
@@ -18,11 +53,8 @@ export const searchNetease = async (
   page: number,
   limit: number,
 ): Promise<Song[]> => {
-  const offset = (page - 1) * limit;
-  const url = `https://music.163.com/api/cloudsearch/pc?s=${encodeURIComponent(keyword)}&type=1&offset=${offset}&limit=${limit}`;
-
-  const data = await proxyFetchJson(url);
-  const songs = data?.result?.songs;
+  const result = await neteaseCloudSearch(keyword, "song", page, limit);
+  const songs = result?.songs;
 
   if (!songs || !Array.isArray(songs)) return [];
 
@@ -33,9 +65,82 @@ export const searchNetease = async (
     album: s.al?.name || "",
     pic: fixUrl(s.al?.picUrl || ""),
     source: "netease" as const,
+    duration: toDurationSeconds(s.dt, true),
+    artistId: toOptionalId(s.ar?.[0]?.id),
+    albumId: toOptionalId(s.al?.id),
+  }));
+};
+
+/** 网易云歌手搜索：cloudsearch/pc type=100 */
+export const searchNeteaseArtists = async (
+  keyword: string,
+  page: number,
+  limit: number,
+): Promise<SourceArtistSummary[]> => {
+  const result = await neteaseCloudSearch(keyword, "artist", page, limit);
+  const artists = result?.artists;
+  if (!Array.isArray(artists)) return [];
+
+  return artists.map((artist: any) => ({
+    id: String(artist.id),
+    name: artist.name || "",
+    cover: fixUrl(artist.picUrl || artist.img1v1Url || ""),
+    albumCount: Number(artist.albumSize) || undefined,
+  }));
+};
+
+/** 网易云专辑搜索：cloudsearch/pc type=10 */
+export const searchNeteaseAlbums = async (
+  keyword: string,
+  page: number,
+  limit: number,
+): Promise<SourceAlbumSummary[]> => {
+  const result = await neteaseCloudSearch(keyword, "album", page, limit);
+  const albums = result?.albums;
+  if (!Array.isArray(albums)) return [];
+
+  return albums.map((album: any) => ({
+    id: String(album.id),
+    name: album.name || "",
+    cover: fixUrl(album.picUrl || ""),
+    artist: album.artists?.map((a: any) => a.name).join(", ") || album.artist?.name || "",
+    publishDate: formatPublishTime(album.publishTime),
   }));
 };
 
+/** 网易云歌单搜索：cloudsearch/pc type=1000 */
+export const searchNeteasePlaylists = async (
+  keyword: string,
+  page: number,
+  limit: number,
+): Promise<SourcePlaylistSummary[]> => {
+  const result = await neteaseCloudSearch(keyword, "playlist", page, limit);
+  return toNeteasePlaylistSummaries(result?.playlists);
+};
+
+/**
+ * 网易云搜索建议：/api/search/suggest/keyword
+ * @param keyword 已输入的关键词
+ */
+export const getNeteaseSearchSuggestions = async (
+  keyword: string,
+): Promise<string[]> => {
+  const data = await proxyFetchJson(
+    `https://music.163.com/api/search/suggest/keyword?s=${encodeURIComponent(keyword)}`,
+  );
+  const matches = data?.result?.allMatch;
+  if (!Array.isArray(matches)) return [];
+  return matches.map((item: any) => String(item.keyword || "")).filter(Boolean);
+};
+
+/** 网易云热搜：/api/search/hot */
+export const getNeteaseHotKeywords = async (): Promise<string[]> => {
+  const data = await proxyFetchJson("https://music.163.com/api/search/hot");
+  const hots = data?.result?.hots;
+  if (!Array.isArray(hots)) return [];
+  return hots.map((item: any) => String(item.first || "")).filter(Boolean);
+};
+
 /**
  * 网易云榜单列表：/api/toplist/detail
  * 返回所有可用排行榜的基本信息（ID、名称、封面）。
@@ -78,26 +183,258 @@ export const getNeteaseTopListDetail = async (
     album: s.al?.name || "",
     pic: fixUrl(s.al?.picUrl || ""),
     source: "netease" as const,
+    artistId: toOptionalId(s.ar?.[0]?.id),
+    albumId: toOptionalId(s.al?.id),
   }));
 };
 
 /**
- * 网易云歌词：/api/song/lyric
- * 同时获取原文歌词（lrc）和翻译歌词（tlyric），拼接后返回。
- * 无翻译时只返回原文。
+ * 网易云歌词：/api/song/lyric/v1
+ * 同时获取原文（lrc / 逐字 yrc）、翻译（tlyric）和罗马音（romalrc），分层返回。
+ * 有逐字歌词时原文转换为增强 LRC；新接口不可用时退回旧版 /api/song/lyric。
  * @param id 歌曲 ID
  */
 export const fetchNeteaselyrics = async (
   id: string | number,
-): Promise<string> => {
+): Promise<LyricBundle> => {
   try {
-    const data = await proxyFetchJson(
-      `http://music.163.com/api/song/lyric?id=${id}&lv=1&tv=1`,
+    let data = await proxyFetchJson(
+      `http://music.163.com/api/song/lyric/v1?id=${id}&lv=1&tv=1&rv=1&yv=1`,
+    ).catch(() => null);
+    if (!data?.lrc?.lyric && !data?.yrc?.lyric) {
+      data = await proxyFetchJson(
+        `http://music.163.com/api/song/lyric?id=${id}&lv=1&tv=1&rv=1`,
+      );
+    }
+    const wordLines = parseYrc(data?.yrc?.lyric || "");
+    return createLyricBundle(
+      wordLines.length > 0 ? formatEnhancedLrc(wordLines) : data?.lrc?.lyric || "",
+      data?.tlyric?.lyric || "",
+      data?.romalrc?.lyric || "",
     );
-    const main: string = data?.lrc?.lyric || "";
-    const trans: string = data?.tlyric?.lyric || "";
-    return main && trans ? `${main}\n${trans}` : main;
   } catch {
-    return "";
+    return createLyricBundle();
   }
 };
+
+// ==============================
+// 歌单导入
+// ==============================
+
+/** song/detail 每次查询的歌曲数 */
+const SONG_DETAIL_BATCH_SIZE = 200;
+
+/**
+ * 识别网易云歌单分享链接：
+ * music.163.com/#/playlist?id=xxx、music.163.com/playlist?id=xxx、y.music.163.com/m/playlist?id=xxx
+ */
+export const parseNeteasePlaylistLink = (input: string): string | null => {
+  if (!/music\.163\.com/.test(input) || !/playlist/.test(input)) return null;
+  const match = input.match(/playlist[^\s]*?[?&]id=(\d+)/) || input.match(/playlist\/(\d+)/);
+  return match ? match[1] : null;
+};
+
+/**
+ * 网易云歌单详情：/api/v6/playlist/detail
+ * tracks 只包含前一部分歌曲，其余按 trackIds 分批通过 /api/song/detail 补全。
+ * @param id 歌单 ID
+ */
+export const getNeteasePlaylistDetail = async (
+  id: string,
+): Promise<SourcePlaylist | null> => {
+  const data = await proxyFetchJson(
+    `https://music.163.com/api/v6/playlist/detail?id=${id}&n=1000`,
+    12000,
+  );
+  const playlist = data?.playlist;
+  if (!playlist) return null;
+
+  const songsById = new Map<string, Song>();
+  for (const song of normalizeSongs(playlist.tracks || [], "netease")) {
+    songsById.set(String(song.id), song);
+  }
+
+  const trackIds: string[] = Array.isArray(playlist.trackIds)
+    ? playlist.trackIds.map((track: any) => String(track.id))
+    : Array.from(songsById.keys());
+  const missing = trackIds.filter((trackId) => !songsById.has(trackId));
+
+  for (let i = 0; i < missing.length; i += SONG_DETAIL_BATCH_SIZE) {
+    const batch = missing.slice(i, i + SONG_DETAIL_BATCH_SIZE);
+    const detail = await proxyFetchJson(
+      `https://music.163.com/api/song/detail?ids=${encodeURIComponent(`[${batch.join(",")}]`)}`,
+      12000,
+    );
+    for (const song of normalizeSongs(detail?.songs || [], "netease")) {
+      songsById.set(String(song.id), song);
+    }
+  }
+
+  return {
+    id,
+    name: String(playlist.name || ""),
+    cover: fixUrl(playlist.coverImgUrl || ""),
+    songs: trackIds
+      .map((trackId) => songsById.get(trackId))
+      .filter((song): song is Song => Boolean(song)),
+  };
+};
+
+// ==============================
+// 歌单广场
+// ==============================
+
+/** 默认分类，接口中的 cat 参数 */
+const NETEASE_ALL_CATEGORY = "全部";
+
+/**
+ * 网易云歌单分类：/api/playlist/catalogue
+ * 分类 ID 即分类名称（歌单列表接口的 cat 参数）。
+ */
+export const getNeteasePlaylistCategories = async (): Promise<SourcePlaylistCategory[]> => {
+  const data = await proxyFetchJson("https://music.163.com/api/playlist/catalogue");
+  const groups: Record<string, string> = data?.categories || {};
+  const sub: any[] = Array.isArray(data?.sub) ? data.sub : [];
+  return [
+    { id: NETEASE_ALL_CATEGORY, name: NETEASE_ALL_CATEGORY },
+    ...sub.map((item) => ({
+      id: String(item.name),
+      name: String(item.name),
+      group: groups[String(item.category)] || undefined,
+    })),
+  ];
+};
+
+/** 歌单列表 / 歌单搜索结果通用的字段映射 */
+const toNeteasePlaylistSummaries = (playlists: unknown): SourcePlaylistSummary[] =>
+  Array.isArray(playlists)
+    ? playlists.map((item: any) => ({
+        id: String(item.id),
+        name: item.name || "",
+        cover: fixUrl(item.coverImgUrl || ""),
+        playCount: Number(item.playCount) || undefined,
+        creator: item.creator?.nickname || undefined,
+      }))
+    : [];
+
+/**
+ * 网易云分类歌单：/api/playlist/list（按热度排序）
+ * @param category 分类名称
+ */
+export const getNeteaseCategoryPlaylists = async (
+  category: string,
+  page: number,
+  limit: number,
+): Promise<SourcePlaylistSummary[]> => {
+  const offset = (page - 1) * limit;
+  const data = await proxyFetchJson(
+    `https://music.163.com/api/playlist/list?cat=${encodeURIComponent(category)}&order=hot&offset=${offset}&limit=${limit}&total=true`,
+  );
+  return toNeteasePlaylistSummaries(data?.playlists);
+};
+
+/**
+ * 网易云相似歌曲：/api/v1/discovery/simiSong
+ * @param id 歌曲 ID
+ */
+export const getNeteaseSimilarSongs = async (
+  id: string | number,
+): Promise<Song[]> => {
+  const data = await proxyFetchJson(
+    `https://music.163.com/api/v1/discovery/simiSong?songid=${id}&limit=20&offset=0`,
+  );
+  return normalizeSongs(data?.songs || [], "netease");
+};
+
+// ==============================
+// 歌手 / 专辑
+// ==============================
+
+/**
+ * 网易云歌手页：/api/artist/{id}（基本信息与热门歌曲）+ /api/artist/albums/{id}
+ * @param id 歌手 ID
+ */
+export const getNeteaseArtistDetail = async (
+  id: string,
+): Promise<SourceArtist | null> => {
+  const [data, albumData] = await Promise.all([
+    proxyFetchJson(`https://music.163.com/api/artist/${id}`),
+    proxyFetchJson(
+      `https://music.163.com/api/artist/albums/${id}?offset=0&limit=50`,
+    ).catch(() => null),
+  ]);
+  const artist = data?.artist;
+  if (!artist) return null;
+
+  const albums: SourceAlbumSummary[] = (albumData?.hotAlbums || []).map((album: any) => ({
+    id: String(album.id),
+    name: album.name || "",
+    cover: fixUrl(album.picUrl || ""),
+    publishDate: formatPublishTime(album.publishTime),
+  }));
+
+  return {
+    id,
+    name: artist.name || "",
+    cover: fixUrl(artist.picUrl || artist.img1v1Url || ""),
+    description: artist.briefDesc || "",
+    songs: normalizeSongs(data.hotSongs || [], "netease"),
+    albums,
+  };
+};
+
+/**
+ * 网易云专辑页：/api/v1/album/{id}
+ * 曲目不一定带封面，缺失时使用专辑封面。
+ * @param id 专辑 ID
+ */
+export const getNeteaseAlbumDetail = async (
+  id: string,
+): Promise<SourceAlbum | null> => {
+  const data = await proxyFetchJson(`https://music.163.com/api/v1/album/${id}`);
+  const album = data?.album;
+  if (!album) return null;
+
+  const cover = fixUrl(album.picUrl || "");
+  return {
+    id,
+    name: album.name || "",
+    cover,
+    publishDate: formatPublishTime(album.publishTime),
+    artist:
+      album.artists?.map((a: any) => a.name).join(", ") || album.artist?.name || "",
+    artistId: toOptionalId(album.artist?.id ?? album.artists?.[0]?.id),
+    description: album.description || "",
+    songs: normalizeSongs(data.songs || [], "netease").map((song) => ({
+      ...song,
+      pic: song.pic || cover,
+      album: song.album || album.name || "",
+      albumId: song.albumId || id,
+    })),
+  };
+};
+
+registerMusicSource({
+  id: "netease",
+  order: 10,
+  label: { short: "网易云", full: "网易云" },
+  badgeClass: "bg-red-100 text-red-600",
+  capabilities: { aggregate: "core", gdStudioFallback: true },
+  search: searchNetease,
+  searchArtists: searchNeteaseArtists,
+  searchAlbums: searchNeteaseAlbums,
+  searchPlaylists: searchNeteasePlaylists,
+  suggest: getNeteaseSearchSuggestions,
+  hotKeywords: getNeteaseHotKeywords,
+  topLists: getNeteaseTopLists,
+  topListDetail: getNeteaseTopListDetail,
+  lyrics: fetchNeteaselyrics,
+  url: (id, quality) => resolveNativeUrl(id, "netease", quality),
+  parsePlaylistLink: parseNeteasePlaylistLink,
+  playlistDetail: getNeteasePlaylistDetail,
+  playlistCategories: getNeteasePlaylistCategories,
+  categoryPlaylists: getNeteaseCategoryPlaylists,
+  similar: getNeteaseSimilarSongs,
+  artistDetail: getNeteaseArtistDetail,
+  albumDetail: getNeteaseAlbumDetail,
+});
@@ -0,0 +1,207 @@
+import { Song, getSongKey } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import { proxyFetchBlob } from "./proxy";
+import { fetchSongCoverBlob } from "./download";
+import { resolveSongLyrics } from "./lyricOverrides";
+import { resolvePlayableUrl } from "./songMatcher";
+
+// ==============================
+// 离线缓存
+// 把音频、封面和歌词保存到 IndexedDB（以 getSongKey 为主键），
+// 播放时优先使用本地数据，空间不足时按最久未播放淘汰。
+// ==============================
+
+const OFFLINE_DB_NAME = "tunefree_offline";
+const OFFLINE_DB_VERSION = 1;
+const SONG_STORE = "songs";
+const OFFLINE_CHANGE_EVENT = "tunefree:offline-change";
+const AUDIO_FETCH_TIMEOUT_MS = 120000;
+
+/** 离线数据最多占用浏览器配额的比例，超出时自动淘汰旧歌曲 */
+const OFFLINE_QUOTA_RATIO = 0.8;
+
+export interface OfflineSongRecord {
+  key: string;
+  song: Song;
+  quality: string;
+  audio: Blob;
+  cover?: Blob;
+  lrc: string;
+  size: number;
+  savedAt: number;
+  lastPlayedAt: number;
+}
+
+export interface OfflineStorageEstimate {
+  /** 离线歌曲占用（字节） */
+  offlineBytes: number;
+  /** 整个站点已用空间（字节），浏览器不支持时为 0 */
+  usage: number;
+  /** 站点可用配额（字节），浏览器不支持时为 0 */
+  quota: number;
+  count: number;
+}
+
+const openOfflineDb = () =>
+  openDatabase(OFFLINE_DB_NAME, OFFLINE_DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(SONG_STORE)) {
+      const store = db.createObjectStore(SONG_STORE, { keyPath: "key" });
+      store.createIndex("lastPlayedAt", "lastPlayedAt");
+    }
+  });
+
+const notifyOfflineChange = () => {
+  window.dispatchEvent(new CustomEvent(OFFLINE_CHANGE_EVENT));
+};
+
+export const subscribeOfflineChange = (listener: () => void): (() => void) => {
+  window.addEventListener(OFFLINE_CHANGE_EVENT, listener);
+  return () => window.removeEventListener(OFFLINE_CHANGE_EVENT, listener);
+};
+
+export const getOfflineSong = async (
+  song: Pick<Song, "id" | "source">,
+): Promise<OfflineSongRecord | null> => {
+  const db = await openOfflineDb();
+  const store = db.transaction(SONG_STORE, "readonly").objectStore(SONG_STORE);
+  const record = await requestToPromise<OfflineSongRecord | undefined>(
+    store.get(getSongKey(song)),
+  );
+  return record || null;
+};
+
+export const listOfflineSongs = async (): Promise<OfflineSongRecord[]> => {
+  const db = await openOfflineDb();
+  const store = db.transaction(SONG_STORE, "readonly").objectStore(SONG_STORE);
+  const records = await requestToPromise<OfflineSongRecord[]>(store.getAll());
+  return records.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/** 记录播放时间，供淘汰策略使用 */
+export const touchOfflineSong = async (
+  song: Pick<Song, "id" | "source">,
+): Promise<void> => {
+  const db = await openOfflineDb();
+  const tx = db.transaction(SONG_STORE, "readwrite");
+  const store = tx.objectStore(SONG_STORE);
+  const record = await requestToPromise<OfflineSongRecord | undefined>(
+    store.get(getSongKey(song)),
+  );
+  if (record) store.put({ ...record, lastPlayedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const deleteOfflineSongs = async (keys: string[]): Promise<void> => {
+  if (!keys.length) return;
+  const db = await openOfflineDb();
+  const tx = db.transaction(SONG_STORE, "readwrite");
+  const store = tx.objectStore(SONG_STORE);
+  keys.forEach((key) => store.delete(key));
+  await transactionDone(tx);
+  notifyOfflineChange();
+};
+
+export const clearOfflineSongs = async (): Promise<void> => {
+  const db = await openOfflineDb();
+  const tx = db.transaction(SONG_STORE, "readwrite");
+  tx.objectStore(SONG_STORE).clear();
+  await transactionDone(tx);
+  notifyOfflineChange();
+};
+
+export const getOfflineStorageEstimate =
+  async (): Promise<OfflineStorageEstimate> => {
+    const records = await listOfflineSongs();
+    const offlineBytes = records.reduce((sum, record) => sum + record.size, 0);
+    let usage = 0;
+    let quota = 0;
+    try {
+      const estimate = await navigator.storage?.estimate?.();
+      usage = estimate?.usage || 0;
+      quota = estimate?.quota || 0;
+    } catch {
+      /* 不支持时仅展示离线歌曲占用 */
+    }
+    return { offlineBytes, usage, quota, count: records.length };
+  };
+
+/**
+ * 按最久未播放的顺序删除离线歌曲，直到释放出 bytesToFree 字节。
+ * 返回被删除的歌曲数量。
+ */
+export const evictOfflineSongs = async (
+  bytesToFree: number,
+  keep: string[] = [],
+): Promise<number> => {
+  if (bytesToFree <= 0) return 0;
+  const records = (await listOfflineSongs())
+    .filter((record) => !keep.includes(record.key))
+    .sort(
+      (a, b) => (a.lastPlayedAt || a.savedAt) - (b.lastPlayedAt || b.savedAt),
+    );
+
+  const evicted: string[] = [];
+  let freed = 0;
+  for (const record of records) {
+    if (freed >= bytesToFree) break;
+    evicted.push(record.key);
+    freed += record.size;
+  }
+  await deleteOfflineSongs(evicted);
+  return evicted.length;
+};
+
+/**
+ * 下载歌曲音频、封面和歌词并保存到 IndexedDB。
+ * 空间不足时先按最久未播放淘汰已缓存的歌曲。
+ */
+export const saveOfflineSong = async (
+  song: Song,
+  quality: string,
+): Promise<OfflineSongRecord> => {
+  // 与在线播放一致：固定音源优先，原音源不可用时尝试跨平台匹配
+  const url = await resolvePlayableUrl(song, quality);
+  if (!url) throw new Error("无法获取播放地址");
+
+  const audio = await proxyFetchBlob(url, AUDIO_FETCH_TIMEOUT_MS);
+  if (!audio || audio.size === 0) throw new Error("音频下载失败");
+
+  const [lrc, cover] = await Promise.all([
+    resolveSongLyrics(song),
+    fetchSongCoverBlob(song).catch(() => null),
+  ]);
+
+  const size = audio.size + (cover?.size || 0) + lrc.length * 2;
+  const key = getSongKey(song);
+
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    if (estimate?.quota) {
+      const limit = estimate.quota * OFFLINE_QUOTA_RATIO;
+      await evictOfflineSongs((estimate.usage || 0) + size - limit, [key]);
+    }
+  } catch {
+    /* 无法估算时直接尝试写入 */
+  }
+
+  const now = Date.now();
+  const record: OfflineSongRecord = {
+    key,
+    // 远程播放地址会过期，不随离线记录保存
+    song: { ...song, url: undefined },
+    quality,
+    audio,
+    cover: cover || undefined,
+    lrc,
+    size,
+    savedAt: now,
+    lastPlayedAt: now,
+  };
+
+  const db = await openOfflineDb();
+  const tx = db.transaction(SONG_STORE, "readwrite");
+  tx.objectStore(SONG_STORE).put(record);
+  await transactionDone(tx);
+  notifyOfflineChange();
+  return record;
+};
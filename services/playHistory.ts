@@ -0,0 +1,210 @@
+import { Song, getSongKey } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+
+// ==============================
+// 播放历史
+// 每次播放一首歌记一条记录（开始时写入，结束或切歌时补上收听时长），
+// 用于"最近播放"和听歌统计。
+// ==============================
+
+const HISTORY_DB_NAME = "tunefree_history";
+const HISTORY_DB_VERSION = 1;
+const PLAY_STORE = "plays";
+const HISTORY_CHANGE_EVENT = "tunefree:history-change";
+
+/** 收听不足该时长（秒）且未播完的记录不计入统计 */
+export const MIN_COUNTED_LISTEN_SECONDS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ListeningStatsPeriod = "week" | "month" | "year";
+
+export const LISTENING_STATS_PERIOD_DAYS: Record<ListeningStatsPeriod, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+export interface PlayRecord {
+  id?: number;
+  songKey: string;
+  song: Song;
+  startedAt: number;
+  /** 实际收听时长（秒），拖动进度条跳过的部分不计 */
+  listenedSeconds: number;
+  /** 是否自然播完（包括过渡到下一首） */
+  completed: boolean;
+}
+
+export interface ListeningStatsEntry<T> {
+  item: T;
+  plays: number;
+  seconds: number;
+}
+
+export interface ListeningStats {
+  plays: number;
+  totalSeconds: number;
+  topSongs: ListeningStatsEntry<Song>[];
+  topArtists: ListeningStatsEntry<string>[];
+  topSources: ListeningStatsEntry<string>[];
+}
+
+const openHistoryDb = () =>
+  openDatabase(HISTORY_DB_NAME, HISTORY_DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(PLAY_STORE)) {
+      const store = db.createObjectStore(PLAY_STORE, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      store.createIndex("startedAt", "startedAt");
+    }
+  });
+
+const notifyHistoryChange = () => {
+  window.dispatchEvent(new CustomEvent(HISTORY_CHANGE_EVENT));
+};
+
+export const subscribePlayHistory = (listener: () => void): (() => void) => {
+  window.addEventListener(HISTORY_CHANGE_EVENT, listener);
+  return () => window.removeEventListener(HISTORY_CHANGE_EVENT, listener);
+};
+
+/** 写入一条新的播放记录，返回记录 id */
+export const addPlayRecord = async (song: Song, startedAt: number): Promise<number> => {
+  const record: PlayRecord = {
+    songKey: getSongKey(song),
+    // 播放地址会过期，歌词体积较大，都不随历史保存
+    song: { ...song, url: undefined, lrc: undefined },
+    startedAt,
+    listenedSeconds: 0,
+    completed: false,
+  };
+  const db = await openHistoryDb();
+  const tx = db.transaction(PLAY_STORE, "readwrite");
+  const id = await requestToPromise(tx.objectStore(PLAY_STORE).add(record));
+  await transactionDone(tx);
+  notifyHistoryChange();
+  return Number(id);
+};
+
+export const updatePlayRecord = async (
+  id: number,
+  patch: Pick<PlayRecord, "listenedSeconds" | "completed">,
+): Promise<void> => {
+  const db = await openHistoryDb();
+  const tx = db.transaction(PLAY_STORE, "readwrite");
+  const store = tx.objectStore(PLAY_STORE);
+  const record = await requestToPromise<PlayRecord | undefined>(store.get(id));
+  if (record) store.put({ ...record, ...patch });
+  await transactionDone(tx);
+  if (record) notifyHistoryChange();
+};
+
+/** 按开始时间倒序列出记录，since 为起始时间戳 */
+export const listPlayRecords = async (since = 0): Promise<PlayRecord[]> => {
+  const db = await openHistoryDb();
+  const index = db
+    .transaction(PLAY_STORE, "readonly")
+    .objectStore(PLAY_STORE)
+    .index("startedAt");
+  const records = await requestToPromise<PlayRecord[]>(
+    index.getAll(IDBKeyRange.lowerBound(since)),
+  );
+  return records.reverse();
+};
+
+export const clearPlayHistory = async (): Promise<void> => {
+  const db = await openHistoryDb();
+  const tx = db.transaction(PLAY_STORE, "readwrite");
+  tx.objectStore(PLAY_STORE).clear();
+  await transactionDone(tx);
+  notifyHistoryChange();
+};
+
+/** 最近播放的歌曲（同一首只保留最近一次），records 需按时间倒序 */
+export const getRecentlyPlayedSongs = (records: PlayRecord[], limit = 50): Song[] => {
+  const seen = new Set<string>();
+  const songs: Song[] = [];
+  for (const record of records) {
+    if (seen.has(record.songKey)) continue;
+    seen.add(record.songKey);
+    songs.push(record.song);
+    if (songs.length >= limit) break;
+  }
+  return songs;
+};
+
+const isCountedPlay = (record: PlayRecord) =>
+  record.completed || record.listenedSeconds >= MIN_COUNTED_LISTEN_SECONDS;
+
+const rankEntries = <T,>(
+  records: PlayRecord[],
+  getKey: (record: PlayRecord) => string,
+  getItem: (record: PlayRecord) => T,
+  limit: number,
+): ListeningStatsEntry<T>[] => {
+  const entries = new Map<string, ListeningStatsEntry<T>>();
+  records.forEach((record) => {
+    const key = getKey(record);
+    const entry = entries.get(key) || { item: getItem(record), plays: 0, seconds: 0 };
+    entry.plays += 1;
+    entry.seconds += record.listenedSeconds;
+    entries.set(key, entry);
+  });
+  return [...entries.values()]
+    .sort((a, b) => b.plays - a.plays || b.seconds - a.seconds)
+    .slice(0, limit);
+};
+
+/** 统计最近 period 内的有效播放；总收听时长包含未计入播放次数的片段 */
+export const computeListeningStats = (
+  records: PlayRecord[],
+  period: ListeningStatsPeriod,
+  now = Date.now(),
+  limit = 10,
+): ListeningStats => {
+  const since = now - LISTENING_STATS_PERIOD_DAYS[period] * DAY_MS;
+  const inPeriod = records.filter((record) => record.startedAt >= since);
+  const counted = inPeriod.filter(isCountedPlay);
+  return {
+    plays: counted.length,
+    totalSeconds: inPeriod.reduce((sum, record) => sum + record.listenedSeconds, 0),
+    topSongs: rankEntries(counted, (record) => record.songKey, (record) => record.song, limit),
+    topArtists: rankEntries(
+      counted,
+      (record) => record.song.artist || "未知歌手",
+      (record) => record.song.artist || "未知歌手",
+      limit,
+    ),
+    topSources: rankEntries(
+      counted,
+      (record) => String(record.song.source),
+      (record) => String(record.song.source),
+      limit,
+    ),
+  };
+};
+
+/** 把全部播放记录导出为 JSON 文件，返回文件名 */
+export const exportPlayHistory = async (): Promise<string> => {
+  const records = await listPlayRecords();
+  const data = {
+    version: 1,
+    records,
+    exportDate: new Date().toISOString(),
+  };
+  const filename = `tunefree_history_${new Date().toISOString().slice(0, 10)}.json`;
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+  return filename;
+};
@@ -0,0 +1,401 @@
+import { Playlist, Song } from "../types";
+import { getSongFilename } from "./download";
+import { findSongMatches } from "./songMatcher";
+import { getMusicSource } from "./sourceRegistry";
+
+// ==============================
+// 歌单文件导入 / 导出（M3U8、XSPF、CSV）
+// 导出文件附带音源和歌曲 ID，TuneFree 再次导入时可直接还原；
+// 其他播放器导出的文件只有歌名 / 歌手时，通过搜索重新匹配。
+// ==============================
+
+export type PlaylistFileFormat = "m3u8" | "xspf" | "csv";
+
+export interface PlaylistFileEntry {
+  /** 在原文件中的行号（XSPF 为曲目序号），用于提示未匹配的条目 */
+  line: number;
+  title: string;
+  artist: string;
+  album: string;
+  source?: string;
+  id?: string;
+  duration?: number;
+}
+
+export interface ParsedPlaylistFile {
+  format: PlaylistFileFormat;
+  name: string;
+  entries: PlaylistFileEntry[];
+}
+
+export interface PlaylistFileMatchResult {
+  songs: Song[];
+  unmatched: PlaylistFileEntry[];
+}
+
+/** 重新匹配时的并发搜索数 */
+const MATCH_CONCURRENCY = 3;
+
+/** M3U8 中记录音源与 ID 的扩展标签 */
+const M3U_SONG_TAG = "#EXT-X-TUNEFREE-SONG:";
+const XSPF_NS = "http://xspf.org/ns/0/";
+const XSPF_IDENTIFIER_PREFIX = "tunefree:";
+const CSV_COLUMNS = ["title", "artist", "album", "source", "id"] as const;
+
+/** CSV 表头别名（兼容常见中文表头） */
+const CSV_HEADER_ALIASES: Record<string, (typeof CSV_COLUMNS)[number]> = {
+  title: "title",
+  name: "title",
+  song: "title",
+  歌名: "title",
+  歌曲: "title",
+  标题: "title",
+  artist: "artist",
+  singer: "artist",
+  歌手: "artist",
+  艺人: "artist",
+  album: "album",
+  专辑: "album",
+  source: "source",
+  platform: "source",
+  平台: "source",
+  音源: "source",
+  id: "id",
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** 单行文本中不允许出现换行 */
+const flatten = (value: unknown) => String(value ?? "").replace(/[\r\n]+/g, " ").trim();
+
+const toM3u8 = (playlist: Playlist): string => {
+  const lines = ["#EXTM3U", `#PLAYLIST:${flatten(playlist.name)}`];
+  for (const song of playlist.songs) {
+    const duration = song.duration ? Math.round(song.duration) : -1;
+    lines.push(`#EXTINF:${duration},${flatten(song.artist)} - ${flatten(song.name)}`);
+    if (song.album) lines.push(`#EXTALB:${flatten(song.album)}`);
+    lines.push(
+      `${M3U_SONG_TAG}source=${encodeURIComponent(song.source)};id=${encodeURIComponent(String(song.id))}`,
+    );
+    lines.push(getSongFilename(song, "mp3"));
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+const toXspf = (playlist: Playlist): string => {
+  const tracks = playlist.songs.map((song) => {
+    const fields = [
+      `<title>${escapeXml(flatten(song.name))}</title>`,
+      `<creator>${escapeXml(flatten(song.artist))}</creator>`,
+      song.album ? `<album>${escapeXml(flatten(song.album))}</album>` : "",
+      song.duration ? `<duration>${Math.round(song.duration * 1000)}</duration>` : "",
+      `<identifier>${escapeXml(`${XSPF_IDENTIFIER_PREFIX}${song.source}:${song.id}`)}</identifier>`,
+    ].filter(Boolean);
+    return `    <track>\n      ${fields.join("\n      ")}\n    </track>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<playlist version="1" xmlns="${XSPF_NS}">`,
+    `  <title>${escapeXml(flatten(playlist.name))}</title>`,
+    "  <trackList>",
+    ...tracks,
+    "  </trackList>",
+    "</playlist>",
+    "",
+  ].join("\n");
+};
+
+const toCsv = (playlist: Playlist): string => {
+  const rows = playlist.songs.map((song) =>
+    [song.name, song.artist, song.album, song.source, String(song.id)]
+      .map((value) => escapeCsv(String(value ?? "")))
+      .join(","),
+  );
+  // BOM 让 Excel 以 UTF-8 打开
+  return `\uFEFF${[CSV_COLUMNS.join(","), ...rows].join("\r\n")}\r\n`;
+};
+
+const FORMAT_META: Record<PlaylistFileFormat, { mime: string; ext: string }> = {
+  m3u8: { mime: "audio/x-mpegurl", ext: "m3u8" },
+  xspf: { mime: "application/xspf+xml", ext: "xspf" },
+  csv: { mime: "text/csv", ext: "csv" },
+};
+
+export const serializePlaylist = (
+  playlist: Playlist,
+  format: PlaylistFileFormat,
+): { content: string; mime: string; ext: string } => {
+  const content =
+    format === "m3u8" ? toM3u8(playlist) : format === "xspf" ? toXspf(playlist) : toCsv(playlist);
+  return { content, ...FORMAT_META[format] };
+};
+
+const safeDecode = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+/** 「歌手 - 歌名」拆分；没有分隔符时整体作为歌名 */
+const splitDisplayTitle = (text: string): { artist: string; title: string } => {
+  const index = text.indexOf(" - ");
+  if (index < 0) return { artist: "", title: text.trim() };
+  return { artist: text.slice(0, index).trim(), title: text.slice(index + 3).trim() };
+};
+
+const parseM3u = (text: string, fallbackName: string): ParsedPlaylistFile => {
+  const entries: PlaylistFileEntry[] = [];
+  let name = fallbackName;
+  let pending: Partial<PlaylistFileEntry> = {};
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith("#PLAYLIST:")) {
+      name = line.slice("#PLAYLIST:".length).trim() || name;
+    } else if (line.startsWith("#EXTINF:")) {
+      const body = line.slice("#EXTINF:".length);
+      const comma = body.indexOf(",");
+      const duration = Number.parseFloat(comma >= 0 ? body.slice(0, comma) : body);
+      const { artist, title } = splitDisplayTitle(comma >= 0 ? body.slice(comma + 1) : "");
+      pending = {
+        ...pending,
+        line: index + 1,
+        artist,
+        title,
+        duration: duration > 0 ? duration : undefined,
+      };
+    } else if (line.startsWith("#EXTALB:")) {
+      pending.album = line.slice("#EXTALB:".length).trim();
+    } else if (line.startsWith(M3U_SONG_TAG)) {
+      for (const pair of line.slice(M3U_SONG_TAG.length).split(";")) {
+        const [key, value = ""] = pair.split("=");
+        if (key === "source") pending.source = safeDecode(value);
+        if (key === "id") pending.id = safeDecode(value);
+      }
+    } else if (!line.startsWith("#")) {
+      // 路径行结束一个条目；没有 #EXTINF 时从文件名推断歌名
+      if (!pending.title) {
+        const fileName = safeDecode(line.split(/[\\/]/).pop() || "").replace(/\.[^.]+$/, "");
+        Object.assign(pending, splitDisplayTitle(fileName));
+      }
+      entries.push({
+        line: pending.line ?? index + 1,
+        title: pending.title || "",
+        artist: pending.artist || "",
+        album: pending.album || "",
+        source: pending.source,
+        id: pending.id,
+        duration: pending.duration,
+      });
+      pending = {};
+    }
+  });
+
+  return { format: "m3u8", name, entries };
+};
+
+const parseXspf = (text: string, fallbackName: string): ParsedPlaylistFile => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    throw new Error("XSPF 文件格式不正确");
+  }
+
+  const childText = (parent: Element, tag: string) =>
+    parent.getElementsByTagName(tag)[0]?.textContent?.trim() || "";
+
+  const playlistTitle = Array.from(doc.documentElement.children).find(
+    (child) => child.localName === "title",
+  );
+
+  const entries = Array.from(doc.getElementsByTagName("track")).map((track, index) => {
+    const entry: PlaylistFileEntry = {
+      line: index + 1,
+      title: childText(track, "title"),
+      artist: childText(track, "creator"),
+      album: childText(track, "album"),
+    };
+    const duration = Number(childText(track, "duration"));
+    if (duration > 0) entry.duration = duration / 1000;
+
+    const identifier = childText(track, "identifier");
+    if (identifier.startsWith(XSPF_IDENTIFIER_PREFIX)) {
+      const rest = identifier.slice(XSPF_IDENTIFIER_PREFIX.length);
+      const separator = rest.indexOf(":");
+      if (separator > 0) {
+        entry.source = rest.slice(0, separator);
+        entry.id = rest.slice(separator + 1);
+      }
+    }
+    if (!entry.title) {
+      const location = childText(track, "location");
+      const fileName = safeDecode(location.split("/").pop() || "").replace(/\.[^.]+$/, "");
+      const parsed = splitDisplayTitle(fileName);
+      entry.title = parsed.title;
+      entry.artist = entry.artist || parsed.artist;
+    }
+    return entry;
+  });
+
+  return {
+    format: "xspf",
+    name: playlistTitle?.textContent?.trim() || fallbackName,
+    entries,
+  };
+};
+
+/** RFC 4180 CSV 解析，返回各行字段与其起始行号 */
+const parseCsvRows = (text: string): Array<{ line: number; fields: string[] }> => {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some((value) => value.trim())) rows.push({ line: rowLine, fields });
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      fields.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field || fields.length) endRow();
+  return rows;
+};
+
+const parseCsv = (text: string, fallbackName: string): ParsedPlaylistFile => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) return { format: "csv", name: fallbackName, entries: [] };
+
+  const header = rows[0].fields.map(
+    (value) => CSV_HEADER_ALIASES[value.trim().toLowerCase()] || CSV_HEADER_ALIASES[value.trim()],
+  );
+  const hasHeader = header.includes("title");
+  // 无表头时按导出顺序（title, artist, album, source, id）解析
+  const columns = hasHeader ? header : [...CSV_COLUMNS];
+
+  const entries = rows.slice(hasHeader ? 1 : 0).map(({ line, fields }) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column && fields[index] !== undefined) record[column] = fields[index].trim();
+    });
+    return {
+      line,
+      title: record.title || "",
+      artist: record.artist || "",
+      album: record.album || "",
+      source: record.source || undefined,
+      id: record.id || undefined,
+    };
+  });
+
+  return { format: "csv", name: fallbackName, entries };
+};
+
+/**
+ * 按扩展名（无扩展名时按内容）解析歌单文件。
+ */
+export const parsePlaylistFile = (text: string, fileName: string): ParsedPlaylistFile => {
+  const ext = fileName.split(".").pop()?.toLowerCase() || "";
+  const baseName = fileName.replace(/\.[^.]+$/, "") || "导入的歌单";
+  const trimmed = text.replace(/^\uFEFF/, "").trimStart();
+
+  if (ext === "m3u" || ext === "m3u8" || trimmed.startsWith("#EXTM3U")) {
+    return parseM3u(trimmed, baseName);
+  }
+  if (ext === "xspf" || trimmed.startsWith("<?xml") || trimmed.startsWith("<playlist")) {
+    return parseXspf(trimmed, baseName);
+  }
+  return parseCsv(trimmed, baseName);
+};
+
+/**
+ * 将文件条目还原为歌曲：带有已注册音源和 ID 的直接使用，
+ * 其余按歌名 / 歌手搜索匹配，找不到的放入 unmatched。
+ */
+export const matchPlaylistFileEntries = async (
+  entries: PlaylistFileEntry[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<PlaylistFileMatchResult> => {
+  const songs: Array<Song | null> = new Array(entries.length).fill(null);
+  const pendingIndexes: number[] = [];
+
+  entries.forEach((entry, index) => {
+    if (entry.id && entry.source && getMusicSource(entry.source)) {
+      songs[index] = {
+        id: entry.id,
+        source: entry.source,
+        name: entry.title || "未知歌曲",
+        artist: entry.artist || "未知歌手",
+        album: entry.album,
+        duration: entry.duration,
+      };
+    } else if (entry.title) {
+      pendingIndexes.push(index);
+    }
+  });
+
+  let done = 0;
+  onProgress?.(done, pendingIndexes.length);
+
+  const queue = [...pendingIndexes];
+  const worker = async () => {
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      const entry = entries[index];
+      const matches = await findSongMatches({
+        id: "",
+        source: "",
+        name: entry.title,
+        artist: entry.artist,
+        album: entry.album,
+        duration: entry.duration,
+      }).catch(() => []);
+      if (matches[0]) songs[index] = matches[0].song;
+      onProgress?.(++done, pendingIndexes.length);
+    }
+  };
+  await Promise.all(Array.from({ length: MATCH_CONCURRENCY }, worker));
+
+  return {
+    songs: songs.filter((song): song is Song => Boolean(song)),
+    unmatched: entries.filter((_, index) => !songs[index]),
+  };
+};
@@ -121,3 +121,33 @@ export const proxyFetchJsonWithValidator = async <T = any>(
 
   return null;
 };
+
+/**
+ * 下载二进制内容（音频 / 封面）：先直连（多数 CDN 支持 CORS），失败再走代理。
+ */
+export const proxyFetchBlob = async (
+  url: string,
+  timeoutMs = 8000,
+): Promise<Blob | null> => {
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const resp = await fetch(url, {
+      mode: "cors",
+      credentials: "omit",
+      signal: controller.signal,
+    });
+    clearTimeout(timeoutId);
+    if (resp.ok) return await resp.blob();
+  } catch {
+    /* fall through to proxy */
+  }
+
+  const proxied = await proxyFetch(url, {}, timeoutMs);
+  if (!proxied?.ok) return null;
+  try {
+    return await proxied.blob();
+  } catch {
+    return null;
+  }
+};
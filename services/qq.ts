@@ -1,7 +1,24 @@
-import { Song, TopList } from "../types";
+import { LyricBundle, Song, TopList } from "../types";
 import { SELF_HOSTED_PROXY } from "./config";
-import { getProxies } from "./proxy";
-import { fixUrl } from "./utils";
+import {
+  createLyricBundle,
+  formatEnhancedLrc,
+  formatPlainLrc,
+  parseQrc,
+} from "./lyricFormats";
+import { resolveNativeUrl } from "./nativeUrl";
+import { getProxies, proxyFetchJson } from "./proxy";
+import {
+  registerMusicSource,
+  type SourceAlbum,
+  type SourceAlbumSummary,
+  type SourceArtist,
+  type SourceArtistSummary,
+  type SourcePlaylist,
+  type SourcePlaylistCategory,
+  type SourcePlaylistSummary,
+} from "./sourceRegistry";
+import { fixUrl, normalizeSongs, toDurationSeconds, toOptionalId } from "./utils";
 
 // ==============================
 // QQ 音乐 直连接口
@@ -22,6 +39,12 @@ const QQ_COMM = {
 
 const MUSICU_URL = "https://u.y.qq.com/cgi-bin/musicu.fcg";
 
+const getQQArtistCover = (mid: string) =>
+  fixUrl(`https://y.gtimg.cn/music/photo_new/T001R500x500M000${mid}.jpg`);
+
+const getQQAlbumCover = (mid: string) =>
+  fixUrl(`https://y.gtimg.cn/music/photo_new/T002R500x500M000${mid}.jpg`);
+
 /**
  * 通用 QQ 音乐 musicu.fcg 请求封装。
  * 自动包裹 comm 头，通过代理列表轮询，返回 data.req.data（code=0 时）。
@@ -67,6 +90,29 @@ export const qqMusicuFetch = async (reqBody: any): Promise<any> => {
 // 搜索
 // ==============================
 
+/** DoSearchForQQMusicDesktop 的 search_type 参数 */
+const QQ_SEARCH_TYPES = { song: 0, playlist: 2, album: 8, artist: 9 } as const;
+
+/** musicu.fcg DoSearchForQQMusicDesktop，返回 body 字段 */
+const qqSearch = async (
+  keyword: string,
+  type: keyof typeof QQ_SEARCH_TYPES,
+  page: number,
+  limit: number,
+): Promise<any> => {
+  const data = await qqMusicuFetch({
+    method: "DoSearchForQQMusicDesktop",
+    module: "music.search.SearchCgiService",
+    param: {
+      query: keyword,
+      page_num: page,
+      num_per_page: limit,
+      search_type: QQ_SEARCH_TYPES[type],
+    },
+  });
+  return data?.body;
+};
+
 /**
  * QQ 音乐搜索：使用 musicu.fcg DoSearchForQQMusicDesktop（移动客户端标识）。
  * 返回标准化的 Song 列表，封面通过 albumMid 构造高清 URL。
@@ -80,13 +126,9 @@ export const searchQQ = async (
   page: number,
   limit: number,
 ): Promise<Song[]> => {
-  const data = await qqMusicuFetch({
-    method: "DoSearchForQQMusicDesktop",
-    module: "music.search.SearchCgiService",
-    param: { query: keyword, page_num: page, num_per_page: limit },
-  });
+  const body = await qqSearch(keyword, "song", page, limit);
 
-  const songs = data?.body?.song?.list;
+  const songs = body?.song?.list;
   if (!songs || !Array.isArray(songs) || songs.length === 0) return [];
 
   return songs.map((s: any) => ({
@@ -100,9 +142,99 @@ export const searchQQ = async (
         )
       : "",
     source: "qq" as const,
+    duration: toDurationSeconds(s.interval),
+    artistId: toOptionalId(s.singer?.[0]?.mid),
+    albumId: toOptionalId(s.album?.mid),
+  }));
+};
+
+/** QQ 音乐歌手搜索：search_type=9 */
+export const searchQQArtists = async (
+  keyword: string,
+  page: number,
+  limit: number,
+): Promise<SourceArtistSummary[]> => {
+  const body = await qqSearch(keyword, "artist", page, limit);
+  const artists = body?.singer?.list;
+  if (!Array.isArray(artists)) return [];
+
+  return artists.map((artist: any) => ({
+    id: String(artist.singerMID),
+    name: artist.singerName || "",
+    cover: fixUrl(artist.singerPic || getQQArtistCover(artist.singerMID)),
+    albumCount: Number(artist.albumNum) || undefined,
+  }));
+};
+
+/** QQ 音乐专辑搜索：search_type=8 */
+export const searchQQAlbums = async (
+  keyword: string,
+  page: number,
+  limit: number,
+): Promise<SourceAlbumSummary[]> => {
+  const body = await qqSearch(keyword, "album", page, limit);
+  const albums = body?.album?.list;
+  if (!Array.isArray(albums)) return [];
+
+  return albums.map((album: any) => ({
+    id: String(album.albumMID),
+    name: album.albumName || "",
+    cover: fixUrl(album.albumPic || getQQAlbumCover(album.albumMID)),
+    artist: album.singerName || "",
+    publishDate: album.publicTime || undefined,
+  }));
+};
+
+/** QQ 音乐歌单搜索：search_type=2 */
+export const searchQQPlaylists = async (
+  keyword: string,
+  page: number,
+  limit: number,
+): Promise<SourcePlaylistSummary[]> => {
+  const body = await qqSearch(keyword, "playlist", page, limit);
+  const playlists = body?.songlist?.list;
+  if (!Array.isArray(playlists)) return [];
+
+  return playlists.map((item: any) => ({
+    id: String(item.dissid),
+    name: item.dissname || "",
+    cover: fixUrl(item.imgurl || ""),
+    playCount: Number(item.listennum) || undefined,
+    creator: item.creator?.name || undefined,
   }));
 };
 
+/**
+ * QQ 音乐搜索建议：c.y.qq.com smartbox_new.fcg，
+ * 合并歌曲、歌手、专辑三类建议。
+ * @param keyword 已输入的关键词
+ */
+export const getQQSearchSuggestions = async (
+  keyword: string,
+): Promise<string[]> => {
+  const data = await proxyFetchJson(
+    `https://c.y.qq.com/splcloud/fcgi-bin/smartbox_new.fcg?key=${encodeURIComponent(keyword)}&format=json&inCharset=utf-8&outCharset=utf-8`,
+  );
+  const groups = [data?.data?.song, data?.data?.singer, data?.data?.album];
+  return groups.flatMap((group) =>
+    Array.isArray(group?.itemlist)
+      ? group.itemlist.map((item: any) => String(item.name || "")).filter(Boolean)
+      : [],
+  );
+};
+
+/** QQ 音乐热搜：tencent_musicsoso_hotkey.HotkeyService GetHotkeyForQQMusicMobile */
+export const getQQHotKeywords = async (): Promise<string[]> => {
+  const data = await qqMusicuFetch({
+    module: "tencent_musicsoso_hotkey.HotkeyService",
+    method: "GetHotkeyForQQMusicMobile",
+    param: { search_id: "", uin: 0 },
+  });
+  const hotkeys = data?.vec_hotkey;
+  if (!Array.isArray(hotkeys)) return [];
+  return hotkeys.map((item: any) => String(item.query || item.title || "")).filter(Boolean);
+};
+
 // ==============================
 // 排行榜
 // ==============================
@@ -175,6 +307,8 @@ export const getQQTopListDetail = async (
         )
       : "",
     source: "qq" as const,
+    artistId: toOptionalId(s.singer?.[0]?.mid),
+    albumId: toOptionalId(s.album?.mid),
   }));
 };
 
@@ -182,9 +316,37 @@ export const getQQTopListDetail = async (
 // 歌词
 // ==============================
 
+/** 歌词字段一般是 Base64，少数情况下直接返回明文 */
+const decodeLyricField = (value: string): string => {
+  if (!value) return "";
+  if (/[\[<]/.test(value)) return value;
+  try {
+    return decodeURIComponent(escape(atob(value)));
+  } catch {
+    return "";
+  }
+};
+
+const requestQQLyrics = (id: string | number, qrc: boolean) =>
+  qqMusicuFetch({
+    module: "music.musichallSong.PlayLyricInfo",
+    method: "GetPlayLyricInfo",
+    param: qrc
+      ? { songMID: String(id), songID: 0, qrc: 1, qrc_t: 0, trans: 1, roma: 1, crypt: 0 }
+      : { songMID: String(id), songID: 0 },
+  });
+
+/** 罗马音可能是 QRC 或 LRC，统一转为不带逐字时间的 LRC */
+const toPlainLrc = (text: string): string => {
+  const wordLines = parseQrc(text);
+  if (wordLines.length > 0) return formatPlainLrc(wordLines);
+  return /\[\d{2}:\d{2}\.\d{2,3}\]/.test(text) ? text : "";
+};
+
 /**
  * QQ 音乐歌词：通过 musicu.fcg music.musichallSong.PlayLyricInfo 接口。
- * 返回 Base64 解码后的 LRC 文本（原文 + 译文，如有）。
+ * 优先请求明文 QRC 逐字歌词并转换为增强 LRC；返回加密内容或没有 QRC 时，
+ * 退回普通 LRC。译文（trans）与罗马音（roma）分层返回。
  *
  * 注意：旧版 fcg_query_lyric_new 接口在 CORS 代理下返回 -1310 错误，
  * 必须使用此 musicu.fcg 统一接口。
@@ -193,33 +355,290 @@ export const getQQTopListDetail = async (
  */
 export const fetchQQLyrics = async (
   id: string | number,
-): Promise<string> => {
+): Promise<LyricBundle> => {
   try {
+    let main = "";
+    let trans = "";
+    let roma = "";
+
+    const qrcData = await requestQQLyrics(id, true).catch(() => null);
+    if (qrcData) {
+      const lyric = decodeLyricField(qrcData.lyric || "");
+      const wordLines = parseQrc(lyric);
+      if (wordLines.length > 0) {
+        main = formatEnhancedLrc(wordLines);
+      } else if (/\[\d{2}:\d{2}\.\d{2,3}\]/.test(lyric)) {
+        // 接口忽略了 qrc 参数，返回的就是普通 LRC
+        main = lyric;
+      }
+      trans = decodeLyricField(qrcData.trans || "");
+      roma = toPlainLrc(decodeLyricField(qrcData.roma || ""));
+    }
+
+    if (!main) {
+      const data = await requestQQLyrics(id, false);
+      if (!data) return createLyricBundle();
+      main = decodeLyricField(data.lyric || "");
+      trans = trans || decodeLyricField(data.trans || "");
+    }
+
+    return createLyricBundle(main, trans, roma);
+  } catch {
+    return createLyricBundle();
+  }
+};
+
+// ==============================
+// 歌单导入
+// ==============================
+
+/** 每页拉取歌曲数 */
+const PLAYLIST_PAGE_SIZE = 300;
+/** 分页上限，避免接口异常时无限请求 */
+const PLAYLIST_MAX_PAGES = 40;
+
+/**
+ * 识别 QQ 音乐歌单分享链接：
+ * y.qq.com/n/ryqq/playlist/xxx、i.y.qq.com/n2/m/share/details/taoge.html?id=xxx、
+ * 以及带 disstid / dissid 参数的旧版链接
+ */
+export const parseQQPlaylistLink = (input: string): string | null => {
+  if (!/qq\.com/.test(input)) return null;
+  const match =
+    input.match(/[?&](?:disstid|dissid)=(\d+)/) ||
+    input.match(/playlist\/(\d+)/) ||
+    (/taoge|playlist|playsquare/.test(input) ? input.match(/[?&]id=(\d+)/) : null);
+  return match ? match[1] : null;
+};
+
+/**
+ * QQ 音乐歌单详情：通过 music.srfDissInfo.aiDissInfo uniform_get_Dissinfo 接口，
+ * 按 song_begin / song_num 分页拉取全部歌曲。
+ *
+ * @param disstid 歌单 ID
+ */
+export const getQQPlaylistDetail = async (
+  disstid: string,
+): Promise<SourcePlaylist | null> => {
+  let name = "";
+  let cover = "";
+  let total = Infinity;
+  const songs: Song[] = [];
+
+  for (let page = 0; page < PLAYLIST_MAX_PAGES && songs.length < total; page++) {
     const data = await qqMusicuFetch({
-      module: "music.musichallSong.PlayLyricInfo",
-      method: "GetPlayLyricInfo",
-      param: { songMID: String(id), songID: 0 },
+      module: "music.srfDissInfo.aiDissInfo",
+      method: "uniform_get_Dissinfo",
+      param: {
+        disstid: Number(disstid),
+        userinfo: 1,
+        tag: 1,
+        orderlist: 1,
+        song_begin: songs.length,
+        song_num: PLAYLIST_PAGE_SIZE,
+        onlysonglist: page > 0 ? 1 : 0,
+      },
     });
+    if (!data) break;
+
+    if (page === 0) {
+      name = data.dirinfo?.title || "";
+      cover = data.dirinfo?.picurl || "";
+    }
+    const songnum = Number(data.total_song_num ?? data.dirinfo?.songnum);
+    if (Number.isFinite(songnum) && songnum >= 0) total = songnum;
 
-    if (!data) return "";
+    const list: any[] = Array.isArray(data.songlist) ? data.songlist : [];
+    if (list.length === 0) break;
+    songs.push(...normalizeSongs(list, "qq"));
+  }
 
-    const lyricB64: string = data.lyric || "";
-    const transB64: string = data.trans || "";
+  if (!name && songs.length === 0) return null;
 
-    // QQ 歌词 API 返回 Base64 编码的 LRC 文本
-    const decode = (b64: string): string => {
-      try {
-        return b64 ? decodeURIComponent(escape(atob(b64))) : "";
-      } catch {
-        return "";
-      }
-    };
+  return { id: disstid, name, cover: fixUrl(cover), songs };
+};
 
-    const main = decode(lyricB64);
-    const trans = decode(transB64);
+// ==============================
+// 歌单广场
+// ==============================
 
-    return main && trans ? `${main}\n${trans}` : main;
-  } catch {
-    return "";
-  }
+/** 「全部」分类的标签 ID */
+const QQ_ALL_CATEGORY_ID = "10000000";
+
+/**
+ * QQ 音乐歌单分类：通过 music.playlist.PlaylistSquare GetAllTag 接口，
+ * 响应按分组（v_group）返回标签。
+ */
+export const getQQPlaylistCategories = async (): Promise<SourcePlaylistCategory[]> => {
+  const data = await qqMusicuFetch({
+    module: "music.playlist.PlaylistSquare",
+    method: "GetAllTag",
+    param: {},
+  });
+  const groups: any[] = Array.isArray(data?.v_group) ? data.v_group : [];
+  return [
+    { id: QQ_ALL_CATEGORY_ID, name: "全部" },
+    ...groups.flatMap((group) =>
+      (group.v_item || []).map((item: any) => ({
+        id: String(item.id),
+        name: String(item.name || ""),
+        group: group.group_name || undefined,
+      })),
+    ),
+  ].filter((category, i, all) => all.findIndex((c) => c.id === category.id) === i);
+};
+
+/**
+ * QQ 音乐分类歌单：通过 playlist.PlayListPlazaServer get_playlist_by_tag 接口（按热度排序）。
+ * @param tagId 标签 ID
+ */
+export const getQQCategoryPlaylists = async (
+  tagId: string,
+  page: number,
+  limit: number,
+): Promise<SourcePlaylistSummary[]> => {
+  const data = await qqMusicuFetch({
+    module: "playlist.PlayListPlazaServer",
+    method: "get_playlist_by_tag",
+    param: { id: Number(tagId), sin: (page - 1) * limit, size: limit, order: 5, cur_page: page },
+  });
+  const playlists = data?.v_playlist;
+  if (!Array.isArray(playlists)) return [];
+
+  return playlists.map((item: any) => ({
+    id: String(item.tid),
+    name: item.title || "",
+    cover: fixUrl(item.cover_url_medium || item.cover_url_big || item.cover_url_small || ""),
+    playCount: Number(item.access_num) || undefined,
+    creator: item.creator_info?.nick || undefined,
+  }));
+};
+
+// ==============================
+// 歌手 / 专辑
+// ==============================
+
+/** 歌手热门歌曲 / 专辑列表拉取数量 */
+const ARTIST_SONG_LIMIT = 50;
+const ARTIST_ALBUM_LIMIT = 50;
+/** 专辑曲目上限（单张专辑通常远少于此） */
+const ALBUM_SONG_LIMIT = 200;
+
+/** songList 中每项为 { songInfo }，解包后交给 normalizeSongs */
+const normalizeQQSongList = (list: unknown): Song[] =>
+  normalizeSongs(
+    Array.isArray(list) ? list.map((item: any) => item?.songInfo || item) : [],
+    "qq",
+  );
+
+/**
+ * QQ 音乐歌手页：并行请求歌手信息（SingerInfoInter GetSingerDetail）、
+ * 热门歌曲（song_list_server GetSingerSongList）和专辑列表（AlbumListServer GetAlbumList）。
+ *
+ * @param singerMid 歌手 MID
+ */
+export const getQQArtistDetail = async (
+  singerMid: string,
+): Promise<SourceArtist | null> => {
+  const [info, songData, albumData] = await Promise.all([
+    qqMusicuFetch({
+      module: "music.musichallSinger.SingerInfoInter",
+      method: "GetSingerDetail",
+      param: { singer_mids: [singerMid], ex_singer: 1, wiki_singer: 1, group_singer: 0, pic: 1, photos: 0 },
+    }),
+    qqMusicuFetch({
+      module: "musichall.song_list_server",
+      method: "GetSingerSongList",
+      param: { singerMid, begin: 0, num: ARTIST_SONG_LIMIT, order: 1 },
+    }),
+    qqMusicuFetch({
+      module: "music.musichallAlbum.AlbumListServer",
+      method: "GetAlbumList",
+      param: { singerMid, order: 0, begin: 0, num: ARTIST_ALBUM_LIMIT, songNumTag: 0, singerID: 0 },
+    }),
+  ]);
+
+  const singer = info?.singer_list?.[0];
+  const songs = normalizeQQSongList(songData?.songList);
+  const name = singer?.basic_info?.name || songs[0]?.artist.split("/")[0] || "";
+  if (!name && songs.length === 0) return null;
+
+  const albums: SourceAlbumSummary[] = (albumData?.albumList || []).map((album: any) => ({
+    id: String(album.albumMid),
+    name: album.albumName || "",
+    cover: getQQAlbumCover(album.albumMid),
+    publishDate: album.publishDate || undefined,
+  }));
+
+  return {
+    id: singerMid,
+    name,
+    cover: getQQArtistCover(singerMid),
+    description: singer?.ex_info?.desc || singer?.wiki?.desc || "",
+    songs,
+    albums,
+  };
+};
+
+/**
+ * QQ 音乐专辑页：AlbumInfoServer GetAlbumDetail（基本信息）
+ * 与 AlbumSongList GetAlbumSongList（曲目）并行请求。
+ *
+ * @param albumMid 专辑 MID
+ */
+export const getQQAlbumDetail = async (
+  albumMid: string,
+): Promise<SourceAlbum | null> => {
+  const [info, songData] = await Promise.all([
+    qqMusicuFetch({
+      module: "music.musichallAlbum.AlbumInfoServer",
+      method: "GetAlbumDetail",
+      param: { albumMid },
+    }),
+    qqMusicuFetch({
+      module: "music.musichallAlbum.AlbumSongList",
+      method: "GetAlbumSongList",
+      param: { albumMid, begin: 0, num: ALBUM_SONG_LIMIT, order: 2 },
+    }),
+  ]);
+
+  const basic = info?.basicInfo;
+  const songs = normalizeQQSongList(songData?.songList);
+  if (!basic && songs.length === 0) return null;
+
+  const singers: any[] = info?.singer?.singerList || [];
+  return {
+    id: albumMid,
+    name: basic?.albumName || songs[0]?.album || "",
+    cover: getQQAlbumCover(albumMid),
+    publishDate: basic?.publishDate || undefined,
+    artist: singers.map((singer) => singer.name).join(", ") || songs[0]?.artist || "",
+    artistId: toOptionalId(singers[0]?.mid),
+    description: basic?.desc || "",
+    songs,
+  };
 };
+
+registerMusicSource({
+  id: "qq",
+  order: 20,
+  label: { short: "QQ", full: "QQ音乐" },
+  badgeClass: "bg-green-100 text-green-600",
+  capabilities: { aggregate: "core", gdStudioFallback: false },
+  search: searchQQ,
+  searchArtists: searchQQArtists,
+  searchAlbums: searchQQAlbums,
+  searchPlaylists: searchQQPlaylists,
+  suggest: getQQSearchSuggestions,
+  hotKeywords: getQQHotKeywords,
+  topLists: getQQTopLists,
+  topListDetail: getQQTopListDetail,
+  lyrics: fetchQQLyrics,
+  url: (id, quality) => resolveNativeUrl(id, "qq", quality),
+  parsePlaylistLink: parseQQPlaylistLink,
+  playlistDetail: getQQPlaylistDetail,
+  playlistCategories: getQQPlaylistCategories,
+  categoryPlaylists: getQQCategoryPlaylists,
+  artistDetail: getQQArtistDetail,
+  albumDetail: getQQAlbumDetail,
+});
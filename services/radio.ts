@@ -0,0 +1,89 @@
+import { Song, getSongKey } from "../types";
+import { getSongDedupeKey, splitArtistNames } from "./songMatcher";
+import { getMusicSource } from "./sourceRegistry";
+import { shuffleWithSeed } from "../utils/random";
+
+// ==============================
+// 电台（自动播放相似歌曲）
+// 队列播完时以当前歌曲为种子，从平台推荐、同歌手歌曲和同榜单歌曲中
+// 交替挑选一批新歌追加到队列末尾。
+// ==============================
+
+export const RADIO_BATCH_SIZE = 10;
+
+/** 在种子音源的前几个榜单里查找种子歌曲 */
+const TOP_LIST_SCAN_LIMIT = 3;
+const TOP_LIST_CACHE_TTL = 10 * 60 * 1000;
+
+const topListSongsCache = new Map<string, { songs: Song[]; ts: number }>();
+
+const getCachedTopListSongs = async (
+  source: string,
+  id: string | number,
+): Promise<Song[]> => {
+  const cacheKey = `${source}:${id}`;
+  const cached = topListSongsCache.get(cacheKey);
+  if (cached && Date.now() - cached.ts < TOP_LIST_CACHE_TTL) return cached.songs;
+  const songs = (await getMusicSource(source)?.topListDetail?.(id)) || [];
+  topListSongsCache.set(cacheKey, { songs, ts: Date.now() });
+  return songs;
+};
+
+/** 种子歌曲所在榜单的其他歌曲；不在任何榜单中时取该音源的第一个榜单 */
+const getTopListNeighbours = async (seed: Song): Promise<Song[]> => {
+  const provider = getMusicSource(String(seed.source));
+  if (!provider?.topLists || !provider.topListDetail) return [];
+  const lists = (await provider.topLists()).slice(0, TOP_LIST_SCAN_LIMIT);
+  const seedKey = getSongKey(seed);
+  let fallback: Song[] = [];
+  for (const list of lists) {
+    const songs = await getCachedTopListSongs(provider.id, list.id).catch(() => [] as Song[]);
+    if (songs.some((song) => getSongKey(song) === seedKey)) return songs;
+    if (fallback.length === 0) fallback = songs;
+  }
+  return fallback;
+};
+
+/**
+ * 以 seed 为种子挑选一批电台歌曲。exclude 为已在队列中的歌曲，
+ * 同一首歌的其他音源版本也会被排除。
+ */
+export const findRadioSongs = async (
+  seed: Song,
+  exclude: Song[],
+  limit = RADIO_BATCH_SIZE,
+): Promise<Song[]> => {
+  const provider = getMusicSource(String(seed.source));
+  const primaryArtist = splitArtistNames(seed.artist)[0] || "";
+
+  const [similar, sameArtist, topList] = await Promise.all([
+    provider?.similar ? provider.similar(seed.id).catch(() => [] as Song[]) : [],
+    provider?.search && primaryArtist
+      ? provider.search(primaryArtist, 1, 20).catch(() => [] as Song[])
+      : [],
+    getTopListNeighbours(seed).catch(() => [] as Song[]),
+  ]);
+
+  const excludedKeys = new Set(exclude.map(getSongKey));
+  const seen = new Set([...exclude, seed].map(getSongDedupeKey));
+  // 平台推荐保持原顺序，其余来源打乱，避免每次都从最热门的几首开始
+  const seedValue = Date.now();
+  const buckets = [
+    similar,
+    shuffleWithSeed(sameArtist, seedValue),
+    shuffleWithSeed(topList, seedValue + 1),
+  ];
+  const result: Song[] = [];
+  while (result.length < limit && buckets.some((bucket) => bucket.length > 0)) {
+    for (const bucket of buckets) {
+      const song = bucket.shift();
+      if (!song || excludedKeys.has(getSongKey(song))) continue;
+      const dedupeKey = getSongDedupeKey(song);
+      if (seen.has(dedupeKey)) continue;
+      seen.add(dedupeKey);
+      result.push(song);
+      if (result.length >= limit) break;
+    }
+  }
+  return result;
+};
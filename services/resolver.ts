@@ -1,43 +1,31 @@
-import { API_PREFIX } from "./config";
 import { fixUrl } from "./utils";
-import { fetchNeteaselyrics } from "./netease";
-import { fetchQQLyrics } from "./qq";
-import { fetchKuwoLyrics } from "./kuwo";
 import {
+  type GdStudioSource,
   getGDStudioLyrics,
   getGDStudioSongUrl,
-  isGDStudioOnlySource,
   isGDStudioSource,
-  parseGDStudioSongFull,
 } from "./gdStudio";
-import type { Song } from "../types";
+import { createLyricBundle, isLyricBundleEmpty, joinLyricBundle } from "./lyricFormats";
+import { getMusicSource, listUrlResolvers } from "./sourceRegistry";
+import type { LyricBundle, Song } from "../types";
 
-const _lyricsCache = new Map<string, string>();
-const _lyricsPending = new Map<string, Promise<string>>();
+export { fetchNativeUrl } from "./nativeUrl";
 
-export const fetchNativeUrl = async (
-  id: string,
-  platform: string,
-  quality: string,
-): Promise<string | null> => {
-  try {
-    const resp = await fetch(
-      `${API_PREFIX}/api/url?platform=${encodeURIComponent(platform)}&id=${encodeURIComponent(id)}&quality=${encodeURIComponent(quality)}`,
-    );
-    if (resp.ok) {
-      const data = await resp.json();
-      if (data?.url) return data.url as string;
-    }
-  } catch {
-    return null;
-  }
-  return null;
-};
+/** 分层歌词缓存，key 为 lrc:${source}:${id} */
+const _lyricsCache = new Map<string, LyricBundle>();
+const _lyricsPending = new Map<string, Promise<LyricBundle>>();
+
+/**
+ * 原生接口失败时是否走 GD 音乐台兜底（仅对声明了 gdStudioFallback 的音源生效）。
+ */
+const canFallbackToGDStudio = (source: string): source is GdStudioSource =>
+  !!getMusicSource(source)?.capabilities.gdStudioFallback &&
+  isGDStudioSource(source);
 
 export const fetchFallbackLyrics = async (
   id: string | number,
   source: string,
-): Promise<string> => {
+): Promise<LyricBundle> => {
   const cacheKey = `lrc:${source}:${id}`;
   const cached = _lyricsCache.get(cacheKey);
   if (cached !== undefined) return cached;
@@ -46,43 +34,45 @@ export const fetchFallbackLyrics = async (
   if (pending) return pending;
 
   const request = (async () => {
-    let lrc = "";
+    let bundle = createLyricBundle();
 
     try {
-      if (isGDStudioOnlySource(source)) {
-        lrc = await getGDStudioLyrics(id, source);
-      } else if (source === "netease") {
-        lrc = await fetchNeteaselyrics(id);
-      } else if (source === "qq") {
-        lrc = await fetchQQLyrics(id);
-      } else if (source === "kuwo") {
-        lrc = await fetchKuwoLyrics(id);
+      const provider = getMusicSource(source);
+      if (provider?.lyrics) {
+        bundle = await provider.lyrics(id);
       }
 
-      if (!lrc && isGDStudioSource(source)) {
-        lrc = await getGDStudioLyrics(id, source);
+      if (isLyricBundleEmpty(bundle) && canFallbackToGDStudio(source)) {
+        bundle = await getGDStudioLyrics(id, source);
       }
     } catch (e) {
       console.warn(`[Resolver] fetchFallbackLyrics failed (${source}:${id}):`, e);
     }
 
-    _lyricsCache.set(cacheKey, lrc);
+    _lyricsCache.set(cacheKey, bundle);
     _lyricsPending.delete(cacheKey);
-    return lrc;
+    return bundle;
   })();
 
   _lyricsPending.set(cacheKey, request);
   return request;
 };
 
-export const getLyrics = async (
+/** 分层歌词（原文 / 翻译 / 罗马音），播放页按层显示 */
+export const getLyricBundle = async (
   id: string | number,
   source: string,
-): Promise<string> => {
-  if (!id || !source || source === "undefined") return "";
+): Promise<LyricBundle> => {
+  if (!id || !source || source === "undefined") return createLyricBundle();
   return fetchFallbackLyrics(id, source);
 };
 
+/** 原文与翻译拼接后的单个 LRC，用于保存到歌曲、离线缓存和下载文件 */
+export const getLyrics = async (
+  id: string | number,
+  source: string,
+): Promise<string> => joinLyricBundle(await getLyricBundle(id, source));
+
 export const getSongUrl = async (
   id: string | number,
   source: string,
@@ -92,14 +82,20 @@ export const getSongUrl = async (
     return null;
   }
 
-  if (isGDStudioOnlySource(source)) {
-    return getGDStudioSongUrl(id, source, quality);
-  }
+  const provider = getMusicSource(source);
+  const url = provider?.url ? await provider.url(id, quality) : null;
+  if (url) return url;
 
-  const nativeUrl = await fetchNativeUrl(String(id), source, quality);
-  if (nativeUrl) return fixUrl(nativeUrl) || null;
+  for (const resolver of listUrlResolvers()) {
+    try {
+      const extraUrl = await resolver.resolve(id, source, quality);
+      if (extraUrl) return fixUrl(extraUrl) || extraUrl;
+    } catch (e) {
+      console.warn(`[Resolver] ${resolver.id} failed (${source}:${id}):`, e);
+    }
+  }
 
-  if (isGDStudioSource(source)) {
+  if (canFallbackToGDStudio(source)) {
     return getGDStudioSongUrl(id, source, quality);
   }
 
@@ -116,15 +112,16 @@ export const parseSongFull = async (
     return null;
   }
 
-  if (isGDStudioOnlySource(platform)) {
-    return parseGDStudioSongFull(id, platform, quality, songMeta);
-  }
-
-  const [url, lrc] = await Promise.all([
+  const provider = getMusicSource(platform);
+  const [url, lrc, pic] = await Promise.all([
     getSongUrl(id, platform, quality),
     getLyrics(id, platform),
+    songMeta?.pic
+      ? Promise.resolve(fixUrl(songMeta.pic))
+      : provider?.cover
+        ? provider.cover(id, songMeta).catch(() => "")
+        : Promise.resolve(""),
   ]);
-  const pic = songMeta?.pic ? fixUrl(songMeta.pic) : "";
 
   if (!url && !lrc && !pic) return null;
 
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { Song } from "../types";
+import { findSongMatches, scoreSongMatch } from "./songMatcher";
+import { registerMusicSource } from "./sourceRegistry";
+
+const ORIGINAL: Song = {
+  id: 186016,
+  name: "晴天",
+  artist: "周杰伦",
+  album: "叶惠美",
+  source: "netease",
+  duration: 269,
+};
+
+const candidate = (id: string, duration?: number): Song => ({
+  id,
+  name: "晴天",
+  artist: "周杰伦",
+  album: "叶惠美",
+  source: "test-match",
+  duration,
+});
+
+registerMusicSource({
+  id: "test-match",
+  order: 999,
+  label: { short: "测", full: "测试音源" },
+  badgeClass: "",
+  capabilities: { aggregate: false, gdStudioFallback: false },
+  search: async () => [
+    candidate("far", 269 + 45),
+    candidate("near", 269 + 8),
+    candidate("exact", 269 + 1),
+    candidate("unknown"),
+  ],
+});
+
+describe("scoreSongMatch", () => {
+  it("时长越接近分数越高", () => {
+    const exact = scoreSongMatch(ORIGINAL, candidate("exact", 270));
+    const near = scoreSongMatch(ORIGINAL, candidate("near", 277));
+    const loose = scoreSongMatch(ORIGINAL, candidate("loose", 284));
+    expect(exact).toBe(1);
+    expect(near).toBeLessThan(exact);
+    expect(loose).toBeLessThan(near);
+  });
+
+  it("时长相差超过 20 秒视为不同歌曲", () => {
+    expect(scoreSongMatch(ORIGINAL, candidate("far", 290))).toBe(0);
+  });
+
+  it("任一方缺少时长时不参与计分", () => {
+    expect(scoreSongMatch(ORIGINAL, candidate("unknown"))).toBe(1);
+    expect(scoreSongMatch({ ...ORIGINAL, duration: undefined }, candidate("far", 600))).toBe(1);
+  });
+});
+
+describe("findSongMatches", () => {
+  it("按时长差异排序并排除时长不符的候选", async () => {
+    const matches = await findSongMatches(ORIGINAL, { sources: ["test-match"] });
+    expect(matches.map((match) => match.song.id)).toEqual(["exact", "unknown", "near"]);
+  });
+});
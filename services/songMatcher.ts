@@ -0,0 +1,272 @@
+import { Song, getSongKey } from "../types";
+import { getSongUrl } from "./resolver";
+import { getMusicSource, listMusicSources } from "./sourceRegistry";
+
+// ==============================
+// 跨平台歌曲匹配
+// 原始音源取不到播放地址时，在其他平台搜索同名歌曲并打分，
+// 选出最可能是同一首歌的候选用于换源播放。
+// ==============================
+
+const SOURCE_OVERRIDES_KEY = "tunefree_source_overrides";
+
+/** 低于该分数的候选视为不同歌曲 */
+const MIN_MATCH_SCORE = 0.6;
+
+/** 候选含有这些标记而原曲没有时，多半是不同版本 */
+const VERSION_MARKERS = [
+  "live",
+  "remix",
+  "dj",
+  "伴奏",
+  "纯音乐",
+  "instrumental",
+  "karaoke",
+  "翻唱",
+  "cover",
+  "acoustic",
+  "demo",
+];
+
+export interface SongMatchCandidate {
+  song: Song;
+  score: number;
+}
+
+const UNKNOWN_ARTIST = "unknown artist";
+
+/**
+ * 标准化用于比较的文本：全角转半角、小写、去掉标点和空白。
+ */
+export const normalizeMatchText = (text: string): string =>
+  String(text || "")
+    .replace(/[！-～]/g, (ch) =>
+      String.fromCharCode(ch.charCodeAt(0) - 0xfee0),
+    )
+    .replace(/　/g, " ")
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]+/gu, "");
+
+/** 去掉括号内的附加信息（如「(Live)」「（电视剧主题曲）」）后再标准化 */
+const normalizeTitle = (name: string) =>
+  normalizeMatchText(
+    String(name || "").replace(/[(（[【<《].*?[)）\]】>》]/g, " ").split(/\s+-\s+/)[0],
+  ) || normalizeMatchText(name);
+
+const splitArtists = (artist: string): string[] =>
+  String(artist || "")
+    .split(/[/、,，&;；]|\s+(?:feat\.?|ft\.?|x)\s+/i)
+    .map(normalizeMatchText)
+    .filter((item) => item && item !== normalizeMatchText(UNKNOWN_ARTIST));
+
+/** 拆分多歌手字段，保留原始写法（用于以歌手名搜索） */
+export const splitArtistNames = (artist: string): string[] =>
+  String(artist || "")
+    .split(/[/、,，&;；]|\s+(?:feat\.?|ft\.?)\s+/i)
+    .map((name) => name.trim())
+    .filter((name) => name && name !== "未知歌手" && name.toLowerCase() !== UNKNOWN_ARTIST);
+
+/** 同一首歌在不同音源上 key 不同，按歌名 + 首位歌手去重 */
+export const getSongDedupeKey = (song: Song): string =>
+  `${normalizeMatchText(song.name)}|${normalizeMatchText(splitArtistNames(song.artist)[0] || "")}`;
+
+const collectVersionMarkers = (name: string) => {
+  const lower = String(name || "").toLowerCase();
+  return new Set(VERSION_MARKERS.filter((marker) => lower.includes(marker)));
+};
+
+/** 字符二元组 Dice 系数，适合中英文混合的短文本 */
+const diceSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return a.includes(b) || b.includes(a) ? 0.8 : 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const gram = a.slice(i, i + 2);
+    bigrams.set(gram, (bigrams.get(gram) || 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const gram = b.slice(i, i + 2);
+    const count = bigrams.get(gram) || 0;
+    if (count > 0) {
+      bigrams.set(gram, count - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (a.length + b.length - 2);
+};
+
+const artistOverlap = (original: string[], candidate: string[]): number => {
+  if (!original.length || !candidate.length) return -1;
+  const matched = original.filter((name) =>
+    candidate.some(
+      (other) => other === name || other.includes(name) || name.includes(other),
+    ),
+  );
+  return matched.length / original.length;
+};
+
+/**
+ * 计算候选与原曲的相似度（0~1）：歌名、歌手重合度、专辑、时长加权，
+ * 缺失的维度不参与计分。
+ */
+export const scoreSongMatch = (original: Song, candidate: Song): number => {
+  const nameScore = Math.max(
+    diceSimilarity(normalizeTitle(original.name), normalizeTitle(candidate.name)),
+    diceSimilarity(normalizeMatchText(original.name), normalizeMatchText(candidate.name)),
+  );
+  if (nameScore < 0.5) return 0;
+
+  const parts: Array<[score: number, weight: number]> = [[nameScore, 0.5]];
+
+  const artistScore = artistOverlap(
+    splitArtists(original.artist),
+    splitArtists(candidate.artist),
+  );
+  if (artistScore === 0) return 0;
+  if (artistScore > 0) parts.push([artistScore, 0.3]);
+
+  const originalAlbum = normalizeTitle(original.album);
+  const candidateAlbum = normalizeTitle(candidate.album);
+  if (originalAlbum && candidateAlbum) {
+    parts.push([diceSimilarity(originalAlbum, candidateAlbum), 0.1]);
+  }
+
+  if (original.duration && candidate.duration) {
+    const diff = Math.abs(original.duration - candidate.duration);
+    if (diff > 20) return 0;
+    parts.push([diff <= 3 ? 1 : diff <= 10 ? 0.5 : 0, 0.1]);
+  }
+
+  const totalWeight = parts.reduce((sum, [, weight]) => sum + weight, 0);
+  let score = parts.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight;
+
+  const originalMarkers = collectVersionMarkers(original.name);
+  const extraMarkers = Array.from(collectVersionMarkers(candidate.name)).filter(
+    (marker) => !originalMarkers.has(marker),
+  );
+  if (extraMarkers.length) score -= 0.45;
+
+  return Math.max(0, Math.min(1, score));
+};
+
+/**
+ * 在其他平台搜索与原曲匹配的歌曲，按分数从高到低返回。
+ * 默认只在参与聚合搜索的核心音源中查找，避免消耗 GD 音乐台的请求额度。
+ */
+export const findSongMatches = async (
+  song: Song,
+  options: { sources?: string[]; minScore?: number } = {},
+): Promise<SongMatchCandidate[]> => {
+  const sources = (
+    options.sources ||
+    listMusicSources((p) => p.capabilities.aggregate === "core").map((p) => p.id)
+  ).filter((source) => source !== song.source);
+  const minScore = options.minScore ?? MIN_MATCH_SCORE;
+  // 只带第一位歌手，多歌手拼接会让部分平台搜不到结果
+  const primaryArtist = splitArtists(song.artist).length
+    ? String(song.artist).split(/[/、,，&]/)[0].trim()
+    : "";
+  const keyword = `${song.name || ""} ${primaryArtist}`.trim();
+  if (!keyword) return [];
+
+  const results = await Promise.all(
+    sources.map(async (source) => {
+      const provider = getMusicSource(source);
+      if (!provider?.search) return [] as Song[];
+      try {
+        return await provider.search(keyword, 1, 10);
+      } catch {
+        return [] as Song[];
+      }
+    }),
+  );
+
+  return results
+    .flat()
+    .filter((candidate) => !String(candidate.id).startsWith("temp_"))
+    .map((candidate) => ({ song: candidate, score: scoreSongMatch(song, candidate) }))
+    .filter((candidate) => candidate.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * 依次尝试匹配到的候选，返回第一个可播放的替代歌曲及其地址。
+ */
+export const resolveAlternateSong = async (
+  song: Song,
+  quality: string,
+): Promise<{ song: Song; url: string } | null> => {
+  const matches = await findSongMatches(song);
+  for (const { song: candidate } of matches.slice(0, 5)) {
+    const url = await getSongUrl(candidate.id, candidate.source, quality).catch(
+      () => null,
+    );
+    if (url) return { song: candidate, url };
+  }
+  return null;
+};
+
+/**
+ * 按播放时的顺序解析可用地址：固定音源 → 原音源 → 跨平台匹配。
+ */
+export const resolvePlayableUrl = async (
+  song: Song,
+  quality: string,
+): Promise<string | null> => {
+  const override = getSourceOverride(song);
+  if (override) {
+    const url = await getSongUrl(override.id, override.source, quality).catch(() => null);
+    if (url) return url;
+  }
+  const url = await getSongUrl(song.id, song.source, quality).catch(() => null);
+  if (url) return url;
+  return (await resolveAlternateSong(song, quality))?.url || null;
+};
+
+// ==============================
+// 单曲固定音源
+// 用户可为某首歌指定「始终使用」的替代音源，收藏和队列中仍保留原始歌曲。
+// ==============================
+
+const readSourceOverrides = (): Record<string, Song> => {
+  try {
+    const raw = localStorage.getItem(SOURCE_OVERRIDES_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const getSourceOverride = (
+  song: Pick<Song, "id" | "source">,
+): Song | null => readSourceOverrides()[getSongKey(song)] || null;
+
+export const setSourceOverride = (
+  song: Pick<Song, "id" | "source">,
+  alternate: Song | null,
+): void => {
+  const overrides = readSourceOverrides();
+  const key = getSongKey(song);
+  if (alternate) {
+    overrides[key] = {
+      id: alternate.id,
+      name: alternate.name,
+      artist: alternate.artist,
+      album: alternate.album,
+      pic: alternate.pic,
+      source: alternate.source,
+      duration: alternate.duration,
+    };
+  } else {
+    delete overrides[key];
+  }
+  try {
+    localStorage.setItem(SOURCE_OVERRIDES_KEY, JSON.stringify(overrides));
+  } catch (e) {
+    console.warn("Failed to save source overrides", e);
+  }
+};
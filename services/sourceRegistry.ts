@@ -0,0 +1,173 @@
+import type { LyricBundle, Song, TopList } from "../types";
+
+// ==============================
+// 音源注册表
+// 各平台模块（netease / qq / kuwo / gdStudio）在加载时注册自身，
+// 搜索、榜单、歌词、播放地址等调用统一通过注册表分发。
+// ==============================
+
+export interface MusicSourceCapabilities {
+  /**
+   * 聚合搜索参与方式：
+   * - core：默认参与
+   * - extended：仅在开启「扩展源」时参与
+   * - false：不参与聚合搜索
+   */
+  aggregate: "core" | "extended" | false;
+  /** 原生接口取不到播放地址 / 歌词时，是否可由 GD 音乐台兜底 */
+  gdStudioFallback: boolean;
+}
+
+/** 平台歌单（用户分享的歌单导入等场景） */
+export interface SourcePlaylist {
+  id: string;
+  name: string;
+  cover?: string;
+  songs: Song[];
+}
+
+/** 歌单广场的分类（标签） */
+export interface SourcePlaylistCategory {
+  id: string;
+  name: string;
+  /** 所属分组（语种、风格、场景等） */
+  group?: string;
+}
+
+/** 歌单广场列表中的一项，点开后通过 playlistDetail 获取曲目 */
+export interface SourcePlaylistSummary {
+  id: string;
+  name: string;
+  cover?: string;
+  playCount?: number;
+  creator?: string;
+}
+
+/** 歌手搜索结果中的一项 */
+export interface SourceArtistSummary {
+  id: string;
+  name: string;
+  cover?: string;
+  albumCount?: number;
+}
+
+/** 专辑列表中的一项 */
+export interface SourceAlbumSummary {
+  id: string;
+  name: string;
+  cover?: string;
+  artist?: string;
+  /** 发行日期（YYYY-MM-DD） */
+  publishDate?: string;
+}
+
+/** 歌手页：基本信息、热门歌曲与专辑列表 */
+export interface SourceArtist {
+  id: string;
+  name: string;
+  cover?: string;
+  description?: string;
+  songs: Song[];
+  albums: SourceAlbumSummary[];
+}
+
+/** 专辑页：基本信息与完整曲目 */
+export interface SourceAlbum extends SourceAlbumSummary {
+  artist: string;
+  artistId?: string;
+  description?: string;
+  songs: Song[];
+}
+
+export interface MusicSourceProvider {
+  /** 音源标识，与 Song.source 一致 */
+  id: string;
+  /** 排序权重（越小越靠前），决定聚合结果交错顺序与各处音源列表顺序 */
+  order: number;
+  label: { short: string; full: string };
+  /** 来源角标的 Tailwind 样式 */
+  badgeClass: string;
+  capabilities: MusicSourceCapabilities;
+  search?: (keyword: string, page: number, limit: number) => Promise<Song[]>;
+  /** 按类型搜索歌手 / 专辑 / 歌单，结果用于打开对应详情页 */
+  searchArtists?: (keyword: string, page: number, limit: number) => Promise<SourceArtistSummary[]>;
+  searchAlbums?: (keyword: string, page: number, limit: number) => Promise<SourceAlbumSummary[]>;
+  searchPlaylists?: (keyword: string, page: number, limit: number) => Promise<SourcePlaylistSummary[]>;
+  /** 输入过程中的搜索建议 */
+  suggest?: (keyword: string) => Promise<string[]>;
+  /** 热门搜索词 */
+  hotKeywords?: () => Promise<string[]>;
+  topLists?: () => Promise<TopList[]>;
+  topListDetail?: (id: string | number) => Promise<Song[]>;
+  /** 分层歌词（原文 / 翻译 / 罗马音） */
+  lyrics?: (id: string | number) => Promise<LyricBundle>;
+  url?: (id: string | number, quality: string) => Promise<string | null>;
+  cover?: (
+    id: string | number,
+    songMeta?: Pick<Song, "pic" | "picId">,
+  ) => Promise<string>;
+  /** 从分享链接 / 分享文案中识别本平台歌单 ID，无法识别时返回 null */
+  parsePlaylistLink?: (input: string) => string | null;
+  /** 获取歌单完整曲目（内部分页拉取） */
+  playlistDetail?: (id: string) => Promise<SourcePlaylist | null>;
+  /** 平台推荐的相似歌曲（电台模式使用） */
+  similar?: (id: string | number) => Promise<Song[]>;
+  /** 歌单广场分类，第一项为默认分类（全部 / 推荐） */
+  playlistCategories?: () => Promise<SourcePlaylistCategory[]>;
+  /** 按分类分页获取歌单，page 从 1 开始 */
+  categoryPlaylists?: (
+    categoryId: string,
+    page: number,
+    limit: number,
+  ) => Promise<SourcePlaylistSummary[]>;
+  /** 歌手页数据，id 为 Song.artistId */
+  artistDetail?: (id: string) => Promise<SourceArtist | null>;
+  /** 专辑页数据，id 为 Song.albumId */
+  albumDetail?: (id: string) => Promise<SourceAlbum | null>;
+}
+
+const providers = new Map<string, MusicSourceProvider>();
+
+/**
+ * 注册音源。重复注册同一 id 时后注册的覆盖先注册的（便于 HMR）。
+ */
+export const registerMusicSource = (provider: MusicSourceProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getMusicSource = (
+  source: string,
+): MusicSourceProvider | undefined => providers.get(source);
+
+/**
+ * 按 order 排序返回已注册音源，可选过滤条件。
+ */
+export const listMusicSources = (
+  predicate?: (provider: MusicSourceProvider) => boolean,
+): MusicSourceProvider[] => {
+  const all = Array.from(providers.values()).sort((a, b) => a.order - b.order);
+  return predicate ? all.filter(predicate) : all;
+};
+
+// ==============================
+// 额外播放地址解析器
+// 音源自身 url 解析失败后依次尝试（如用户导入的 LX 自定义音源脚本）。
+// ==============================
+
+export interface ExtraUrlResolver {
+  id: string;
+  resolve: (
+    id: string | number,
+    source: string,
+    quality: string,
+  ) => Promise<string | null>;
+}
+
+const urlResolvers = new Map<string, ExtraUrlResolver>();
+
+export const registerUrlResolver = (resolver: ExtraUrlResolver): void => {
+  urlResolvers.set(resolver.id, resolver);
+};
+
+export const listUrlResolvers = (): ExtraUrlResolver[] =>
+  Array.from(urlResolvers.values());
@@ -144,6 +144,19 @@ export const findImage = (item: any): string => {
   return "";
 };
 
+/** 平台返回的歌手 / 专辑 ID 为 0 或空时视为缺失 */
+export const toOptionalId = (value: unknown): string | undefined =>
+  value === undefined || value === null || value === "" || value === 0 || value === "0"
+    ? undefined
+    : String(value);
+
+/** 时长换算为整数秒，ms 为 true 时按毫秒解析；无效值返回 undefined */
+export const toDurationSeconds = (value: unknown, ms = false): number | undefined => {
+  const raw = Number(value);
+  if (!Number.isFinite(raw) || raw <= 0) return undefined;
+  return Math.round(ms ? raw / 1000 : raw);
+};
+
 // ==============================
 // 原始数据提取
 // ==============================
@@ -322,6 +335,34 @@ export const normalizeSongs = (list: any[], platform: string): Song[] => {
       }
       pic = fixUrl(pic);
 
+      // ---- 歌手 / 专辑 ID（QQ 使用 mid）----
+      const artistList =
+        actualItem.ar || actualItem.artists || actualItem.singer || actualItem.singerList;
+      const firstArtist = Array.isArray(artistList) ? artistList[0] : null;
+      const albumInfo =
+        actualItem.al ||
+        (typeof actualItem.album === "object" ? actualItem.album : null);
+      const artistId = toOptionalId(
+        platform === "qq"
+          ? firstArtist?.mid
+          : firstArtist?.id ?? actualItem.artistid ?? actualItem.ARTISTID,
+      );
+      const albumId = toOptionalId(
+        platform === "qq"
+          ? albumInfo?.mid ?? actualItem.albummid ?? actualItem.album_mid
+          : albumInfo?.id ?? actualItem.albumid ?? actualItem.ALBUMID,
+      );
+
+      // ---- Duration（统一为秒）----
+      // 网易云 dt 为毫秒，QQ interval 为秒，其他平台 duration 可能是秒或毫秒
+      let duration = 0;
+      if (actualItem.dt) duration = Number(actualItem.dt) / 1000;
+      else if (actualItem.interval) duration = Number(actualItem.interval);
+      else if (actualItem.duration || actualItem.DURATION) {
+        const raw = Number(actualItem.duration || actualItem.DURATION);
+        duration = raw > 10000 ? raw / 1000 : raw;
+      }
+
       // 无法识别 ID 时生成临时 ID（播放时会被 parseSongFull 过滤）
       const finalId =
         id !== undefined ? id : `temp_${Math.random().toString(36).slice(2)}`;
@@ -339,6 +380,12 @@ export const normalizeSongs = (list: any[], platform: string): Song[] => {
         artist: String(artist || "Unknown Artist"),
         album: String(album || ""),
         pic: String(pic || ""),
+        duration:
+          Number.isFinite(duration) && duration > 0
+            ? Math.round(duration)
+            : undefined,
+        artistId,
+        albumId,
         isValidId: id !== undefined,
       };
     })
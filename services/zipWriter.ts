@@ -0,0 +1,194 @@
+// ==============================
+// 流式 ZIP 写入（仅存储，不压缩）
+// 音频本身已是压缩格式，再压缩几乎没有收益。每个条目写完立即交给 sink，
+// 不需要把整个压缩包保留在内存中；总大小超过 4GB 时自动使用 ZIP64 目录。
+// ==============================
+
+export interface ZipSink {
+  write: (chunk: Blob | Uint8Array) => Promise<void>;
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (crcTable) return crcTable;
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  crcTable = table;
+  return table;
+};
+
+export const crc32 = (bytes: Uint8Array): number => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date): { dosTime: number; dosDate: number } => ({
+  dosTime:
+    (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  dosDate:
+    ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+/** 64 位整数拆成低 / 高 32 位写入，size 最大到 2^53 */
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+};
+
+const textEncoder = new TextEncoder();
+
+export interface ZipWriter {
+  /** 追加一个文件。多次调用按调用顺序串行写入 */
+  add: (name: string, data: Blob | Uint8Array | string, date?: Date) => Promise<void>;
+  /** 写入中央目录并结束，之后不能再追加文件 */
+  close: () => Promise<void>;
+}
+
+export const createZipWriter = (sink: ZipSink): ZipWriter => {
+  let offset = 0;
+  let pending: Promise<void> = Promise.resolve();
+  let closed = false;
+  const entries: CentralEntry[] = [];
+
+  const writeEntry = async (name: string, data: Blob | Uint8Array | string, date: Date) => {
+    const bytes =
+      typeof data === "string"
+        ? textEncoder.encode(data)
+        : data instanceof Uint8Array
+          ? data
+          : new Uint8Array(await data.arrayBuffer());
+    if (bytes.length >= UINT32_MAX) throw new Error("单个文件超过 4GB");
+
+    const nameBytes = textEncoder.encode(name);
+    const crc = crc32(bytes);
+    const { dosTime, dosDate } = toDosDateTime(date);
+
+    const header = new Uint8Array(30 + nameBytes.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true); // version needed
+    view.setUint16(6, 0x0800, true); // UTF-8 文件名
+    view.setUint16(8, 0, true); // stored
+    view.setUint16(10, dosTime, true);
+    view.setUint16(12, dosDate, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, bytes.length, true);
+    view.setUint32(22, bytes.length, true);
+    view.setUint16(26, nameBytes.length, true);
+    view.setUint16(28, 0, true);
+    header.set(nameBytes, 30);
+
+    const entryOffset = offset;
+    await sink.write(header);
+    await sink.write(bytes);
+    offset += header.length + bytes.length;
+    entries.push({ name: nameBytes, crc, size: bytes.length, offset: entryOffset, dosTime, dosDate });
+  };
+
+  const writeCentralDirectory = async () => {
+    const directoryOffset = offset;
+    let directorySize = 0;
+
+    for (const entry of entries) {
+      const entryZip64 = entry.offset >= UINT32_MAX;
+      const extra = entryZip64 ? 12 : 0;
+      const record = new Uint8Array(46 + entry.name.length + extra);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, entryZip64 ? 45 : 20, true); // version made by
+      view.setUint16(6, entryZip64 ? 45 : 20, true); // version needed
+      view.setUint16(8, 0x0800, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, entry.dosTime, true);
+      view.setUint16(14, entry.dosDate, true);
+      view.setUint32(16, entry.crc, true);
+      view.setUint32(20, entry.size, true);
+      view.setUint32(24, entry.size, true);
+      view.setUint16(28, entry.name.length, true);
+      view.setUint16(30, extra, true);
+      view.setUint32(42, entryZip64 ? UINT32_MAX : entry.offset, true);
+      record.set(entry.name, 46);
+      if (entryZip64) {
+        const extraOffset = 46 + entry.name.length;
+        view.setUint16(extraOffset, 0x0001, true);
+        view.setUint16(extraOffset + 2, 8, true);
+        setUint64(view, extraOffset + 4, entry.offset);
+      }
+      await sink.write(record);
+      directorySize += record.length;
+    }
+
+    const count = entries.length;
+    const needsZip64 =
+      count >= UINT16_MAX || directoryOffset >= UINT32_MAX || directorySize >= UINT32_MAX;
+
+    if (needsZip64) {
+      const zip64EndOffset = directoryOffset + directorySize;
+      const tail = new Uint8Array(56 + 20);
+      const view = new DataView(tail.buffer);
+      view.setUint32(0, 0x06064b50, true);
+      setUint64(view, 4, 44);
+      view.setUint16(12, 45, true);
+      view.setUint16(14, 45, true);
+      setUint64(view, 24, count);
+      setUint64(view, 32, count);
+      setUint64(view, 40, directorySize);
+      setUint64(view, 48, directoryOffset);
+      view.setUint32(56, 0x07064b50, true);
+      setUint64(view, 64, zip64EndOffset);
+      view.setUint32(72, 1, true);
+      await sink.write(tail);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, needsZip64 ? UINT16_MAX : count, true);
+    view.setUint16(10, needsZip64 ? UINT16_MAX : count, true);
+    view.setUint32(12, needsZip64 ? UINT32_MAX : directorySize, true);
+    view.setUint32(16, needsZip64 ? UINT32_MAX : directoryOffset, true);
+    await sink.write(end);
+  };
+
+  return {
+    add: (name, data, date = new Date()) => {
+      if (closed) return Promise.reject(new Error("ZIP 已结束写入"));
+      const task = pending.then(() => writeEntry(name, data, date));
+      // 某个条目失败不影响后续条目
+      pending = task.catch(() => undefined);
+      return task;
+    },
+    close: () => {
+      if (!closed) {
+        closed = true;
+        pending = pending.then(writeCentralDirectory);
+      }
+      return pending;
+    },
+  };
+};
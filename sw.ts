@@ -0,0 +1,241 @@
+/// <reference lib="webworker" />
+
+// ==============================
+// Service Worker（构建时由 vite.config.ts 中的插件打包为 dist/sw.js）
+// - 预缓存应用外壳（index.html、构建产物、manifest 等），按构建版本隔离
+// - 封面图片与榜单 JSON 使用 stale-while-revalidate
+// - 离线且没有缓存的页面返回 offline.html
+// ==============================
+
+// 占位符，构建时替换为实际值
+declare const __SW_VERSION__: string;
+declare const __PRECACHE_URLS__: string[];
+
+export {};
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+const SHELL_CACHE = `tunefree-shell-${__SW_VERSION__}`;
+const COVER_CACHE = "tunefree-covers";
+const TOPLIST_CACHE = "tunefree-toplists";
+const CDN_CACHE = "tunefree-cdn";
+const RUNTIME_CACHES = [COVER_CACHE, TOPLIST_CACHE, CDN_CACHE];
+const OFFLINE_PAGE = "./offline.html";
+
+const MAX_COVER_ENTRIES = 300;
+const MAX_TOPLIST_ENTRIES = 60;
+const MAX_CDN_ENTRIES = 10;
+
+/** index.html 直接引用的外部脚本（Tailwind CDN），离线时缺失会导致页面无样式 */
+const CDN_HOSTS = ["cdn.tailwindcss.com"];
+
+/** 榜单相关上游接口（经 /api/cors-proxy 或第三方代理转发） */
+const TOPLIST_PATTERNS = [
+  /music\.163\.com\/api\/toplist/,
+  /music\.163\.com\/api\/v6\/playlist\/detail/,
+  /kbangserver\.kuwo\.cn/,
+];
+
+sw.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(__PRECACHE_URLS__)),
+  );
+});
+
+sw.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter(
+            (key) => key !== SHELL_CACHE && !RUNTIME_CACHES.includes(key),
+          )
+          .map((key) => caches.delete(key)),
+      );
+      await sw.clients.claim();
+    })(),
+  );
+});
+
+// 页面点击「刷新」后由新版本接管
+sw.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") void sw.skipWaiting();
+});
+
+const trimCache = async (cacheName: string, maxEntries: number) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  if (keys.length <= maxEntries) return;
+  await Promise.all(
+    keys.slice(0, keys.length - maxEntries).map((key) => cache.delete(key)),
+  );
+};
+
+/**
+ * 有缓存时立即返回并在后台更新；无缓存时等待网络。
+ * 默认只缓存可读（非 opaque）的成功响应，避免 opaque 响应虚增配额占用。
+ */
+const staleWhileRevalidate = async (
+  event: FetchEvent,
+  cacheName: string,
+  maxEntries: number,
+  cacheKey: Request | string,
+  networkRequest: () => Promise<Response>,
+  allowOpaque = false,
+): Promise<Response> => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(cacheKey);
+
+  const network = networkRequest()
+    .then(async (response) => {
+      if (response.ok || (allowOpaque && response.type === "opaque")) {
+        await cache.put(cacheKey, response.clone());
+        await trimCache(cacheName, maxEntries);
+      }
+      return response;
+    });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+};
+
+const getProxiedTarget = (url: URL): string => {
+  if (url.pathname.endsWith("/api/cors-proxy")) {
+    return url.searchParams.get("url") || "";
+  }
+  // 第三方代理形如 https://corsproxy.io/?<encoded url>
+  try {
+    return decodeURIComponent(url.search.slice(1));
+  } catch {
+    return "";
+  }
+};
+
+const handleNavigation = async (request: Request): Promise<Response> => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put("./", response.clone());
+    }
+    return response;
+  } catch {
+    const cache = await caches.open(SHELL_CACHE);
+    // HashRouter 下所有路由都落在 index.html 上
+    const shell =
+      (await cache.match(request, { ignoreSearch: true })) ||
+      (await cache.match("./")) ||
+      (await cache.match("./index.html"));
+    if (shell) return shell;
+    const offline = await cache.match(OFFLINE_PAGE);
+    return offline || Response.error();
+  }
+};
+
+const handleCover = (event: FetchEvent): Promise<Response> => {
+  const { request } = event;
+  return staleWhileRevalidate(
+    event,
+    COVER_CACHE,
+    MAX_COVER_ENTRIES,
+    request.url,
+    // 图片标签发出的跨域请求是 no-cors，这里改用 CORS 请求以便缓存；不支持 CORS 的图床退回原请求
+    () =>
+      fetch(request.url, {
+        mode: "cors",
+        credentials: "omit",
+        referrerPolicy: "no-referrer",
+      }).catch(() => fetch(request)),
+  );
+};
+
+const handleTopList = async (event: FetchEvent): Promise<Response> => {
+  const { request } = event;
+  let cacheKey = request.url;
+  if (request.method === "POST") {
+    // Cache API 不支持 POST，以请求体拼出稳定的缓存键（QQ 榜单走 musicu POST）
+    const body = await request.clone().text();
+    cacheKey = `${request.url}&__body=${encodeURIComponent(body)}`;
+  }
+  return staleWhileRevalidate(
+    event,
+    TOPLIST_CACHE,
+    MAX_TOPLIST_ENTRIES,
+    cacheKey,
+    () => fetch(request),
+  );
+};
+
+const isTopListRequest = async (request: Request, url: URL) => {
+  const target = getProxiedTarget(url);
+  if (!target) return false;
+  if (request.method === "GET") {
+    return TOPLIST_PATTERNS.some((pattern) => pattern.test(target));
+  }
+  if (request.method === "POST" && target.includes("u.y.qq.com/cgi-bin/musicu.fcg")) {
+    const body = await request.clone().text();
+    return body.includes("musicToplist.ToplistInfoServer");
+  }
+  return false;
+};
+
+sw.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (request.method === "GET" && request.destination === "image") {
+    event.respondWith(handleCover(event));
+    return;
+  }
+
+  if (request.method === "GET" && CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      staleWhileRevalidate(
+        event,
+        CDN_CACHE,
+        MAX_CDN_ENTRIES,
+        request,
+        () => fetch(request),
+        true,
+      ),
+    );
+    return;
+  }
+
+  // 音频（含 Range 请求）和其他接口直接走网络
+  if (request.destination === "audio" || request.headers.has("range")) return;
+
+  const isProxyRequest = /^https?:\/\//.test(getProxiedTarget(url));
+
+  if (isProxyRequest && (request.method === "GET" || request.method === "POST")) {
+    event.respondWith(
+      isTopListRequest(request, url).then((isTopList) =>
+        isTopList ? handleTopList(event) : fetch(request),
+      ),
+    );
+    return;
+  }
+
+  if (
+    request.method === "GET" &&
+    url.origin === sw.location.origin &&
+    !url.pathname.includes("/api/")
+  ) {
+    event.respondWith(
+      caches
+        .match(request, { ignoreSearch: true })
+        .then((cached) => cached || fetch(request)),
+    );
+  }
+});
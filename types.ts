@@ -12,6 +12,11 @@ export interface Song {
   lyricId?: string;
   source: 'netease' | 'qq' | 'kuwo' | string;
   types?: string[];
+  /** 时长（秒），部分平台搜索结果不提供 */
+  duration?: number;
+  /** 平台歌手 / 专辑 ID（QQ 为 mid），用于打开歌手页和专辑页 */
+  artistId?: string;
+  albumId?: string;
 }
 
 export const getSongKey = (song: Pick<Song, 'id' | 'source'>): string =>
@@ -25,13 +30,84 @@ export const isSameSong = (
   return getSongKey(a) === getSongKey(b);
 };
 
-export type PlayMode = 'sequence' | 'loop' | 'shuffle';
+/** sequence：顺序播放（播完最后一首停止）；loop：列表循环；loopOne：单曲循环；shuffle：随机播放 */
+export type PlayMode = 'sequence' | 'loop' | 'loopOne' | 'shuffle';
+
+export const PLAY_MODE_LABELS: Record<PlayMode, string> = {
+  sequence: '顺序播放',
+  loop: '列表循环',
+  loopOne: '单曲循环',
+  shuffle: '随机播放',
+};
 export type AudioQuality = '128k' | '320k' | 'flac' | 'flac24bit';
 
+/** 歌曲过渡设置：开启后使用 Web Audio 双 deck 引擎，同专辑曲目之间始终无缝衔接 */
+export interface CrossfadeSettings {
+  enabled: boolean;
+  /** 交叉淡化时长（秒），0 表示只做无缝衔接 */
+  seconds: number;
+}
+
+/**
+ * 睡眠定时：按时间定时记录结束时间戳；按歌曲数定时记录还需播完的歌曲数，
+ * remaining 为 1 表示当前歌曲播完后停止。
+ */
+export type SleepTimer =
+  | { mode: 'time'; endsAt: number }
+  | { mode: 'songs'; remaining: number };
+
+/**
+ * 随机播放状态：order 为按 seed 打乱后的歌曲 key 顺序，一轮播完后以 seed + 1 开始下一轮；
+ * history 为播放过的歌曲 key（最近的在末尾），供"上一首"回退。
+ */
+export interface ShuffleState {
+  seed: number;
+  order: string[];
+  history: string[];
+}
+
+/** 均衡器设置，增益单位为 dB */
+export interface EqualizerSettings {
+  enabled: boolean;
+  /** 当前预设 id；手动调节频段后为 "custom" */
+  preset: string;
+  /** 与 EQ_BANDS 一一对应的 10 个频段增益 */
+  gains: number[];
+  preamp: number;
+  /** 按歌曲响度自动调整音量（类似 ReplayGain） */
+  normalize: boolean;
+}
+
+export interface EqualizerPreset {
+  id: string;
+  name: string;
+  gains: number[];
+}
+
+/** 逐字歌词中的一个字 / 词，时间单位为秒 */
+export interface LyricWord {
+  time: number;
+  duration: number;
+  text: string;
+}
+
 export interface ParsedLyric {
   time: number;
   text: string;
   translation?: string;
+  romanization?: string;
+  /** 逐字时间轴（QRC / YRC / 增强 LRC），普通歌词没有 */
+  words?: LyricWord[];
+}
+
+/**
+ * 分层歌词：各层都是独立的 LRC 文本，播放时按时间戳对齐。
+ * 原文有逐字时间时为增强 LRC（见 services/lyricFormats.ts）。
+ */
+export interface LyricBundle {
+  original: string;
+  translation: string;
+  romanization: string;
 }
 
 export interface Playlist {
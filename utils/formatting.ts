@@ -19,3 +19,18 @@ export const formatBytes = (bytes: number): string => {
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
+
+export const formatListenDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}小时${minutes > 0 ? ` ${minutes}分` : ''}`;
+  if (minutes > 0) return `${minutes}分`;
+  return `${Math.round(seconds)}秒`;
+};
+
+/** 播放次数：超过一万显示为「x.x万」，超过一亿显示为「x.x亿」 */
+export const formatPlayCount = (count: number): string => {
+  if (count >= 1e8) return `${(count / 1e8).toFixed(1)}亿`;
+  if (count >= 1e4) return `${(count / 1e4).toFixed(1)}万`;
+  return String(Math.round(count));
+};
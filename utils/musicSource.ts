@@ -1,25 +1,32 @@
-export const EXTENDED_AGGREGATE_SOURCES = ["joox"] as const;
+import { getMusicSource, listMusicSources } from "../services/sourceRegistry";
+
 export const GD_STUDIO_ATTRIBUTION = "GD音乐台 (music.gdstudio.xyz)";
 export const GD_STUDIO_RATE_LIMIT_HINT = "5 分钟内不超过 50 次请求";
 
-const SOURCE_LABELS: Record<string, { short: string; full: string }> = {
-  netease: { short: "网易云", full: "网易云" },
-  qq: { short: "QQ", full: "QQ音乐" },
-  kuwo: { short: "酷我", full: "酷我音乐" },
-  joox: { short: "JOOX", full: "JOOX" },
-};
+/** 需要手动开启「扩展源」才参与聚合搜索的音源 */
+export const getExtendedAggregateSources = (): string[] =>
+  listMusicSources((p) => p.capabilities.aggregate === "extended").map(
+    (p) => p.id,
+  );
+
+/** 可在「指定源」搜索中选择的音源（不参与聚合的音源不单独开放） */
+export const getSearchableSources = (): string[] =>
+  listMusicSources(
+    (p) => typeof p.search === "function" && p.capabilities.aggregate !== false,
+  ).map((p) => p.id);
+
+/** 提供排行榜的音源 */
+export const getTopListSources = (): string[] =>
+  listMusicSources((p) => typeof p.topLists === "function").map((p) => p.id);
 
-const SOURCE_BADGE_CLASSES: Record<string, string> = {
-  netease: "bg-red-100 text-red-600",
-  qq: "bg-green-100 text-green-600",
-  kuwo: "bg-yellow-100 text-yellow-700",
-  joox: "bg-purple-100 text-purple-700",
-};
+/** 提供歌单广场的音源 */
+export const getPlaylistBrowseSources = (): string[] =>
+  listMusicSources((p) => typeof p.categoryPlaylists === "function").map((p) => p.id);
 
 export const getMusicSourceLabel = (
   source: string,
   variant: "short" | "full" = "short",
-): string => SOURCE_LABELS[source]?.[variant] || source;
+): string => getMusicSource(source)?.label[variant] || source;
 
 export const getMusicSourceBadgeClass = (source: string): string =>
-  SOURCE_BADGE_CLASSES[source] || "bg-gray-200 text-gray-600";
+  getMusicSource(source)?.badgeClass || "bg-gray-200 text-gray-600";
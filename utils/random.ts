@@ -0,0 +1,22 @@
+/** mulberry32：同一 seed 总是得到同一随机序列，返回 [0, 1) 的随机数 */
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
+
+/** 按 seed 做 Fisher–Yates 洗牌，返回新数组 */
+export const shuffleWithSeed = <T,>(items: T[], seed: number): T[] => {
+  const random = createSeededRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
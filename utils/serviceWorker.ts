@@ -0,0 +1,60 @@
+import { emitToast } from "../components/ToastHost";
+import { IS_LOCAL_DEV } from "../services/config";
+
+/**
+ * 注册构建产物中的 sw.js。检测到新版本等待激活时通过 Toast 提示用户刷新，
+ * 用户确认后新 Service Worker 接管并重新加载页面。
+ */
+export const registerServiceWorker = (): void => {
+  if (IS_LOCAL_DEV || !("serviceWorker" in navigator)) return;
+
+  let userAcceptedUpdate = false;
+
+  const promptUpdate = (worker: ServiceWorker) => {
+    emitToast("发现新版本", "info", {
+      label: "刷新",
+      onClick: () => {
+        userAcceptedUpdate = true;
+        worker.postMessage({ type: "SKIP_WAITING" });
+      },
+    });
+  };
+
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (!userAcceptedUpdate) return;
+    userAcceptedUpdate = false;
+    window.location.reload();
+  });
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("./sw.js")
+      .then((registration) => {
+        // 上次打开时已下载但未激活的新版本
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          promptUpdate(registration.waiting);
+        }
+
+        registration.addEventListener("updatefound", () => {
+          const installing = registration.installing;
+          if (!installing) return;
+          installing.addEventListener("statechange", () => {
+            // 首次安装（没有 controller）无需提示
+            if (installing.state === "installed" && navigator.serviceWorker.controller) {
+              promptUpdate(installing);
+            }
+          });
+        });
+
+        // PWA 常驻后台，回到前台时检查一次更新
+        document.addEventListener("visibilitychange", () => {
+          if (document.visibilityState === "visible") {
+            registration.update().catch(() => {});
+          }
+        });
+      })
+      .catch((error) => {
+        console.warn("Service worker registration failed:", error);
+      });
+  });
+};
@@ -1,9 +1,50 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SW_FILE_NAME = 'sw.js';
+
+// 入口 HTML 与 public/ 下需要随应用外壳一起预缓存的文件
+const PRECACHE_STATIC_FILES = ['index.html', 'manifest.json', 'favicon.svg', 'offline.html'];
+
+/** FNV-1a 32 位哈希，只用于生成构建版本号 */
+const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * 构建时把 sw.ts 打包为 dist/sw.js，并注入本次构建的预缓存清单和版本号。
+ * 版本号由产物文件名（含内容哈希）计算，内容不变时 Service Worker 不会触发更新。
+ */
+const serviceWorkerPlugin = (): Plugin => ({
+  name: 'tunefree-service-worker',
+  apply: 'build',
+  buildStart() {
+    this.emitFile({ type: 'chunk', id: 'sw.ts', fileName: SW_FILE_NAME });
+  },
+  generateBundle(_, bundle) {
+    const sw = bundle[SW_FILE_NAME];
+    if (!sw || sw.type !== 'chunk') return;
+
+    const assetFiles = Object.keys(bundle)
+      .filter((file) => file !== SW_FILE_NAME && !file.endsWith('.map'))
+      .sort();
+    const precacheFiles = Array.from(new Set([...assetFiles, ...PRECACHE_STATIC_FILES]));
+    const precacheUrls = ['./', ...precacheFiles.map((file) => `./${file}`)];
+
+    sw.code = sw.code
+      .replace(/__SW_VERSION__/g, JSON.stringify(hashString(assetFiles.join('\n'))))
+      .replace(/__PRECACHE_URLS__/g, JSON.stringify(precacheUrls));
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerPlugin()],
   optimizeDeps: {
     entries: ['index.html'],
   },